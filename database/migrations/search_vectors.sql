@@ -0,0 +1,69 @@
+-- Full-text search documents for /api/search
+-- Run after `npm run prisma:push` (which creates the "searchVector" columns and GIN indexes).
+-- Safe to re-run: it replaces the trigger functions and rebuilds every document, so run it
+-- again after changing the weights below.
+--
+-- Weights: A = titles, B = location and tags, C = descriptions and captions
+
+-- Events
+CREATE OR REPLACE FUNCTION event_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', concat_ws(' ', NEW."locationName", NEW.address, NEW.city, NEW.state, array_to_string(NEW.tags, ' '))), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS event_search_vector ON "public"."Event";
+CREATE TRIGGER event_search_vector
+  BEFORE INSERT OR UPDATE OF title, description, "locationName", address, city, state, tags
+  ON "public"."Event"
+  FOR EACH ROW EXECUTE FUNCTION event_search_vector_update();
+
+-- Galleries
+CREATE OR REPLACE FUNCTION gallery_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', coalesce(NEW.name, '')), 'A') ||
+    setweight(to_tsvector('english', array_to_string(NEW.tags, ' ')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS gallery_search_vector ON "public"."Gallery";
+CREATE TRIGGER gallery_search_vector
+  BEFORE INSERT OR UPDATE OF name, description, tags
+  ON "public"."Gallery"
+  FOR EACH ROW EXECUTE FUNCTION gallery_search_vector_update();
+
+-- Gallery images
+CREATE OR REPLACE FUNCTION gallery_image_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', array_to_string(NEW.tags, ' ')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW.caption, '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS gallery_image_search_vector ON "public"."GalleryImage";
+CREATE TRIGGER gallery_image_search_vector
+  BEFORE INSERT OR UPDATE OF title, caption, tags
+  ON "public"."GalleryImage"
+  FOR EACH ROW EXECUTE FUNCTION gallery_image_search_vector_update();
+
+-- Build documents for existing rows (the triggers fire on these no-op updates)
+UPDATE "public"."Event" SET title = title;
+UPDATE "public"."Gallery" SET name = name;
+UPDATE "public"."GalleryImage" SET title = title;
+
+-- Verify every row has a document
+SELECT 'Event' AS table_name, count(*) FILTER (WHERE "searchVector" IS NULL) AS missing FROM "public"."Event"
+UNION ALL
+SELECT 'Gallery', count(*) FILTER (WHERE "searchVector" IS NULL) FROM "public"."Gallery"
+UNION ALL
+SELECT 'GalleryImage', count(*) FILTER (WHERE "searchVector" IS NULL) FROM "public"."GalleryImage";
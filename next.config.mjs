@@ -1,10 +1,19 @@
+// Allow next/image to load from wherever storage serves files (S3, CloudFront, MinIO...)
+const storageOrigin = (() => {
+  try {
+    const { protocol, hostname, port } = new URL(process.env.S3_PUBLIC_BASE_URL || '');
+    return { protocol: protocol.replace(':', ''), hostname, ...(port && { port }) };
+  } catch {
+    return null;
+  }
+})();
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   experimental: { 
     serverActions: { bodySizeLimit: '10mb' },
     // Note: API routes handle body size limits differently
-    // Video uploads (up to 200MB) use FormData and are handled by the API route
-    // For very large files, consider implementing direct S3 uploads with presigned URLs
+    // Uploads go straight to storage with presigned multipart URLs (src/lib/uploads.ts)
     ...(process.env.NODE_ENV === 'production' && {
       // Production-specific configuration
     }),
@@ -23,7 +32,8 @@ const nextConfig = {
   images: {
     // if you later use next/image with remote patterns:
     remotePatterns: [
-      { protocol: 'https', hostname: 'thcmembersonlyclub.s3.us-west-2.amazonaws.com' }
+      { protocol: 'https', hostname: 'thcmembersonlyclub.s3.us-west-2.amazonaws.com' },
+      ...(storageOrigin ? [storageOrigin] : [])
     ],
     formats: ['image/webp', 'image/avif'],
     minimumCacheTTL: 60 * 60 * 24 * 30, // 30 days
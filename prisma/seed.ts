@@ -29,7 +29,18 @@ async function main() {
     }
   });
 
-  console.log("Seeded:", adminEmail, organizerEmail);
+  const tiers = [
+    { name: "General", description: "Everyday membership", benefits: ["Members-only events", "Early event announcements"] },
+    { name: "VIP", description: "For regulars", benefits: ["Everything in General", "VIP-only events", "Priority RSVPs"] },
+    { name: "Founder", description: "The club's earliest supporters", benefits: ["Everything in VIP", "Founder events and previews"] }
+  ];
+  await Promise.all(tiers.map((tier, sortOrder) => prisma.membershipTier.upsert({
+    where: { name: tier.name },
+    update: {},
+    create: { ...tier, sortOrder }
+  })));
+
+  console.log("Seeded:", adminEmail, organizerEmail, "and", tiers.length, "membership tiers");
 }
 
 main()
@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+
+// Prints a new ES256 key for MEMBER_CARD_PRIVATE_KEY, on one line so it pastes into env files.
+// Replacing the key invalidates every member card code already issued.
+const { generateKeyPairSync } = require('crypto');
+
+const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const pem = privateKey.export({ type: 'pkcs8', format: 'pem' }).trim();
+
+console.log(`MEMBER_CARD_PRIVATE_KEY="${pem.replace(/\n/g, '\\n')}"`);
@@ -0,0 +1,36 @@
+/**
+ * Find stored objects no image, document or video refers to (src/lib/storage-cleanup.ts):
+ *
+ *   npm run storage:reconcile                      # report only
+ *   npm run storage:reconcile -- --purge           # delete them
+ *   npm run storage:reconcile -- --prefix videos/  # only look under one prefix (repeatable)
+ *
+ * Objects from the last day are skipped, since their upload may not be saved yet.
+ */
+import { prisma } from "../src/lib/prisma";
+import { reconcileStorage } from "../src/lib/storage-cleanup";
+
+const args = process.argv.slice(2);
+const purge = args.includes("--purge");
+const prefixes = args.filter((_, i) => i > 0 && args[i - 1] === "--prefix");
+
+const megabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+async function main() {
+  const report = await reconcileStorage({ purge, prefixes: prefixes.length > 0 ? prefixes : undefined });
+
+  for (const object of report.orphans) {
+    console.log(`${object.key}\t${object.size}\t${object.lastModified?.toISOString() ?? ""}`);
+  }
+  console.log(`[storage] Scanned ${report.scanned} object(s) under ${report.prefixes.join(", ")}`);
+  console.log(`[storage] ${report.orphans.length} orphan(s), ${megabytes(report.orphanBytes)}; ${report.recent} too recent to judge`);
+  if (purge) console.log(`[storage] Deleted ${report.purged} orphan(s)`);
+  else if (report.orphans.length > 0) console.log("[storage] Run again with --purge to delete them");
+}
+
+main()
+  .catch((error) => {
+    console.error("[storage] Reconciliation failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,61 @@
+/**
+ * Background job worker (src/lib/jobs.ts). Run one or more alongside the web app:
+ *
+ *   npm run worker
+ *
+ * Polls the Job table until SIGINT/SIGTERM, finishing the batch in hand before exiting.
+ */
+import { prisma } from "../src/lib/prisma";
+import { defaultWorkerId, releaseStaleJobs, runJobs } from "../src/lib/jobs";
+
+const POLL_INTERVAL_MS = Number(process.env.WORKER_POLL_INTERVAL_MS) || 2000;
+const STALE_CHECK_INTERVAL_MS = 60 * 1000;
+const BATCH_SIZE = Number(process.env.WORKER_BATCH_SIZE) || 5;
+
+const workerId = defaultWorkerId();
+let stopping = false;
+let wake: (() => void) | null = null;
+
+function stop(signal: string) {
+  console.log(`[worker] ${signal} received, stopping after the current batch`);
+  stopping = true;
+  wake?.();
+}
+process.on("SIGINT", () => stop("SIGINT"));
+process.on("SIGTERM", () => stop("SIGTERM"));
+
+const sleep = (ms: number) => new Promise<void>((resolve) => {
+  const timer = setTimeout(resolve, ms);
+  wake = () => { clearTimeout(timer); resolve(); };
+});
+
+async function main() {
+  console.log(`[worker] ${workerId} polling every ${POLL_INTERVAL_MS}ms`);
+  let lastStaleCheck = 0;
+
+  while (!stopping) {
+    let ran = 0;
+    try {
+      if (Date.now() - lastStaleCheck >= STALE_CHECK_INTERVAL_MS) {
+        const released = await releaseStaleJobs();
+        if (released > 0) console.log(`[worker] Released ${released} stale job(s)`);
+        lastStaleCheck = Date.now();
+      }
+
+      const result = await runJobs({ limit: BATCH_SIZE, workerId });
+      ran = result.ran;
+      if (ran > 0) console.log(`[worker] Ran ${ran} job(s), ${result.failed} failed`);
+    } catch (error) {
+      console.error("[worker] Error polling jobs:", error);
+    }
+    // Keep going straight away while there's a backlog
+    if (ran === 0 && !stopping) await sleep(POLL_INTERVAL_MS);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("[worker] Fatal error:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
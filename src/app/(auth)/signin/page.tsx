@@ -2,12 +2,14 @@
 import { useState } from "react";
 import { signIn, getSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
+import NextLink from "next/link";
 import { 
   Box, 
   Button, 
   FormControl, 
   FormLabel, 
   Input, 
+  Link,
   VStack, 
   Heading, 
   Text, 
@@ -68,7 +70,9 @@ export default function SignInPage() {
           status: "success",
           duration: 3000,
         });
-        router.push("/dashboard");
+        // Members have no dashboard; their home is the account page
+        const session = await getSession();
+        router.push((session as any)?.role === "MEMBER" ? "/account" : "/dashboard");
       }
     } catch (error) {
       console.error("Sign in error:", error);
@@ -143,6 +147,10 @@ export default function SignInPage() {
             </VStack>
           </Box>
 
+          <Text fontSize="sm" color="gray.600">
+            Not a member yet?{" "}
+            <Link as={NextLink} href="/signup" color="green.600" fontWeight="600">Join the club</Link>
+          </Text>
         </VStack>
       </Box>
     </Box>
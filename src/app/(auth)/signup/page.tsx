@@ -0,0 +1,159 @@
+"use client";
+import { useState } from "react";
+import { signIn } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import NextLink from "next/link";
+import {
+  Box,
+  Button,
+  FormControl,
+  FormErrorMessage,
+  FormHelperText,
+  FormLabel,
+  Input,
+  Link,
+  VStack,
+  Heading,
+  Text,
+  useToast,
+  Alert,
+  AlertIcon
+} from "@chakra-ui/react";
+import { MINIMUM_MEMBER_AGE, signUpSchema } from "@/lib/validation";
+
+type FieldErrors = Partial<Record<"name" | "email" | "password" | "dateOfBirth", string[]>>;
+
+export default function SignUpPage() {
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [dateOfBirth, setDateOfBirth] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const router = useRouter();
+  const toast = useToast();
+
+  const handleSignUp = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    const values = { name, email: email.trim().toLowerCase(), password, dateOfBirth };
+    const parsed = signUpSchema.safeParse(values);
+    if (!parsed.success) {
+      setFieldErrors(parsed.error.flatten().fieldErrors);
+      return;
+    }
+    setFieldErrors({});
+
+    setIsLoading(true);
+    try {
+      const res = await fetch("/api/auth/signup", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(values)
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        if (data.error?.fieldErrors) {
+          setFieldErrors(data.error.fieldErrors);
+          return;
+        }
+        setError(typeof data.error === "string" ? data.error : "Sign up failed. Please try again.");
+        return;
+      }
+
+      toast({
+        title: "Welcome to the club!",
+        description: "Check your inbox for a link to verify your email.",
+        status: "success",
+        duration: 6000,
+      });
+
+      const result = await signIn("credentials", { email: values.email, password, redirect: false });
+      router.push(result?.ok ? "/account" : "/signin");
+    } catch (error) {
+      console.error("Sign up error:", error);
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Box minH="100vh" bg="gray.50" py={20}>
+      <Box maxW="md" mx="auto" bg="white" p={8} borderRadius="xl" boxShadow="lg">
+        <VStack spacing={6}>
+          <Heading size="lg">Become a Member</Heading>
+          <Text color="gray.600" textAlign="center" fontSize="sm">
+            Membership is free and open to adults {MINIMUM_MEMBER_AGE} and over.
+          </Text>
+
+          {error && (
+            <Alert status="error" borderRadius="md">
+              <AlertIcon />
+              {error}
+            </Alert>
+          )}
+
+          <Box as="form" onSubmit={handleSignUp} w="100%">
+            <VStack spacing={4}>
+              <FormControl isRequired isInvalid={!!fieldErrors.name}>
+                <FormLabel>Name</FormLabel>
+                <Input value={name} onChange={(e) => setName(e.target.value)} autoComplete="name" disabled={isLoading} />
+                <FormErrorMessage>{fieldErrors.name?.[0]}</FormErrorMessage>
+              </FormControl>
+
+              <FormControl isRequired isInvalid={!!fieldErrors.email}>
+                <FormLabel>Email</FormLabel>
+                <Input type="email" value={email} onChange={(e) => setEmail(e.target.value)} autoComplete="email" disabled={isLoading} />
+                <FormErrorMessage>{fieldErrors.email?.[0]}</FormErrorMessage>
+              </FormControl>
+
+              <FormControl isRequired isInvalid={!!fieldErrors.password}>
+                <FormLabel>Password</FormLabel>
+                <Input type="password" value={password} onChange={(e) => setPassword(e.target.value)} autoComplete="new-password" disabled={isLoading} />
+                {fieldErrors.password
+                  ? <FormErrorMessage>{fieldErrors.password[0]}</FormErrorMessage>
+                  : <FormHelperText>At least 8 characters</FormHelperText>}
+              </FormControl>
+
+              <FormControl isRequired isInvalid={!!fieldErrors.dateOfBirth}>
+                <FormLabel>Date of Birth</FormLabel>
+                <Input type="date" value={dateOfBirth} onChange={(e) => setDateOfBirth(e.target.value)} autoComplete="bday" disabled={isLoading} />
+                {fieldErrors.dateOfBirth
+                  ? <FormErrorMessage>{fieldErrors.dateOfBirth[fieldErrors.dateOfBirth.length - 1]}</FormErrorMessage>
+                  : <FormHelperText>You may be asked for ID matching this at events</FormHelperText>}
+              </FormControl>
+
+              <Button
+                type="submit"
+                w="100%"
+                bg="linear-gradient(135deg, #22c55e 0%, #16a34a 100%)"
+                color="white"
+                shadow="md"
+                fontWeight="600"
+                isLoading={isLoading}
+                loadingText="Creating account..."
+                _hover={{
+                  bg: "linear-gradient(135deg, #16a34a 0%, #15803d 100%)",
+                  transform: "translateY(-2px)",
+                  shadow: "lg"
+                }}
+                transition="all 0.3s ease-in-out"
+              >
+                Join
+              </Button>
+            </VStack>
+          </Box>
+
+          <Text fontSize="sm" color="gray.600">
+            Already a member?{" "}
+            <Link as={NextLink} href="/signin" color="green.600" fontWeight="600">Sign in</Link>
+          </Text>
+        </VStack>
+      </Box>
+    </Box>
+  );
+}
@@ -66,7 +66,17 @@ export default async function CoordinationPage() {
       title: true,
       slug: true,
       startAt: true,
-      owner: { select: { name: true, email: true } }
+      owner: { select: { name: true, email: true } },
+      venue: {
+        select: {
+          name: true,
+          address: true,
+          city: true,
+          state: true,
+          staffParkingAddress: true,
+          staffParkingNotes: true
+        }
+      }
     },
     orderBy: { startAt: "desc" }
   });
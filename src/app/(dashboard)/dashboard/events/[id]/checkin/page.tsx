@@ -0,0 +1,26 @@
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { canEditEvent } from "@/lib/rbac";
+import CheckInClient from "@/components/events/CheckInClient";
+
+// Force dynamic rendering to prevent caching issues
+export const dynamic = 'force-dynamic';
+
+export default async function EventCheckInPage({ params }: { params: { id: string } }) {
+  const session = await getServerAuthSession();
+  if (!session?.user?.email) redirect("/signin");
+
+  const me = await prisma.user.findUnique({ where: { email: session.user.email }});
+  if (!me) redirect("/signin");
+
+  const event = await prisma.event.findUnique({ where: { id: params.id } });
+  if (!event) redirect("/dashboard/events");
+
+  // Door staff need the same access as event editors
+  if (!canEditEvent(event, me.id, me.role)) {
+    redirect("/dashboard/events");
+  }
+
+  return <CheckInClient eventId={event.id} eventTitle={event.title} />;
+}
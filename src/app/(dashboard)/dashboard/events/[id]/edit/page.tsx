@@ -2,10 +2,15 @@ import { prisma } from "@/lib/prisma";
 import { getServerAuthSession } from "@/lib/auth";
 import { redirect } from "next/navigation";
 import EventForm from "@/components/events/EventForm";
-import { Box, Heading, Text, VStack } from "@chakra-ui/react";
+import AttendeeList from "@/components/events/AttendeeList";
+import EventHistory from "@/components/events/EventHistory";
+import SurveyBuilder from "@/components/surveys/SurveyBuilder";
+import { Alert, AlertDescription, AlertIcon, Box, Button, Heading, Text, Tabs, TabList, Tab, TabPanels, TabPanel } from "@chakra-ui/react";
+import Link from "next/link";
 import type { z } from "zod";
 import { createEventSchema } from "@/lib/validation";
 import { canEditEvent } from "@/lib/rbac";
+import { utcToZonedInput } from "@/lib/timezone";
 
 export default async function EditEventPage({ params }: { params: { id: string } }) {
   const session = await getServerAuthSession();
@@ -16,7 +21,7 @@ export default async function EditEventPage({ params }: { params: { id: string }
   
   const event = await prisma.event.findUnique({ 
     where: { id: params.id }, 
-    include: { heroImage: true, images: true }
+    include: { heroImage: true, images: true, waivers: { select: { id: true } } }
   });
   
   if (!event) redirect("/dashboard/events");
@@ -26,26 +31,34 @@ export default async function EditEventPage({ params }: { params: { id: string }
     redirect("/dashboard/events");
   }
 
-  // Format dates for datetime-local inputs
-  const formatDateForInput = (date: Date) => {
-    return new Date(date).toISOString().slice(0, 16);
-  };
+  // Format dates for datetime-local inputs as wall-clock times in the event's timezone
+  const formatDateForInput = (date: Date) => utcToZonedInput(date, event.timezone);
 
   const initialData: Partial<z.infer<typeof createEventSchema>> = {
     title: event.title,
     description: event.description || "",
     ticketUrl: event.ticketUrl || "",
     buttonType: event.buttonType as "RSVP" | "BUY_TICKETS",
+    category: (event.category || "") as z.infer<typeof createEventSchema>["category"],
+    tags: event.tags,
     locationName: event.locationName || "",
     address: event.address || "",
     city: event.city || "",
     state: event.state || "",
-    latitude: event.latitude || undefined,
-    longitude: event.longitude || undefined,
+    latitude: event.latitude ?? undefined,
+    longitude: event.longitude ?? undefined,
+    venueId: event.venueId || "",
     startAt: formatDateForInput(event.startAt),
     endAt: event.endAt ? formatDateForInput(event.endAt) : "",
     timezone: event.timezone,
     status: event.status,
+    capacity: event.capacity,
+    waitlistEnabled: event.waitlistEnabled,
+    access: event.access,
+    tierIds: event.tierIds,
+    waiverIds: event.waivers.map((waiver: { id: string }) => waiver.id),
+    publishAt: event.publishAt ? formatDateForInput(event.publishAt) : "",
+    unpublishAt: event.unpublishAt ? formatDateForInput(event.unpublishAt) : "",
     heroImageId: event.heroImageId || undefined
   };
 
@@ -55,17 +68,63 @@ export default async function EditEventPage({ params }: { params: { id: string }
         <Heading size="lg" mb={2}>Edit Event</Heading>
         <Text color="gray.600" fontSize="sm">Update your event details</Text>
       </Box>
+
+      {event.geocodeStatus === "FAILED" && (
+        <Alert status="warning" borderRadius="md" mb={4}>
+          <AlertIcon />
+          <AlertDescription fontSize="sm">
+            We couldn&apos;t find this location on the map{event.geocodeError ? ` (${event.geocodeError})` : ""}.
+            Check the location details, or enter the latitude and longitude by hand.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {event.seriesId && (
+        <Alert status="info" borderRadius="md" mb={4}>
+          <AlertIcon />
+          <AlertDescription flex={1} fontSize="sm">
+            {event.detachedFromSeries
+              ? `This ${event.occurrenceDate} occurrence was edited individually, so series changes no longer apply to it.`
+              : `This is the ${event.occurrenceDate} occurrence of a series. Saving changes here detaches it from later series edits.`}
+          </AlertDescription>
+          <Button as={Link} href={`/dashboard/events/series/${event.seriesId}`} size="sm" variant="outline">
+            Manage Series
+          </Button>
+        </Alert>
+      )}
       
-      <EventForm 
-        initial={initialData} 
-        mode="edit" 
-        eventId={event.id} 
-        existingImages={event.images?.map((img: { id: string; variants: any }) => ({
-          id: img.id,
-          variants: img.variants,
-          fileName: `image-${img.id.slice(-8)}` // Generate a filename since we don't store original names
-        })) || []}
-      />
+      <Tabs variant="enclosed" colorScheme="teal" isLazy>
+        <TabList>
+          <Tab>Details</Tab>
+          <Tab>Attendees</Tab>
+          <Tab>Survey</Tab>
+          <Tab>History</Tab>
+        </TabList>
+        <TabPanels>
+          <TabPanel px={0}>
+            <EventForm 
+              initial={initialData} 
+              mode="edit" 
+              eventId={event.id} 
+              updatedAt={event.updatedAt.toISOString()}
+              existingImages={event.images?.map((img: { id: string; variants: any }) => ({
+                id: img.id,
+                variants: img.variants,
+                fileName: `image-${img.id.slice(-8)}` // Generate a filename since we don't store original names
+              })) || []}
+            />
+          </TabPanel>
+          <TabPanel px={0}>
+            <AttendeeList eventId={event.id} eventSlug={event.slug} />
+          </TabPanel>
+          <TabPanel px={0}>
+            <SurveyBuilder eventId={event.id} />
+          </TabPanel>
+          <TabPanel px={0}>
+            <EventHistory eventId={event.id} />
+          </TabPanel>
+        </TabPanels>
+      </Tabs>
     </Box>
   );
 }
@@ -2,7 +2,6 @@ import { prisma } from "@/lib/prisma";
 import { getServerAuthSession } from "@/lib/auth";
 import { redirect } from "next/navigation";
 import EventGrid from "@/components/events/EventGrid";
-import { autoArchivePastEvents } from "@/lib/utils";
 import { Button, HStack, Heading, Box, Text, VStack, Tabs, TabList, Tab, TabPanels, TabPanel } from "@chakra-ui/react";
 import Link from "next/link";
 import { Event, Image, User } from "@prisma/client";
@@ -17,9 +16,6 @@ export default async function DashboardEventsPage() {
   // Admins and Organizers can see all events, others only see their own
   const canManageAllEvents = me.role === "ADMIN" || me.role === "ORGANIZER";
   
-  // Auto-archive past PUBLISHED events before fetching
-  await autoArchivePastEvents();
-  
   // Show current and upcoming non-archived events
   // DRAFT events are shown regardless of date, PUBLISHED events must be upcoming
   const now = new Date();
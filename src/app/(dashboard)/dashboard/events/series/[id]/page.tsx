@@ -0,0 +1,102 @@
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import EventForm from "@/components/events/EventForm";
+import SeriesOccurrences from "@/components/events/SeriesOccurrences";
+import { Box, Heading, Text, Tabs, TabList, Tab, TabPanels, TabPanel } from "@chakra-ui/react";
+import type { Event } from "@prisma/client";
+import type { z } from "zod";
+import { createEventSchema } from "@/lib/validation";
+import { canEditEvent } from "@/lib/rbac";
+import { fromSeriesRecurrence } from "@/lib/series";
+import { describeRecurrence } from "@/lib/recurrence";
+
+export default async function EditSeriesPage({ params }: { params: { id: string } }) {
+  const session = await getServerAuthSession();
+  if (!session?.user?.email) redirect("/signin");
+
+  const me = await prisma.user.findUnique({ where: { email: session.user.email }});
+  if (!me) redirect("/signin");
+
+  const series = await prisma.eventSeries.findUnique({
+    where: { id: params.id },
+    include: {
+      events: {
+        orderBy: { startAt: "asc" },
+        include: { _count: { select: { registrations: { where: { status: "CONFIRMED" } } } } }
+      }
+    }
+  });
+
+  if (!series) redirect("/dashboard/events");
+  if (!canEditEvent(series, me.id, me.role)) redirect("/dashboard/events");
+
+  // The schedule is stored as a local date, time and duration; rebuild the datetime-local values
+  const startAt = `${series.startDate}T${series.startTime}`;
+  const endAt = series.durationMinutes
+    ? new Date(Date.parse(`${startAt}Z`) + series.durationMinutes * 60000).toISOString().slice(0, 16)
+    : "";
+
+  const initialData: Partial<z.infer<typeof createEventSchema>> = {
+    title: series.title,
+    description: series.description || "",
+    ticketUrl: series.ticketUrl || "",
+    buttonType: series.buttonType as "RSVP" | "BUY_TICKETS",
+    category: (series.category || "") as z.infer<typeof createEventSchema>["category"],
+    tags: series.tags,
+    locationName: series.locationName || "",
+    address: series.address || "",
+    city: series.city || "",
+    state: series.state || "",
+    startAt,
+    endAt,
+    timezone: series.timezone,
+    status: series.status,
+    capacity: series.capacity,
+    waitlistEnabled: series.waitlistEnabled,
+    access: series.access,
+    tierIds: series.tierIds,
+    heroImageId: series.heroImageId || undefined
+  };
+
+  return (
+    <Box maxW="4xl" mx="auto">
+      <Box textAlign="center" mb={6}>
+        <Heading size="lg" mb={2}>{series.title}</Heading>
+        <Text color="gray.600" fontSize="sm">{describeRecurrence(series.rrule, series.customDates)}</Text>
+      </Box>
+
+      <Tabs variant="enclosed" colorScheme="teal" isLazy>
+        <TabList>
+          <Tab>Occurrences</Tab>
+          <Tab>Series Details</Tab>
+        </TabList>
+        <TabPanels>
+          <TabPanel px={0}>
+            <SeriesOccurrences
+              seriesId={series.id}
+              timezone={series.timezone}
+              occurrences={series.events.map((event: Event & { _count: { registrations: number } }) => ({
+                id: event.id,
+                slug: event.slug,
+                startAt: event.startAt.toISOString(),
+                status: event.status,
+                occurrenceDate: event.occurrenceDate,
+                detachedFromSeries: event.detachedFromSeries,
+                confirmedCount: event._count.registrations
+              }))}
+            />
+          </TabPanel>
+          <TabPanel px={0}>
+            <EventForm
+              initial={initialData}
+              mode="series"
+              seriesId={series.id}
+              initialRecurrence={fromSeriesRecurrence(series)}
+            />
+          </TabPanel>
+        </TabPanels>
+      </Tabs>
+    </Box>
+  );
+}
@@ -15,6 +15,9 @@ export default async function DashboardLayout({
   if (!session?.user?.email) {
     redirect("/signin");
   }
+  if ((session as any).role === "MEMBER") {
+    redirect("/account");
+  }
 
   return (
     <div className="min-h-screen bg-gray-50">
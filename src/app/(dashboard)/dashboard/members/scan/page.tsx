@@ -0,0 +1,33 @@
+import { redirect } from "next/navigation";
+import { Alert, AlertIcon, Container } from "@chakra-ui/react";
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { isStaff } from "@/lib/rbac";
+import { getMemberCardPublicKey } from "@/lib/member-card-signing";
+import MemberCardScanner from "@/components/members/MemberCardScanner";
+
+export const dynamic = 'force-dynamic';
+
+export default async function ScanMemberCardsPage() {
+  const session = await getServerAuthSession();
+  if (!session?.user?.email) redirect("/signin");
+
+  const me = await prisma.user.findUnique({ where: { email: session.user.email }, select: { role: true } });
+  if (!me || !isStaff(me.role)) redirect("/signin");
+
+  // Scanning only needs the public key, so it keeps working once this page has loaded
+  const publicKey = await getMemberCardPublicKey();
+
+  return (
+    <Container maxW="lg" py={8}>
+      {publicKey ? (
+        <MemberCardScanner publicKey={publicKey} />
+      ) : (
+        <Alert status="warning" borderRadius="md">
+          <AlertIcon />
+          Member cards aren&apos;t set up: MEMBER_CARD_PRIVATE_KEY is missing.
+        </Alert>
+      )}
+    </Container>
+  );
+}
@@ -2,7 +2,8 @@ import { prisma } from "@/lib/prisma";
 import { getServerAuthSession } from "@/lib/auth";
 import { redirect } from "next/navigation";
 import EventGrid from "@/components/events/EventGrid";
-import { autoArchivePastEvents } from "@/lib/utils";
+import ScheduledTransitions from "@/components/events/ScheduledTransitions";
+import GeocodingIssues from "@/components/events/GeocodingIssues";
 import { Button, HStack, Heading, Box, Text, VStack, SimpleGrid, Card, CardBody, CardHeader, Container, Badge } from "@chakra-ui/react";
 import Link from "next/link";
 
@@ -17,9 +18,6 @@ export default async function DashboardPage() {
     // Admins and Organizers can see all events, others only see their own
     const canManageAllEvents = me.role === "ADMIN" || me.role === "ORGANIZER";
     
-    // Auto-archive past PUBLISHED events before fetching
-    await autoArchivePastEvents();
-    
     // Show current and upcoming non-archived events for management
     // DRAFT events are shown regardless of date, PUBLISHED events must be upcoming
     const now = new Date();
@@ -36,6 +34,31 @@ export default async function DashboardPage() {
       orderBy: { startAt: "desc" }
     });
 
+    // Upcoming publish/unpublish times the scheduler will apply
+    const scheduled = await prisma.event.findMany({
+      where: {
+        ...(canManageAllEvents ? {} : { ownerId: me.id }),
+        OR: [
+          { publishAt: { gt: now } },
+          { unpublishAt: { gt: now } }
+        ]
+      },
+      select: { id: true, title: true, status: true, timezone: true, publishAt: true, unpublishAt: true },
+      orderBy: { startAt: "asc" },
+      take: 20
+    });
+
+    // Locations the geocoder couldn't place; organizers fix these by hand
+    const geocodingIssues = await prisma.event.findMany({
+      where: {
+        ...(canManageAllEvents ? {} : { ownerId: me.id }),
+        geocodeStatus: "FAILED",
+        status: { in: ["DRAFT", "PUBLISHED"] }
+      },
+      select: { id: true, title: true, locationName: true, city: true, state: true, geocodeError: true },
+      orderBy: { startAt: "asc" },
+      take: 20
+    });
 
     // Get coordinations - admins and organizers can see all, others only their own
     const coordinations = await prisma.coordination.findMany({
@@ -310,6 +333,20 @@ export default async function DashboardPage() {
           </SimpleGrid>
         </Box>
 
+        {/* Scheduled publish/unpublish */}
+        {scheduled.length > 0 && (
+          <Box w="full" px={{ base: 2, sm: 4, md: 0 }}>
+            <ScheduledTransitions events={scheduled} />
+          </Box>
+        )}
+
+        {/* Events missing map coordinates */}
+        {geocodingIssues.length > 0 && (
+          <Box w="full" px={{ base: 2, sm: 4, md: 0 }}>
+            <GeocodingIssues events={geocodingIssues} />
+          </Box>
+        )}
+
         {/* Recent Events */}
         <Box w="full" px={{ base: 2, sm: 4, md: 0 }}>
           <Box 
@@ -0,0 +1,209 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Box,
+  Heading,
+  Text,
+  Container,
+  VStack,
+  Select,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Link,
+  useToast,
+  Spinner,
+  Center,
+  Flex,
+} from "@chakra-ui/react";
+import NextLink from "next/link";
+
+interface Scores {
+  responses: number;
+  responseRate: number | null;
+  averageRating: number | null;
+  attendAgainRate: number | null;
+}
+
+interface GroupRow extends Scores {
+  key: string;
+  label: string;
+  events: number;
+}
+
+interface EventRow extends Scores {
+  eventId: string;
+  title: string;
+  startAt: string;
+  category: string | null;
+  venue: { id: string; name: string } | null;
+}
+
+interface ComparisonResponse {
+  events: EventRow[];
+  byCategory: GroupRow[];
+  byVenue: GroupRow[];
+}
+
+const PERIODS = [
+  { value: "", label: "All time" },
+  { value: "3", label: "Last 3 months" },
+  { value: "12", label: "Last 12 months" },
+];
+
+const formatPercent = (rate: number | null) => (rate == null ? "—" : `${Math.round(rate * 100)}%`);
+const formatRating = (rating: number | null) => (rating == null ? "—" : rating.toFixed(1));
+
+function monthsAgo(months: number) {
+  const date = new Date();
+  date.setMonth(date.getMonth() - months);
+  return date.toISOString().slice(0, 10);
+}
+
+function ScoreTable({ title, rows }: { title: string; rows: GroupRow[] }) {
+  return (
+    <Box bg="white" p={{ base: 4, md: 6 }} borderRadius="xl" boxShadow="sm">
+      <Heading size="md" mb={4} fontFamily="'SUSE Mono', monospace" fontWeight="600">{title}</Heading>
+      <Box overflowX="auto">
+        <Table variant="simple" size="sm">
+          <Thead bg="gray.50">
+            <Tr>
+              <Th></Th>
+              <Th isNumeric>Events</Th>
+              <Th isNumeric>Responses</Th>
+              <Th isNumeric>Response rate</Th>
+              <Th isNumeric>Avg rating</Th>
+              <Th isNumeric>Would return</Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {rows.map((row) => (
+              <Tr key={row.key}>
+                <Td fontWeight="500">{row.label}</Td>
+                <Td isNumeric>{row.events}</Td>
+                <Td isNumeric>{row.responses}</Td>
+                <Td isNumeric>{formatPercent(row.responseRate)}</Td>
+                <Td isNumeric fontWeight="600">{formatRating(row.averageRating)}</Td>
+                <Td isNumeric>{formatPercent(row.attendAgainRate)}</Td>
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+      </Box>
+    </Box>
+  );
+}
+
+export default function SurveysPage() {
+  const [data, setData] = useState<ComparisonResponse | null>(null);
+  const [period, setPeriod] = useState("");
+  const [loading, setLoading] = useState(true);
+  const toast = useToast();
+
+  const fetchResults = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/surveys${period ? `?since=${monthsAgo(Number(period))}` : ""}`);
+      if (!response.ok) throw new Error("Failed to fetch survey results");
+      setData(await response.json());
+    } catch (error) {
+      console.error("Error fetching survey results:", error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch survey results",
+        status: "error",
+        duration: 3000,
+        isClosable: true,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [period, toast]);
+
+  useEffect(() => {
+    fetchResults();
+  }, [fetchResults]);
+
+  return (
+    <Container maxW="7xl">
+      <VStack spacing={8} align="stretch">
+        <Flex justify="space-between" align="center" gap={4} flexWrap="wrap">
+          <Box>
+            <Heading
+              size="2xl"
+              mb={2}
+              fontFamily="'SUSE Mono', monospace"
+              fontWeight="600"
+            >
+              Surveys
+            </Heading>
+            <Text color="gray.600">
+              Attendee feedback compared across events, formats and venues. Set up each event&apos;s survey from its Survey tab.
+            </Text>
+          </Box>
+          <Select value={period} onChange={(e) => setPeriod(e.target.value)} maxW="200px" bg="white">
+            {PERIODS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </Select>
+        </Flex>
+
+        {loading || !data ? (
+          <Center py={20}>
+            <Spinner size="xl" />
+          </Center>
+        ) : data.events.length === 0 ? (
+          <Box textAlign="center" py={20}>
+            <Text fontSize="xl" color="gray.500">
+              No survey responses yet
+            </Text>
+          </Box>
+        ) : (
+          <>
+            <ScoreTable title="By Format" rows={data.byCategory} />
+            <ScoreTable title="By Venue" rows={data.byVenue} />
+
+            <Box bg="white" p={{ base: 4, md: 6 }} borderRadius="xl" boxShadow="sm">
+              <Heading size="md" mb={4} fontFamily="'SUSE Mono', monospace" fontWeight="600">By Event</Heading>
+              <Box overflowX="auto">
+                <Table variant="simple" size="sm">
+                  <Thead bg="gray.50">
+                    <Tr>
+                      <Th>Event</Th>
+                      <Th>Date</Th>
+                      <Th isNumeric>Responses</Th>
+                      <Th isNumeric>Response rate</Th>
+                      <Th isNumeric>Avg rating</Th>
+                      <Th isNumeric>Would return</Th>
+                    </Tr>
+                  </Thead>
+                  <Tbody>
+                    {data.events.map((event) => (
+                      <Tr key={event.eventId}>
+                        <Td>
+                          <Link as={NextLink} href={`/dashboard/events/${event.eventId}/edit`} fontWeight="500" color="blue.600">
+                            {event.title}
+                          </Link>
+                          {event.venue && <Text fontSize="xs" color="gray.500">{event.venue.name}</Text>}
+                        </Td>
+                        <Td fontSize="sm" color="gray.600">{new Date(event.startAt).toLocaleDateString()}</Td>
+                        <Td isNumeric>{event.responses}</Td>
+                        <Td isNumeric>{formatPercent(event.responseRate)}</Td>
+                        <Td isNumeric fontWeight="600">{formatRating(event.averageRating)}</Td>
+                        <Td isNumeric>{formatPercent(event.attendAgainRate)}</Td>
+                      </Tr>
+                    ))}
+                  </Tbody>
+                </Table>
+              </Box>
+            </Box>
+          </>
+        )}
+      </VStack>
+    </Container>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Box,
+  Heading,
+  Text,
+  Container,
+  VStack,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Image,
+  Badge,
+  Button,
+  useToast,
+  Spinner,
+  Center,
+  Flex,
+} from "@chakra-ui/react";
+
+interface OrphanedImage {
+  id: string;
+  originalKey: string;
+  status: "PROCESSING" | "READY" | "FAILED";
+  createdAt: string;
+  uploader: { name: string | null; email: string };
+  thumbnailUrl: string | null;
+}
+
+interface OrphanedImagesReport {
+  maxAgeHours: number;
+  cutoff: string;
+  total: number;
+  images: OrphanedImage[];
+  deleted: number;
+  dryRunScheduled?: boolean;
+}
+
+const STATUS_COLORS: Record<OrphanedImage["status"], string> = {
+  PROCESSING: "yellow",
+  READY: "green",
+  FAILED: "red",
+};
+
+export default function UploadsPage() {
+  const [report, setReport] = useState<OrphanedImagesReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [deleting, setDeleting] = useState(false);
+  const toast = useToast();
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/admin/images/orphaned");
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to fetch abandoned uploads");
+      }
+      setReport(await response.json());
+    } catch (error) {
+      console.error("Error fetching abandoned uploads:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to fetch abandoned uploads",
+        status: "error",
+        duration: 3000,
+        isClosable: true,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const handleDelete = async () => {
+    if (!report) return;
+    const count = report.images.length;
+    if (!confirm(`Delete ${count} abandoned upload${count !== 1 ? "s" : ""} and their files? This action cannot be undone.`)) return;
+
+    setDeleting(true);
+    try {
+      const response = await fetch("/api/admin/images/orphaned", { method: "DELETE" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || "Failed to delete abandoned uploads");
+      toast({
+        title: "Success",
+        description: `Deleted ${data.deleted} abandoned upload${data.deleted !== 1 ? "s" : ""}`,
+        status: "success",
+        duration: 3000,
+      });
+      fetchReport();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete abandoned uploads",
+        status: "error",
+        duration: 5000,
+      });
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <Container maxW="7xl">
+      <VStack spacing={8} align="stretch">
+        <Flex justify="space-between" align="center" gap={4} flexWrap="wrap">
+          <Box>
+            <Heading
+              size="2xl"
+              mb={2}
+              fontFamily="'SUSE Mono', monospace"
+              fontWeight="600"
+            >
+              Abandoned Uploads
+            </Heading>
+            <Text color="gray.600">
+              Photos no event, venue or gallery has used for more than {report?.maxAgeHours ?? 72} hours,
+              usually from forms that were never saved.{" "}
+              {report?.dryRunScheduled
+                ? "Scheduled cleanup is in dry-run mode (IMAGE_GC_DRY_RUN), so they stay until deleted here."
+                : "The scheduled cleanup deletes them, with their files, on its next run."}
+            </Text>
+          </Box>
+          <Button
+            colorScheme="red"
+            onClick={handleDelete}
+            isLoading={deleting}
+            isDisabled={!report || report.total === 0}
+          >
+            Delete now
+          </Button>
+        </Flex>
+
+        {loading || !report ? (
+          <Center py={20}>
+            <Spinner size="xl" />
+          </Center>
+        ) : report.total === 0 ? (
+          <Box textAlign="center" py={20}>
+            <Text fontSize="xl" color="gray.500">
+              No abandoned uploads
+            </Text>
+          </Box>
+        ) : (
+          <Box bg="white" p={{ base: 4, md: 6 }} borderRadius="xl" boxShadow="sm">
+            <Heading size="md" mb={4} fontFamily="'SUSE Mono', monospace" fontWeight="600">
+              {report.total} abandoned upload{report.total !== 1 ? "s" : ""}
+              {report.total > report.images.length && `, the oldest ${report.images.length} shown (each cleanup deletes that many)`}
+            </Heading>
+            <Box overflowX="auto">
+              <Table variant="simple" size="sm">
+                <Thead bg="gray.50">
+                  <Tr>
+                    <Th></Th>
+                    <Th>Uploaded</Th>
+                    <Th>By</Th>
+                    <Th>Status</Th>
+                    <Th>Key</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {report.images.map((image) => (
+                    <Tr key={image.id}>
+                      <Td>
+                        <Image
+                          src={image.thumbnailUrl ?? "/placeholder-image.svg"}
+                          fallbackSrc="/placeholder-image.svg"
+                          alt=""
+                          boxSize="48px"
+                          objectFit="cover"
+                          borderRadius="md"
+                        />
+                      </Td>
+                      <Td fontSize="sm" color="gray.600">{new Date(image.createdAt).toLocaleString()}</Td>
+                      <Td fontSize="sm">{image.uploader.name || image.uploader.email}</Td>
+                      <Td>
+                        <Badge colorScheme={STATUS_COLORS[image.status]}>{image.status.toLowerCase()}</Badge>
+                      </Td>
+                      <Td fontSize="xs" color="gray.500" fontFamily="mono">{image.originalKey}</Td>
+                    </Tr>
+                  ))}
+                </Tbody>
+              </Table>
+            </Box>
+          </Box>
+        )}
+      </VStack>
+    </Container>
+  );
+}
@@ -36,9 +36,12 @@ import {
   Wrap,
   WrapItem,
 } from "@chakra-ui/react";
-import { AddIcon, DeleteIcon, EditIcon, EmailIcon, CalendarIcon, RepeatIcon } from "@chakra-ui/icons";
+import { AddIcon, DeleteIcon, EditIcon, EmailIcon, CalendarIcon, RepeatIcon, StarIcon } from "@chakra-ui/icons";
 import { UserForm } from "@/components/users/UserForm";
+import { MembershipForm } from "@/components/users/MembershipForm";
+import { TierManager } from "@/components/users/TierManager";
 import { Role } from "@prisma/client";
+import type { Membership, MembershipTier } from "@/types";
 
 interface User {
   id: string;
@@ -47,6 +50,19 @@ interface User {
   role: Role;
   createdAt: string;
   updatedAt: string;
+  membership: Membership | null;
+}
+
+const isExpired = (membership: Membership) => !!membership.expiresAt && new Date(membership.expiresAt) <= new Date();
+
+function MembershipBadge({ membership }: { membership: Membership | null }) {
+  if (!membership) return <Text as="span" color="gray.400">—</Text>;
+  const expired = isExpired(membership);
+  return (
+    <Badge colorScheme={expired ? "gray" : "yellow"} title={membership.expiresOn ? `${expired ? "Expired" : "Expires"} after ${membership.expiresOn}` : "Doesn't expire"}>
+      {membership.tier?.name}{expired ? " (expired)" : ""}
+    </Badge>
+  );
 }
 
 export default function UsersPage() {
@@ -55,9 +71,12 @@ export default function UsersPage() {
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [deleteUserId, setDeleteUserId] = useState<string | null>(null);
   const [resetUserId, setResetUserId] = useState<string | null>(null);
+  const [tiers, setTiers] = useState<MembershipTier[]>([]);
+  const [membershipUser, setMembershipUser] = useState<User | null>(null);
   const { isOpen: isFormOpen, onOpen: onFormOpen, onClose: onFormClose } = useDisclosure();
   const { isOpen: isDeleteOpen, onOpen: onDeleteOpen, onClose: onDeleteClose } = useDisclosure();
   const { isOpen: isResetOpen, onOpen: onResetOpen, onClose: onResetClose } = useDisclosure();
+  const { isOpen: isMembershipOpen, onOpen: onMembershipOpen, onClose: onMembershipClose } = useDisclosure();
   const toast = useToast();
   const cancelRef = useRef<HTMLButtonElement>(null);
 
@@ -87,9 +106,23 @@ export default function UsersPage() {
     }
   }, [toast]);
 
+  const fetchTiers = useCallback(async () => {
+    try {
+      const response = await fetch("/api/tiers");
+      if (!response.ok) {
+        throw new Error("Failed to fetch tiers");
+      }
+      const data = await response.json();
+      setTiers(data.items);
+    } catch (error) {
+      console.error("Error fetching tiers:", error);
+    }
+  }, []);
+
   useEffect(() => {
     fetchUsers();
-  }, [fetchUsers]);
+    fetchTiers();
+  }, [fetchUsers, fetchTiers]);
 
   // Handle create user
   const handleCreateUser = () => {
@@ -109,6 +142,18 @@ export default function UsersPage() {
     onDeleteOpen();
   };
 
+  // Handle grant/extend/revoke membership
+  const handleMembership = (user: User) => {
+    setMembershipUser(user);
+    onMembershipOpen();
+  };
+
+  const handleMembershipSubmit = async () => {
+    onMembershipClose();
+    setMembershipUser(null);
+    await fetchUsers();
+  };
+
   // Handle reset password
   const handleResetPassword = (userId: string) => {
     setResetUserId(userId);
@@ -208,6 +253,8 @@ export default function UsersPage() {
         return "blue";
       case "VIEWER":
         return "green";
+      case "MEMBER":
+        return "purple";
       default:
         return "gray";
     }
@@ -286,6 +333,10 @@ export default function UsersPage() {
                           })}
                         </Text>
                       </Flex>
+                      <Flex align="center" gap={2}>
+                        <StarIcon color="gray.500" />
+                        <MembershipBadge membership={user.membership} />
+                      </Flex>
                       <HStack justify="flex-end" spacing={2} mt={2} wrap="wrap">
                         <Button
                           leftIcon={<EditIcon />}
@@ -297,6 +348,16 @@ export default function UsersPage() {
                         >
                           Edit
                         </Button>
+                        <Button
+                          leftIcon={<StarIcon />}
+                          size="sm"
+                          variant="outline"
+                          colorScheme="yellow"
+                          onClick={() => handleMembership(user)}
+                          minW="60px"
+                        >
+                          Tier
+                        </Button>
                         <Button
                           leftIcon={<RepeatIcon />}
                           size="sm"
@@ -333,6 +394,7 @@ export default function UsersPage() {
                   <Th>Name</Th>
                   <Th>Email</Th>
                   <Th>Role</Th>
+                  <Th>Tier</Th>
                   <Th>Created</Th>
                   <Th>Actions</Th>
                 </Tr>
@@ -347,6 +409,9 @@ export default function UsersPage() {
                         {user.role}
                       </Badge>
                     </Td>
+                    <Td>
+                      <MembershipBadge membership={user.membership} />
+                    </Td>
                     <Td>
                       {new Date(user.createdAt).toLocaleDateString('en-US', { 
                         year: 'numeric', 
@@ -364,6 +429,14 @@ export default function UsersPage() {
                           colorScheme="blue"
                           onClick={() => handleEditUser(user)}
                         />
+                        <IconButton
+                          aria-label="Manage membership"
+                          icon={<StarIcon />}
+                          size="sm"
+                          variant="ghost"
+                          colorScheme="yellow"
+                          onClick={() => handleMembership(user)}
+                        />
                         <IconButton
                           aria-label="Reset password"
                           icon={<RepeatIcon />}
@@ -389,6 +462,8 @@ export default function UsersPage() {
           </Box>
         )}
 
+        <TierManager tiers={tiers} onChange={fetchTiers} />
+
         {/* User Form Modal */}
         <UserForm
           isOpen={isFormOpen}
@@ -397,6 +472,15 @@ export default function UsersPage() {
           onSuccess={handleFormSubmit}
         />
 
+        {/* Membership Modal */}
+        <MembershipForm
+          isOpen={isMembershipOpen}
+          onClose={onMembershipClose}
+          user={membershipUser}
+          tiers={tiers}
+          onSuccess={handleMembershipSubmit}
+        />
+
         {/* Delete Confirmation Dialog */}
         <AlertDialog
           isOpen={isDeleteOpen}
@@ -0,0 +1,201 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Box,
+  Button,
+  Heading,
+  Text,
+  Container,
+  VStack,
+  HStack,
+  SimpleGrid,
+  Card,
+  CardBody,
+  CardHeader,
+  Badge,
+  IconButton,
+  Image,
+  Link,
+  useDisclosure,
+  useToast,
+  Spinner,
+  Center,
+  Flex,
+} from "@chakra-ui/react";
+import { AddIcon, EditIcon, DeleteIcon, ExternalLinkIcon } from "@chakra-ui/icons";
+import NextLink from "next/link";
+import VenueForm from "@/components/venues/VenueForm";
+import type { Venue } from "@/types";
+
+type VenueItem = Venue & { _count: { events: number } };
+
+export default function VenuesPage() {
+  const [venues, setVenues] = useState<VenueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedVenue, setSelectedVenue] = useState<Venue | null>(null);
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const toast = useToast();
+
+  const fetchVenues = useCallback(async () => {
+    try {
+      const response = await fetch("/api/venues");
+      const data = await response.json();
+      setVenues(data.items || []);
+    } catch (error) {
+      console.error("Error fetching venues:", error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch venues",
+        status: "error",
+        duration: 3000,
+        isClosable: true,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchVenues();
+  }, [fetchVenues]);
+
+  const handleCreate = () => {
+    setSelectedVenue(null);
+    onOpen();
+  };
+
+  const handleEdit = (venue: Venue) => {
+    setSelectedVenue(venue);
+    onOpen();
+  };
+
+  const handleDelete = async (venue: VenueItem) => {
+    if (!confirm(`Delete ${venue.name}? Its ${venue._count.events} event(s) keep their location details.`)) return;
+
+    try {
+      const response = await fetch(`/api/venues/${venue.id}`, { method: "DELETE" });
+      if (!response.ok) throw new Error("Failed to delete venue");
+
+      setVenues(venues.filter((v) => v.id !== venue.id));
+      toast({ title: "Venue deleted", status: "success", duration: 3000, isClosable: true });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete venue",
+        status: "error",
+        duration: 3000,
+        isClosable: true,
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <Container maxW="7xl">
+        <Center py={20}>
+          <Spinner size="xl" />
+        </Center>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxW="7xl">
+      <VStack spacing={8} align="stretch">
+        <Flex justify="space-between" align="center">
+          <Box>
+            <Heading
+              size="2xl"
+              mb={2}
+              fontFamily="'SUSE Mono', monospace"
+              fontWeight="600"
+            >
+              Venues
+            </Heading>
+            <Text color="gray.600">
+              Saved locations for events, with staff parking details for coordination sheets
+            </Text>
+          </Box>
+          <Button
+            leftIcon={<AddIcon />}
+            colorScheme="blue"
+            onClick={handleCreate}
+            size="lg"
+          >
+            Add Venue
+          </Button>
+        </Flex>
+
+        {venues.length === 0 ? (
+          <Box textAlign="center" py={20}>
+            <Text fontSize="xl" color="gray.500" mb={4}>
+              No venues yet
+            </Text>
+            <Button colorScheme="blue" onClick={handleCreate}>
+              Add your first venue
+            </Button>
+          </Box>
+        ) : (
+          <SimpleGrid columns={{ base: 1, md: 2, lg: 3 }} spacing={6}>
+            {venues.map((venue) => {
+              const photo = venue.images?.[0]?.variants?.thumb?.webpUrl;
+              return (
+                <Card key={venue.id} overflow="hidden">
+                  {photo && <Image src={photo} alt={venue.name} h="160px" objectFit="cover" />}
+                  <CardHeader pb={2}>
+                    <HStack justify="space-between" align="start">
+                      <VStack align="start" spacing={1} flex={1}>
+                        <Text fontWeight="600" noOfLines={2} fontFamily="'SUSE Mono', monospace">
+                          {venue.name}
+                        </Text>
+                        <HStack spacing={2}>
+                          <Badge colorScheme="blue">{venue._count.events} events</Badge>
+                          {venue.capacity && <Badge>Capacity {venue.capacity}</Badge>}
+                        </HStack>
+                      </VStack>
+                      <HStack spacing={1}>
+                        <IconButton
+                          aria-label="Edit venue"
+                          icon={<EditIcon />}
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleEdit(venue)}
+                        />
+                        <IconButton
+                          aria-label="Delete venue"
+                          icon={<DeleteIcon />}
+                          size="sm"
+                          variant="ghost"
+                          colorScheme="red"
+                          onClick={() => handleDelete(venue)}
+                        />
+                      </HStack>
+                    </HStack>
+                  </CardHeader>
+                  <CardBody pt={0}>
+                    <VStack spacing={2} align="stretch">
+                      <Text fontSize="sm" color="gray.600">
+                        {[venue.address, venue.city, venue.state].filter(Boolean).join(", ") || "No address"}
+                      </Text>
+                      <Link as={NextLink} href={`/venues/${venue.slug}`} fontSize="sm" color="blue.600" isExternal>
+                        Public page <ExternalLinkIcon mx="2px" />
+                      </Link>
+                    </VStack>
+                  </CardBody>
+                </Card>
+              );
+            })}
+          </SimpleGrid>
+        )}
+      </VStack>
+
+      <VenueForm
+        isOpen={isOpen}
+        onClose={onClose}
+        venue={selectedVenue}
+        onSaved={fetchVenues}
+      />
+    </Container>
+  );
+}
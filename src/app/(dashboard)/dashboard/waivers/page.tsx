@@ -0,0 +1,227 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Box,
+  Button,
+  Heading,
+  Text,
+  Container,
+  VStack,
+  HStack,
+  SimpleGrid,
+  Card,
+  CardBody,
+  CardHeader,
+  Badge,
+  IconButton,
+  Switch,
+  FormControl,
+  FormLabel,
+  useDisclosure,
+  useToast,
+  Spinner,
+  Center,
+  Flex,
+} from "@chakra-ui/react";
+import { AddIcon, EditIcon, DeleteIcon } from "@chakra-ui/icons";
+import WaiverForm from "@/components/waivers/WaiverForm";
+import type { Waiver } from "@/types";
+
+export default function WaiversPage() {
+  const [waivers, setWaivers] = useState<Waiver[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [selectedWaiver, setSelectedWaiver] = useState<Waiver | null>(null);
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const toast = useToast();
+
+  const fetchWaivers = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/waivers${showArchived ? "?archived=1" : ""}`);
+      const data = await response.json();
+      setWaivers(data.items || []);
+    } catch (error) {
+      console.error("Error fetching waivers:", error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch waivers",
+        status: "error",
+        duration: 3000,
+        isClosable: true,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [showArchived, toast]);
+
+  useEffect(() => {
+    fetchWaivers();
+  }, [fetchWaivers]);
+
+  const handleCreate = () => {
+    setSelectedWaiver(null);
+    onOpen();
+  };
+
+  const handleEdit = (waiver: Waiver) => {
+    setSelectedWaiver(waiver);
+    onOpen();
+  };
+
+  const setArchived = async (waiver: Waiver, archived: boolean) => {
+    try {
+      const response = await fetch(`/api/waivers/${waiver.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ archived })
+      });
+      if (!response.ok) throw new Error("Failed to update waiver");
+
+      toast({ title: archived ? "Waiver archived" : "Waiver restored", status: "success", duration: 3000, isClosable: true });
+      fetchWaivers();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update waiver",
+        status: "error",
+        duration: 3000,
+        isClosable: true,
+      });
+    }
+  };
+
+  const handleDelete = async (waiver: Waiver) => {
+    if (!confirm(`Delete ${waiver.title}? It will be removed from ${waiver._count?.events ?? 0} event(s).`)) return;
+
+    try {
+      const response = await fetch(`/api/waivers/${waiver.id}`, { method: "DELETE" });
+      const data = await response.json();
+      if (!response.ok) throw new Error(typeof data.error === "string" ? data.error : "Failed to delete waiver");
+
+      setWaivers(waivers.filter((w) => w.id !== waiver.id));
+      toast({ title: "Waiver deleted", status: "success", duration: 3000, isClosable: true });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete waiver",
+        status: "error",
+        duration: 5000,
+        isClosable: true,
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <Container maxW="7xl">
+        <Center py={20}>
+          <Spinner size="xl" />
+        </Center>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxW="7xl">
+      <VStack spacing={8} align="stretch">
+        <Flex justify="space-between" align="center" gap={4} flexWrap="wrap">
+          <Box>
+            <Heading
+              size="2xl"
+              mb={2}
+              fontFamily="'SUSE Mono', monospace"
+              fontWeight="600"
+            >
+              Waivers
+            </Heading>
+            <Text color="gray.600">
+              Documents attendees sign when they RSVP. Editing the text publishes a new version.
+            </Text>
+          </Box>
+          <HStack spacing={4}>
+            <FormControl display="flex" alignItems="center" w="auto">
+              <FormLabel htmlFor="show-archived" mb={0} fontSize="sm">Show archived</FormLabel>
+              <Switch id="show-archived" isChecked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+            </FormControl>
+            <Button
+              leftIcon={<AddIcon />}
+              colorScheme="blue"
+              onClick={handleCreate}
+              size="lg"
+            >
+              Add Waiver
+            </Button>
+          </HStack>
+        </Flex>
+
+        {waivers.length === 0 ? (
+          <Box textAlign="center" py={20}>
+            <Text fontSize="xl" color="gray.500" mb={4}>
+              No waivers yet
+            </Text>
+            <Button colorScheme="blue" onClick={handleCreate}>
+              Add your first waiver
+            </Button>
+          </Box>
+        ) : (
+          <SimpleGrid columns={{ base: 1, md: 2, lg: 3 }} spacing={6}>
+            {waivers.map((waiver) => (
+              <Card key={waiver.id} opacity={waiver.archived ? 0.7 : 1}>
+                <CardHeader pb={2}>
+                  <HStack justify="space-between" align="start">
+                    <VStack align="start" spacing={1} flex={1}>
+                      <Text fontWeight="600" noOfLines={2} fontFamily="'SUSE Mono', monospace">
+                        {waiver.title}
+                      </Text>
+                      <HStack spacing={2} flexWrap="wrap">
+                        <Badge colorScheme="purple">v{waiver.currentVersion?.version ?? 1}</Badge>
+                        <Badge colorScheme="blue">{waiver._count?.events ?? 0} events</Badge>
+                        <Badge>{waiver.currentVersion?._count?.signatures ?? 0} signed</Badge>
+                        {waiver.archived && <Badge colorScheme="gray">Archived</Badge>}
+                      </HStack>
+                    </VStack>
+                    <HStack spacing={1}>
+                      <IconButton
+                        aria-label="Edit waiver"
+                        icon={<EditIcon />}
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleEdit(waiver)}
+                      />
+                      <IconButton
+                        aria-label="Delete waiver"
+                        icon={<DeleteIcon />}
+                        size="sm"
+                        variant="ghost"
+                        colorScheme="red"
+                        onClick={() => handleDelete(waiver)}
+                      />
+                    </HStack>
+                  </HStack>
+                </CardHeader>
+                <CardBody pt={0}>
+                  <VStack spacing={3} align="stretch">
+                    <Text fontSize="sm" color="gray.600" noOfLines={4} whiteSpace="pre-wrap">
+                      {waiver.currentVersion?.body}
+                    </Text>
+                    <Button size="sm" variant="outline" alignSelf="start" onClick={() => setArchived(waiver, !waiver.archived)}>
+                      {waiver.archived ? "Restore" : "Archive"}
+                    </Button>
+                  </VStack>
+                </CardBody>
+              </Card>
+            ))}
+          </SimpleGrid>
+        )}
+      </VStack>
+
+      <WaiverForm
+        isOpen={isOpen}
+        onClose={onClose}
+        waiver={selectedWaiver}
+        onSaved={fetchWaivers}
+      />
+    </Container>
+  );
+}
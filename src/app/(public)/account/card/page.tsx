@@ -0,0 +1,41 @@
+import { Metadata } from "next";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { Alert, AlertIcon, Box, Button, Container } from "@chakra-ui/react";
+import { getViewer } from "@/lib/members";
+import { createMemberCardCodes, getMemberCard, isMemberCardConfigured } from "@/lib/member-card-signing";
+import MemberCard from "@/components/members/MemberCard";
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: "Member Card",
+  robots: { index: false, follow: false },
+};
+
+export default async function MemberCardPage() {
+  const viewer = await getViewer();
+  if (!viewer) redirect("/signin");
+
+  const card = isMemberCardConfigured() ? await getMemberCard(viewer) : null;
+
+  return (
+    <Container maxW="md" py={8}>
+      {card ? (
+        <MemberCard card={card} initialCodes={await createMemberCardCodes(card)} />
+      ) : (
+        <Alert status="info" borderRadius="md">
+          <AlertIcon />
+          {isMemberCardConfigured()
+            ? "Verify your email to get your member card."
+            : "Member cards aren't available yet."}
+        </Alert>
+      )}
+      <Box textAlign="center" mt={6}>
+        <Button as={Link} href="/account" variant="outline" size="sm">
+          Back to My Account
+        </Button>
+      </Box>
+    </Container>
+  );
+}
@@ -0,0 +1,143 @@
+import { Metadata } from "next";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { Alert, AlertIcon, Badge, Box, Button, Container, Heading, HStack, Stack, Text } from "@chakra-ui/react";
+import { prisma } from "@/lib/prisma";
+import { activeTierId, getViewer, membershipExpiresOn } from "@/lib/members";
+import { createCheckInToken, getTicketUrl } from "@/lib/checkin";
+import { formatDateTime } from "@/lib/utils";
+import MemberProfile from "@/components/members/MemberProfile";
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: "My Account",
+  robots: { index: false, follow: false },
+};
+
+export default async function AccountPage({ searchParams }: { searchParams: { verified?: string } }) {
+  const viewer = await getViewer();
+  if (!viewer) redirect("/signin");
+
+  const [user, registrations] = await Promise.all([
+    prisma.user.findUniqueOrThrow({
+      where: { id: viewer.id },
+      select: {
+        name: true, email: true, dateOfBirth: true, emailVerifiedAt: true, createdAt: true,
+        membership: { select: { expiresAt: true, tier: { select: { name: true, description: true, benefits: true } } } }
+      }
+    }),
+    prisma.registration.findMany({
+      where: { email: viewer.email, status: { not: "CANCELLED" }, event: { startAt: { gte: new Date() } } },
+      include: { event: { select: { id: true, slug: true, title: true, startAt: true, timezone: true } } },
+      orderBy: { event: { startAt: "asc" } }
+    })
+  ]);
+
+  type UpcomingRegistration = (typeof registrations)[number];
+  const tickets = await Promise.all(registrations.map(async (registration: UpcomingRegistration) => ({
+    registration,
+    ticketUrl: getTicketUrl(await createCheckInToken({ registrationId: registration.id, eventId: registration.eventId }))
+  })));
+
+  const membership = user.membership;
+  const membershipActive = !!activeTierId(viewer);
+
+  return (
+    <Container maxW="3xl" py={8}>
+      <Heading size="xl" mb={6} color="green.600" fontFamily="'SUSE Mono', monospace" fontWeight="600">
+        My Account
+      </Heading>
+
+      {searchParams.verified === "1" && (
+        <Alert status="success" borderRadius="md" mb={6}>
+          <AlertIcon />
+          Your email is verified. Welcome to the club!
+        </Alert>
+      )}
+      {searchParams.verified === "0" && (
+        <Alert status="error" borderRadius="md" mb={6}>
+          <AlertIcon />
+          That verification link is invalid or has expired. Send yourself a new one below.
+        </Alert>
+      )}
+
+      <Stack spacing={8}>
+        {user.emailVerifiedAt && (
+          <Button as={Link} href="/account/card" colorScheme="green" size="lg" alignSelf={{ base: "stretch", sm: "start" }}>
+            Show my member card
+          </Button>
+        )}
+
+        <MemberProfile
+          user={{
+            name: user.name,
+            email: user.email,
+            dateOfBirth: user.dateOfBirth?.toISOString().slice(0, 10) ?? null,
+            emailVerified: !!user.emailVerifiedAt,
+            memberSince: user.createdAt.toISOString()
+          }}
+        />
+
+        {membership && (
+          <Box bg="white" p={6} borderRadius="xl" boxShadow="sm">
+            <HStack justify="space-between" mb={2} flexWrap="wrap" gap={2}>
+              <Heading size="md" fontFamily="'SUSE Mono', monospace" fontWeight="600">
+                {membership.tier.name} Membership
+              </Heading>
+              {membershipActive ? (
+                <Badge colorScheme="yellow">
+                  {membership.expiresAt ? `Until ${membershipExpiresOn(membership.expiresAt)}` : "Active"}
+                </Badge>
+              ) : (
+                <Badge colorScheme="gray">{user.emailVerifiedAt ? "Expired" : "Verify your email to use it"}</Badge>
+              )}
+            </HStack>
+            {membership.tier.description && <Text color="gray.600" mb={3}>{membership.tier.description}</Text>}
+            {membership.tier.benefits.length > 0 && (
+              <Stack as="ul" spacing={1} pl={5}>
+                {membership.tier.benefits.map((benefit: string) => (
+                  <Text as="li" key={benefit} color="gray.700">{benefit}</Text>
+                ))}
+              </Stack>
+            )}
+          </Box>
+        )}
+
+        <Box bg="white" p={6} borderRadius="xl" boxShadow="sm">
+          <Heading size="md" mb={4} fontFamily="'SUSE Mono', monospace" fontWeight="600">
+            Upcoming RSVPs
+          </Heading>
+          {tickets.length === 0 ? (
+            <Text color="gray.500">
+              No upcoming RSVPs. <Button as={Link} href="/events" variant="link" colorScheme="green">Browse events</Button>
+            </Text>
+          ) : (
+            <Stack spacing={3}>
+              {tickets.map(({ registration, ticketUrl }) => (
+                <HStack key={registration.id} justify="space-between" p={3} bg="gray.50" borderRadius="md" flexWrap="wrap" gap={2}>
+                  <Box minW={0}>
+                    <Text fontWeight="600" noOfLines={1}>
+                      <Link href={`/events/${registration.event.slug}`}>{registration.event.title}</Link>
+                    </Text>
+                    <Text fontSize="sm" color="gray.600">
+                      {formatDateTime(registration.event.startAt, registration.event.timezone)}
+                    </Text>
+                  </Box>
+                  <HStack>
+                    {registration.status === "WAITLISTED" && <Badge colorScheme="orange">Waitlisted</Badge>}
+                    {registration.status === "CONFIRMED" && (
+                      <Button as="a" href={ticketUrl} size="sm" colorScheme="green" variant="outline">
+                        View ticket
+                      </Button>
+                    )}
+                  </HStack>
+                </HStack>
+              ))}
+            </Stack>
+          )}
+        </Box>
+      </Stack>
+    </Container>
+  );
+}
@@ -1,16 +1,23 @@
 import { Metadata } from "next";
 import { Box, Button, Text, Container } from "@chakra-ui/react";
-import { format } from "date-fns";
 import Link from "next/link";
+import { permanentRedirect } from "next/navigation";
 import { Event } from "@/types";
 import EventDetailClient from "@/components/events/EventDetailClient";
 import { prisma } from "@/lib/prisma";
+import { confirmedRegistrationsCount, withAvailability } from "@/lib/registrations";
+import { canRsvpToEvent, forViewer, getViewer, isRestrictedAccess, isVerifiedMember, type Viewer } from "@/lib/members";
+import { findRenamedEventSlug, formatLongDateTime } from "@/lib/utils";
+import { getEventWaivers } from "@/lib/waivers";
 
 // Force dynamic rendering to avoid build-time issues
 export const dynamic = 'force-dynamic';
 
-async function getEvent(id: string): Promise<Event | null> {
+async function getEvent(id: string, viewer: Viewer | null = null): Promise<Event | null> {
   try {
+    // Images still being processed have no variants to show yet
+    const readyImages = { where: { status: "READY" } } as const;
+
     // Check if it's a UUID (ID) or slug
     const isUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
     
@@ -18,19 +25,21 @@ async function getEvent(id: string): Promise<Event | null> {
       // Look up by ID (for authenticated users, can access any status)
       const event = await prisma.event.findUnique({
         where: { id: id },
-        include: { heroImage: true, images: true, owner: true }
+        include: { heroImage: true, images: readyImages, owner: true, ...confirmedRegistrationsCount }
       });
-      return event as Event | null;
+      return event ? forViewer(withAvailability(event) as Event, viewer) : null;
     } else {
-      // Look up by slug (for public access, published events only)
+      // Look up by slug (for public access, published events only; cancelled ones stay
+      // reachable so people holding a link or ticket see the cancellation)
       const event = await prisma.event.findFirst({
         where: { 
           slug: id,
-          status: "PUBLISHED"
+          status: { in: ["PUBLISHED", "CANCELLED"] }
         },
-        include: { heroImage: true, images: true }
+        // Only the venue's public fields; its staff parking details stay internal
+        include: { heroImage: true, images: readyImages, venue: { select: { id: true, slug: true, name: true } }, ...confirmedRegistrationsCount }
       });
-      return event as Event | null;
+      return event ? forViewer(withAvailability(event) as Event, viewer) : null;
     }
   } catch (error) {
     console.error('Error fetching event:', error);
@@ -48,7 +57,7 @@ export async function generateMetadata({ params }: { params: { id: string } }):
     };
   }
 
-  const eventDate = format(new Date(event.startAt), "EEEE, MMMM d, yyyy 'at' p");
+  const eventDate = formatLongDateTime(event.startAt, event.timezone);
   const location = event.locationName ? 
     `${event.locationName}${event.city ? `, ${event.city}` : ''}${event.state ? `, ${event.state}` : ''}` : 
     'Location TBD';
@@ -95,13 +104,21 @@ export async function generateMetadata({ params }: { params: { id: string } }):
     alternates: {
       canonical: `/events/${event.slug}`,
     },
+    // Visitors only get the teaser of members-only and tier-gated events
+    ...(isRestrictedAccess(event.access) ? { robots: { index: false, follow: true } } : {}),
   };
 }
 
 export default async function EventDetail({ params }: { params: { id: string }}) {
-  const event = await getEvent(params.id);
+  const viewer = await getViewer();
+  const event = await getEvent(params.id, viewer);
 
   if (!event) {
+    // Links shared before the event was renamed move permanently to its current slug. Only
+    // slugs that don't resolve look up the history, so current ones cost nothing extra.
+    const renamedTo = await findRenamedEventSlug(params.id);
+    if (renamedTo) permanentRedirect(`/events/${renamedTo}`);
+
     return (
       <Container maxW="4xl" py={8}>
         <Box textAlign="center" py={20}>
@@ -114,5 +131,22 @@ export default async function EventDetail({ params }: { params: { id: string }})
     );
   }
 
-  return <EventDetailClient event={event} />;
+  const requiredTiers = event.access === "TIERS"
+    ? await prisma.membershipTier.findMany({
+        where: { id: { in: event.tierIds ?? [] } },
+        select: { name: true },
+        orderBy: { sortOrder: "asc" }
+      })
+    : [];
+  const waivers = !event.ticketUrl && !event.detailsHidden ? await getEventWaivers(event.id) : [];
+
+  return (
+    <EventDetailClient
+      event={event}
+      member={viewer ? { name: viewer.name, email: viewer.email, verified: isVerifiedMember(viewer) } : null}
+      canRsvp={canRsvpToEvent(event, viewer)}
+      requiredTiers={requiredTiers.map((tier: { name: string }) => tier.name)}
+      waivers={waivers}
+    />
+  );
 }
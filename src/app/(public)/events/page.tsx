@@ -1,6 +1,9 @@
 import { Metadata } from "next";
-import EventGrid from "@/components/events/EventGrid";
-import { Box, Heading, Container, VStack, Text, Breadcrumb, BreadcrumbItem, BreadcrumbLink } from "@chakra-ui/react";
+import { headers } from "next/headers";
+import EventsBrowser from "@/components/events/EventsBrowser";
+import EventFilters from "@/components/events/EventFilters";
+import { FACETS, type EventFacets, type Facet } from "@/lib/event-filters";
+import { Box, Button, Heading, Container, VStack, Text, Breadcrumb, BreadcrumbItem, BreadcrumbLink } from "@chakra-ui/react";
 import Link from "next/link";
 import { BreadcrumbStructuredData } from "@/components/seo/StructuredData";
 
@@ -44,17 +47,28 @@ export const metadata: Metadata = {
 // Force dynamic rendering to avoid build-time issues
 export const dynamic = 'force-dynamic';
 
-export default async function EventsPage() {
+export default async function EventsPage({ searchParams }: { searchParams: Record<string, string | string[] | undefined> }) {
   const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000';
+
+  // Filters chosen with the chips are kept in the URL and passed straight on to the API
+  const selected: Partial<Record<Facet, string>> = {};
+  for (const facet of FACETS) {
+    const value = searchParams[facet];
+    if (typeof value === "string" && value) selected[facet] = value;
+  }
+  const filterQuery = new URLSearchParams(selected).toString();
   
-  let eventsData = { items: [] };
+  let eventsData: { items: any[]; facets?: EventFacets } = { items: [] };
   
   // Only fetch data if we're not in build mode and have database connection
   const isBuildTime = process.env.NODE_ENV === 'production' && !process.env.DATABASE_URL;
   if (!isBuildTime && process.env.DATABASE_URL) {
     try {
-      const eventsRes = await fetch(`${baseUrl}/api/events?status=PUBLISHED&limit=50`, { 
-        next: { revalidate: 60 } 
+      // Pass the visitor's session on so members see the details of members-only events;
+      // the reply depends on who's asking, so it can't be cached for everyone
+      const eventsRes = await fetch(`${baseUrl}/api/events?status=PUBLISHED&limit=50&facets=1${filterQuery ? `&${filterQuery}` : ""}`, { 
+        headers: { cookie: headers().get("cookie") ?? "" },
+        cache: "no-store"
       });
       
       if (eventsRes.ok) {
@@ -97,6 +111,9 @@ export default async function EventsPage() {
             Discover amazing cannabis events happening in Southern California and beyond. 
             From exclusive member gatherings to educational workshops, find your next cannabis experience.
           </Text>
+          <Button as="a" href={`${baseUrl.replace(/^https?:/, "webcal:")}/api/calendar.ics`} variant="outline" colorScheme="green" size="sm" mt={4}>
+            Subscribe to Calendar
+          </Button>
         </Box>
         
         {/* SEO Content */}
@@ -133,13 +150,9 @@ export default async function EventsPage() {
         </Box>
       </VStack>
 
-      {/* Events Grid */}
-      <Box>
-        <Heading size="lg" mb={6} color="green.600" fontFamily="'SUSE Mono', monospace" fontWeight="600">
-          Upcoming Events ({eventsData.items?.length || 0})
-        </Heading>
-        <EventGrid items={eventsData.items || []} />
-      </Box>
+      {/* Events list / map */}
+      <EventFilters facets={eventsData.facets ?? null} selected={selected} />
+      <EventsBrowser items={eventsData.items || []} filterQuery={filterQuery} />
 
       {/* Call to Action */}
       <Box textAlign="center" mt={16} p={8} bg="green.50" borderRadius="xl">
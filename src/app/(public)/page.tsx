@@ -9,8 +9,9 @@ import { Metadata } from "next";
 import Link from "next/link";
 import { Suspense } from "react";
 import { prisma } from "@/lib/prisma";
-import { autoArchivePastEvents } from "@/lib/utils";
-import type { RecentEventVideo } from "@prisma/client";
+import { confirmedRegistrationsCount, withAvailability } from "@/lib/registrations";
+import { forViewer, getViewer } from "@/lib/members";
+import type { Event, RecentEventVideo } from "@prisma/client";
 
 export const metadata: Metadata = {
   title: "THC Members Only Club - Premiere Cannabis Social Club",
@@ -59,9 +60,6 @@ export default async function HomePage() {
   let galleryData = { allImages: [] };
   
   try {
-    // Auto-archive past PUBLISHED events before fetching
-    await autoArchivePastEvents();
-    
     // Fetch events with hero images directly from database
     // Only show upcoming events (startAt >= now)
     const now = new Date();
@@ -70,12 +68,13 @@ export default async function HomePage() {
         status: 'PUBLISHED',
         startAt: { gte: now }
       },
-      include: { heroImage: true },
+      include: { heroImage: true, ...confirmedRegistrationsCount },
       orderBy: { startAt: 'asc' },
       take: 30,
     });
     
-    eventsData = { items: events };
+    const viewer = await getViewer();
+    eventsData = { items: events.map((event: Event) => forViewer(withAvailability(event), viewer)) };
     
     // Fetch videos
     const videos = await prisma.recentEventVideo.findMany({
@@ -0,0 +1,32 @@
+import { Metadata } from "next";
+import { Suspense } from "react";
+import { Container, Heading, Text } from "@chakra-ui/react";
+import SearchResults from "@/components/search/SearchResults";
+
+export const metadata: Metadata = {
+  title: "Search - Events, Galleries and Photos",
+  description: "Search THC Members Only Club events, photo galleries and photos.",
+  alternates: {
+    canonical: '/search',
+  },
+  robots: {
+    index: false,
+  },
+};
+
+export default function SearchPage() {
+  return (
+    <Container maxW="4xl" py={8}>
+      <Heading size="2xl" mb={2} color="green.600" fontFamily="'SUSE Mono', monospace" fontWeight="600">
+        Search
+      </Heading>
+      <Text color="gray.600" mb={8}>
+        Find events, galleries and photos. Use &quot;quotes&quot; for exact phrases and -word to exclude a word.
+      </Text>
+      {/* useSearchParams needs a suspense boundary */}
+      <Suspense>
+        <SearchResults />
+      </Suspense>
+    </Container>
+  );
+}
@@ -0,0 +1,76 @@
+import { Metadata } from "next";
+import { Box, Button, Container, Heading, Text, VStack } from "@chakra-ui/react";
+import Link from "next/link";
+import { prisma } from "@/lib/prisma";
+import { getSurveyQuestions, verifySurveyToken } from "@/lib/surveys";
+import { formatDateTime } from "@/lib/utils";
+import SurveyForm from "@/components/surveys/SurveyForm";
+
+// Force dynamic rendering to avoid build-time issues
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: "Event Feedback",
+  robots: { index: false, follow: false },
+};
+
+async function getSurvey(token: string) {
+  const payload = await verifySurveyToken(token);
+  if (!payload) return null;
+
+  try {
+    return await prisma.registration.findFirst({
+      where: { id: payload.registrationId, eventId: payload.eventId },
+      include: {
+        event: { include: { survey: true } },
+        surveyResponse: { select: { id: true } }
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching survey:', error);
+    return null;
+  }
+}
+
+function Message({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <Container maxW="md" py={8}>
+      <Box textAlign="center" py={20}>
+        <Text fontSize="xl" fontWeight="600" mb={2}>{title}</Text>
+        <Text color="gray.600" mb={6}>{children}</Text>
+        <Button as={Link} href="/events" colorScheme="green" variant="outline">
+          Browse Events
+        </Button>
+      </Box>
+    </Container>
+  );
+}
+
+export default async function SurveyPage({ params }: { params: { token: string } }) {
+  const registration = await getSurvey(params.token);
+  const survey = registration?.event.survey;
+
+  if (!registration || !survey || !survey.enabled) {
+    return <Message title="Survey not found">This survey link is invalid, has expired or is closed.</Message>;
+  }
+  if (registration.surveyResponse) {
+    return <Message title="Thanks for your feedback!">You&apos;ve already answered this survey.</Message>;
+  }
+
+  const { event } = registration;
+
+  return (
+    <Container maxW="xl" py={8}>
+      <Box bg="white" borderRadius="xl" boxShadow="lg" p={{ base: 5, md: 8 }}>
+        <VStack spacing={1} mb={6} textAlign="center">
+          <Text fontSize="sm" color="gray.500">How was it, {registration.name.split(" ")[0]}?</Text>
+          <Heading size="lg" fontFamily="'SUSE Mono', monospace" fontWeight="600">
+            {event.title}
+          </Heading>
+          <Text color="gray.600">{formatDateTime(event.startAt, event.timezone)}</Text>
+        </VStack>
+        <SurveyForm token={params.token} questions={getSurveyQuestions(survey.questions)} />
+      </Box>
+    </Container>
+  );
+}
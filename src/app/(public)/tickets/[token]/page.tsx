@@ -0,0 +1,100 @@
+import { Metadata } from "next";
+import { Box, Button, Container, Heading, Image, Text, VStack, Badge } from "@chakra-ui/react";
+import Link from "next/link";
+import { prisma } from "@/lib/prisma";
+import { verifyCheckInToken } from "@/lib/checkin";
+import { formatDateTime } from "@/lib/utils";
+
+// Force dynamic rendering to avoid build-time issues
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: "Your Ticket",
+  robots: { index: false, follow: false },
+};
+
+async function getTicket(token: string) {
+  const payload = await verifyCheckInToken(token);
+  if (!payload) return null;
+
+  try {
+    return await prisma.registration.findFirst({
+      where: { id: payload.registrationId, eventId: payload.eventId },
+      include: { event: true }
+    });
+  } catch (error) {
+    console.error('Error fetching ticket:', error);
+    return null;
+  }
+}
+
+export default async function TicketPage({ params }: { params: { token: string } }) {
+  const registration = await getTicket(params.token);
+
+  if (!registration) {
+    return (
+      <Container maxW="md" py={8}>
+        <Box textAlign="center" py={20}>
+          <Text fontSize="xl" color="red.500" mb={4}>Ticket not found</Text>
+          <Button as={Link} href="/events" colorScheme="blue" variant="outline">
+            Browse Events
+          </Button>
+        </Box>
+      </Container>
+    );
+  }
+
+  const { event } = registration;
+  const isValid = registration.status === "CONFIRMED";
+
+  return (
+    <Container maxW="md" py={8}>
+      <Box bg="white" borderRadius="xl" boxShadow="lg" p={8}>
+        <VStack spacing={4} textAlign="center">
+          <Heading size="lg" fontFamily="'SUSE Mono', monospace" fontWeight="600">
+            {event.title}
+          </Heading>
+          <Text color="gray.600">{formatDateTime(event.startAt, event.timezone)}</Text>
+          {event.locationName && (
+            <Text color="gray.700">
+              {event.locationName}
+              {event.city && `, ${event.city}`}
+            </Text>
+          )}
+
+          {isValid ? (
+            <>
+              <Image
+                src={`/api/tickets/${params.token}/qr`}
+                alt="Check-in QR code"
+                w="260px"
+                h="260px"
+              />
+              <Text fontWeight="semibold" fontSize="lg">{registration.name}</Text>
+              {registration.checkedInAt ? (
+                <Badge colorScheme="green" fontSize="md">Checked in</Badge>
+              ) : (
+                <Text fontSize="sm" color="gray.600">Show this code at the door to check in.</Text>
+              )}
+            </>
+          ) : (
+            <Box py={6}>
+              <Badge colorScheme={registration.status === "WAITLISTED" ? "orange" : "gray"} fontSize="md" mb={3}>
+                {registration.status}
+              </Badge>
+              <Text color="gray.600">
+                {registration.status === "WAITLISTED"
+                  ? "You're on the waitlist. We'll email you if a spot opens up."
+                  : "This ticket is no longer valid."}
+              </Text>
+            </Box>
+          )}
+
+          <Button as={Link} href={`/events/${event.slug}`} variant="outline" size="sm">
+            Event Details
+          </Button>
+        </VStack>
+      </Box>
+    </Container>
+  );
+}
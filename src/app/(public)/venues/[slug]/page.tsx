@@ -0,0 +1,112 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Box, Container, Heading, Image, SimpleGrid, Text, VStack } from "@chakra-ui/react";
+import EventGrid from "@/components/events/EventGrid";
+import { prisma } from "@/lib/prisma";
+import { confirmedRegistrationsCount, withAvailability } from "@/lib/registrations";
+import { getViewer, visibleDetailsWhere } from "@/lib/members";
+
+// Force dynamic rendering to avoid build-time issues
+export const dynamic = 'force-dynamic';
+
+const PAST_EVENTS_LIMIT = 24;
+
+// Public fields only; staff parking details are for coordination sheets
+async function getVenue(slug: string) {
+  return prisma.venue.findUnique({
+    where: { slug },
+    select: {
+      id: true,
+      slug: true,
+      name: true,
+      description: true,
+      address: true,
+      city: true,
+      state: true,
+      images: { where: { status: "READY" }, orderBy: { createdAt: "asc" } }
+    }
+  });
+}
+
+export async function generateMetadata({ params }: { params: { slug: string } }): Promise<Metadata> {
+  const venue = await getVenue(params.slug);
+  if (!venue) {
+    return { title: "Venue Not Found" };
+  }
+
+  const place = [venue.city, venue.state].filter(Boolean).join(", ");
+  return {
+    title: `${venue.name} - Cannabis Events${place ? ` in ${place}` : ""}`,
+    description: venue.description || `Upcoming and past THC Members Only Club events at ${venue.name}.`,
+    alternates: {
+      canonical: `/venues/${venue.slug}`,
+    },
+  };
+}
+
+export default async function VenuePage({ params }: { params: { slug: string } }) {
+  const venue = await getVenue(params.slug);
+  if (!venue) notFound();
+
+  const now = new Date();
+  // Listing a restricted event here would give away its location, so only show the ones
+  // whose details the viewer may see
+  const visible = visibleDetailsWhere(await getViewer());
+  const [upcoming, past] = await Promise.all([
+    prisma.event.findMany({
+      where: { AND: [visible, { venueId: venue.id, status: "PUBLISHED", startAt: { gte: now } }] },
+      orderBy: { startAt: "asc" },
+      include: { heroImage: true, ...confirmedRegistrationsCount }
+    }),
+    prisma.event.findMany({
+      where: { AND: [visible, { venueId: venue.id, status: { in: ["PUBLISHED", "ARCHIVED"] }, startAt: { lt: now } }] },
+      orderBy: { startAt: "desc" },
+      take: PAST_EVENTS_LIMIT,
+      include: { heroImage: true, ...confirmedRegistrationsCount }
+    })
+  ]);
+
+  const address = [venue.address, venue.city, venue.state].filter(Boolean).join(", ");
+
+  return (
+    <Container maxW="7xl" py={8}>
+      <VStack spacing={4} align="stretch" mb={10}>
+        <Heading size="2xl" color="green.600" fontFamily="'SUSE Mono', monospace" fontWeight="600">
+          {venue.name}
+        </Heading>
+        {address && <Text color="gray.600" fontSize="lg">{address}</Text>}
+        {venue.description && (
+          <Text color="gray.700" whiteSpace="pre-wrap">{venue.description}</Text>
+        )}
+        {venue.images.length > 0 && (
+          <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4}>
+            {venue.images.map((image: { id: string; variants: any }) => {
+              const url = image.variants?.card?.webpUrl ?? image.variants?.card?.jpgUrl;
+              return url ? (
+                <Image key={image.id} src={url} alt={venue.name} borderRadius="lg" h="220px" w="100%" objectFit="cover" />
+              ) : null;
+            })}
+          </SimpleGrid>
+        )}
+      </VStack>
+
+      <Box mb={12}>
+        <Heading size="lg" mb={6} color="green.600" fontFamily="'SUSE Mono', monospace" fontWeight="600">
+          Upcoming Events ({upcoming.length})
+        </Heading>
+        {upcoming.length > 0
+          ? <EventGrid items={upcoming.map(withAvailability)} />
+          : <Text color="gray.500">No upcoming events here yet.</Text>}
+      </Box>
+
+      {past.length > 0 && (
+        <Box>
+          <Heading size="lg" mb={6} color="gray.600" fontFamily="'SUSE Mono', monospace" fontWeight="600">
+            Past Events
+          </Heading>
+          <EventGrid items={past.map(withAvailability)} />
+        </Box>
+      )}
+    </Container>
+  );
+}
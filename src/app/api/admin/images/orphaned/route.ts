@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { getServerAuthSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { isAdmin } from "@/lib/rbac";
+import { logger } from "@/lib/logger";
+import { collectOrphanedImages } from "@/lib/storage-cleanup";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+async function getAdmin() {
+  const session = await getServerAuthSession();
+  if (!session?.user?.email) return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email },
+    select: { id: true, role: true }
+  });
+  if (!isAdmin(user?.role)) {
+    return { error: NextResponse.json({ error: "Forbidden - Admin access required" }, { status: 403 }) };
+  }
+  return { user: user! };
+}
+
+// GET /api/admin/images/orphaned - What the scheduled image GC would delete (dry run)
+export async function GET() {
+  const { error } = await getAdmin();
+  if (error) return error;
+
+  try {
+    const report = await collectOrphanedImages({ dryRun: true });
+    return NextResponse.json({ ...report, dryRunScheduled: process.env.IMAGE_GC_DRY_RUN === "true" });
+  } catch (err) {
+    console.error("Error finding orphaned images:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/images/orphaned - Delete a batch of them now instead of waiting for the schedule
+export async function DELETE() {
+  const { user, error } = await getAdmin();
+  if (error) return error;
+
+  try {
+    const report = await collectOrphanedImages();
+    logger.info('Orphaned images deleted by admin', { userId: user.id, deleted: report.deleted, total: report.total });
+    return NextResponse.json(report);
+  } catch (err) {
+    console.error("Error deleting orphaned images:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
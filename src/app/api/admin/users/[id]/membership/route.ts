@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerAuthSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { isAdmin } from "@/lib/rbac";
+import { grantMembershipSchema } from "@/lib/validation";
+import { membershipExpiresAt, membershipExpiresOn } from "@/lib/members";
+import { logger } from "@/lib/logger";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+async function authorize(userId: string) {
+  const session = await getServerAuthSession();
+  if (!session?.user?.email) return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+
+  const admin = await prisma.user.findUnique({ where: { email: session.user.email }, select: { id: true, role: true } });
+  if (!admin || !isAdmin(admin.role)) {
+    return { error: NextResponse.json({ error: "Forbidden - Admin access required" }, { status: 403 }) };
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+  if (!user) return { error: NextResponse.json({ error: "User not found" }, { status: 404 }) };
+
+  return { admin, user };
+}
+
+// PUT /api/admin/users/[id]/membership - Grant a tier, or change or extend the current one
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const result = await authorize(params.id);
+    if ("error" in result) return result.error;
+
+    const parsed = grantMembershipSchema.safeParse(await request.json());
+    if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+    const tier = await prisma.membershipTier.findUnique({ where: { id: parsed.data.tierId }, select: { id: true } });
+    if (!tier) return NextResponse.json({ error: "Tier not found" }, { status: 400 });
+
+    const expiresAt = parsed.data.expiresOn ? membershipExpiresAt(parsed.data.expiresOn) : null;
+    if (expiresAt && expiresAt <= new Date()) {
+      return NextResponse.json({ error: "The expiry date has already passed" }, { status: 400 });
+    }
+
+    const data = { tierId: tier.id, expiresAt, grantedById: result.admin.id };
+    const membership = await prisma.membership.upsert({
+      where: { userId: params.id },
+      create: { ...data, userId: params.id },
+      update: data,
+      include: { tier: { select: { name: true } } }
+    });
+
+    logger.info('Membership granted', { userId: params.id, tierId: tier.id, expiresAt, grantedById: result.admin.id });
+
+    return NextResponse.json({
+      ...membership,
+      expiresOn: membership.expiresAt ? membershipExpiresOn(membership.expiresAt) : null
+    });
+  } catch (error) {
+    console.error("Error granting membership:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/users/[id]/membership - Revoke the user's tier
+export async function DELETE(_: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const result = await authorize(params.id);
+    if ("error" in result) return result.error;
+
+    const { count } = await prisma.membership.deleteMany({ where: { userId: params.id } });
+    if (count === 0) return NextResponse.json({ error: "This user has no membership tier" }, { status: 404 });
+
+    logger.info('Membership revoked', { userId: params.id, revokedById: result.admin.id });
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Error revoking membership:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
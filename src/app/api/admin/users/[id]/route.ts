@@ -8,7 +8,7 @@ import { z } from "zod";
 // Validation schema for updates
 const updateUserSchema = z.object({
   name: z.string().min(1, "Name is required").optional(),
-  role: z.enum(["ADMIN", "ORGANIZER", "VIEWER"]).optional(),
+  role: z.enum(["ADMIN", "ORGANIZER", "VIEWER", "MEMBER"]).optional(),
   password: z.string().min(6, "Password must be at least 6 characters").optional(),
 });
 
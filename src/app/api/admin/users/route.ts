@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerAuthSession } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { isAdmin } from "@/lib/rbac";
+import { membershipExpiresOn } from "@/lib/members";
 import { hash } from "bcryptjs";
 import { z } from "zod";
 
@@ -10,12 +11,12 @@ const createUserSchema = z.object({
   email: z.string().email("Invalid email address"),
   name: z.string().min(1, "Name is required"),
   password: z.string().min(6, "Password must be at least 6 characters"),
-  role: z.enum(["ADMIN", "ORGANIZER", "VIEWER"]).default("VIEWER"),
+  role: z.enum(["ADMIN", "ORGANIZER", "VIEWER", "MEMBER"]).default("VIEWER"),
 });
 
 const updateUserSchema = z.object({
   name: z.string().min(1, "Name is required").optional(),
-  role: z.enum(["ADMIN", "ORGANIZER", "VIEWER"]).optional(),
+  role: z.enum(["ADMIN", "ORGANIZER", "VIEWER", "MEMBER"]).optional(),
   password: z.string().min(6, "Password must be at least 6 characters").optional(),
 });
 
@@ -46,11 +47,22 @@ export async function GET() {
         role: true,
         createdAt: true,
         updatedAt: true,
+        membership: {
+          select: { tierId: true, expiresAt: true, tier: { select: { name: true } } }
+        },
       },
       orderBy: { createdAt: "desc" }
     });
 
-    return NextResponse.json(users);
+    // Expiry is sent as the membership's last day too, the way admins enter it
+    type ListedUser = (typeof users)[number];
+    return NextResponse.json(users.map((user: ListedUser) => ({
+      ...user,
+      membership: user.membership && {
+        ...user.membership,
+        expiresOn: user.membership.expiresAt ? membershipExpiresOn(user.membership.expiresAt) : null
+      }
+    })));
   } catch (error) {
     console.error("Error fetching users:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { hash } from "bcryptjs";
+import { prisma } from "@/lib/prisma";
+import { signUpSchema } from "@/lib/validation";
+import { sendVerificationEmail } from "@/lib/members";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Public sign-up: creates a MEMBER account and emails a verification link.
+ * Members can sign in straight away but need a verified email for members-only events.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const parsed = signUpSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const email = parsed.data.email.toLowerCase();
+    const existing = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+    if (existing) {
+      return NextResponse.json({ error: "An account with this email already exists. Try signing in." }, { status: 409 });
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email,
+        name: parsed.data.name,
+        hashedPassword: await hash(parsed.data.password, 12),
+        role: "MEMBER",
+        dateOfBirth: new Date(`${parsed.data.dateOfBirth}T00:00:00Z`)
+      },
+      select: { id: true, email: true, name: true }
+    });
+
+    await sendVerificationEmail(user);
+
+    return NextResponse.json({ id: user.id, email: user.email }, { status: 201 });
+  } catch (error) {
+    console.error("Error signing up:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
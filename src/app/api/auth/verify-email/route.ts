@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getViewer, sendVerificationEmail, verifyEmailVerificationToken } from "@/lib/members";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Link from the verification email; lands on the account page either way
+export async function GET(req: NextRequest) {
+  const token = req.nextUrl.searchParams.get("token") ?? "";
+  const verified = await verifyEmailVerificationToken(token);
+
+  let ok = false;
+  if (verified) {
+    const { count } = await prisma.user.updateMany({
+      where: { id: verified.userId, email: verified.email },
+      data: { emailVerifiedAt: new Date() }
+    });
+    ok = count > 0;
+  }
+
+  return NextResponse.redirect(new URL(`/account?verified=${ok ? "1" : "0"}`, req.url));
+}
+
+// Send the signed-in member a fresh verification link
+export async function POST() {
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (viewer.emailVerifiedAt) {
+    return NextResponse.json({ error: "Your email is already verified" }, { status: 400 });
+  }
+
+  await sendVerificationEmail(viewer);
+  return NextResponse.json({ ok: true });
+}
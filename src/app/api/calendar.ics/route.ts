@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import type { Event } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { buildCalendar } from "@/lib/ics";
+import { forViewer } from "@/lib/members";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Keep recently finished events in the feed so they don't vanish from subscribers' calendars
+const PAST_WINDOW_DAYS = 90;
+const MAX_FEED_EVENTS = 500;
+
+export async function GET() {
+  try {
+    const now = new Date();
+    const since = new Date(now.getTime() - PAST_WINDOW_DAYS * 86400000);
+
+    // Cancelled and archived events stay in the feed with a matching STATUS,
+    // so calendars that already have them update instead of keeping a stale copy
+    const statuses = { in: ["PUBLISHED", "CANCELLED", "ARCHIVED"] as Event["status"][] };
+
+    // Upcoming events come first; past ones, most recent first, fill whatever room is left
+    const upcoming = await prisma.event.findMany({
+      where: { status: statuses, startAt: { gte: now } },
+      orderBy: { startAt: "asc" },
+      take: MAX_FEED_EVENTS
+    });
+    const past = upcoming.length < MAX_FEED_EVENTS
+      ? await prisma.event.findMany({
+          where: { status: statuses, startAt: { gte: since, lt: now } },
+          orderBy: { startAt: "desc" },
+          take: MAX_FEED_EVENTS - upcoming.length
+        })
+      : [];
+    const events: Event[] = [...past.reverse(), ...upcoming];
+
+    // Feed readers don't sign in, so members-only events are listed without their details
+    const publicEvents = events.map((event: Event) => forViewer(event, null));
+
+    return new NextResponse(buildCalendar(publicEvents, { name: "THC Members Only Club" }), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="calendar.ics"',
+        "Cache-Control": "public, max-age=900"
+      }
+    });
+  } catch (error) {
+    console.error("Error building calendar feed:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerAuthSession } from "@/lib/auth";
+import { isStaff } from "@/lib/rbac";
 import { prisma } from "@/lib/prisma";
+import { deleteUnusedFiles } from "@/lib/storage-cleanup";
 import { z } from "zod";
 import { CoordinationDocumentType } from "@prisma/client";
 
@@ -29,6 +31,9 @@ export async function PUT(
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
+    if (!isStaff(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     // Admins, Organizers, and Staff can access all coordinations
     const canManageAllEvents = ["ADMIN", "ORGANIZER", "STAFF"].includes(user.role as any);
@@ -88,6 +93,9 @@ export async function DELETE(
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
+    if (!isStaff(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     // Admins, Organizers, and Staff can access all coordinations
     const canManageAllEvents = ["ADMIN", "ORGANIZER", "STAFF"].includes(user.role as any);
@@ -101,12 +109,13 @@ export async function DELETE(
       return NextResponse.json({ error: "Coordination not found" }, { status: 404 });
     }
 
-    await prisma.coordinationDocument.delete({
+    const document = await prisma.coordinationDocument.delete({
       where: { 
         id: documentId,
         coordinationId: id,
       },
     });
+    await deleteUnusedFiles([document.fileUrl]);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerAuthSession } from "@/lib/auth";
+import { isStaff } from "@/lib/rbac";
 import { prisma } from "@/lib/prisma";
 import { logger } from "@/lib/logger";
 import { z } from "zod";
@@ -34,6 +35,9 @@ export async function GET(
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
+    if (!isStaff(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     // Admins, Organizers, and Staff can access all coordinations
     const canManageAllEvents = ["ADMIN", "ORGANIZER", "STAFF"].includes(user.role as any);
@@ -95,6 +99,9 @@ export async function POST(
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
+    if (!isStaff(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     // Admins, Organizers, and Staff can access all coordinations, others only their own
     const canManageAllEvents = ["ADMIN", "ORGANIZER", "STAFF"].includes(user.role as any);
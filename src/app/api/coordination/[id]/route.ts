@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { revalidatePath } from "next/cache";
 import { getServerAuthSession } from "@/lib/auth";
+import { isStaff } from "@/lib/rbac";
 import { prisma } from "@/lib/prisma";
 import { logger } from "@/lib/logger";
+import { deleteUnusedFiles } from "@/lib/storage-cleanup";
 import { z } from "zod";
 
 // Force rebuild for Vercel deployment
@@ -53,6 +55,9 @@ export async function GET(
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
+    if (!isStaff(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     // Admins, Organizers, and Staff can access all coordinations, others only their own
     const canManageAllEvents = ["ADMIN", "ORGANIZER", "STAFF"].includes(user.role as any);
@@ -141,6 +146,9 @@ export async function PUT(
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
+    if (!isStaff(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     let body;
     try {
@@ -452,6 +460,9 @@ export async function DELETE(
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
+    if (!isStaff(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     // Admins, Organizers, and Staff can access all coordinations, others only their own
     const canManageAllEvents = ["ADMIN", "ORGANIZER", "STAFF"].includes(user.role as any);
@@ -490,9 +501,16 @@ export async function DELETE(
       userRole: user.role,
     });
 
+    // Documents go with the coordination (cascade), so note their files first
+    const documents = await prisma.coordinationDocument.findMany({
+      where: { coordinationId: id },
+      select: { fileUrl: true },
+    });
+
     await prisma.coordination.delete({
       where: { id: id },
     });
+    await deleteUnusedFiles(documents.map((document: { fileUrl: string }) => document.fileUrl));
 
     try {
       revalidatePath("/dashboard/coordination");
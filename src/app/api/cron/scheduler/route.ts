@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runScheduledJobs } from "@/lib/scheduler";
+import { revalidatePath } from "next/cache";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Vercel Cron entry point (see "crons" in vercel.json). Vercel sends CRON_SECRET as a
+ * bearer token; without a secret the route only runs in development.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  const authorized = secret
+    ? req.headers.get("authorization") === `Bearer ${secret}`
+    : process.env.NODE_ENV === "development";
+
+  if (!authorized) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await runScheduledJobs();
+
+    if (summary.published + summary.unpublished + summary.archived + summary.occurrencesCreated > 0) {
+      try {
+        revalidatePath("/");
+        revalidatePath("/events");
+      } catch {}
+    }
+
+    return NextResponse.json({ ok: true, ...summary });
+  } catch (error) {
+    console.error("Error running scheduled jobs:", error);
+    return NextResponse.json({ error: "Scheduled jobs failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { canEditEvent } from "@/lib/rbac";
+import { verifyCheckInToken } from "@/lib/checkin";
+import { logger } from "@/lib/logger";
+import { getUnsignedWaivers, signedWaiversInclude } from "@/lib/waivers";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const checkInSchema = z.object({
+  token: z.string().min(1).optional(),
+  registrationId: z.string().min(1).optional()
+}).refine((data) => data.token || data.registrationId, {
+  message: "A token or registrationId is required"
+});
+
+const undoCheckInSchema = z.object({
+  registrationId: z.string().min(1)
+});
+
+const attendeeSelect = {
+  id: true,
+  name: true,
+  email: true,
+  status: true,
+  checkedInAt: true,
+  checkedInBy: { select: { name: true, email: true } },
+  ...signedWaiversInclude
+} satisfies Prisma.RegistrationSelect;
+
+type Attendee = Prisma.RegistrationGetPayload<{ select: typeof attendeeSelect }>;
+
+// Door staff see which of the event's waivers an attendee still has to sign
+function withWaiverStatus({ waiverSignatures, ...attendee }: Attendee, waivers: Array<{ id: string; title: string }>) {
+  return { ...attendee, unsignedWaivers: getUnsignedWaivers(waivers, waiverSignatures) };
+}
+
+// Door staff need the same access as event editors
+async function authorize(eventId: string) {
+  const session = await getServerAuthSession();
+  if (!session?.user?.email) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    include: { waivers: { select: { id: true, title: true } } }
+  });
+  if (!event) return { error: NextResponse.json({ error: "Not found" }, { status: 404 }) };
+
+  const user = await prisma.user.findUnique({ where: { email: session.user.email } });
+  if (!user || !canEditEvent(event, user.id, user.role)) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  return { event, user };
+}
+
+async function getCounts(eventId: string) {
+  const [expected, checkedIn] = await Promise.all([
+    prisma.registration.count({ where: { eventId, status: "CONFIRMED" } }),
+    prisma.registration.count({ where: { eventId, status: "CONFIRMED", checkedInAt: { not: null } } })
+  ]);
+  return { expected, checkedIn };
+}
+
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authorize(params.id);
+    if (auth.error) return auth.error;
+
+    const q = new URL(req.url).searchParams.get("q");
+
+    const [items, counts] = await Promise.all([
+      prisma.registration.findMany({
+        where: {
+          eventId: params.id,
+          status: "CONFIRMED",
+          ...(q ? {
+            OR: [
+              { name: { contains: q, mode: "insensitive" } },
+              { email: { contains: q, mode: "insensitive" } }
+            ]
+          } : {})
+        },
+        select: attendeeSelect,
+        orderBy: { name: "asc" },
+        take: 50
+      }),
+      getCounts(params.id)
+    ]);
+
+    return NextResponse.json({
+      items: items.map((attendee: Attendee) => withWaiverStatus(attendee, auth.event.waivers)),
+      ...counts
+    });
+  } catch (error) {
+    console.error("Error fetching check-in list:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authorize(params.id);
+    if (auth.error) return auth.error;
+
+    const body = await req.json();
+    const parsed = checkInSchema.safeParse(body);
+    if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+    let registrationId = parsed.data.registrationId;
+    if (parsed.data.token) {
+      const payload = await verifyCheckInToken(parsed.data.token);
+      if (!payload) {
+        return NextResponse.json({ error: "Invalid QR code" }, { status: 400 });
+      }
+      if (payload.eventId !== params.id) {
+        return NextResponse.json({ error: "This ticket is for a different event" }, { status: 409 });
+      }
+      registrationId = payload.registrationId;
+    }
+
+    const registration = await prisma.registration.findFirst({
+      where: { id: registrationId, eventId: params.id },
+      select: attendeeSelect
+    });
+    if (!registration) return NextResponse.json({ error: "Registration not found" }, { status: 404 });
+
+    if (registration.status !== "CONFIRMED") {
+      return NextResponse.json(
+        { error: `Registration is ${registration.status.toLowerCase()}`, registration: withWaiverStatus(registration, auth.event.waivers) },
+        { status: 409 }
+      );
+    }
+
+    if (registration.checkedInAt) {
+      return NextResponse.json({
+        registration: withWaiverStatus(registration, auth.event.waivers),
+        alreadyCheckedIn: true,
+        ...(await getCounts(params.id))
+      });
+    }
+
+    const updated = await prisma.registration.update({
+      where: { id: registration.id },
+      data: { checkedInAt: new Date(), checkedInById: auth.user.id },
+      select: attendeeSelect
+    });
+
+    logger.info('Attendee checked in', {
+      registrationId: updated.id,
+      eventId: params.id,
+      userId: auth.user.id,
+      method: parsed.data.token ? "qr" : "manual",
+    });
+
+    return NextResponse.json({
+      registration: withWaiverStatus(updated, auth.event.waivers),
+      alreadyCheckedIn: false,
+      ...(await getCounts(params.id))
+    });
+  } catch (error) {
+    console.error("Error checking in attendee:", error);
+    return NextResponse.json({ error: "Failed to check in attendee" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authorize(params.id);
+    if (auth.error) return auth.error;
+
+    const body = await req.json();
+    const parsed = undoCheckInSchema.safeParse(body);
+    if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+    const registration = await prisma.registration.findFirst({
+      where: { id: parsed.data.registrationId, eventId: params.id }
+    });
+    if (!registration) return NextResponse.json({ error: "Registration not found" }, { status: 404 });
+
+    const updated = await prisma.registration.update({
+      where: { id: registration.id },
+      data: { checkedInAt: null, checkedInById: null },
+      select: attendeeSelect
+    });
+
+    logger.info('Attendee check-in undone', {
+      registrationId: updated.id,
+      eventId: params.id,
+      userId: auth.user.id,
+    });
+
+    return NextResponse.json({ registration: withWaiverStatus(updated, auth.event.waivers), ...(await getCounts(params.id)) });
+  } catch (error) {
+    console.error("Error undoing check-in:", error);
+    return NextResponse.json({ error: "Failed to undo check-in" }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { duplicateEventSchema } from "@/lib/validation";
+import { duplicateEvent } from "@/lib/duplicate";
+import { logger } from "@/lib/logger";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerAuthSession();
+    if (!session?.user?.email) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const user = await prisma.user.findUnique({ where: { email: session.user.email } });
+    if (!user || !["ADMIN", "ORGANIZER"].includes(user.role as string)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const parsed = duplicateEventSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+    const source = await prisma.event.findUnique({
+      where: { id: params.id },
+      include: {
+        images: true,
+        waivers: { select: { id: true } },
+        coordination: { where: { isArchived: false }, include: { documents: true } }
+      }
+    });
+    if (!source) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const event = await prisma.$transaction((tx: Prisma.TransactionClient) =>
+      duplicateEvent(tx, source, { ownerId: user.id, includeCoordination: parsed.data.includeCoordination })
+    );
+
+    logger.info('Event duplicated', {
+      sourceEventId: source.id,
+      eventId: event.id,
+      userId: user.id,
+      includeCoordination: parsed.data.includeCoordination
+    });
+
+    return NextResponse.json(event, { status: 201 });
+  } catch (error) {
+    console.error("Error duplicating event:", error);
+    return NextResponse.json({ error: "Failed to duplicate event" }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { buildCalendar } from "@/lib/ics";
+import { forViewer, getViewer } from "@/lib/members";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(_: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    // Accept the id or the slug, matching the public event page; drafts are never exported
+    const event = await prisma.event.findFirst({
+      where: {
+        OR: [{ id: params.id }, { slug: params.id }],
+        status: { not: "DRAFT" }
+      }
+    });
+
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    return new NextResponse(buildCalendar([forViewer(event, await getViewer())]), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${event.slug}.ics"`,
+        "Cache-Control": "no-store"
+      }
+    });
+  } catch (error) {
+    console.error("Error exporting event:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma, Registration } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { getServerAuthSession } from "@/lib/auth";
+import { canEditEvent } from "@/lib/rbac";
+import { updateRegistrationSchema } from "@/lib/validation";
+import { getSpotsLeft, lockEvent, promoteFromWaitlist, notifyPromoted } from "@/lib/registrations";
+
+export const dynamic = 'force-dynamic';
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string; registrationId: string } }
+) {
+  try {
+    const session = await getServerAuthSession();
+    if (!session?.user?.email) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const event = await prisma.event.findUnique({ where: { id: params.id } });
+    if (!event) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const user = await prisma.user.findUnique({ where: { email: session.user.email } });
+    if (!user || !canEditEvent(event, user.id, user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const parsed = updateRegistrationSchema.safeParse(body);
+    if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+    const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await lockEvent(tx, event.id);
+
+      const registration = await tx.registration.findFirst({
+        where: { id: params.registrationId, eventId: event.id }
+      });
+      if (!registration) return null;
+
+      // Restoring or promoting by hand takes a spot like any RSVP does, so it can't overfill
+      // the event; while it's full, waitlisted guests wait their turn for promotion
+      if (parsed.data.status === "CONFIRMED" && registration.status !== "CONFIRMED") {
+        const confirmed = await tx.registration.count({ where: { eventId: event.id, status: "CONFIRMED" } });
+        const current = await tx.event.findUnique({ where: { id: event.id }, select: { capacity: true } });
+        if (current && getSpotsLeft(current, confirmed) === 0) return { full: true as const };
+      }
+
+      const updated = await tx.registration.update({
+        where: { id: registration.id },
+        data: {
+          status: parsed.data.status,
+          cancelledAt: parsed.data.status === "CANCELLED" ? new Date() : null,
+          ...(parsed.data.status === "CONFIRMED" && registration.status === "WAITLISTED" ? { promotedAt: new Date() } : {})
+        }
+      });
+
+      // A confirmed attendee dropping out frees a spot for the waitlist
+      const promoted = registration.status === "CONFIRMED" && parsed.data.status === "CANCELLED"
+        ? await promoteFromWaitlist(tx, event.id)
+        : [];
+
+      return { updated, promoted };
+    });
+
+    if (!result) return NextResponse.json({ error: "Registration not found" }, { status: 404 });
+    if ("full" in result) {
+      return NextResponse.json({ error: "This event is full. Free a spot before confirming another guest." }, { status: 409 });
+    }
+
+    if (result.promoted.length > 0) {
+      logger.info('Waitlist promoted', {
+        eventId: event.id,
+        registrationIds: result.promoted.map((r: Registration) => r.id),
+      });
+      await notifyPromoted(result.promoted, event);
+    }
+
+    const { updated } = result;
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Error updating registration:", error);
+    return NextResponse.json({ error: "Failed to update registration" }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import slugify from "slugify";
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { canEditEvent } from "@/lib/rbac";
+import { renderSignedWaiversPdf } from "@/lib/waivers";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Every waiver the attendee signed for this event, in one PDF
+export async function GET(
+  _: NextRequest,
+  { params }: { params: { id: string; registrationId: string } }
+) {
+  try {
+    const session = await getServerAuthSession();
+    if (!session?.user?.email) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const event = await prisma.event.findUnique({ where: { id: params.id } });
+    if (!event) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const user = await prisma.user.findUnique({ where: { email: session.user.email } });
+    if (!user || !canEditEvent(event, user.id, user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const registration = await prisma.registration.findFirst({
+      where: { id: params.registrationId, eventId: event.id },
+      include: {
+        waiverSignatures: {
+          orderBy: { signedAt: "asc" },
+          include: { waiverVersion: { include: { waiver: { select: { title: true } } } } }
+        }
+      }
+    });
+    if (!registration) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    if (registration.waiverSignatures.length === 0) {
+      return NextResponse.json({ error: "This attendee hasn't signed any waivers" }, { status: 404 });
+    }
+
+    const pdf = await renderSignedWaiversPdf({
+      event,
+      attendee: { name: registration.name, email: registration.email },
+      signatures: registration.waiverSignatures
+    });
+
+    const fileName = `${slugify(`${event.slug} ${registration.name} waivers`, { lower: true, strict: true })}.pdf`;
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "private, no-store"
+      }
+    });
+  } catch (error) {
+    console.error("Error rendering signed waivers:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
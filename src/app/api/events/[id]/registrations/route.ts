@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { canEditEvent } from "@/lib/rbac";
+import { getUnsignedWaivers, signedWaiversInclude } from "@/lib/waivers";
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerAuthSession();
+    if (!session?.user?.email) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const event = await prisma.event.findUnique({ where: { id: params.id } });
+    if (!event) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const user = await prisma.user.findUnique({ where: { email: session.user.email } });
+    if (!user || !canEditEvent(event, user.id, user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const q = searchParams.get("q");
+    const status = searchParams.get("status");
+
+    const where: Prisma.RegistrationWhereInput = { eventId: event.id };
+    if (status === "CONFIRMED" || status === "WAITLISTED" || status === "CANCELLED") where.status = status;
+    if (q) {
+      where.OR = [
+        { name: { contains: q, mode: "insensitive" } },
+        { email: { contains: q, mode: "insensitive" } }
+      ];
+    }
+
+    const [registrations, counts, waivers] = await Promise.all([
+      prisma.registration.findMany({
+        where,
+        include: signedWaiversInclude,
+        orderBy: status === "WAITLISTED" ? [{ waitlistedAt: "asc" }, { createdAt: "asc" }] : { createdAt: "asc" }
+      }),
+      prisma.registration.groupBy({
+        by: ["status"],
+        where: { eventId: event.id },
+        _count: { _all: true }
+      }),
+      prisma.waiver.findMany({ where: { events: { some: { id: event.id } } }, select: { id: true, title: true } })
+    ]);
+
+    type ListedRegistration = (typeof registrations)[number];
+    const items = registrations.map(({ waiverSignatures, ...registration }: ListedRegistration) => ({
+      ...registration,
+      unsignedWaivers: getUnsignedWaivers(waivers, waiverSignatures),
+      hasSignedWaivers: waiverSignatures.length > 0
+    }));
+
+    const countFor = (s: string) => counts.find((c: { status: string }) => c.status === s)?._count._all ?? 0;
+
+    return NextResponse.json({
+      items,
+      total: items.length,
+      confirmed: countFor("CONFIRMED"),
+      waitlisted: countFor("WAITLISTED"),
+      cancelled: countFor("CANCELLED"),
+      capacity: event.capacity
+    });
+  } catch (error) {
+    console.error("Error fetching registrations:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma, Registration } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { canEditEvent } from "@/lib/rbac";
+import { generateUniqueEventSlug, recordSlugChange } from "@/lib/utils";
+import { lockEvent, promoteFromWaitlist, notifyPromoted } from "@/lib/registrations";
+import { applySnapshot, recordRevision, takeSnapshot, type EventSnapshot } from "@/lib/revisions";
+import { geocodeEvent, LOCATION_FIELDS } from "@/lib/geocoding";
+import { logger } from "@/lib/logger";
+import { revalidatePath } from "next/cache";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function POST(_: NextRequest, { params }: { params: { id: string; revisionId: string } }) {
+  try {
+    const session = await getServerAuthSession();
+    if (!session?.user?.email) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const event = await prisma.event.findUnique({ where: { id: params.id } });
+    if (!event) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const user = await prisma.user.findUnique({ where: { email: session.user.email } });
+    if (!user || !canEditEvent(event, user.id, user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const revision = await prisma.eventRevision.findFirst({
+      where: { id: params.revisionId, eventId: params.id }
+    });
+    if (!revision) return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+
+    const snapshot = revision.snapshot as unknown as EventSnapshot;
+    let promoted: Registration[] = [];
+
+    const updated = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const before = await takeSnapshot(tx, params.id);
+      await applySnapshot(tx, params.id, snapshot);
+
+      // Keep the slug in line with the restored title/location, as a normal edit would
+      if (before.title !== snapshot.title || before.locationName !== snapshot.locationName) {
+        const slug = await generateUniqueEventSlug(snapshot.title as string, snapshot.locationName as string | null, {
+          excludeId: params.id,
+          db: tx
+        });
+        await tx.event.update({ where: { id: params.id }, data: { slug } });
+        await recordSlugChange(tx, params.id, event.slug, slug);
+      }
+      if (event.seriesId) {
+        await tx.event.update({ where: { id: params.id }, data: { detachedFromSeries: true } });
+      }
+
+      if (before.capacity !== snapshot.capacity) {
+        await lockEvent(tx, params.id);
+        promoted = await promoteFromWaitlist(tx, params.id);
+      }
+
+      const after = await takeSnapshot(tx, params.id);
+      await recordRevision(tx, { eventId: params.id, userId: user.id, before, after, restoredFromId: revision.id });
+
+      return tx.event.findUniqueOrThrow({ where: { id: params.id }, include: { heroImage: true } });
+    });
+
+    if (promoted.length > 0) {
+      await notifyPromoted(promoted, updated);
+    }
+
+    // Older revisions may predate the coordinates; look them up for the restored location
+    if (updated.latitude == null && LOCATION_FIELDS.some(field => event[field] !== updated[field])) {
+      await geocodeEvent(updated);
+    }
+
+    logger.info('Event revision restored', {
+      eventId: params.id,
+      revisionId: revision.id,
+      userId: user.id
+    });
+
+    try {
+      revalidatePath("/");
+      revalidatePath("/events");
+    } catch {}
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Error restoring revision:", error);
+    return NextResponse.json({ error: "Failed to restore revision" }, { status: 500 });
+  }
+}
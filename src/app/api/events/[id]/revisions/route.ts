@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { canEditEvent } from "@/lib/rbac";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(_: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerAuthSession();
+    if (!session?.user?.email) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const event = await prisma.event.findUnique({ where: { id: params.id } });
+    if (!event) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const user = await prisma.user.findUnique({ where: { email: session.user.email } });
+    if (!user || !canEditEvent(event, user.id, user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const items = await prisma.eventRevision.findMany({
+      where: { eventId: params.id },
+      orderBy: { createdAt: "desc" },
+      take: 50,
+      include: { user: { select: { name: true, email: true } } }
+    });
+
+    return NextResponse.json({ items, timezone: event.timezone, updatedAt: event.updatedAt });
+  } catch (error) {
+    console.error("Error fetching revisions:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
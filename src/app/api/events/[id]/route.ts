@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
-import type { Prisma } from "@prisma/client";
+import type { Prisma, Registration } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { getServerAuthSession } from "@/lib/auth";
 import { updateEventSchema } from "@/lib/validation";
 import { canEditEvent } from "@/lib/rbac";
-import { createSlug } from "@/lib/utils";
+import { generateUniqueEventSlug, recordSlugChange } from "@/lib/utils";
+import { parseZonedInput } from "@/lib/timezone";
+import { geocodeEvent, LOCATION_FIELDS } from "@/lib/geocoding";
+import { EditConflictError, recordRevision, takeSnapshot } from "@/lib/revisions";
+import { lockEvent, promoteFromWaitlist, notifyPromoted } from "@/lib/registrations";
+import { deleteUnusedFiles, deleteUnusedImages } from "@/lib/storage-cleanup";
+import { forViewer, getViewer } from "@/lib/members";
 import { revalidatePath } from "next/cache";
 
 export async function GET(
@@ -18,17 +24,19 @@ export async function GET(
       return NextResponse.json({ error: "Event ID is required" }, { status: 400 });
     }
 
-    // Look up by ID (for authenticated users)
+    // Event ids are public (every listing has them), so visitors get what the slug route
+    // gives them: published events only. Editors can load any of theirs, e.g. drafts.
     const event = await prisma.event.findUnique({
       where: { id: id },
-      include: { heroImage: true, images: true, owner: true }
+      include: { heroImage: true, images: true }
     });
-    
-    if (!event) {
+    const viewer = await getViewer();
+
+    if (!event || (event.status !== "PUBLISHED" && !canEditEvent(event, viewer?.id, viewer?.role))) {
       return NextResponse.json({ error: "Event not found" }, { status: 404 });
     }
     
-    return NextResponse.json(event);
+    return NextResponse.json(forViewer(event, viewer));
   } catch (error) {
     console.error("Error fetching event:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
@@ -65,46 +73,97 @@ export async function PATCH(req: NextRequest, { params }: { params: { id: string
       const newTitle = parsed.data.title || event.title;
       const newLocationName = parsed.data.locationName || event.locationName;
       
-      // Create new slug with both title and location name
-      let slug = createSlug(newTitle, newLocationName);
-      let counter = 1;
-      
-      // Ensure slug is unique by appending numbers if needed
-      while (true) {
-        const existing = await prisma.event.findFirst({
-          where: { 
-            slug: slug,
-            id: { not: params.id } // Exclude current event
-          }
-        });
-        
-        if (!existing) {
-          break;
-        }
-        
-        slug = `${createSlug(newTitle, newLocationName)}-${counter}`;
-        counter++;
-      }
+      // Create new slug with both title and location name, excluding the current event
+      const slug = await generateUniqueEventSlug(newTitle, newLocationName, { excludeId: params.id });
       
       // Add the new slug to updateData
       parsed.data.slug = slug;
     }
 
-    // Convert datetime-local format to proper ISO format for Prisma
+    // datetime-local values are wall-clock times in the event's (possibly updated) timezone
+    const timezone = parsed.data.timezone ?? event.timezone;
     const updateData: any = { ...parsed.data };
     if (updateData.startAt) {
-      updateData.startAt = new Date(updateData.startAt);
+      updateData.startAt = parseZonedInput(updateData.startAt, timezone);
+    }
+    if (updateData.endAt !== undefined) {
+      updateData.endAt = updateData.endAt ? parseZonedInput(updateData.endAt, timezone) : null;
     }
-    if (updateData.endAt) {
-      updateData.endAt = new Date(updateData.endAt);
+    // Schedules can be cleared by sending an empty value
+    if (updateData.publishAt !== undefined) {
+      updateData.publishAt = updateData.publishAt ? parseZonedInput(updateData.publishAt, timezone) : null;
+    }
+    if (updateData.unpublishAt !== undefined) {
+      updateData.unpublishAt = updateData.unpublishAt ? parseZonedInput(updateData.unpublishAt, timezone) : null;
+    }
+
+    if (updateData.venueId !== undefined) {
+      updateData.venueId = updateData.venueId || null;
+    }
+    if (updateData.category !== undefined) {
+      updateData.category = updateData.category || null;
+    }
+
+    // Blank location fields are stored as null, so the geocoder never sees them as a location
+    for (const field of LOCATION_FIELDS) {
+      if (typeof updateData[field] === "string" && !updateData[field].trim()) updateData[field] = null;
+    }
+
+    // Hand-entered coordinates win over lookups; a location change (or cleared coordinates)
+    // means looking them up again once the edit is saved
+    const coordinatesChanged = (["latitude", "longitude"] as const)
+      .some(field => updateData[field] !== undefined && updateData[field] !== event[field]);
+    const locationChanged = LOCATION_FIELDS
+      .some(field => updateData[field] !== undefined && (updateData[field] || null) !== (event[field] || null));
+    let needsGeocode = false;
+    if (coordinatesChanged && updateData.latitude != null && updateData.longitude != null) {
+      updateData.geocodeStatus = "MANUAL";
+      updateData.geocodeError = null;
+    } else if (locationChanged || coordinatesChanged) {
+      Object.assign(updateData, { latitude: null, longitude: null, geocodeStatus: null, geocodeError: null });
+      needsGeocode = true;
     }
 
     // Remove detailImageIds from updateData since it's not a field on the Event model
     const detailImageIds = updateData.detailImageIds;
     delete updateData.detailImageIds;
+    const waiverIds: string[] | undefined = updateData.waiverIds;
+    delete updateData.waiverIds;
+
+    // The updatedAt the editor loaded; when sent, the save only applies if nobody saved since
+    const { expectedUpdatedAt } = parsed.data;
+    delete updateData.expectedUpdatedAt;
+
+    // Editing a series occurrence on its own keeps later series edits from overwriting it;
+    // status-only changes (cancel/restore from the series page) don't count
+    if (event.seriesId && Object.keys(updateData).some(key => key !== "status")) {
+      updateData.detachedFromSeries = true;
+    }
+
+    let promoted: Registration[] = [];
 
     await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
-      await tx.event.update({ where: { id: params.id }, data: updateData });
+      const before = await takeSnapshot(tx, params.id);
+
+      if (expectedUpdatedAt) {
+        const { count } = await tx.event.updateMany({
+          where: { id: params.id, updatedAt: new Date(expectedUpdatedAt) },
+          data: updateData
+        });
+        if (count === 0) throw new EditConflictError();
+      } else {
+        await tx.event.update({ where: { id: params.id }, data: updateData });
+      }
+
+      if (updateData.slug) {
+        await recordSlugChange(tx, params.id, event.slug, updateData.slug);
+      }
+
+      // Raising or removing the capacity can open spots for the waitlist
+      if (parsed.data.capacity !== undefined) {
+        await lockEvent(tx, params.id);
+        promoted = await promoteFromWaitlist(tx, params.id);
+      }
 
       // Handle hero image assignment/removal within the transaction
       if (parsed.data.heroImageId !== undefined) {
@@ -143,8 +202,27 @@ export async function PATCH(req: NextRequest, { params }: { params: { id: string
           }
         }
       }
+
+      // Attendees who already signed keep their signatures if a waiver is taken off and put back
+      if (waiverIds !== undefined) {
+        await tx.event.update({
+          where: { id: params.id },
+          data: { waivers: { set: waiverIds.map(id => ({ id })) } }
+        });
+      }
+
+      const after = await takeSnapshot(tx, params.id);
+      await recordRevision(tx, { eventId: params.id, userId: user.id, before, after });
     });
     
+    if (promoted.length > 0) {
+      await notifyPromoted(promoted, { ...event, ...updateData });
+    }
+
+    if (needsGeocode) {
+      await geocodeEvent({ ...event, ...updateData });
+    }
+
     // Return the updated event with hero image included
     const eventWithHero = await prisma.event.findUnique({
       where: { id: params.id },
@@ -158,6 +236,21 @@ export async function PATCH(req: NextRequest, { params }: { params: { id: string
 
     return NextResponse.json(eventWithHero);
   } catch (error) {
+    if (error instanceof EditConflictError) {
+      // Tell the editor who saved in between so they can decide whether to overwrite
+      const latest = await prisma.eventRevision.findFirst({
+        where: { eventId: params.id },
+        orderBy: { createdAt: "desc" },
+        include: { user: { select: { name: true, email: true } } }
+      });
+      return NextResponse.json({
+        error: "conflict",
+        message: error.message,
+        updatedAt: latest?.createdAt ?? null,
+        updatedBy: latest?.user ?? null
+      }, { status: 409 });
+    }
+
     console.error("Error updating event:", error);
     return NextResponse.json({ 
       error: "Failed to update event", 
@@ -178,7 +271,28 @@ export async function DELETE(_: NextRequest, { params }: { params: { id: string
     return NextResponse.json({ error: "Forbidden" }, { status: 403 });
   }
 
-  await prisma.event.delete({ where: { id: params.id } });
+  // Coordination documents are deleted with the event (cascade) and its images released,
+  // so note them first
+  const documents = await prisma.coordinationDocument.findMany({
+    where: { coordination: { eventId: params.id } },
+    select: { fileUrl: true }
+  });
+  const images = await prisma.image.findMany({ where: { eventId: params.id }, select: { id: true } });
+
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.event.delete({ where: { id: params.id } });
+
+    // Record the date as an exception so the series doesn't generate it again
+    if (event.seriesId && event.occurrenceDate) {
+      await tx.eventSeries.update({
+        where: { id: event.seriesId },
+        data: { exDates: { push: event.occurrenceDate } }
+      });
+    }
+  });
+  await deleteUnusedFiles(documents.map((document: { fileUrl: string }) => document.fileUrl));
+  // Images also used by a gallery, venue or series stay
+  await deleteUnusedImages([...images.map((image: { id: string }) => image.id), ...(event.heroImageId ? [event.heroImageId] : [])]);
 
   try {
     revalidatePath("/");
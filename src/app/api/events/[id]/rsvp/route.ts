@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getSpotsLeft, lockEvent, sendTicketEmail } from "@/lib/registrations";
+import { createCheckInToken } from "@/lib/checkin";
+import { logger } from "@/lib/logger";
+import { createRegistrationSchema } from "@/lib/validation";
+import { canRsvpToEvent, getViewer, isVerifiedMember } from "@/lib/members";
+import { getClientIp, getEventWaivers } from "@/lib/waivers";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await req.json();
+    const parsed = createRegistrationSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const event = await prisma.event.findFirst({
+      where: { id: params.id, status: "PUBLISHED" }
+    });
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    // Events with an external ticket link handle registration elsewhere
+    if (event.ticketUrl) {
+      return NextResponse.json({ error: "This event does not accept RSVPs here" }, { status: 400 });
+    }
+
+    if ((event.endAt ?? event.startAt) < new Date()) {
+      return NextResponse.json({ error: "This event has already ended" }, { status: 400 });
+    }
+
+    // Members' RSVPs are tied to their account, whatever email the form sent
+    let email = parsed.data.email.toLowerCase();
+    if (event.access !== "PUBLIC") {
+      const viewer = await getViewer();
+      if (!viewer) {
+        return NextResponse.json({ error: "Sign in as a member to RSVP to this event" }, { status: 401 });
+      }
+      if (!isVerifiedMember(viewer)) {
+        return NextResponse.json({ error: "Verify your email to RSVP to this event" }, { status: 403 });
+      }
+      if (!canRsvpToEvent(event, viewer)) {
+        return NextResponse.json({ error: "This event is for members of other tiers" }, { status: 403 });
+      }
+      email = viewer.email.toLowerCase();
+    }
+
+    // Every attached waiver has to be signed at its current version; if one changed while
+    // the form was open, the attendee gets the new text back to read and sign
+    const waivers = await getEventWaivers(event.id);
+    const unsigned = waivers.filter(waiver =>
+      !parsed.data.signatures.some(signature => signature.waiverVersionId === waiver.versionId)
+    );
+    if (unsigned.length > 0) {
+      const stale = parsed.data.signatures.length > 0;
+      return NextResponse.json(
+        {
+          error: stale
+            ? "A waiver for this event was updated. Please read and sign the current version."
+            : `Please sign ${unsigned.map(waiver => waiver.title).join(" and ")} to RSVP`,
+          waivers
+        },
+        { status: stale ? 409 : 400 }
+      );
+    }
+    const signatures = parsed.data.signatures.filter(signature =>
+      waivers.some(waiver => waiver.versionId === signature.waiverVersionId)
+    );
+    const signedFrom = {
+      ipAddress: getClientIp(req),
+      userAgent: req.headers.get("user-agent")?.slice(0, 500) ?? null,
+      signedAt: new Date()
+    };
+
+    const data = {
+      name: parsed.data.name.trim(),
+      phone: parsed.data.phone || null
+    };
+
+    const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Serialize against other RSVPs and cancellations for this event
+      await lockEvent(tx, event.id);
+
+      const existing = await tx.registration.findUnique({
+        where: { eventId_email: { eventId: event.id, email } }
+      });
+
+      if (existing && existing.status !== "CANCELLED") {
+        return { existing, registration: null };
+      }
+
+      const confirmed = await tx.registration.count({
+        where: { eventId: event.id, status: "CONFIRMED" }
+      });
+      const spotsLeft = getSpotsLeft(event, confirmed);
+
+      if (spotsLeft === 0 && !event.waitlistEnabled) {
+        return { existing, registration: null, soldOut: true };
+      }
+
+      const status = spotsLeft === 0 ? "WAITLISTED" as const : "CONFIRMED" as const;
+      const statusData = {
+        status,
+        waitlistedAt: status === "WAITLISTED" ? new Date() : null,
+        promotedAt: null,
+        cancelledAt: null
+      };
+
+      // Re-registering after a cancellation reactivates the original record
+      const registration = existing
+        ? await tx.registration.update({
+            where: { id: existing.id },
+            data: { ...data, ...statusData }
+          })
+        : await tx.registration.create({
+            data: { ...data, ...statusData, email, eventId: event.id }
+          });
+
+      // Signing again when re-registering replaces the earlier signature for that version
+      for (const signature of signatures) {
+        const signed = {
+          signerName: signature.signerName.trim(),
+          signatureType: signature.signatureType,
+          signatureImage: signature.signatureType === "DRAWN" ? signature.signatureImage ?? null : null,
+          ...signedFrom
+        };
+        await tx.waiverSignature.upsert({
+          where: { registrationId_waiverVersionId: { registrationId: registration.id, waiverVersionId: signature.waiverVersionId } },
+          create: { ...signed, registrationId: registration.id, waiverVersionId: signature.waiverVersionId },
+          update: signed
+        });
+      }
+
+      return { existing, registration };
+    });
+
+    if (!result.registration) {
+      if (result.soldOut) {
+        return NextResponse.json({ error: "Sorry, this event is sold out." }, { status: 409 });
+      }
+      const message = result.existing?.status === "WAITLISTED"
+        ? "You are already on the waitlist for this event."
+        : "You are already registered for this event.";
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+
+    const { existing, registration } = result;
+
+    logger.info('Registration created', {
+      registrationId: registration.id,
+      eventId: event.id,
+      status: registration.status,
+      reactivated: !!existing,
+      waiversSigned: signatures.length,
+    });
+
+    const checkInToken = registration.status === "CONFIRMED"
+      ? await createCheckInToken({ registrationId: registration.id, eventId: event.id })
+      : null;
+    if (registration.status === "CONFIRMED") {
+      await sendTicketEmail(registration, event);
+    }
+
+    return NextResponse.json(
+      {
+        message: registration.status === "WAITLISTED"
+          ? "The event is full, so you've been added to the waitlist. We'll email you if a spot opens up."
+          : "You're on the list!",
+        id: registration.id,
+        status: registration.status,
+        checkInToken
+      },
+      { status: existing ? 200 : 201 }
+    );
+  } catch (error) {
+    console.error("Error creating registration:", error);
+    return NextResponse.json({ error: "Failed to RSVP. Please try again." }, { status: 500 });
+  }
+}
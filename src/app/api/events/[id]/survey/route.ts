@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { canEditEvent } from "@/lib/rbac";
+import { updateSurveySchema } from "@/lib/validation";
+import { DEFAULT_SURVEY_QUESTIONS, getSurveyQuestions, getSurveyScores, summarizeSurvey } from "@/lib/surveys";
+import { logger } from "@/lib/logger";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+async function authorize(eventId: string) {
+  const session = await getServerAuthSession();
+  if (!session?.user?.email) return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    include: { survey: { include: { responses: { select: { answers: true, submittedAt: true } } } } }
+  });
+  if (!event) return { error: NextResponse.json({ error: "Not found" }, { status: 404 }) };
+
+  const user = await prisma.user.findUnique({ where: { email: session.user.email } });
+  if (!user || !canEditEvent(event, user.id, user.role)) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  return { event, user };
+}
+
+// The event's survey (or the default questions if it doesn't have one yet) with its results so far
+export async function GET(_: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authorize(params.id);
+    if ("error" in auth) return auth.error;
+
+    const { survey } = auth.event;
+    if (!survey) {
+      return NextResponse.json({ survey: null, questions: DEFAULT_SURVEY_QUESTIONS, responses: 0, results: [] });
+    }
+
+    const questions = getSurveyQuestions(survey.questions);
+    return NextResponse.json({
+      survey: { id: survey.id, enabled: survey.enabled, sentAt: survey.sentAt, sentTo: survey.sentTo },
+      questions,
+      responses: survey.responses.length,
+      results: summarizeSurvey(questions, survey.responses),
+      ...getSurveyScores(questions, survey.responses)
+    });
+  } catch (error) {
+    console.error("Error fetching survey:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// Creates the survey on first save; it goes out with the next scheduler run after the event is archived
+export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authorize(params.id);
+    if ("error" in auth) return auth.error;
+
+    const parsed = updateSurveySchema.safeParse(await req.json());
+    if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+    // Answers are kept by question id, so a question that has answers can't change what it asks for
+    const existing = auth.event.survey;
+    if (existing && existing.responses.length > 0 && parsed.data.questions) {
+      const before = getSurveyQuestions(existing.questions);
+      const changed = parsed.data.questions.find(question =>
+        before.some(previous => previous.id === question.id && previous.type !== question.type)
+      );
+      if (changed) {
+        return NextResponse.json(
+          { error: `"${changed.label}" already has answers, so its type can't change; add a new question instead` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const questions = parsed.data.questions as Prisma.InputJsonValue | undefined;
+    const survey = await prisma.survey.upsert({
+      where: { eventId: params.id },
+      create: {
+        eventId: params.id,
+        enabled: parsed.data.enabled ?? true,
+        questions: questions ?? (DEFAULT_SURVEY_QUESTIONS as unknown as Prisma.InputJsonValue)
+      },
+      update: { enabled: parsed.data.enabled, questions }
+    });
+
+    logger.info('Survey saved', { surveyId: survey.id, eventId: params.id, userId: auth.user.id });
+
+    return NextResponse.json({
+      survey: { id: survey.id, enabled: survey.enabled, sentAt: survey.sentAt, sentTo: survey.sentTo },
+      questions: getSurveyQuestions(survey.questions)
+    });
+  } catch (error) {
+    console.error("Error saving survey:", error);
+    return NextResponse.json({ error: "Failed to save survey" }, { status: 500 });
+  }
+}
@@ -2,23 +2,83 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getServerAuthSession } from "@/lib/auth";
 import { createEventSchema } from "@/lib/validation";
-import { createSlug, autoArchivePastEvents } from "@/lib/utils";
-import type { Prisma } from "@prisma/client";
+import { generateUniqueEventSlug } from "@/lib/utils";
+import { confirmedRegistrationsCount, withAvailability } from "@/lib/registrations";
+import { parseZonedInput } from "@/lib/timezone";
+import { geocodeEvent, LOCATION_FIELDS } from "@/lib/geocoding";
+import { forViewer, getViewer, visibleDetailsWhere } from "@/lib/members";
+import { applyFacetConditions, facetConditions, getEventFacets, parseEventFilters } from "@/lib/event-filters";
+import { boundingBoxAround, distanceKm, parseBoundingBox, parseLatLng, type BoundingBox, type LatLng } from "@/lib/geo";
+import type { Event, Prisma } from "@prisma/client";
+
+// Map views load every pin in the visible area, so they may ask for more than a page of cards
+const MAX_MAP_RESULTS = 200;
+// Rows measured in memory for radius filters and distance sorting
+const MAX_DISTANCE_CANDIDATES = 500;
+
+function withinBoundingBox(box: BoundingBox): Prisma.EventWhereInput {
+  const latitude = { gte: box.south, lte: box.north };
+  return box.west <= box.east
+    ? { latitude, longitude: { gte: box.west, lte: box.east } }
+    // Crosses the antimeridian
+    : { latitude, OR: [{ longitude: { gte: box.west } }, { longitude: { lte: box.east } }] };
+}
+
+type EventWithSpots = Event & { spotsLeft: number | null };
+
+function measureFrom<T extends { latitude: number | null; longitude: number | null }>(origin: LatLng, event: T) {
+  const distance = event.latitude != null && event.longitude != null
+    ? distanceKm(origin, { latitude: event.latitude, longitude: event.longitude })
+    : null;
+  return { ...event, distanceKm: distance };
+}
 
+/**
+ * Besides the list filters, accepts location filters:
+ * - bbox=west,south,east,north: only events with coordinates inside the box (map views)
+ * - near=lat,lng: adds distanceKm to each event; with radius=<km>, only events within it;
+ *   with sort=distance, nearest first (events without coordinates last)
+ * and taxonomy filters (category, tag, city, buttonType, when; see event-filters.ts).
+ * With facets=1 the response also counts the matches for each filter value.
+ * Members-only events come without their details unless the viewer is a verified member.
+ */
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
   const status = searchParams.get("status") ?? "PUBLISHED";
   const owner = searchParams.get("owner");
-  const take = Math.min(parseInt(searchParams.get("limit") ?? "24"), 60);
+
+  const bboxParam = searchParams.get("bbox");
+  const bbox = parseBoundingBox(bboxParam);
+  if (bboxParam && !bbox) {
+    return NextResponse.json({ error: "bbox must be west,south,east,north" }, { status: 400 });
+  }
+  const nearParam = searchParams.get("near");
+  const near = parseLatLng(nearParam);
+  if (nearParam && !near) {
+    return NextResponse.json({ error: "near must be lat,lng" }, { status: 400 });
+  }
+  const radiusKm = searchParams.get("radius") ? Number(searchParams.get("radius")) : null;
+  if (radiusKm !== null && (!near || !(radiusKm > 0))) {
+    return NextResponse.json({ error: "radius needs near and a positive number of kilometres" }, { status: 400 });
+  }
+  const sortByDistance = searchParams.get("sort") === "distance";
+  if (sortByDistance && !near) {
+    return NextResponse.json({ error: "sort=distance needs near" }, { status: 400 });
+  }
+
+  const parsedFilters = parseEventFilters(searchParams);
+  if ("error" in parsedFilters) {
+    return NextResponse.json({ error: parsedFilters.error }, { status: 400 });
+  }
+  const withFacets = searchParams.get("facets") === "1";
+
+  const take = Math.min(parseInt(searchParams.get("limit") ?? "24"), bbox ? MAX_MAP_RESULTS : 60);
   const page = Math.max(parseInt(searchParams.get("page") ?? "1"), 1);
   const skip = (page - 1) * take;
   const from = searchParams.get("from"); // ISO
   const to = searchParams.get("to");
   const q = searchParams.get("q");
 
-  // Auto-archive past PUBLISHED events before fetching
-  await autoArchivePastEvents();
-
   const now = new Date();
   const where: Prisma.EventWhereInput = { 
     status: status as "DRAFT" | "PUBLISHED" | "ARCHIVED" 
@@ -56,17 +116,56 @@ export async function GET(req: NextRequest) {
   }
   if (q) where.title = { contains: q, mode: "insensitive" };
 
+  // Location searches would give away where restricted events are
+  const viewer = await getViewer();
+  const areas = [
+    ...(bbox || near ? [visibleDetailsWhere(viewer)] : []),
+    ...(bbox ? [withinBoundingBox(bbox)] : []),
+    ...(near && radiusKm ? [withinBoundingBox(boundingBoxAround(near, radiusKm))] : [])
+  ];
+  if (areas.length > 0) where.AND = areas;
+
+  const conditions = facetConditions(parsedFilters.filters, now);
+  const filtered = applyFacetConditions(where, conditions);
+  const facets = withFacets ? { facets: await getEventFacets(where, conditions, now) } : {};
+
+  // Distances are exact only in memory, so radius and distance order page over the measured rows
+  if (near && (radiusKm || sortByDistance)) {
+    const candidates = await prisma.event.findMany({
+      where: filtered,
+      orderBy: { startAt: "asc" },
+      include: { heroImage: true, ...confirmedRegistrationsCount },
+      take: MAX_DISTANCE_CANDIDATES
+    });
+    let measured: Array<EventWithSpots & { distanceKm: number | null }> = candidates
+      .map((event: Event) => measureFrom(near, forViewer(withAvailability(event), viewer)));
+    if (radiusKm) {
+      measured = measured.filter(event => event.distanceKm !== null && event.distanceKm <= radiusKm);
+    }
+    if (sortByDistance) {
+      measured.sort((a, b) => (a.distanceKm ?? Number.MAX_VALUE) - (b.distanceKm ?? Number.MAX_VALUE));
+    }
+    return NextResponse.json({ items: measured.slice(skip, skip + take), page, pageSize: take, total: measured.length, ...facets });
+  }
+
   const [items, count] = await Promise.all([
     prisma.event.findMany({
-      where,
+      where: filtered,
       orderBy: { startAt: "asc" },
-      include: { heroImage: true },
+      include: { heroImage: true, ...confirmedRegistrationsCount },
       skip, take
     }),
-    prisma.event.count({ where })
+    prisma.event.count({ where: filtered })
   ]);
 
-  return NextResponse.json({ items, page, pageSize: take, total: count });
+  const withSpots: EventWithSpots[] = items.map((event: Event) => forViewer(withAvailability(event), viewer));
+  return NextResponse.json({
+    items: near ? withSpots.map(event => measureFrom(near, event)) : withSpots,
+    page,
+    pageSize: take,
+    total: count,
+    ...facets
+  });
 }
 
 export async function POST(req: NextRequest) {
@@ -84,37 +183,39 @@ export async function POST(req: NextRequest) {
   }
 
   // Create slug with both title and location name, ensuring uniqueness
-  let slug = createSlug(parsed.data.title, parsed.data.locationName);
-  let counter = 1;
-  
-  // Ensure slug is unique by appending numbers if needed
-  while (true) {
-    const existing = await prisma.event.findFirst({
-      where: { slug: slug }
-    });
-    
-    if (!existing) {
-      break;
-    }
-    
-    slug = `${createSlug(parsed.data.title, parsed.data.locationName)}-${counter}`;
-    counter++;
-  }
+  const slug = await generateUniqueEventSlug(parsed.data.title, parsed.data.locationName);
 
-  // Convert datetime-local format to proper ISO format for Prisma
+  // datetime-local values are wall-clock times in the event's timezone
+  const { timezone } = parsed.data;
   const eventData: any = {
     ...parsed.data,
     slug,
     ownerId: owner.id,
-    startAt: parsed.data.startAt ? new Date(parsed.data.startAt) : new Date(),
-    endAt: parsed.data.endAt ? new Date(parsed.data.endAt) : null,
-    status: parsed.data.status || "DRAFT"
+    startAt: parsed.data.startAt ? parseZonedInput(parsed.data.startAt, timezone) : new Date(),
+    endAt: parsed.data.endAt ? parseZonedInput(parsed.data.endAt, timezone) : null,
+    publishAt: parsed.data.publishAt ? parseZonedInput(parsed.data.publishAt, timezone) : null,
+    unpublishAt: parsed.data.unpublishAt ? parseZonedInput(parsed.data.unpublishAt, timezone) : null,
+    status: parsed.data.status || "DRAFT",
+    venueId: parsed.data.venueId || null,
+    category: parsed.data.category || null
   };
+  // Blank location fields are stored as null, so the geocoder never sees them as a location
+  for (const field of LOCATION_FIELDS) {
+    if (typeof eventData[field] === "string" && !eventData[field].trim()) eventData[field] = null;
+  }
+
+  // Coordinates entered by hand (or copied from a venue) are kept; otherwise they're looked up below
+  const hasCoordinates = parsed.data.latitude != null && parsed.data.longitude != null;
+  if (hasCoordinates) eventData.geocodeStatus = "MANUAL";
 
   // Remove detailImageIds from eventData since it's not a field on the Event model
   const detailImageIds = eventData.detailImageIds;
   delete eventData.detailImageIds;
 
+  const waiverIds: string[] | undefined = eventData.waiverIds;
+  delete eventData.waiverIds;
+  if (waiverIds?.length) eventData.waivers = { connect: waiverIds.map(id => ({ id })) };
+
   // Remove undefined values
   Object.keys(eventData).forEach(key => {
     if (eventData[key as keyof typeof eventData] === undefined) {
@@ -145,5 +246,9 @@ export async function POST(req: NextRequest) {
     }
   }
 
+  if (!hasCoordinates) {
+    await geocodeEvent(event);
+  }
+
   return NextResponse.json(event, { status: 201 });
 }
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { findRenamedEventSlug } from "@/lib/utils";
+import { forViewer, getViewer } from "@/lib/members";
 
 export async function GET(
   req: NextRequest, 
@@ -18,14 +20,19 @@ export async function GET(
         slug: slug,
         status: "PUBLISHED"
       },
-      include: { heroImage: true, images: true }
+      // Images still being processed have no variants to show yet
+      include: { heroImage: true, images: { where: { status: "READY" } } }
     });
     
     if (!event) {
+      const renamedTo = await findRenamedEventSlug(slug);
+      if (renamedTo) {
+        return NextResponse.redirect(new URL(`/api/events/slug/${renamedTo}`, req.url), 301);
+      }
       return NextResponse.json({ error: "Event not found" }, { status: 404 });
     }
     
-    return NextResponse.json(event);
+    return NextResponse.json(forViewer(event, await getViewer()));
   } catch (error) {
     console.error("Error fetching event by slug:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerAuthSession } from "@/lib/auth";
+import { isStaff } from "@/lib/rbac";
 import { prisma } from "@/lib/prisma";
+import { deleteUnusedImages } from "@/lib/storage-cleanup";
 
 export async function DELETE(
   request: NextRequest,
@@ -18,6 +20,9 @@ export async function DELETE(
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
+    if (!isStaff(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     const { id } = params;
 
@@ -30,7 +35,7 @@ export async function DELETE(
           { eventId: null } // Or it's a standalone gallery (anyone can delete)
         ]
       },
-      include: { event: true }
+      include: { event: true, images: { select: { imageId: true } } }
     });
 
     if (!gallery) {
@@ -42,6 +47,9 @@ export async function DELETE(
       where: { id }
     });
 
+    // Then the photos, with their files, unless another gallery or an event still shows them
+    await deleteUnusedImages(gallery.images.map((image: { imageId: string }) => image.imageId));
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting gallery:", error);
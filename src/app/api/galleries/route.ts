@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { revalidatePath } from "next/cache";
 import { getServerAuthSession } from "@/lib/auth";
+import { isStaff } from "@/lib/rbac";
 import { prisma } from "@/lib/prisma";
+import { deleteUnusedImages } from "@/lib/storage-cleanup";
 import type { Prisma } from "@prisma/client";
 import { Gallery, GalleryImage, Image, Event } from "@prisma/client";
 
@@ -18,6 +20,9 @@ export async function GET(request: NextRequest) {
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
+    if (!isStaff(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     // Admins and Organizers can see all galleries, others only see their own + standalone
     const canManageAllEvents = user.role === "ADMIN" || user.role === "ORGANIZER";
@@ -86,6 +91,9 @@ export async function POST(request: NextRequest) {
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
+    if (!isStaff(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     const body = await request.json();
     const { name, description, eventId, tags, isPublic, images } = body;
@@ -166,6 +174,9 @@ export async function PUT(request: NextRequest) {
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
+    if (!isStaff(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     const body = await request.json();
     const { id, name, description, eventId, tags, isPublic, images } = body;
@@ -201,6 +212,8 @@ export async function PUT(request: NextRequest) {
       }
     }
 
+    const previousImages = await prisma.galleryImage.findMany({ where: { galleryId: id }, select: { imageId: true } });
+
     // Update gallery and sync images atomically
     const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
       const updated = await tx.gallery.update({
@@ -230,6 +243,14 @@ export async function PUT(request: NextRequest) {
       return updated;
     });
 
+    // Photos taken out of the gallery are deleted, with their files, unless something else shows them
+    if (images && images.length > 0) {
+      const keptIds = new Set(images.map((img: any) => img.id));
+      await deleteUnusedImages(previousImages
+        .map((image: { imageId: string }) => image.imageId)
+        .filter((imageId: string) => !keptIds.has(imageId)));
+    }
+
     try {
       revalidatePath("/");
       revalidatePath("/gallery");
@@ -13,8 +13,7 @@ export async function GET() {
     const requiredEnvVars = [
       'DATABASE_URL',
       'NEXTAUTH_SECRET',
-      'AWS_REGION',
-      'S3_BUCKET'
+      ...(process.env.STORAGE_DRIVER === 'local' ? [] : ['AWS_REGION', 'S3_BUCKET'])
     ];
     
     const missingEnvVars = requiredEnvVars.filter(
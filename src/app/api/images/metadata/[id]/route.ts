@@ -21,6 +21,7 @@ export async function GET(
         width: true,
         height: true,
         variants: true,
+        status: true,
         createdAt: true,
         updatedAt: true
       }
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerAuthSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Polled by the image uploaders after POST /api/upload until variant generation finishes
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerAuthSession();
+  if (!session?.user?.email) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  try {
+    const image = await prisma.image.findUnique({
+      where: { id: params.id },
+      select: { id: true, status: true, processingError: true, variants: true }
+    });
+    if (!image) return NextResponse.json({ error: "Image not found" }, { status: 404 });
+
+    return NextResponse.json({
+      imageId: image.id,
+      status: image.status.toLowerCase(),
+      variants: image.status === "READY" ? image.variants : null,
+      error: image.processingError
+    });
+  } catch (error) {
+    console.error("Error fetching image status:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerAuthSession } from "@/lib/auth";
+import { isStaff } from "@/lib/rbac";
 import { exchangeCodeForToken, getLongLivedToken, fetchUserProfile, upsertInstagramAccount } from "@/lib/instagram";
 
 export async function GET(request: NextRequest) {
@@ -24,12 +25,15 @@ export async function GET(request: NextRequest) {
     const { prisma } = await import("@/lib/prisma");
     const user = await prisma.user.findUnique({
       where: { email: session.user.email },
-      select: { id: true }
+      select: { id: true, role: true }
     });
 
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
+    if (!isStaff(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     const tokenResp = await exchangeCodeForToken(code);
     const ll = await getLongLivedToken(tokenResp.access_token);
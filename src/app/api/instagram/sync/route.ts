@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { getServerAuthSession } from "@/lib/auth";
+import { isStaff } from "@/lib/rbac";
 import { prisma, setUserContext } from "@/lib/prisma";
 import { fetchUserMedia, upsertInstagramPosts } from "@/lib/instagram";
 
@@ -12,12 +13,15 @@ export async function POST() {
   // Get user ID from email
   const user = await prisma.user.findUnique({
     where: { email: session.user.email },
-    select: { id: true }
+    select: { id: true, role: true }
   });
 
   if (!user) {
     return NextResponse.json({ error: "User not found" }, { status: 404 });
   }
+  if (!isStaff(user.role)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
 
   // Set user context for RLS policies
   await setUserContext(user.id);
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { getViewer } from "@/lib/members";
+import { createMemberCardCodes, getMemberCard, isMemberCardConfigured } from "@/lib/member-card-signing";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// The signed-in member's card and the next batch of rotating QR codes for it
+export async function GET() {
+  try {
+    const viewer = await getViewer();
+    if (!viewer) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!isMemberCardConfigured()) {
+      return NextResponse.json({ error: "Member cards aren't set up yet" }, { status: 503 });
+    }
+
+    const card = await getMemberCard(viewer);
+    if (!card) {
+      return NextResponse.json({ error: "Verify your email to get a member card" }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { card, codes: await createMemberCardCodes(card) },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Error issuing member card codes:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
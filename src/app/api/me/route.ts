@@ -1,6 +1,18 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { compare, hash } from "bcryptjs";
 import { getServerAuthSession } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { updateProfileSchema } from "@/lib/validation";
+
+const profileSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  dateOfBirth: true,
+  emailVerifiedAt: true,
+  createdAt: true
+} as const;
 
 export async function GET() {
   const session = await getServerAuthSession();
@@ -10,13 +22,7 @@ export async function GET() {
 
   const user = await prisma.user.findUnique({
     where: { email: session.user.email },
-    select: {
-      id: true,
-      email: true,
-      name: true,
-      role: true,
-      createdAt: true
-    }
+    select: profileSelect
   });
 
   if (!user) {
@@ -25,3 +31,34 @@ export async function GET() {
 
   return NextResponse.json(user);
 }
+
+// Members edit their own name and password; email and date of birth are fixed after sign-up
+export async function PATCH(req: NextRequest) {
+  const session = await getServerAuthSession();
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const parsed = updateProfileSchema.safeParse(await req.json());
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const user = await prisma.user.findUnique({ where: { email: session.user.email } });
+  if (!user) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+
+  const data: { name?: string; hashedPassword?: string } = {};
+  if (parsed.data.name !== undefined) data.name = parsed.data.name;
+  if (parsed.data.newPassword) {
+    const matches = !!user.hashedPassword && await compare(parsed.data.currentPassword ?? "", user.hashedPassword);
+    if (!matches) {
+      return NextResponse.json({ error: "Current password is incorrect" }, { status: 400 });
+    }
+    data.hashedPassword = await hash(parsed.data.newPassword, 12);
+  }
+
+  const updated = await prisma.user.update({ where: { id: user.id }, data, select: profileSelect });
+  return NextResponse.json(updated);
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { searchGalleryIds, searchSite, SEARCH_TYPES, type SearchType } from "@/lib/search";
+import { getViewer } from "@/lib/members";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const MAX_QUERY_LENGTH = 200;
+
+/**
+ * GET /api/search?q=...&type=event,gallery,image&page=1&limit=20
+ * Public: only published events and public galleries are searched, and members-only
+ * events only by title unless the searcher is a verified member.
+ *
+ * GET /api/search?q=...&mode=galleries answers { galleryIds } instead: every public gallery
+ * that matches or holds a matching photo, unpaged, for filtering the gallery page.
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const q = (searchParams.get("q") ?? "").trim();
+  if (q.length > MAX_QUERY_LENGTH) {
+    return NextResponse.json({ error: `Search is limited to ${MAX_QUERY_LENGTH} characters` }, { status: 400 });
+  }
+
+  if (searchParams.get("mode") === "galleries") {
+    try {
+      return NextResponse.json({ galleryIds: await searchGalleryIds(q) });
+    } catch (error) {
+      console.error("Gallery search failed:", error);
+      return NextResponse.json({ error: "Search failed" }, { status: 500 });
+    }
+  }
+
+  const typeParam = searchParams.get("type");
+  const types = typeParam ? typeParam.split(",") : [...SEARCH_TYPES];
+  const unknown = types.filter(type => !SEARCH_TYPES.includes(type as SearchType));
+  if (unknown.length > 0) {
+    return NextResponse.json({ error: `Unknown type: ${unknown.join(", ")}` }, { status: 400 });
+  }
+
+  const pageSize = Math.min(Math.max(parseInt(searchParams.get("limit") ?? "20") || 20, 1), 50);
+  const page = Math.max(parseInt(searchParams.get("page") ?? "1") || 1, 1);
+
+  try {
+    const viewer = await getViewer();
+    const { items, counts, total } = await searchSite({ q, types: types as SearchType[], page, pageSize, viewer });
+    return NextResponse.json({ items, counts, page, pageSize, total });
+  } catch (error) {
+    console.error("Search failed:", error);
+    return NextResponse.json({ error: "Search failed" }, { status: 500 });
+  }
+}
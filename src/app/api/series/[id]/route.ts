@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { updateSeriesSchema } from "@/lib/validation";
+import { canEditEvent } from "@/lib/rbac";
+import { fromSeriesRecurrence, materializeSeries, syncFutureOccurrences, toSeriesData, SERIES_TRANSACTION_OPTIONS } from "@/lib/series";
+import { getZonedDate } from "@/lib/timezone";
+import { revalidatePath } from "next/cache";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+async function authorize(seriesId: string) {
+  const session = await getServerAuthSession();
+  if (!session?.user?.email) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  const series = await prisma.eventSeries.findUnique({ where: { id: seriesId } });
+  if (!series) {
+    return { error: NextResponse.json({ error: "Series not found" }, { status: 404 }) };
+  }
+
+  const user = await prisma.user.findUnique({ where: { email: session.user.email } });
+  if (!user || !canEditEvent(series, user.id, user.role)) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  return { series };
+}
+
+export async function GET(_: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { series, error } = await authorize(params.id);
+    if (error) return error;
+
+    const events = await prisma.event.findMany({
+      where: { seriesId: series.id },
+      orderBy: { startAt: "asc" },
+      select: {
+        id: true,
+        slug: true,
+        title: true,
+        startAt: true,
+        status: true,
+        occurrenceDate: true,
+        detachedFromSeries: true,
+        _count: { select: { registrations: { where: { status: "CONFIRMED" as const } } } }
+      }
+    });
+
+    return NextResponse.json({ ...series, recurrence: fromSeriesRecurrence(series), events });
+  } catch (error) {
+    console.error("Error fetching series:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { error } = await authorize(params.id);
+    if (error) return error;
+
+    const body = await req.json();
+    const parsed = updateSeriesSchema.safeParse(body);
+    if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+    const { applyToFuture, ...changes } = parsed.data;
+
+    const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const series = await tx.eventSeries.update({ where: { id: params.id }, data: toSeriesData(changes) });
+
+      if (applyToFuture) {
+        return syncFutureOccurrences(tx, series);
+      }
+
+      // Without applyToFuture existing occurrences are left as they are; only new dates pick up the changes
+      const created = await materializeSeries(tx, series, getZonedDate(new Date(), series.timezone));
+      return { updated: 0, removed: 0, created };
+    }, SERIES_TRANSACTION_OPTIONS);
+
+    try {
+      revalidatePath("/");
+      revalidatePath("/events");
+    } catch {}
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error updating series:", error);
+    return NextResponse.json({ error: "Failed to update series" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { error } = await authorize(params.id);
+    if (error) return error;
+
+    // Upcoming occurrences nobody registered for go with the series; past ones and
+    // ones with registrations stay as standalone events (seriesId is set null)
+    const { count } = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const removed = await tx.event.deleteMany({
+        where: {
+          seriesId: params.id,
+          startAt: { gte: new Date() },
+          registrations: { none: { status: { not: "CANCELLED" } } }
+        }
+      });
+      await tx.eventSeries.delete({ where: { id: params.id } });
+      return removed;
+    });
+
+    try {
+      revalidatePath("/");
+      revalidatePath("/events");
+    } catch {}
+
+    return NextResponse.json({ ok: true, deletedOccurrences: count });
+  } catch (error) {
+    console.error("Error deleting series:", error);
+    return NextResponse.json({ error: "Failed to delete series" }, { status: 500 });
+  }
+}
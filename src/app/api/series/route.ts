@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { createSeriesSchema } from "@/lib/validation";
+import { materializeSeries, toSeriesData, SERIES_TRANSACTION_OPTIONS } from "@/lib/series";
+import { revalidatePath } from "next/cache";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerAuthSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = await req.json();
+    const parsed = createSeriesSchema.safeParse(body);
+    if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+    const owner = await prisma.user.findUnique({ where: { email: session.user!.email! }});
+    if (!owner) return NextResponse.json({ error: "User not found" }, { status: 401 });
+    if (!["ADMIN","ORGANIZER"].includes((owner.role as string))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { series, created } = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const series = await tx.eventSeries.create({
+        data: { ...toSeriesData(parsed.data), ownerId: owner.id } as Prisma.EventSeriesUncheckedCreateInput
+      });
+      const created = await materializeSeries(tx, series);
+      return { series, created };
+    }, SERIES_TRANSACTION_OPTIONS);
+
+    if (created === 0) {
+      await prisma.eventSeries.delete({ where: { id: series.id } });
+      return NextResponse.json({ error: "The recurrence doesn't produce any dates" }, { status: 400 });
+    }
+
+    try {
+      revalidatePath("/");
+      revalidatePath("/events");
+    } catch {}
+
+    return NextResponse.json({ ...series, occurrencesCreated: created }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating series:", error);
+    return NextResponse.json({ error: "Failed to create series" }, { status: 500 });
+  }
+}
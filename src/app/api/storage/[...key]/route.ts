@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { IMMUTABLE_CACHE_CONTROL, contentTypeForKey, getStorage, isLocalDriver, isMissingUpload } from "@/lib/storage";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Serves and accepts files for the local storage driver, standing in for the bucket's
+ * public URLs and presigned PUTs. Reads are public, like the bucket; writes need a URL
+ * signed by the driver. 404s for every other driver.
+ */
+
+function localDriver() {
+  const storage = getStorage();
+  return isLocalDriver(storage) ? storage : null;
+}
+
+const objectKey = (params: { key: string[] }) => params.key.map(decodeURIComponent).join("/");
+
+export async function GET(req: NextRequest, { params }: { params: { key: string[] } }) {
+  const storage = localDriver();
+  if (!storage) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const key = objectKey(params);
+  const search = req.nextUrl.searchParams;
+  if (search.has("signature") && !storage.verify({
+    method: "GET",
+    key,
+    expires: search.get("expires"),
+    signature: search.get("signature")
+  })) {
+    return NextResponse.json({ error: "Invalid or expired signature" }, { status: 403 });
+  }
+
+  try {
+    const head = await storage.head(key);
+    if (!head) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const headers: Record<string, string> = {
+      "Content-Type": contentTypeForKey(key),
+      "Cache-Control": IMMUTABLE_CACHE_CONTROL,
+      "Accept-Ranges": "bytes"
+    };
+
+    // Video players seek with single byte ranges
+    const range = /^bytes=(\d*)-(\d*)$/.exec(req.headers.get("range") ?? "");
+    if (range && (range[1] || range[2])) {
+      const start = range[1] ? Number(range[1]) : Math.max(head.size - Number(range[2]), 0);
+      const end = range[1] && range[2] ? Math.min(Number(range[2]), head.size - 1) : head.size - 1;
+      if (start > end) {
+        return new NextResponse(null, { status: 416, headers: { "Content-Range": `bytes */${head.size}` } });
+      }
+      const body = await storage.get(key, { start, end });
+      return new NextResponse(Buffer.from(body), {
+        status: 206,
+        headers: { ...headers, "Content-Range": `bytes ${start}-${end}/${head.size}`, "Content-Length": String(body.length) }
+      });
+    }
+
+    const body = await storage.get(key);
+    return new NextResponse(Buffer.from(body), { headers: { ...headers, "Content-Length": String(body.length) } });
+  } catch (error) {
+    console.error("Error serving stored file:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest, { params }: { params: { key: string[] } }) {
+  const storage = localDriver();
+  if (!storage) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const key = objectKey(params);
+  const search = req.nextUrl.searchParams;
+  const uploadId = search.get("uploadId");
+  const partNumber = search.get("partNumber");
+  if (!storage.verify({
+    method: "PUT",
+    key,
+    expires: search.get("expires"),
+    signature: search.get("signature"),
+    uploadId,
+    partNumber
+  })) {
+    return NextResponse.json({ error: "Invalid or expired signature" }, { status: 403 });
+  }
+
+  try {
+    const body = Buffer.from(await req.arrayBuffer());
+    if (uploadId && partNumber) {
+      const etag = await storage.putPart(key, uploadId, Number(partNumber), body);
+      return new NextResponse(null, { status: 200, headers: { ETag: etag } });
+    }
+    await storage.put(key, body, { contentType: req.headers.get("content-type") || contentTypeForKey(key) });
+    return new NextResponse(null, { status: 200 });
+  } catch (error) {
+    if (isMissingUpload(error)) {
+      return NextResponse.json({ error: "Upload not found or expired" }, { status: 404 });
+    }
+    console.error("Error storing file:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
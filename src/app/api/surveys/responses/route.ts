@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { surveyResponseSchema } from "@/lib/validation";
+import { getSurveyQuestions, parseSurveyAnswers, verifySurveyToken } from "@/lib/surveys";
+import { logger } from "@/lib/logger";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Attendees answer from the signed link in their survey email; no account needed
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = surveyResponseSchema.safeParse(await req.json());
+    if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+    const payload = await verifySurveyToken(parsed.data.token);
+    if (!payload) {
+      return NextResponse.json({ error: "This survey link is invalid or has expired" }, { status: 400 });
+    }
+
+    const survey = await prisma.survey.findUnique({ where: { eventId: payload.eventId } });
+    const registration = await prisma.registration.findFirst({
+      where: { id: payload.registrationId, eventId: payload.eventId },
+      include: { surveyResponse: { select: { id: true } } }
+    });
+    if (!survey || !survey.enabled || !registration) {
+      return NextResponse.json({ error: "This survey is closed" }, { status: 404 });
+    }
+    if (registration.surveyResponse) {
+      return NextResponse.json({ error: "You've already answered this survey. Thanks!" }, { status: 409 });
+    }
+
+    const result = parseSurveyAnswers(getSurveyQuestions(survey.questions), parsed.data.answers);
+    if ("error" in result) return NextResponse.json({ error: result.error }, { status: 400 });
+
+    const response = await prisma.surveyResponse.create({
+      data: {
+        surveyId: survey.id,
+        registrationId: registration.id,
+        answers: result.answers as Prisma.InputJsonValue
+      }
+    });
+
+    logger.info('Survey response submitted', { surveyId: survey.id, eventId: payload.eventId, responseId: response.id });
+
+    return NextResponse.json({ ok: true }, { status: 201 });
+  } catch (error) {
+    console.error("Error saving survey response:", error);
+    return NextResponse.json({ error: "Failed to submit your answers. Please try again." }, { status: 500 });
+  }
+}
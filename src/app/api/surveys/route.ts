@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { getCategoryLabel } from "@/lib/taxonomy";
+import { getSurveyQuestions, getSurveyScores, groupSurveyScores } from "@/lib/surveys";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+async function getEventManager() {
+  const session = await getServerAuthSession();
+  if (!session?.user?.email) return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+
+  const user = await prisma.user.findUnique({ where: { email: session.user.email } });
+  if (!user || !["ADMIN", "ORGANIZER"].includes(user.role as string)) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+  return { user };
+}
+
+/**
+ * Survey scores for every event that has responses, plus the same pooled by category and
+ * by venue, so formats and places can be compared. `since` (YYYY-MM-DD) limits it to events
+ * starting on or after that date.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const result = await getEventManager();
+    if ("error" in result) return result.error;
+
+    const since = req.nextUrl.searchParams.get("since");
+    const sinceDate = since && /^\d{4}-\d{2}-\d{2}$/.test(since) ? new Date(`${since}T00:00:00Z`) : null;
+
+    const surveys = await prisma.survey.findMany({
+      where: {
+        responses: { some: {} },
+        ...(sinceDate ? { event: { startAt: { gte: sinceDate } } } : {})
+      },
+      include: {
+        event: {
+          select: { id: true, title: true, slug: true, startAt: true, category: true, venue: { select: { id: true, name: true } } }
+        },
+        responses: { select: { answers: true } }
+      },
+      orderBy: { event: { startAt: "desc" } },
+      take: 500
+    });
+
+    type SurveyWithEvent = (typeof surveys)[number];
+    const events = surveys.map((survey: SurveyWithEvent) => ({
+      eventId: survey.event.id,
+      title: survey.event.title,
+      slug: survey.event.slug,
+      startAt: survey.event.startAt,
+      category: survey.event.category,
+      venue: survey.event.venue,
+      responses: survey.responses.length,
+      sentTo: survey.sentTo,
+      responseRate: survey.sentTo ? survey.responses.length / survey.sentTo : null,
+      ...getSurveyScores(getSurveyQuestions(survey.questions), survey.responses)
+    }));
+    type EventRow = (typeof events)[number];
+
+    return NextResponse.json({
+      events,
+      byCategory: groupSurveyScores(events, (row: EventRow) => ({
+        key: row.category ?? "",
+        label: getCategoryLabel(row.category) ?? "Uncategorized"
+      })),
+      byVenue: groupSurveyScores(events, (row: EventRow) => ({
+        key: row.venue?.id ?? "",
+        label: row.venue?.name ?? "No saved venue"
+      }))
+    });
+  } catch (error) {
+    console.error("Error comparing surveys:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { createTemplateSchema } from "@/lib/validation";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+async function getEventManager() {
+  const session = await getServerAuthSession();
+  if (!session?.user?.email) return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+
+  const user = await prisma.user.findUnique({ where: { email: session.user.email } });
+  if (!user || !["ADMIN", "ORGANIZER"].includes(user.role as string)) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+  return { user };
+}
+
+// Templates are shared by everyone who manages events
+export async function GET() {
+  try {
+    const result = await getEventManager();
+    if ("error" in result) return result.error;
+
+    const items = await prisma.eventTemplate.findMany({
+      orderBy: { name: "asc" },
+      include: { owner: { select: { name: true, email: true } } }
+    });
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error("Error fetching templates:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const result = await getEventManager();
+    if ("error" in result) return result.error;
+
+    const parsed = createTemplateSchema.safeParse(await req.json());
+    if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+    // Empty form fields are stored as null rather than ""
+    const { name, ...fields } = parsed.data;
+    const data = Object.fromEntries(
+      Object.entries(fields).map(([key, value]) => [key, value === "" ? null : value])
+    );
+
+    const template = await prisma.eventTemplate.create({
+      data: { ...data, name, ownerId: result.user.id }
+    });
+    return NextResponse.json(template, { status: 201 });
+  } catch (error) {
+    console.error("Error creating template:", error);
+    return NextResponse.json({ error: "Failed to create template" }, { status: 500 });
+  }
+}
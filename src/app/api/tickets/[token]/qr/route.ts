@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import QRCode from "qrcode";
+import { verifyCheckInToken } from "@/lib/checkin";
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  _: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const payload = await verifyCheckInToken(params.token);
+    if (!payload) {
+      return NextResponse.json({ error: "Invalid ticket" }, { status: 404 });
+    }
+
+    const svg = await QRCode.toString(params.token, {
+      type: "svg",
+      errorCorrectionLevel: "M",
+      margin: 2
+    });
+
+    return new NextResponse(svg, {
+      headers: {
+        "Content-Type": "image/svg+xml",
+        // The token never changes for a registration, so the image is safe to cache
+        "Cache-Control": "private, max-age=86400, immutable"
+      }
+    });
+  } catch (error) {
+    console.error("Error rendering ticket QR code:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
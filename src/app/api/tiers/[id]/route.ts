@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { isAdmin } from "@/lib/rbac";
+import { updateTierSchema } from "@/lib/validation";
+import { logger } from "@/lib/logger";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+async function authorize(tierId: string) {
+  const session = await getServerAuthSession();
+  if (!session?.user?.email) return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+
+  const user = await prisma.user.findUnique({ where: { email: session.user.email }, select: { id: true, role: true } });
+  if (!user || !isAdmin(user.role)) {
+    return { error: NextResponse.json({ error: "Forbidden - Admin access required" }, { status: 403 }) };
+  }
+
+  const tier = await prisma.membershipTier.findUnique({
+    where: { id: tierId },
+    include: { _count: { select: { memberships: true } } }
+  });
+  if (!tier) return { error: NextResponse.json({ error: "Not found" }, { status: 404 }) };
+
+  return { user, tier };
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const result = await authorize(params.id);
+    if ("error" in result) return result.error;
+
+    const parsed = updateTierSchema.safeParse(await req.json());
+    if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+    if (parsed.data.name && parsed.data.name !== result.tier.name) {
+      const existing = await prisma.membershipTier.findUnique({ where: { name: parsed.data.name } });
+      if (existing) return NextResponse.json({ error: "A tier with that name already exists" }, { status: 409 });
+    }
+
+    const data: Prisma.MembershipTierUpdateInput = { ...parsed.data };
+    if (parsed.data.description !== undefined) data.description = parsed.data.description || null;
+    const tier = await prisma.membershipTier.update({ where: { id: params.id }, data });
+
+    logger.info('Membership tier updated', { tierId: tier.id, userId: result.user.id });
+
+    return NextResponse.json(tier);
+  } catch (error) {
+    console.error("Error updating membership tier:", error);
+    return NextResponse.json({ error: "Failed to update tier" }, { status: 500 });
+  }
+}
+
+// Members have to be moved off a tier before it can go; events gated on it lose it from their list
+export async function DELETE(_: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const result = await authorize(params.id);
+    if ("error" in result) return result.error;
+
+    if (result.tier._count.memberships > 0) {
+      return NextResponse.json(
+        { error: `${result.tier._count.memberships} member(s) still hold this tier` },
+        { status: 409 }
+      );
+    }
+
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.$executeRaw`UPDATE "Event" SET "tierIds" = array_remove("tierIds", ${params.id}) WHERE ${params.id} = ANY("tierIds")`;
+      await tx.$executeRaw`UPDATE "EventSeries" SET "tierIds" = array_remove("tierIds", ${params.id}) WHERE ${params.id} = ANY("tierIds")`;
+      await tx.$executeRaw`UPDATE "EventTemplate" SET "tierIds" = array_remove("tierIds", ${params.id}) WHERE ${params.id} = ANY("tierIds")`;
+      await tx.membershipTier.delete({ where: { id: params.id } });
+    });
+
+    logger.info('Membership tier deleted', { tierId: params.id, userId: result.user.id });
+
+    try {
+      revalidatePath("/events");
+    } catch {}
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Error deleting membership tier:", error);
+    return NextResponse.json({ error: "Failed to delete tier" }, { status: 500 });
+  }
+}
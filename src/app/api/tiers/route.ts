@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { isAdmin } from "@/lib/rbac";
+import { createTierSchema } from "@/lib/validation";
+import { logger } from "@/lib/logger";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+async function getTierAdmin() {
+  const session = await getServerAuthSession();
+  if (!session?.user?.email) return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+
+  const user = await prisma.user.findUnique({ where: { email: session.user.email }, select: { id: true, role: true } });
+  if (!user || !isAdmin(user.role)) {
+    return { error: NextResponse.json({ error: "Forbidden - Admin access required" }, { status: 403 }) };
+  }
+  return { user };
+}
+
+// Tiers and their benefits are public, so the event form and sign-up pages can list them
+export async function GET() {
+  try {
+    const items = await prisma.membershipTier.findMany({
+      orderBy: [{ sortOrder: "asc" }, { name: "asc" }]
+    });
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error("Error fetching membership tiers:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const result = await getTierAdmin();
+    if ("error" in result) return result.error;
+
+    const parsed = createTierSchema.safeParse(await req.json());
+    if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+    const existing = await prisma.membershipTier.findUnique({ where: { name: parsed.data.name } });
+    if (existing) return NextResponse.json({ error: "A tier with that name already exists" }, { status: 409 });
+
+    const tier = await prisma.membershipTier.create({
+      data: { ...parsed.data, description: parsed.data.description || null }
+    });
+
+    logger.info('Membership tier created', { tierId: tier.id, userId: result.user.id });
+
+    return NextResponse.json(tier, { status: 201 });
+  } catch (error) {
+    console.error("Error creating membership tier:", error);
+    return NextResponse.json({ error: "Failed to create tier" }, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { enqueueJob } from "@/lib/jobs";
+import { getStorage, isMissingUpload } from "@/lib/storage";
+import { getUploader, partCount, verifyUploadToken, verifyUploadedObject } from "@/lib/uploads";
+import { uploadTokenSchema } from "@/lib/validation";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Assemble an upload's parts, check the result against what was declared when it started,
+ * then register it. Images are queued for variant generation and reply `processing`;
+ * other kinds reply with the file's public URL.
+ */
+export async function POST(req: NextRequest) {
+  const uploader = await getUploader();
+  if (!uploader) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = uploadTokenSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+  const claims = await verifyUploadToken(parsed.data.token);
+  if (!claims || claims.userId !== uploader.id) {
+    return NextResponse.json({ error: "Upload not found or expired" }, { status: 404 });
+  }
+
+  try {
+    const storage = getStorage();
+    const total = partCount(claims.fileSize);
+    const parts = (await storage.listParts(claims.key, claims.uploadId)).filter(part => part.partNumber <= total);
+    const done = new Set(parts.map(part => part.partNumber));
+    const missing = Array.from({ length: total }, (_, i) => i + 1).filter(partNumber => !done.has(partNumber));
+    if (missing.length > 0) {
+      return NextResponse.json({ error: "Some parts haven't been uploaded yet", missing }, { status: 409 });
+    }
+
+    await storage.completeMultipartUpload(claims.key, claims.uploadId, parts);
+
+    const verified = await verifyUploadedObject(claims);
+    if ("error" in verified) {
+      await storage.delete(claims.key);
+      logger.warn('Upload rejected', { key: claims.key, kind: claims.kind, userId: uploader.id, reason: verified.error });
+      return NextResponse.json({ error: verified.error }, { status: 422 });
+    }
+
+    if (claims.kind === "image") {
+      // Variants are generated by the job worker; the worker also fills in the real dimensions
+      const image = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const created = await tx.image.create({
+          data: {
+            eventId: claims.eventId,
+            uploaderId: uploader.id,
+            originalKey: claims.key,
+            format: verified.contentType.split("/")[1],
+            width: 0,
+            height: 0,
+            variants: {},
+            status: "PROCESSING"
+          }
+        });
+        await enqueueJob("image.variants", { imageId: created.id }, tx);
+        return created;
+      });
+
+      logger.info('Image queued for processing', { imageId: image.id, userId: uploader.id });
+      return NextResponse.json({ imageId: image.id, status: "processing", variants: null }, { status: 202 });
+    }
+
+    logger.info('Upload completed', { kind: claims.kind, key: claims.key, userId: uploader.id });
+    return NextResponse.json({
+      key: claims.key,
+      url: storage.publicUrl(claims.key),
+      fileName: claims.fileName,
+      fileSize: claims.fileSize,
+      mimeType: verified.contentType
+    });
+  } catch (error) {
+    if (isMissingUpload(error)) {
+      return NextResponse.json({ error: "Upload not found or expired" }, { status: 404 });
+    }
+    console.error("Error completing upload:", error);
+    return NextResponse.json({ error: "Failed to complete upload" }, { status: 500 });
+  }
+}
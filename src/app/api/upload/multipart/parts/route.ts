@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStorage, isMissingUpload } from "@/lib/storage";
+import { PART_SIZE, getUploader, partCount, verifyUploadToken } from "@/lib/uploads";
+import { uploadPartsSchema } from "@/lib/validation";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const PART_URL_EXPIRY_SECONDS = 60 * 60;
+
+/**
+ * Presigned URLs for an upload's parts, along with the parts storage already has, so an
+ * interrupted upload can pick up where it stopped
+ */
+export async function POST(req: NextRequest) {
+  const uploader = await getUploader();
+  if (!uploader) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = uploadPartsSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+  const claims = await verifyUploadToken(parsed.data.token);
+  if (!claims || claims.userId !== uploader.id) {
+    return NextResponse.json({ error: "Upload not found or expired" }, { status: 404 });
+  }
+
+  const total = partCount(claims.fileSize);
+  if (parsed.data.partNumbers?.some(partNumber => partNumber > total)) {
+    return NextResponse.json({ error: `This upload has ${total} part(s)` }, { status: 400 });
+  }
+
+  try {
+    const storage = getStorage();
+    const uploaded = await storage.listParts(claims.key, claims.uploadId);
+    const done = new Set(uploaded.map(part => part.partNumber));
+    const wanted = parsed.data.partNumbers
+      ?? Array.from({ length: total }, (_, i) => i + 1).filter(partNumber => !done.has(partNumber));
+
+    const urls: Record<number, string> = {};
+    for (const partNumber of wanted) {
+      urls[partNumber] = await storage.presignPart(claims.key, claims.uploadId, partNumber, PART_URL_EXPIRY_SECONDS);
+    }
+
+    return NextResponse.json({
+      partSize: PART_SIZE,
+      partCount: total,
+      uploaded: uploaded.map(({ partNumber, size }) => ({ partNumber, size })),
+      urls
+    });
+  } catch (error) {
+    if (isMissingUpload(error)) {
+      return NextResponse.json({ error: "Upload not found or expired" }, { status: 404 });
+    }
+    console.error("Error presigning upload parts:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
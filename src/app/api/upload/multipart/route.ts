@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { rateLimit } from "@/lib/rate-limit";
+import { getStorage } from "@/lib/storage";
+import {
+  PART_SIZE,
+  UPLOAD_POLICIES,
+  createUploadToken,
+  fileExtension,
+  getUploader,
+  partCount
+} from "@/lib/uploads";
+import { startUploadSchema } from "@/lib/validation";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const toMB = (bytes: number) => (bytes / 1024 / 1024).toFixed(0);
+
+/**
+ * Start a direct-to-storage multipart upload. The reply's token is passed to the parts and
+ * complete endpoints; see src/lib/direct-upload.ts for the browser side.
+ */
+export async function POST(req: NextRequest) {
+  const uploader = await getUploader();
+  if (!uploader) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = startUploadSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  const { kind, fileName, fileSize, contentType, eventId } = parsed.data;
+
+  const policy = UPLOAD_POLICIES[kind];
+  if (fileSize > policy.maxSize) {
+    return NextResponse.json({
+      error: `File too large: ${(fileSize / 1024 / 1024).toFixed(1)}MB. Maximum allowed: ${toMB(policy.maxSize)}MB`
+    }, { status: 413 });
+  }
+  if (policy.types && !policy.types.includes(contentType)) {
+    return NextResponse.json({
+      error: `Unsupported file type "${contentType}". Allowed types: ${policy.types.join(", ")}`
+    }, { status: 400 });
+  }
+
+  // On top of the per-IP upload limit in middleware; videos are the expensive ones to store
+  if (kind === "video" && process.env.NODE_ENV !== "development") {
+    const videoUploadRateLimit = rateLimit({
+      windowMs: 15 * 60 * 1000, // 15 minutes
+      max: 10, // 10 video uploads per 15 minutes
+      keyGenerator: () => `video_upload:${uploader.id}`
+    });
+    const limited = await videoUploadRateLimit(req);
+    if (!limited.success) {
+      const retryAfter = Math.ceil((limited.reset - Date.now()) / 1000);
+      return NextResponse.json(
+        { error: "Too many video uploads. Please try again later.", retryAfter },
+        { status: 429, headers: { "Retry-After": retryAfter.toString() } }
+      );
+    }
+  }
+
+  try {
+    const key = policy.key(fileExtension(fileName, kind === "document" ? "" : "bin"), eventId ?? null);
+    const uploadId = await getStorage().createMultipartUpload(key, { contentType: contentType || "application/octet-stream" });
+    const token = await createUploadToken({
+      userId: uploader.id,
+      kind,
+      key,
+      uploadId,
+      fileName,
+      fileSize,
+      contentType,
+      eventId: eventId ?? null
+    });
+
+    logger.info('Upload started', { kind, key, fileSize, userId: uploader.id });
+    return NextResponse.json({ token, key, partSize: PART_SIZE, partCount: partCount(fileSize) }, { status: 201 });
+  } catch (error) {
+    console.error("Error starting upload:", error);
+    return NextResponse.json({ error: "Failed to start upload" }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { updateVenueSchema } from "@/lib/validation";
+import { generateUniqueVenueSlug, setVenueImages, toVenueData } from "@/lib/venues";
+import { logger } from "@/lib/logger";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+async function authorize(venueId: string) {
+  const session = await getServerAuthSession();
+  if (!session?.user?.email) return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+
+  const user = await prisma.user.findUnique({ where: { email: session.user.email } });
+  if (!user || !["ADMIN", "ORGANIZER"].includes(user.role as string)) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  const venue = await prisma.venue.findUnique({ where: { id: venueId } });
+  if (!venue) return { error: NextResponse.json({ error: "Not found" }, { status: 404 }) };
+
+  return { user, venue };
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const result = await authorize(params.id);
+    if ("error" in result) return result.error;
+
+    const parsed = updateVenueSchema.safeParse(await req.json());
+    if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+    const data = toVenueData(parsed.data);
+    if (parsed.data.name && parsed.data.name !== result.venue.name) {
+      data.slug = await generateUniqueVenueSlug(parsed.data.name, params.id);
+    }
+
+    const venue = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const updated = await tx.venue.update({ where: { id: params.id }, data });
+      if (parsed.data.imageIds) await setVenueImages(tx, params.id, parsed.data.imageIds);
+      return updated;
+    });
+
+    logger.info('Venue updated', { venueId: venue.id, userId: result.user.id });
+
+    try {
+      revalidatePath(`/venues/${venue.slug}`);
+    } catch {}
+
+    return NextResponse.json(venue);
+  } catch (error) {
+    console.error("Error updating venue:", error);
+    return NextResponse.json({ error: "Failed to update venue" }, { status: 500 });
+  }
+}
+
+// Events keep their copied location fields; only the link to the venue is cleared
+export async function DELETE(_: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const result = await authorize(params.id);
+    if ("error" in result) return result.error;
+
+    await prisma.venue.delete({ where: { id: params.id } });
+
+    logger.info('Venue deleted', { venueId: params.id, userId: result.user.id });
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Error deleting venue:", error);
+    return NextResponse.json({ error: "Failed to delete venue" }, { status: 500 });
+  }
+}
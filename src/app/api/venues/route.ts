@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { createVenueSchema } from "@/lib/validation";
+import { generateUniqueVenueSlug, setVenueImages, toVenueData } from "@/lib/venues";
+import { logger } from "@/lib/logger";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+async function getEventManager() {
+  const session = await getServerAuthSession();
+  if (!session?.user?.email) return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+
+  const user = await prisma.user.findUnique({ where: { email: session.user.email } });
+  if (!user || !["ADMIN", "ORGANIZER"].includes(user.role as string)) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+  return { user };
+}
+
+// Includes staff parking details, so only event managers can list venues
+export async function GET() {
+  try {
+    const result = await getEventManager();
+    if ("error" in result) return result.error;
+
+    const items = await prisma.venue.findMany({
+      orderBy: { name: "asc" },
+      include: {
+        images: { orderBy: { createdAt: "asc" } },
+        _count: { select: { events: true } }
+      }
+    });
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error("Error fetching venues:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const result = await getEventManager();
+    if ("error" in result) return result.error;
+
+    const parsed = createVenueSchema.safeParse(await req.json());
+    if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+    const slug = await generateUniqueVenueSlug(parsed.data.name);
+    const venue = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const created = await tx.venue.create({
+        data: { ...toVenueData(parsed.data), name: parsed.data.name, slug } as Prisma.VenueUncheckedCreateInput
+      });
+      if (parsed.data.imageIds) await setVenueImages(tx, created.id, parsed.data.imageIds);
+      return created;
+    });
+
+    logger.info('Venue created', { venueId: venue.id, userId: result.user.id });
+
+    return NextResponse.json(venue, { status: 201 });
+  } catch (error) {
+    console.error("Error creating venue:", error);
+    return NextResponse.json({ error: "Failed to create venue" }, { status: 500 });
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { revalidatePath } from "next/cache";
 import { getServerAuthSession } from "@/lib/auth";
+import { isStaff } from "@/lib/rbac";
+import { deleteUnusedFiles } from "@/lib/storage-cleanup";
 import { z } from "zod";
 
 const updateVideoSchema = z.object({
@@ -58,16 +60,30 @@ export async function PUT(
   if (!user) {
     return NextResponse.json({ error: "User not found" }, { status: 401 });
   }
+  if (!isStaff(user.role)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
 
   try {
     const body = await req.json();
     const validatedData = updateVideoSchema.parse(body);
 
+    const previous = await prisma.recentEventVideo.findUnique({
+      where: { id: params.id },
+      select: { videoUrl: true, thumbnailUrl: true },
+    });
+
     const video = await prisma.recentEventVideo.update({
       where: { id: params.id },
       data: validatedData,
     });
 
+    // Uploaded files that were replaced
+    if (previous) {
+      await deleteUnusedFiles([previous.videoUrl, previous.thumbnailUrl]
+        .filter(url => url !== video.videoUrl && url !== video.thumbnailUrl));
+    }
+
     try {
       revalidatePath("/");
     } catch {}
@@ -110,11 +126,15 @@ export async function DELETE(
   if (!user) {
     return NextResponse.json({ error: "User not found" }, { status: 401 });
   }
+  if (!isStaff(user.role)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
 
   try {
-    await prisma.recentEventVideo.delete({
+    const video = await prisma.recentEventVideo.delete({
       where: { id: params.id },
     });
+    await deleteUnusedFiles([video.videoUrl, video.thumbnailUrl]);
 
     try {
       revalidatePath("/");
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { updateWaiverSchema } from "@/lib/validation";
+import { logger } from "@/lib/logger";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+async function authorize(waiverId: string) {
+  const session = await getServerAuthSession();
+  if (!session?.user?.email) return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+
+  const user = await prisma.user.findUnique({ where: { email: session.user.email } });
+  if (!user || !["ADMIN", "ORGANIZER"].includes(user.role as string)) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  const waiver = await prisma.waiver.findUnique({
+    where: { id: waiverId },
+    include: { versions: { orderBy: { version: "desc" }, take: 1 } }
+  });
+  if (!waiver) return { error: NextResponse.json({ error: "Not found" }, { status: 404 }) };
+
+  return { user, waiver };
+}
+
+// All versions, newest first, so organizers can see what earlier attendees signed
+export async function GET(_: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const result = await authorize(params.id);
+    if ("error" in result) return result.error;
+
+    const versions = await prisma.waiverVersion.findMany({
+      where: { waiverId: params.id },
+      orderBy: { version: "desc" },
+      include: {
+        createdBy: { select: { name: true, email: true } },
+        _count: { select: { signatures: true } }
+      }
+    });
+    return NextResponse.json({ ...result.waiver, versions });
+  } catch (error) {
+    console.error("Error fetching waiver:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const result = await authorize(params.id);
+    if ("error" in result) return result.error;
+
+    const parsed = updateWaiverSchema.safeParse(await req.json());
+    if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+    const { body, ...data } = parsed.data;
+    const current = result.waiver.versions[0];
+    const publishVersion = body !== undefined && body !== current?.body;
+
+    const waiver = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      if (publishVersion) {
+        await tx.waiverVersion.create({
+          data: { waiverId: params.id, version: (current?.version ?? 0) + 1, body, createdById: result.user.id }
+        });
+      }
+      return tx.waiver.update({
+        where: { id: params.id },
+        data,
+        include: { versions: { orderBy: { version: "desc" }, take: 1 } }
+      });
+    });
+
+    logger.info('Waiver updated', { waiverId: waiver.id, version: waiver.versions[0]?.version, userId: result.user.id });
+
+    return NextResponse.json(waiver);
+  } catch (error) {
+    console.error("Error updating waiver:", error);
+    return NextResponse.json({ error: "Failed to update waiver" }, { status: 500 });
+  }
+}
+
+// Signed waivers are kept as a record, so a waiver anyone has signed can only be archived
+export async function DELETE(_: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const result = await authorize(params.id);
+    if ("error" in result) return result.error;
+
+    const signatures = await prisma.waiverSignature.count({ where: { waiverVersion: { waiverId: params.id } } });
+    if (signatures > 0) {
+      return NextResponse.json(
+        { error: `${signatures} signature(s) are on file for this waiver; archive it instead` },
+        { status: 409 }
+      );
+    }
+
+    await prisma.waiver.delete({ where: { id: params.id } });
+
+    logger.info('Waiver deleted', { waiverId: params.id, userId: result.user.id });
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Error deleting waiver:", error);
+    return NextResponse.json({ error: "Failed to delete waiver" }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { createWaiverSchema } from "@/lib/validation";
+import { logger } from "@/lib/logger";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+async function getEventManager() {
+  const session = await getServerAuthSession();
+  if (!session?.user?.email) return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+
+  const user = await prisma.user.findUnique({ where: { email: session.user.email } });
+  if (!user || !["ADMIN", "ORGANIZER"].includes(user.role as string)) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+  return { user };
+}
+
+// Each waiver comes with its current version; archived ones are left out unless ?archived=1
+export async function GET(req: NextRequest) {
+  try {
+    const result = await getEventManager();
+    if ("error" in result) return result.error;
+
+    const includeArchived = req.nextUrl.searchParams.get("archived") === "1";
+    const waivers = await prisma.waiver.findMany({
+      where: includeArchived ? {} : { archived: false },
+      orderBy: { title: "asc" },
+      include: {
+        versions: { orderBy: { version: "desc" }, take: 1, include: { _count: { select: { signatures: true } } } },
+        _count: { select: { events: true } }
+      }
+    });
+
+    type ListedWaiver = (typeof waivers)[number];
+    const items = waivers.map(({ versions, ...waiver }: ListedWaiver) => ({
+      ...waiver,
+      currentVersion: versions[0] ?? null
+    }));
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error("Error fetching waivers:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const result = await getEventManager();
+    if ("error" in result) return result.error;
+
+    const parsed = createWaiverSchema.safeParse(await req.json());
+    if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+    const waiver = await prisma.waiver.create({
+      data: {
+        title: parsed.data.title,
+        versions: { create: { version: 1, body: parsed.data.body, createdById: result.user.id } }
+      },
+      include: { versions: true }
+    });
+
+    logger.info('Waiver created', { waiverId: waiver.id, userId: result.user.id });
+
+    return NextResponse.json(waiver, { status: 201 });
+  } catch (error) {
+    console.error("Error creating waiver:", error);
+    return NextResponse.json({ error: "Failed to create waiver" }, { status: 500 });
+  }
+}
@@ -1,6 +1,6 @@
 import { MetadataRoute } from 'next'
 import { prisma } from '@/lib/prisma'
-import { Event, Gallery } from '@prisma/client'
+import { Event, Gallery, Venue } from '@prisma/client'
 
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   const baseUrl = 'https://thcmembersonlyclub.com'
@@ -45,13 +45,15 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     },
   ]
 
-  // Dynamic event pages
+  // Dynamic event pages, under their current slugs only (old slugs redirect)
   let eventPages: MetadataRoute.Sitemap = []
   
   try {
     const events = await prisma.event.findMany({
       where: {
         status: 'PUBLISHED',
+        // Crawlers would only ever see the teaser of members-only and tier-gated events
+        access: { in: ['PUBLIC', 'MEMBERS_RSVP'] },
       },
       select: {
         slug: true,
@@ -73,6 +75,27 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     console.log('Error fetching events for sitemap:', error)
   }
 
+  // Venue pages
+  let venuePages: MetadataRoute.Sitemap = []
+
+  try {
+    const venues = await prisma.venue.findMany({
+      select: {
+        slug: true,
+        updatedAt: true,
+      },
+    })
+
+    venuePages = venues.map((venue: Pick<Venue, 'slug' | 'updatedAt'>) => ({
+      url: `${baseUrl}/venues/${venue.slug}`,
+      lastModified: venue.updatedAt,
+      changeFrequency: 'weekly' as const,
+      priority: 0.6,
+    }))
+  } catch (error) {
+    console.log('Error fetching venues for sitemap:', error)
+  }
+
   // Dynamic gallery pages
   let galleryPages: MetadataRoute.Sitemap = []
   
@@ -100,5 +123,5 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     console.log('Error fetching galleries for sitemap:', error)
   }
 
-  return [...staticPages, ...eventPages, ...galleryPages]
+  return [...staticPages, ...eventPages, ...venuePages, ...galleryPages]
 }
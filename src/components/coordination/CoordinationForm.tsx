@@ -52,6 +52,14 @@ interface Event {
   title: string;
   slug: string;
   startAt: Date;
+  venue?: {
+    name: string;
+    address: string | null;
+    city: string | null;
+    state: string | null;
+    staffParkingAddress: string | null;
+    staffParkingNotes: string | null;
+  } | null;
 }
 
 interface CoordinationFormProps {
@@ -541,6 +549,22 @@ export default function CoordinationForm({
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  // New sheets start from the event's venue details; fields already filled in are kept
+  const handleEventChange = (eventId: string) => {
+    const venue = isEditMode ? null : events.find(event => event.id === eventId)?.venue;
+    setFormData(prev => {
+      if (!venue) return { ...prev, eventId };
+      const venueAddress = [venue.address, venue.city, venue.state].filter(Boolean).join(", ");
+      return {
+        ...prev,
+        eventId,
+        location: prev.location || venueAddress,
+        staffParkingAddress: prev.staffParkingAddress || venue.staffParkingAddress || "",
+        staffParkingNotes: prev.staffParkingNotes || venue.staffParkingNotes || "",
+      };
+    });
+  };
+
   const addContact = () => {
     setFormData(prev => ({
       ...prev,
@@ -771,7 +795,7 @@ export default function CoordinationForm({
                     <FormLabel>Event</FormLabel>
                     <Select
                       value={formData.eventId}
-                      onChange={(e) => handleInputChange("eventId", e.target.value)}
+                      onChange={(e) => handleEventChange(e.target.value)}
                       placeholder="Select an event"
                     >
                       {events.map((event) => (
@@ -1121,7 +1145,7 @@ export default function CoordinationForm({
                     <FormLabel>Event</FormLabel>
                     <Select
                       value={formData.eventId}
-                      onChange={(e) => handleInputChange("eventId", e.target.value)}
+                      onChange={(e) => handleEventChange(e.target.value)}
                       placeholder="Select an event"
                     >
                       {events.map((event) => (
@@ -21,6 +21,7 @@ import {
   Divider,
 } from "@chakra-ui/react";
 import { CoordinationDocumentType } from "@prisma/client";
+import { uploadDirect } from "@/lib/direct-upload";
 
 interface DocumentUploaderProps {
   coordinationId: string;
@@ -96,17 +97,12 @@ export default function DocumentUploader({ coordinationId, onSuccess }: Document
   };
 
   const uploadFile = async (file: File): Promise<string> => {
-    const fd = new FormData();
-    fd.append("file", file);
-    
-    const res = await fetch("/api/upload/document", { method: "POST", body: fd });
-    const json = await res.json();
-    
-    if (!res.ok) {
-      throw new Error(json.error ?? "Upload failed");
-    }
-    
-    return json.fileUrl; // Return the actual file URL for the document
+    const json = await uploadDirect<{ url: string }>(file, {
+      kind: "document",
+      // The last 10% is creating the document record
+      onProgress: (percent) => setUploadProgress(prev => ({ ...prev, [file.name]: Math.round(percent * 0.9) }))
+    });
+    return json.url;
   };
 
   const createDocument = async (file: File, fileUrl: string) => {
@@ -150,7 +146,6 @@ export default function DocumentUploader({ coordinationId, onSuccess }: Document
         try {
           // Upload file
           const fileUrl = await uploadFile(file);
-          setUploadProgress(prev => ({ ...prev, [file.name]: 50 }));
           
           // Create document record
           await createDocument(file, fileUrl);
@@ -340,7 +335,7 @@ export default function DocumentUploader({ coordinationId, onSuccess }: Document
       
       {files.length === 0 && (
         <Text color="gray.500" fontSize="sm" textAlign="center" py={8}>
-          Select files to upload (PDF, DOC, images, etc.)
+          Select files to upload (PDF, DOC, images, etc.), up to 50MB each
         </Text>
       )}
     </VStack>
@@ -39,9 +39,14 @@ const navItems: NavItem[] = [
   { label: "Archive", href: "/dashboard/events/archive", icon: "📦", category: "content" },
   { label: "Videos", href: "/dashboard/videos", icon: "🎥", category: "content" },
   { label: "Gallery", href: "/dashboard/gallery", icon: "🖼️", category: "content" },
+  { label: "Venues", href: "/dashboard/venues", icon: "📍", category: "content" },
+  { label: "Waivers", href: "/dashboard/waivers", icon: "✍️", category: "content" },
   { label: "Coordination", href: "/dashboard/coordination", icon: "📋", category: "management" },
   { label: "Contact", href: "/dashboard/contact", icon: "📧", category: "management" },
   { label: "Subscribers", href: "/dashboard/subscribers", icon: "📬", category: "management" },
+  { label: "Surveys", href: "/dashboard/surveys", icon: "📊", category: "management" },
+  { label: "Scan Cards", href: "/dashboard/members/scan", icon: "🪪", category: "management" },
+  { label: "Uploads", href: "/dashboard/uploads", icon: "🧹", category: "management" },
   { label: "Users", href: "/dashboard/users", icon: "👥", category: "management" },
 ];
 
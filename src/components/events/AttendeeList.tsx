@@ -0,0 +1,252 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { Badge, Box, Button, Flex, HStack, Input, InputGroup, InputLeftElement, Select, Spinner, Table, Tbody, Td, Text, Th, Thead, Tr, useToast } from "@chakra-ui/react";
+import { SearchIcon, DownloadIcon } from "@chakra-ui/icons";
+import NextLink from "next/link";
+import type { Registration } from "@/types";
+
+interface RegistrationsResponse {
+  items: Registration[];
+  total: number;
+  confirmed: number;
+  waitlisted: number;
+  cancelled: number;
+  capacity: number | null;
+}
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+
+// Quote a CSV field so names with commas or quotes survive the export
+const csvField = (value: string | null | undefined) => `"${(value ?? "").replace(/"/g, '""')}"`;
+
+export default function AttendeeList({ eventId, eventSlug }: { eventId: string; eventSlug: string }) {
+  const [registrations, setRegistrations] = useState<Registration[]>([]);
+  const [counts, setCounts] = useState({ confirmed: 0, waitlisted: 0, cancelled: 0, capacity: null as number | null });
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState("CONFIRMED");
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const toast = useToast();
+
+  const fetchRegistrations = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ q: search, status });
+      const res = await fetch(`/api/events/${eventId}/registrations?${params}`);
+      const data: RegistrationsResponse = await res.json();
+      if (!res.ok) throw new Error("Failed to fetch attendees");
+
+      setRegistrations(data.items);
+      setCounts({ confirmed: data.confirmed, waitlisted: data.waitlisted, cancelled: data.cancelled, capacity: data.capacity });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch attendees",
+        status: "error",
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId, search, status, toast]);
+
+  useEffect(() => {
+    fetchRegistrations();
+  }, [fetchRegistrations]);
+
+  const updateStatus = async (registration: Registration, newStatus: "CONFIRMED" | "CANCELLED") => {
+    if (newStatus === "CANCELLED" && !confirm(`Cancel the registration for ${registration.name}?`)) return;
+
+    setUpdatingId(registration.id);
+    try {
+      const res = await fetch(`/api/events/${eventId}/registrations/${registration.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: newStatus })
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(typeof data.error === "string" ? data.error : "Failed to update registration");
+      }
+
+      toast({
+        title: newStatus === "CANCELLED" ? "Registration cancelled" : "Registration confirmed",
+        status: "success",
+        duration: 3000,
+      });
+      await fetchRegistrations();
+    } catch (error) {
+      toast({
+        title: "Error updating registration",
+        description: error instanceof Error ? error.message : "Unknown error",
+        status: "error",
+        duration: 5000,
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleExport = () => {
+    const csvContent = [
+      "Name,Email,Phone,Status,Registered Date,Checked In",
+      ...registrations.map(r =>
+        [csvField(r.name), csvField(r.email), csvField(r.phone), r.status, csvField(formatDate(r.createdAt)), r.checkedInAt ? "Yes" : "No"].join(',')
+      )
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `attendees-${eventSlug}-${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    window.URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Box bg="white" p={{ base: 4, md: 6 }} borderRadius="xl" boxShadow="sm">
+      <HStack spacing={4} mb={4} flexWrap="wrap">
+        <InputGroup maxW="300px">
+          <InputLeftElement pointerEvents="none">
+            <SearchIcon color="gray.300" />
+          </InputLeftElement>
+          <Input
+            placeholder="Search by name or email..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </InputGroup>
+
+        <Select value={status} onChange={(e) => setStatus(e.target.value)} maxW="200px">
+          <option value="CONFIRMED">Confirmed</option>
+          <option value="WAITLISTED">Waitlisted</option>
+          <option value="CANCELLED">Cancelled</option>
+          <option value="">All Registrations</option>
+        </Select>
+
+        <Button
+          leftIcon={<DownloadIcon />}
+          onClick={handleExport}
+          colorScheme="green"
+          variant="outline"
+          isDisabled={registrations.length === 0}
+        >
+          Export CSV
+        </Button>
+
+        <Button as={NextLink} href={`/dashboard/events/${eventId}/checkin`} colorScheme="teal">
+          Check-in Mode
+        </Button>
+      </HStack>
+
+      <Text color="gray.600" fontSize="sm" mb={4}>
+        {counts.confirmed}{counts.capacity != null ? ` / ${counts.capacity}` : ""} confirmed • {counts.waitlisted} waitlisted • {counts.cancelled} cancelled
+      </Text>
+
+      {loading ? (
+        <Flex justify="center" py={12}>
+          <Spinner size="lg" color="blue.500" />
+        </Flex>
+      ) : registrations.length === 0 ? (
+        <Box textAlign="center" py={12}>
+          <Text color="gray.500">No attendees found</Text>
+        </Box>
+      ) : (
+        <Box overflowX="auto">
+          <Table variant="simple" size="sm">
+            <Thead bg="gray.50">
+              <Tr>
+                <Th>Name</Th>
+                <Th>Email</Th>
+                <Th>Phone</Th>
+                <Th>Status</Th>
+                <Th>Registered</Th>
+                <Th>Checked In</Th>
+                <Th></Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {registrations.map((registration) => (
+                <Tr key={registration.id}>
+                  <Td fontWeight="500">{registration.name}</Td>
+                  <Td fontFamily="mono" fontSize="sm">{registration.email}</Td>
+                  <Td fontSize="sm">{registration.phone || "—"}</Td>
+                  <Td>
+                    <Badge colorScheme={registration.status === "CONFIRMED" ? "green" : registration.status === "WAITLISTED" ? "orange" : "gray"} variant="subtle">
+                      {registration.status}
+                    </Badge>
+                  </Td>
+                  <Td fontSize="sm" color="gray.600">{formatDate(registration.createdAt)}</Td>
+                  <Td fontSize="sm" color="gray.600">
+                    {registration.checkedInAt
+                      ? new Date(registration.checkedInAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+                      : "—"}
+                  </Td>
+                  <Td textAlign="right">
+                    {registration.unsignedWaivers && registration.unsignedWaivers.length > 0 && (
+                      <Badge colorScheme="red" variant="subtle" mr={2} title={registration.unsignedWaivers.join(", ")}>
+                        Waiver missing
+                      </Badge>
+                    )}
+                    {registration.hasSignedWaivers && (
+                      <Button
+                        as="a"
+                        href={`/api/events/${eventId}/registrations/${registration.id}/waiver`}
+                        size="xs"
+                        variant="ghost"
+                        leftIcon={<DownloadIcon />}
+                      >
+                        Waiver PDF
+                      </Button>
+                    )}
+                    {registration.status === "WAITLISTED" && (
+                      <Button
+                        size="xs"
+                        colorScheme="green"
+                        variant="ghost"
+                        isLoading={updatingId === registration.id}
+                        onClick={() => updateStatus(registration, "CONFIRMED")}
+                      >
+                        Confirm
+                      </Button>
+                    )}
+                    {registration.status !== "CANCELLED" ? (
+                      <Button
+                        size="xs"
+                        colorScheme="red"
+                        variant="ghost"
+                        isLoading={updatingId === registration.id}
+                        onClick={() => updateStatus(registration, "CANCELLED")}
+                      >
+                        Cancel
+                      </Button>
+                    ) : (
+                      <Button
+                        size="xs"
+                        colorScheme="green"
+                        variant="ghost"
+                        isLoading={updatingId === registration.id}
+                        onClick={() => updateStatus(registration, "CONFIRMED")}
+                      >
+                        Restore
+                      </Button>
+                    )}
+                  </Td>
+                </Tr>
+              ))}
+            </Tbody>
+          </Table>
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,282 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Alert, AlertDescription, AlertIcon, Badge, Box, Button, Heading, HStack, Input, InputGroup, InputLeftElement, Progress, Stack, Text, VStack, useToast } from "@chakra-ui/react";
+import { SearchIcon } from "@chakra-ui/icons";
+import jsQR from "jsqr";
+
+interface Attendee {
+  id: string;
+  name: string;
+  email: string;
+  status: string;
+  checkedInAt: string | null;
+  checkedInBy?: { name: string | null; email: string } | null;
+  // Titles of the event's waivers they haven't signed
+  unsignedWaivers: string[];
+}
+
+interface ScanResult {
+  status: "success" | "warning" | "error";
+  message: string;
+  attendee?: Attendee;
+  // Set after a fresh check-in, which can still be undone from the result
+  justCheckedIn?: boolean;
+}
+
+// How often the counts and list refresh so several door staff stay in sync
+const POLL_INTERVAL_MS = 10000;
+// Ignore the same code for a moment so one scan doesn't fire repeatedly
+const SCAN_COOLDOWN_MS = 2500;
+
+export default function CheckInClient({ eventId, eventTitle }: { eventId: string; eventTitle: string }) {
+  const [attendees, setAttendees] = useState<Attendee[]>([]);
+  const [counts, setCounts] = useState({ checkedIn: 0, expected: 0 });
+  const [search, setSearch] = useState("");
+  const [isScanning, setIsScanning] = useState(false);
+  const [lastResult, setLastResult] = useState<ScanResult | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const lastScanRef = useRef<{ token: string; at: number } | null>(null);
+  const toast = useToast();
+
+  const fetchAttendees = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ q: search });
+      const res = await fetch(`/api/events/${eventId}/checkin?${params}`);
+      if (!res.ok) return;
+      const data = await res.json();
+      setAttendees(data.items);
+      setCounts({ checkedIn: data.checkedIn, expected: data.expected });
+    } catch {
+      // Flaky venue connectivity: keep the last list and try again on the next poll
+    }
+  }, [eventId, search]);
+
+  useEffect(() => {
+    fetchAttendees();
+    const interval = setInterval(fetchAttendees, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchAttendees]);
+
+  const applyUpdate = (attendee: Attendee, nextCounts?: { checkedIn: number; expected: number }) => {
+    setAttendees(prev => prev.map(a => (a.id === attendee.id ? attendee : a)));
+    if (nextCounts) setCounts(nextCounts);
+  };
+
+  const checkIn = useCallback(async (payload: { token?: string; registrationId?: string }) => {
+    try {
+      const res = await fetch(`/api/events/${eventId}/checkin`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload)
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setLastResult({
+          status: "error",
+          message: typeof data.error === "string" ? data.error : "Check-in failed",
+          attendee: data.registration
+        });
+        return;
+      }
+
+      applyUpdate(data.registration, { checkedIn: data.checkedIn, expected: data.expected });
+      const attendee: Attendee = data.registration;
+      const missingWaivers = attendee.unsignedWaivers.length > 0
+        ? ` but hasn't signed ${attendee.unsignedWaivers.join(" or ")}`
+        : "";
+      setLastResult(data.alreadyCheckedIn
+        ? { status: "warning", message: `${attendee.name} is already checked in${missingWaivers}`, attendee }
+        : {
+            status: missingWaivers ? "warning" : "success",
+            message: `${attendee.name} checked in${missingWaivers}`,
+            attendee,
+            justCheckedIn: true
+          });
+    } catch {
+      setLastResult({ status: "error", message: "Network error. Please try again." });
+    }
+  }, [eventId]);
+
+  const undoCheckIn = async (attendee: Attendee) => {
+    setBusyId(attendee.id);
+    try {
+      const res = await fetch(`/api/events/${eventId}/checkin`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ registrationId: attendee.id })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(typeof data.error === "string" ? data.error : "Failed to undo check-in");
+
+      applyUpdate(data.registration, { checkedIn: data.checkedIn, expected: data.expected });
+      if (lastResult?.attendee?.id === attendee.id) setLastResult(null);
+      toast({ title: `Undid check-in for ${attendee.name}`, status: "info", duration: 3000 });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to undo check-in",
+        status: "error",
+        duration: 5000,
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const manualCheckIn = async (attendee: Attendee) => {
+    setBusyId(attendee.id);
+    await checkIn({ registrationId: attendee.id });
+    setBusyId(null);
+  };
+
+  const stopScanner = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setIsScanning(false);
+  }, []);
+
+  const startScanner = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+      streamRef.current = stream;
+      setIsScanning(true);
+    } catch {
+      toast({
+        title: "Camera unavailable",
+        description: "Allow camera access or search attendees by name instead.",
+        status: "warning",
+        duration: 5000,
+      });
+    }
+  };
+
+  // Decode frames from the camera while the scanner is open
+  useEffect(() => {
+    if (!isScanning || !videoRef.current || !streamRef.current) return;
+
+    const video = videoRef.current;
+    video.srcObject = streamRef.current;
+    video.play().catch(() => {});
+
+    let frame: number;
+    const tick = () => {
+      const canvas = canvasRef.current;
+      if (canvas && video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const ctx = canvas.getContext("2d", { willReadFrequently: true });
+        if (ctx) {
+          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+          const code = jsQR(image.data, image.width, image.height, { inversionAttempts: "dontInvert" });
+          const now = Date.now();
+          const last = lastScanRef.current;
+          if (code?.data && !(last && last.token === code.data && now - last.at < SCAN_COOLDOWN_MS)) {
+            lastScanRef.current = { token: code.data, at: now };
+            checkIn({ token: code.data });
+          }
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [isScanning, checkIn]);
+
+  // Release the camera when leaving the page
+  useEffect(() => stopScanner, [stopScanner]);
+
+  const progress = counts.expected > 0 ? (counts.checkedIn / counts.expected) * 100 : 0;
+
+  return (
+    <VStack spacing={5} align="stretch" maxW="lg" mx="auto">
+      <Box textAlign="center">
+        <Heading size="md" fontFamily="'SUSE Mono', monospace" fontWeight="600" mb={1}>
+          {eventTitle}
+        </Heading>
+        <Text fontSize="3xl" fontWeight="bold">
+          {counts.checkedIn} / {counts.expected}
+        </Text>
+        <Text fontSize="sm" color="gray.600" mb={2}>checked in</Text>
+        <Progress value={progress} colorScheme="green" borderRadius="full" size="sm" />
+      </Box>
+
+      {lastResult && (
+        <Alert status={lastResult.status} borderRadius="md" variant="left-accent">
+          <AlertIcon />
+          <AlertDescription flex={1} fontWeight="500">{lastResult.message}</AlertDescription>
+          {lastResult.justCheckedIn && lastResult.attendee && (
+            <Button size="sm" variant="outline" onClick={() => undoCheckIn(lastResult.attendee!)} isLoading={busyId === lastResult.attendee.id}>
+              Undo
+            </Button>
+          )}
+        </Alert>
+      )}
+
+      <Box>
+        {isScanning ? (
+          <VStack spacing={3}>
+            <Box as="video" ref={videoRef} w="100%" borderRadius="lg" bg="black" playsInline muted />
+            <canvas ref={canvasRef} style={{ display: "none" }} />
+            <Button w="full" size="lg" variant="outline" onClick={stopScanner}>
+              Stop Scanner
+            </Button>
+          </VStack>
+        ) : (
+          <Button w="full" size="lg" colorScheme="green" onClick={startScanner}>
+            Scan QR Code
+          </Button>
+        )}
+      </Box>
+
+      <InputGroup size="lg">
+        <InputLeftElement pointerEvents="none">
+          <SearchIcon color="gray.300" />
+        </InputLeftElement>
+        <Input
+          placeholder="Search by name or email..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          bg="white"
+        />
+      </InputGroup>
+
+      <Stack spacing={2}>
+        {attendees.length === 0 ? (
+          <Text textAlign="center" color="gray.500" py={6}>No attendees found</Text>
+        ) : attendees.map((attendee) => (
+          <HStack key={attendee.id} bg="white" p={3} borderRadius="md" boxShadow="sm" justify="space-between">
+            <Box minW={0}>
+              <Text fontWeight="600" noOfLines={1}>{attendee.name}</Text>
+              <Text fontSize="sm" color="gray.600" noOfLines={1}>{attendee.email}</Text>
+              {attendee.checkedInAt && (
+                <Badge colorScheme="green" variant="subtle" mt={1}>
+                  Checked in {new Date(attendee.checkedInAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                </Badge>
+              )}
+              {attendee.unsignedWaivers.length > 0 && (
+                <Badge colorScheme="red" variant="subtle" mt={1} ml={attendee.checkedInAt ? 2 : 0} title={attendee.unsignedWaivers.join(", ")}>
+                  Waiver missing
+                </Badge>
+              )}
+            </Box>
+            {attendee.checkedInAt ? (
+              <Button size="md" variant="ghost" colorScheme="gray" onClick={() => undoCheckIn(attendee)} isLoading={busyId === attendee.id}>
+                Undo
+              </Button>
+            ) : (
+              <Button size="md" colorScheme="green" onClick={() => manualCheckIn(attendee)} isLoading={busyId === attendee.id}>
+                Check In
+              </Button>
+            )}
+          </HStack>
+        ))}
+      </Stack>
+    </VStack>
+  );
+}
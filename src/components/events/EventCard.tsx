@@ -1,14 +1,14 @@
 "use client";
-import { Box, Button, Heading, HStack, Stack, Text, Image as CImage, useToast, AlertDialog, AlertDialogBody, AlertDialogFooter, AlertDialogHeader, AlertDialogContent, AlertDialogOverlay, useDisclosure, Badge } from "@chakra-ui/react";
+import { Box, Button, Heading, HStack, Stack, Text, Image as CImage, useToast, AlertDialog, AlertDialogBody, AlertDialogFooter, AlertDialogHeader, AlertDialogContent, AlertDialogOverlay, useDisclosure, Badge, Checkbox } from "@chakra-ui/react";
 import NextLink from "next/link";
-import { format } from "date-fns";
-import { useRef } from "react";
+import { useRef, useState } from "react";
 
 type Props = {
   id: string;
   slug: string;
   title: string;
   startAt: string | Date;
+  timezone?: string; // Event's IANA zone; times are shown in it
   locationName?: string | null;
   city?: string | null;
   state?: string | null;
@@ -16,6 +16,9 @@ type Props = {
   buttonType?: 'RSVP' | 'BUY_TICKETS';
   ticketUrl?: string | null;
   status?: string;
+  spotsLeft?: number | null; // null or undefined means no capacity limit
+  waitlistEnabled?: boolean;
+  distanceKm?: number | null; // From the visitor's location, when sorting by "near me"
   onDelete?: () => void;
   onStatusChange?: (eventId: string, newStatus: string) => void;
   showArchiveActions?: boolean;
@@ -27,6 +30,7 @@ export default function EventCard({
   slug, 
   title, 
   startAt, 
+  timezone,
   locationName, 
   city, 
   state, 
@@ -34,6 +38,9 @@ export default function EventCard({
   buttonType = 'RSVP', 
   ticketUrl, 
   status,
+  spotsLeft,
+  waitlistEnabled = true,
+  distanceKm,
   onDelete, 
   onStatusChange,
   showArchiveActions = false,
@@ -42,13 +49,17 @@ export default function EventCard({
   const toast = useToast();
   const { isOpen, onOpen, onClose } = useDisclosure();
   const cancelRef = useRef<HTMLButtonElement>(null);
+  const duplicateDialog = useDisclosure();
+  const duplicateCancelRef = useRef<HTMLButtonElement>(null);
+  const [includeCoordination, setIncludeCoordination] = useState(false);
+  const [isDuplicating, setIsDuplicating] = useState(false);
 
   // Format the startAt date for display
   const formatStartAt = (date: string | Date) => {
-    if (typeof date === 'string') {
-      return format(new Date(date), 'MMM dd, yyyy • h:mm a');
-    }
-    return format(date, 'MMM dd, yyyy • h:mm a');
+    const d = new Date(date);
+    const day = d.toLocaleDateString('en-US', { month: 'short', day: '2-digit', year: 'numeric', timeZone: timezone });
+    const time = d.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: timezone, ...(timezone ? { timeZoneName: 'short' as const } : {}) });
+    return `${day} • ${time}`;
   };
 
   // Get image URL with proper fallback logic
@@ -96,6 +107,14 @@ export default function EventCard({
 
   const img = getImageUrl(hero);
 
+  // Native RSVPs (no external ticket link) can be capacity-limited
+  const isFull = !ticketUrl && spotsLeft === 0;
+  const availabilityLabel = ticketUrl || spotsLeft == null
+    ? null
+    : spotsLeft > 0
+      ? `${spotsLeft} ${spotsLeft === 1 ? "spot" : "spots"} left`
+      : waitlistEnabled ? "Waitlist open" : "Sold out";
+
   const handleDelete = async () => {
     try {
       const res = await fetch(`/api/events/${id}`, {
@@ -197,13 +216,47 @@ export default function EventCard({
     }
   };
 
+  const handleDuplicate = async () => {
+    setIsDuplicating(true);
+    try {
+      const res = await fetch(`/api/events/${id}/duplicate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ includeCoordination })
+      });
+      const json = await res.json();
+
+      if (!res.ok) {
+        throw new Error(json.error || 'Failed to duplicate event');
+      }
+
+      toast({
+        title: "Event duplicated as a draft",
+        status: "success",
+        duration: 3000,
+      });
+
+      window.location.href = `/dashboard/events/${json.id}/edit`;
+    } catch (error) {
+      toast({
+        title: "Error duplicating event",
+        description: error instanceof Error ? error.message : "Unknown error",
+        status: "error",
+        duration: 5000,
+      });
+      setIsDuplicating(false);
+      duplicateDialog.onClose();
+    }
+  };
+
   const getStatusBadge = () => {
     if (!status) return null;
     
     const statusColors = {
       DRAFT: 'gray',
       PUBLISHED: 'green',
-      ARCHIVED: 'orange'
+      ARCHIVED: 'orange',
+      CANCELLED: 'red'
     };
 
     return (
@@ -327,6 +380,21 @@ export default function EventCard({
                 return `${city ?? ""}${state ? `${city ? ", " : ""}${state}` : ""}`;
               })()}
             </Text>
+            {distanceKm != null && (
+              <Text color="gray.500" fontSize={{ base: "2xs", md: "xs" }}>
+                {(distanceKm * 0.621371).toFixed(1)} mi away
+              </Text>
+            )}
+            {availabilityLabel && (
+              <Badge
+                mt={{ base: 1, md: 2 }}
+                colorScheme={isFull ? (waitlistEnabled ? "orange" : "red") : spotsLeft != null && spotsLeft <= 5 ? "orange" : "green"}
+                variant="subtle"
+                fontSize={{ base: "2xs", md: "xs" }}
+              >
+                {availabilityLabel}
+              </Badge>
+            )}
           </Box>
           <HStack pt={{ base: 0.5, md: 1 }} justify="space-between" align="center" spacing={{ base: 1, md: 2 }} flexWrap="wrap">
             {buttonType === 'BUY_TICKETS' && ticketUrl ? (
@@ -379,6 +447,30 @@ export default function EventCard({
               >
                 RSVP
               </Button>
+            ) : !ticketUrl && !isAdminView ? (
+              <Button 
+                as={NextLink}
+                href={`/events/${slug}`}
+                size={{ base: "sm", md: "md" }}
+                px={{ base: 3, md: 4 }}
+                bg="linear-gradient(135deg, #22c55e 0%, #16a34a 100%)"
+                color="white"
+                shadow="md"
+                fontWeight="600"
+                flex={1}
+                isDisabled={isFull && !waitlistEnabled}
+                _hover={{
+                  transform: "translateY(-3px) scale(1.05)",
+                  shadow: "xl",
+                  bg: "linear-gradient(135deg, #15803d 0%, #166534 100%)"
+                }}
+                _active={{
+                  transform: "translateY(-1px) scale(1.02)"
+                }}
+                transition="all 0.3s cubic-bezier(0.4, 0, 0.2, 1)"
+              >
+                {isFull ? (waitlistEnabled ? "Join waitlist" : "Sold out") : "RSVP"}
+              </Button>
             ) : null}
             
             <Button 
@@ -434,6 +526,22 @@ export default function EventCard({
                 Edit
               </Button>
             )}
+
+            {isAdminView && (
+              <Button 
+                colorScheme="blue" 
+                variant="ghost" 
+                size="sm"
+                onClick={duplicateDialog.onOpen}
+                _hover={{
+                  transform: "translateY(-1px)",
+                  shadow: "sm"
+                }}
+                transition="all 0.2s"
+              >
+                Duplicate
+              </Button>
+            )}
             
             {isAdminView && showArchiveActions ? (
               <Button 
@@ -513,6 +621,41 @@ export default function EventCard({
           </AlertDialogOverlay>
         </AlertDialog>
       )}
+
+      {/* Duplicate Dialog */}
+      {isAdminView && (
+        <AlertDialog
+          isOpen={duplicateDialog.isOpen}
+          leastDestructiveRef={duplicateCancelRef}
+          onClose={duplicateDialog.onClose}
+        >
+          <AlertDialogOverlay>
+            <AlertDialogContent>
+              <AlertDialogHeader fontSize="lg" fontWeight="bold">
+                Duplicate Event
+              </AlertDialogHeader>
+
+              <AlertDialogBody>
+                <Text mb={4}>
+                  Create a draft copy of &quot;{title}&quot; with its details and images, scheduled for the same time a week (or more) later.
+                </Text>
+                <Checkbox isChecked={includeCoordination} onChange={(e) => setIncludeCoordination(e.target.checked)}>
+                  Also copy coordination sheets and documents
+                </Checkbox>
+              </AlertDialogBody>
+
+              <AlertDialogFooter>
+                <Button ref={duplicateCancelRef} onClick={duplicateDialog.onClose}>
+                  Cancel
+                </Button>
+                <Button colorScheme="blue" onClick={handleDuplicate} isLoading={isDuplicating} ml={3}>
+                  Duplicate
+                </Button>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialogOverlay>
+        </AlertDialog>
+      )}
     </>
   );
 }
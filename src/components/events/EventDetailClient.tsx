@@ -1,16 +1,55 @@
 "use client";
 import { useState } from "react";
-import { Box, Button, Heading, Image as CImage, Text, Container, HStack, VStack, Breadcrumb, BreadcrumbItem, BreadcrumbLink, SimpleGrid, Modal, ModalOverlay, ModalContent, ModalBody, ModalCloseButton, useDisclosure } from "@chakra-ui/react";
-import { format } from "date-fns";
+import { Alert, AlertDescription, AlertIcon, Box, Button, Heading, Image as CImage, Text, Container, HStack, VStack, Breadcrumb, BreadcrumbItem, BreadcrumbLink, SimpleGrid, Modal, ModalOverlay, ModalContent, ModalBody, ModalCloseButton, useDisclosure } from "@chakra-ui/react";
 import Link from "next/link";
-import { Event } from "@/types";
+import { Event, EventWaiver } from "@/types";
 import { EventStructuredData, BreadcrumbStructuredData } from "@/components/seo/StructuredData";
+import RsvpForm from "./RsvpForm";
+import { formatLongDateTime } from "@/lib/utils";
 
 interface EventDetailClientProps {
   event: Event;
+  // The signed-in viewer; `verified` members can see and RSVP to members-only events
+  member?: { name: string | null; email: string; verified: boolean } | null;
+  // Whether the viewer may RSVP here, given the event's access setting and their tier
+  canRsvp?: boolean;
+  // Names of the tiers a TIERS event is open to
+  requiredTiers?: string[];
+  // Waivers attendees sign with their RSVP
+  waivers?: EventWaiver[];
 }
 
-export default function EventDetailClient({ event }: EventDetailClientProps) {
+function MembersOnlyPrompt({ member, children }: { member: EventDetailClientProps["member"]; children: React.ReactNode }) {
+  return (
+    <Box p={6} bg="gray.50" borderBottom="1px solid" borderColor="gray.200">
+      <Text mb={3} color="gray.700">{children}</Text>
+      {member?.verified ? (
+        <Button as={Link} href="/account" size="md" colorScheme="green" variant="outline">
+          View your membership
+        </Button>
+      ) : member ? (
+        <Button as={Link} href="/account" size="md" colorScheme="green" variant="outline">
+          Verify your email
+        </Button>
+      ) : (
+        <HStack spacing={3}>
+          <Button as={Link} href="/signup" size="md" colorScheme="green">
+            Become a member
+          </Button>
+          <Button as={Link} href="/signin" size="md" variant="outline">
+            Sign in
+          </Button>
+        </HStack>
+      )}
+    </Box>
+  );
+}
+
+export default function EventDetailClient({ event, member = null, canRsvp = true, requiredTiers = [], waivers = [] }: EventDetailClientProps) {
+  const membersOnlyRsvp = !!event.access && event.access !== "PUBLIC";
+  const restricted = event.access === "MEMBERS_ONLY" || event.access === "TIERS";
+  const nextStep = member ? "Verify your email" : "Sign in or join the club";
+  const tierAudience = requiredTiers.length > 0 ? requiredTiers.join(", ").replace(/, ([^,]*)$/, " and $1") : "selected";
   const [selectedImage, setSelectedImage] = useState<any>(null);
   const { isOpen, onOpen, onClose } = useDisclosure();
 
@@ -25,8 +64,8 @@ export default function EventDetailClient({ event }: EventDetailClientProps) {
 
   return (
     <Container maxW="4xl" py={8}>
-      {/* Structured Data */}
-      <EventStructuredData event={event} />
+      {/* Structured Data; restricted events aren't advertised to search engines */}
+      {!restricted && <EventStructuredData event={event} />}
       <BreadcrumbStructuredData 
         items={[
           { name: "Home", url: "https://thcmembersonlyclub.com" },
@@ -64,8 +103,13 @@ export default function EventDetailClient({ event }: EventDetailClientProps) {
           />
         )}
         
-        {/* Action Button - Buy Tickets or RSVP - Moved below hero image */}
-        {event.buttonType === 'BUY_TICKETS' && event.ticketUrl ? (
+        {/* Action Button - Buy Tickets or RSVP - Moved below hero image; native RSVP when there is no ticket link */}
+        {event.status === 'CANCELLED' ? (
+          <Alert status="error" variant="left-accent">
+            <AlertIcon />
+            <AlertDescription fontWeight="500">This event has been cancelled.</AlertDescription>
+          </Alert>
+        ) : event.buttonType === 'BUY_TICKETS' && event.ticketUrl ? (
           <Box p={6} bg="gray.50" borderBottom="1px solid" borderColor="gray.200">
             <Button 
               as="a" 
@@ -95,6 +139,30 @@ export default function EventDetailClient({ event }: EventDetailClientProps) {
               RSVP
             </Button>
           </Box>
+        ) : event.detailsHidden && event.access === 'TIERS' ? (
+          <MembersOnlyPrompt member={member}>
+            This event is for {tierAudience} members only. {member?.verified
+              ? "Your membership doesn't include it yet; get in touch to upgrade."
+              : `${nextStep} to see if your membership includes it.`}
+          </MembersOnlyPrompt>
+        ) : event.detailsHidden ? (
+          <MembersOnlyPrompt member={member}>
+            This is a members-only event. {nextStep} to see where it is and RSVP.
+          </MembersOnlyPrompt>
+        ) : !event.ticketUrl && event.status === 'PUBLISHED' && !canRsvp ? (
+          <MembersOnlyPrompt member={member}>
+            RSVPs for this event are open to members. {nextStep} to save your spot.
+          </MembersOnlyPrompt>
+        ) : !event.ticketUrl && event.status === 'PUBLISHED' ? (
+          <RsvpForm 
+            eventId={event.id} 
+            eventTitle={event.title} 
+            spotsLeft={event.spotsLeft} 
+            waitlistEnabled={event.waitlistEnabled} 
+            member={member}
+            lockEmail={membersOnlyRsvp}
+            waivers={waivers}
+          />
         ) : null}
         
         <Box p={8}>
@@ -105,16 +173,31 @@ export default function EventDetailClient({ event }: EventDetailClientProps) {
               </HStack>
               
               <Text color="gray.600" fontSize="lg">
-                {format(new Date(event.startAt), "EEEE, MMMM d, yyyy 'at' p")}
+                {formatLongDateTime(event.startAt, event.timezone)}
               </Text>
               
               {event.endAt && (
                 <Text color="gray.600" fontSize="md">
-                  Ends: {format(new Date(event.endAt), "EEEE, MMMM d, yyyy 'at' p")}
+                  Ends: {formatLongDateTime(event.endAt, event.timezone)}
                 </Text>
               )}
+
+              {event.status !== 'CANCELLED' && (
+                <Button as="a" href={`/api/events/${event.id}/ics`} size="sm" variant="outline" mt={3}>
+                  Add to Calendar
+                </Button>
+              )}
             </Box>
 
+            {!event.locationName && event.detailsHidden && (event.city || event.state) && (
+              <Box>
+                <Text fontWeight="semibold" mb={1}>Location</Text>
+                <Text color="gray.700">
+                  {[event.city, event.state].filter(Boolean).join(", ")} • Full address for members
+                </Text>
+              </Box>
+            )}
+
             {event.locationName && (
               <Box>
                 <Text fontWeight="semibold" mb={1}>Location</Text>
@@ -123,6 +206,11 @@ export default function EventDetailClient({ event }: EventDetailClientProps) {
                   {event.city && `, ${event.city}`}
                   {event.state && `, ${event.state}`}
                 </Text>
+                {event.venue && (
+                  <Button as={Link} href={`/venues/${event.venue.slug}`} size="xs" variant="link" colorScheme="green" mt={1}>
+                    More events at {event.venue.name}
+                  </Button>
+                )}
               </Box>
             )}
 
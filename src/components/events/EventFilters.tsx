@@ -0,0 +1,104 @@
+"use client";
+import { usePathname, useRouter } from "next/navigation";
+import { Box, Button, HStack, Stack, Text, Wrap, WrapItem } from "@chakra-ui/react";
+import { DATE_RANGES, PRICE_TYPES, getCategoryLabel } from "@/lib/taxonomy";
+import type { EventFacets, Facet, FacetCount } from "@/lib/event-filters";
+
+type Selection = Partial<Record<Facet, string>>;
+
+const split = (value?: string) => (value ? value.split(",").filter(Boolean) : []);
+
+const GROUPS: Array<{ facet: Facet; label: string; single?: boolean; describe: (value: string) => string }> = [
+  { facet: "when", label: "When", single: true, describe: value => DATE_RANGES.find(range => range.value === value)?.label ?? value },
+  { facet: "category", label: "Category", describe: value => getCategoryLabel(value) ?? value },
+  { facet: "buttonType", label: "Price", describe: value => PRICE_TYPES.find(price => price.value === value)?.label ?? value },
+  { facet: "city", label: "City", describe: value => value },
+  { facet: "tag", label: "Tags", describe: value => `#${value}` },
+];
+
+/**
+ * Filter chips for the public events page. The selection lives in the URL, so filtered views
+ * can be shared; counts come from the facets returned by GET /api/events.
+ */
+export default function EventFilters({ facets, selected }: { facets: EventFacets | null; selected: Selection }) {
+  const router = useRouter();
+  const pathname = usePathname();
+
+  const isSelected = (facet: Facet, value: string) =>
+    split(selected[facet]).some(current => current.toLowerCase() === value.toLowerCase());
+
+  const update = (changes: Selection) => {
+    const params = new URLSearchParams();
+    const next = { ...selected, ...changes };
+    (Object.entries(next) as Array<[Facet, string | undefined]>).forEach(([facet, value]) => {
+      if (value) params.set(facet, value);
+    });
+    const query = params.toString();
+    router.push(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  };
+
+  const toggle = (facet: Facet, value: string, single?: boolean) => {
+    if (single) {
+      update({ [facet]: isSelected(facet, value) ? undefined : value });
+      return;
+    }
+    const values = split(selected[facet]);
+    const next = isSelected(facet, value)
+      ? values.filter(current => current.toLowerCase() !== value.toLowerCase())
+      : [...values, value];
+    update({ [facet]: next.join(",") || undefined });
+  };
+
+  // Selected values stay visible even when nothing matches them under the other filters
+  const optionsFor = (facet: Facet): FacetCount[] => {
+    const options = facets?.[facet] ?? [];
+    const missing = split(selected[facet])
+      .filter(value => !options.some(option => option.value.toLowerCase() === value.toLowerCase()))
+      .map(value => ({ value, count: 0 }));
+    return [...options, ...missing];
+  };
+
+  const hasSelection = Object.values(selected).some(Boolean);
+
+  return (
+    <Stack spacing={3} mb={8} p={4} bg="white" borderRadius="xl" border="1px solid" borderColor="gray.100">
+      {GROUPS.map(({ facet, label, single, describe }) => {
+        const options = optionsFor(facet);
+        if (options.length === 0) return null;
+        return (
+          <HStack key={facet} align="start" spacing={3}>
+            <Text fontSize="sm" fontWeight="semibold" color="gray.600" minW="72px" pt={1}>
+              {label}
+            </Text>
+            <Wrap spacing={2}>
+              {options.map(option => {
+                const active = isSelected(facet, option.value);
+                return (
+                  <WrapItem key={option.value}>
+                    <Button
+                      size="xs"
+                      borderRadius="full"
+                      colorScheme="green"
+                      variant={active ? "solid" : "outline"}
+                      onClick={() => toggle(facet, option.value, single)}
+                      isDisabled={option.count === 0 && !active}
+                    >
+                      {describe(option.value)} ({option.count})
+                    </Button>
+                  </WrapItem>
+                );
+              })}
+            </Wrap>
+          </HStack>
+        );
+      })}
+      {hasSelection && (
+        <Box>
+          <Button size="xs" variant="ghost" onClick={() => router.push(pathname, { scroll: false })}>
+            Clear filters
+          </Button>
+        </Box>
+      )}
+    </Stack>
+  );
+}
@@ -2,31 +2,56 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { createEventSchema } from "@/lib/validation";
-import { Box, Button, FormControl, FormLabel, Input, Textarea, HStack, Switch, VStack, useToast, SimpleGrid, Stack } from "@chakra-ui/react";
+import { Box, Button, FormControl, FormHelperText, FormLabel, Input, Select, Textarea, HStack, Switch, VStack, useToast, SimpleGrid, Stack } from "@chakra-ui/react";
 import HeroImageUploader from "./HeroImageUploader";
 import DetailImagesUploader from "./DetailImagesUploader";
+import RecurrenceFields, { type RecurrenceValue } from "./RecurrenceFields";
+import EventTemplates, { type EventTemplate } from "./EventTemplates";
+import VenueSelect from "@/components/venues/VenueSelect";
+import TierPicker from "@/components/members/TierPicker";
+import WaiverPicker from "@/components/waivers/WaiverPicker";
+import type { Venue } from "@/types";
+import { COMMON_TIME_ZONES } from "@/lib/timezone";
+import { EVENT_CATEGORIES, MAX_EVENT_TAGS, normalizeTags } from "@/lib/taxonomy";
+import { formatDateTime } from "@/lib/utils";
 import { useState } from "react";
 import type { z } from "zod";
 
 type FormVals = z.infer<typeof createEventSchema>;
 
-export default function EventForm({ initial, mode = "create", eventId, existingImages }: { 
+export default function EventForm({ initial, mode = "create", eventId, seriesId, initialRecurrence, existingImages, updatedAt }: { 
   initial?: Partial<FormVals>; 
-  mode?: "create" | "edit";
+  // "series" edits a recurring series' template and schedule
+  mode?: "create" | "edit" | "series";
   eventId?: string;
+  seriesId?: string;
+  initialRecurrence?: RecurrenceValue;
   existingImages?: Array<{id: string, variants: any, fileName: string}>;
+  // When the edited event was loaded; saves are rejected if someone else saved since
+  updatedAt?: string;
 }) {
   const [heroImageId, setHeroImageId] = useState<string | undefined>(initial?.heroImageId);
   const [detailImages, setDetailImages] = useState<Array<{id: string, variants: any, fileName: string}>>(existingImages || []);
+  const [recurrence, setRecurrence] = useState<RecurrenceValue | null>(initialRecurrence ?? null);
+  const [applyToFuture, setApplyToFuture] = useState(true);
+  // Tags are typed as one comma-separated line and kept in the form as an array
+  const [tagsText, setTagsText] = useState((initial?.tags ?? []).join(", "));
+  const isSeries = mode === "series" || (mode === "create" && recurrence !== null);
+  // Keep an event's existing zone selectable even if it isn't one of the common ones
+  const timeZoneOptions = initial?.timezone && !COMMON_TIME_ZONES.includes(initial.timezone)
+    ? [initial.timezone, ...COMMON_TIME_ZONES]
+    : COMMON_TIME_ZONES;
   const toast = useToast();
   
-  const { register, handleSubmit, formState: { isSubmitting, errors }, watch, setValue } = useForm<FormVals>({
+  const { register, handleSubmit, formState: { isSubmitting, errors }, watch, setValue, getValues } = useForm<FormVals>({
     resolver: zodResolver(createEventSchema),
     defaultValues: {
       title: "",
       description: "",
       ticketUrl: "",
       buttonType: "RSVP",
+      category: "",
+      tags: [],
       locationName: "",
       city: "",
       state: "",
@@ -34,10 +59,56 @@ export default function EventForm({ initial, mode = "create", eventId, existingI
       endAt: "",
       status: "DRAFT" as const,
       timezone: "America/Los_Angeles",
+      capacity: null,
+      waitlistEnabled: true,
+      access: "PUBLIC",
+      tierIds: [],
+      waiverIds: [],
+      publishAt: "",
+      unpublishAt: "",
       ...initial
     }
   });
 
+  // Fill in the template's fields; dates and images are left as they are
+  const applyTemplate = (template: EventTemplate) => {
+    if (template.title) setValue("title", template.title);
+    setValue("description", template.description || "");
+    setValue("ticketUrl", template.ticketUrl || "");
+    setValue("buttonType", template.buttonType as "RSVP" | "BUY_TICKETS");
+    setValue("category", (template.category || "") as FormVals["category"]);
+    setValue("tags", template.tags);
+    setTagsText(template.tags.join(", "));
+    setValue("locationName", template.locationName || "");
+    setValue("address", template.address || "");
+    setValue("city", template.city || "");
+    setValue("state", template.state || "");
+    setValue("timezone", template.timezone);
+    setValue("capacity", template.capacity);
+    setValue("waitlistEnabled", template.waitlistEnabled);
+    setValue("access", template.access);
+    setValue("tierIds", template.tierIds);
+    setValue("venueId", template.venueId || "");
+  };
+
+  const updateTags = (text: string) => {
+    setTagsText(text);
+    setValue("tags", normalizeTags(text.split(",")), { shouldValidate: true });
+  };
+
+  // Copy a saved venue's location onto the event; the fields stay editable afterwards
+  const applyVenue = (venue: Venue | null) => {
+    setValue("venueId", venue?.id ?? "");
+    if (!venue) return;
+    setValue("locationName", venue.name);
+    setValue("address", venue.address || "");
+    setValue("city", venue.city || "");
+    setValue("state", venue.state || "");
+    setValue("latitude", venue.latitude ?? null);
+    setValue("longitude", venue.longitude ?? null);
+    if (venue.capacity && !getValues("capacity")) setValue("capacity", venue.capacity);
+  };
+
   const onSubmit = async (vals: FormVals) => {
     console.log("Form submitted with values:", vals);
     console.log("Hero image ID:", heroImageId);
@@ -53,6 +124,16 @@ export default function EventForm({ initial, mode = "create", eventId, existingI
       return;
     }
     
+    if (vals.access === "TIERS" && !vals.tierIds?.length) {
+      toast({
+        title: "Validation Error",
+        description: "Pick at least one tier that can see this event",
+        status: "error",
+        duration: 3000,
+      });
+      return;
+    }
+    
     if (!vals.startAt) {
       toast({
         title: "Validation Error",
@@ -64,36 +145,56 @@ export default function EventForm({ initial, mode = "create", eventId, existingI
     }
     
     try {
-      const url = mode === "edit" ? `/api/events/${eventId}` : "/api/events";
-      const method = mode === "edit" ? "PATCH" : "POST";
+      const url = mode === "series" ? `/api/series/${seriesId}`
+        : mode === "edit" ? `/api/events/${eventId}`
+        : isSeries ? "/api/series" : "/api/events";
+      const method = mode === "create" ? "POST" : "PATCH";
       
-      const res = await fetch(url, {
+      const send = (expectedUpdatedAt?: string) => fetch(url, {
         method,
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ 
+        body: JSON.stringify(isSeries ? {
+          ...vals,
+          heroImageId,
+          recurrence,
+          ...(mode === "series" ? { applyToFuture } : {})
+        } : { 
           ...vals, 
           heroImageId,
-          detailImageIds: detailImages.map(img => img.id)
+          detailImageIds: detailImages.map(img => img.id),
+          ...(expectedUpdatedAt ? { expectedUpdatedAt } : {})
         })
       });
       
-      const json = await res.json();
+      let res = await send(mode === "edit" ? updatedAt : undefined);
+      let json = await res.json();
+
+      if (res.status === 409 && json.error === "conflict") {
+        const who = json.updatedBy?.name || json.updatedBy?.email || "someone else";
+        const when = json.updatedAt ? ` at ${formatDateTime(json.updatedAt)}` : "";
+        if (!confirm(`This event was changed by ${who}${when} after you opened it. Overwrite their changes with yours?`)) {
+          window.location.reload();
+          return;
+        }
+        res = await send();
+        json = await res.json();
+      }
       
       if (!res.ok) {
-        throw new Error(json.error ? JSON.stringify(json.error) : `Failed to ${mode} event`);
+        throw new Error(json.error ? (typeof json.error === "string" ? json.error : JSON.stringify(json.error)) : `Failed to ${mode === "create" ? "create" : "update"} event`);
       }
       
       toast({
-        title: `Event ${mode === "edit" ? "updated" : "created"} successfully`,
+        title: `${isSeries ? "Series" : "Event"} ${mode === "create" ? "created" : "updated"} successfully`,
         status: "success",
         duration: 3000,
       });
       
-      // Redirect to dashboard
-      window.location.href = "/dashboard/events";
+      // Series go to their occurrence list, single events back to the dashboard
+      window.location.href = isSeries ? `/dashboard/events/series/${seriesId ?? json.id}` : "/dashboard/events";
     } catch (error) {
       toast({
-        title: `Error ${mode === "edit" ? "updating" : "creating"} event`,
+        title: `Error ${mode === "create" ? "creating" : "updating"} ${isSeries ? "series" : "event"}`,
         description: error instanceof Error ? error.message : "Unknown error",
         status: "error",
         duration: 5000,
@@ -104,6 +205,10 @@ export default function EventForm({ initial, mode = "create", eventId, existingI
   return (
     <Box as="form" onSubmit={handleSubmit(onSubmit)} bg="white" p={{ base: 4, md: 6 }} borderRadius="xl" boxShadow="sm">
       <VStack spacing={6} align="stretch">
+        {mode !== "series" && (
+          <EventTemplates allowApply={mode === "create"} onApply={applyTemplate} getValues={getValues} />
+        )}
+
         {/* Basic Information Section */}
         <Box>
           <FormControl isInvalid={!!errors.title} mb={4}>
@@ -117,6 +222,25 @@ export default function EventForm({ initial, mode = "create", eventId, existingI
           </FormControl>
         </Box>
 
+        {/* Category & Tags Section - used by the filters on the public events page */}
+        <Box>
+          <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+            <FormControl>
+              <FormLabel fontSize="sm" fontWeight="semibold">Category</FormLabel>
+              <Select {...register("category")} placeholder="Uncategorized">
+                {EVENT_CATEGORIES.map(category => (
+                  <option key={category.value} value={category.value}>{category.label}</option>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl isInvalid={!!errors.tags}>
+              <FormLabel fontSize="sm" fontWeight="semibold">Tags</FormLabel>
+              <Input value={tagsText} onChange={(e) => updateTags(e.target.value)} placeholder="outdoor, live music" />
+              <FormHelperText>Separate with commas, up to {MAX_EVENT_TAGS}</FormHelperText>
+            </FormControl>
+          </SimpleGrid>
+        </Box>
+
         {/* Ticket Information Section */}
         <Box>
           <FormControl mb={4}>
@@ -149,6 +273,66 @@ export default function EventForm({ initial, mode = "create", eventId, existingI
           </FormControl>
         </Box>
         
+        {/* Capacity Section - applies to native RSVPs only */}
+        {!watch("ticketUrl") && (
+          <Box>
+            <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+              <FormControl isInvalid={!!errors.capacity}>
+                <FormLabel fontSize="sm" fontWeight="semibold">Capacity</FormLabel>
+                <Input 
+                  type="number" 
+                  min={1} 
+                  placeholder="Unlimited"
+                  {...register("capacity", { setValueAs: (v) => (v === "" || v === null || v === undefined ? null : Number(v)) })} 
+                />
+              </FormControl>
+              <FormControl display="flex" alignItems="center" justifyContent="space-between" p={3} bg="gray.50" borderRadius="md" alignSelf="end">
+                <FormLabel mb="0" fontSize="sm" fontWeight="semibold">Waitlist when full</FormLabel>
+                <Switch 
+                  isChecked={watch("waitlistEnabled") ?? true}
+                  onChange={(e) => setValue("waitlistEnabled", e.target.checked)}
+                />
+              </FormControl>
+            </SimpleGrid>
+          </Box>
+        )}
+        
+        {/* Waivers Section - signed with native RSVPs; series occurrences don't carry them */}
+        {!isSeries && !watch("ticketUrl") && (
+          <Box>
+            <FormControl>
+              <FormLabel fontSize="sm" fontWeight="semibold">Waivers</FormLabel>
+              <WaiverPicker
+                value={watch("waiverIds") ?? []}
+                onChange={(waiverIds) => setValue("waiverIds", waiverIds)}
+              />
+              <FormHelperText>Attendees read and sign these when they RSVP</FormHelperText>
+            </FormControl>
+          </Box>
+        )}
+        
+        {/* Access Section */}
+        <Box>
+          <FormControl>
+            <FormLabel fontSize="sm" fontWeight="semibold">Who can see it</FormLabel>
+            <Select {...register("access")}>
+              <option value="PUBLIC">Everyone</option>
+              <option value="MEMBERS_RSVP">Everyone; only members can RSVP</option>
+              <option value="MEMBERS_ONLY">Members only (others see the title, date and city)</option>
+              <option value="TIERS">Specific membership tiers</option>
+            </Select>
+          </FormControl>
+          {watch("access") === "TIERS" && (
+            <FormControl mt={3}>
+              <FormLabel fontSize="sm" fontWeight="semibold">Tiers that can see it</FormLabel>
+              <TierPicker
+                value={watch("tierIds") ?? []}
+                onChange={(tierIds) => setValue("tierIds", tierIds)}
+              />
+            </FormControl>
+          )}
+        </Box>
+
         {/* Date & Time Section */}
         <Box>
           <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
@@ -161,10 +345,36 @@ export default function EventForm({ initial, mode = "create", eventId, existingI
               <Input type="datetime-local" {...register("endAt")} />
             </FormControl>
           </SimpleGrid>
+          <FormControl isInvalid={!!errors.timezone} mt={4}>
+            <FormLabel fontSize="sm" fontWeight="semibold">Timezone</FormLabel>
+            <Select {...register("timezone")}>
+              {timeZoneOptions.map(zone => (
+                <option key={zone} value={zone}>{zone.replace(/_/g, " ")}</option>
+              ))}
+            </Select>
+            <FormHelperText>Dates and times on this form are local to this timezone</FormHelperText>
+          </FormControl>
         </Box>
+
+        {/* Recurrence Section - the start date above is the first occurrence */}
+        {mode !== "edit" && (
+          <RecurrenceFields
+            value={recurrence}
+            onChange={setRecurrence}
+            startAt={watch("startAt")}
+            allowNone={mode === "create"}
+          />
+        )}
         
         {/* Location Section */}
         <Box>
+          {!isSeries && (
+            <FormControl mb={4}>
+              <FormLabel fontSize="sm" fontWeight="semibold">Venue</FormLabel>
+              <VenueSelect value={watch("venueId")} onSelect={applyVenue} />
+              <FormHelperText>Fills in the location below from a saved venue</FormHelperText>
+            </FormControl>
+          )}
           <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4}>
             <FormControl>
               <FormLabel fontSize="sm" fontWeight="semibold">Location Name</FormLabel>
@@ -179,6 +389,27 @@ export default function EventForm({ initial, mode = "create", eventId, existingI
               <Input {...register("state")} />
             </FormControl>
           </SimpleGrid>
+          {!isSeries && (
+            <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4} mt={4}>
+              <FormControl>
+                <FormLabel fontSize="sm" fontWeight="semibold">Latitude</FormLabel>
+                <Input
+                  type="number"
+                  step="any"
+                  {...register("latitude", { setValueAs: (v) => (v === "" || v === null || v === undefined ? null : Number(v)) })}
+                />
+                <FormHelperText>Leave blank to look up from the location</FormHelperText>
+              </FormControl>
+              <FormControl>
+                <FormLabel fontSize="sm" fontWeight="semibold">Longitude</FormLabel>
+                <Input
+                  type="number"
+                  step="any"
+                  {...register("longitude", { setValueAs: (v) => (v === "" || v === null || v === undefined ? null : Number(v)) })}
+                />
+              </FormControl>
+            </SimpleGrid>
+          )}
         </Box>
         
         {/* Hero Image Section */}
@@ -191,15 +422,17 @@ export default function EventForm({ initial, mode = "create", eventId, existingI
           />
         </Box>
         
-        {/* Detail Images Section */}
-        <Box>
-          <FormLabel fontSize="sm" fontWeight="semibold">Additional Detail Images (Optional)</FormLabel>
-          <DetailImagesUploader 
-            onImagesUploaded={(images) => setDetailImages(images)}
-            eventId={eventId}
-            initialImages={existingImages}
-          />
-        </Box>
+        {/* Detail Images Section - series occurrences only carry the hero image */}
+        {!isSeries && (
+          <Box>
+            <FormLabel fontSize="sm" fontWeight="semibold">Additional Detail Images (Optional)</FormLabel>
+            <DetailImagesUploader 
+              onImagesUploaded={(images) => setDetailImages(images)}
+              eventId={eventId}
+              initialImages={existingImages}
+            />
+          </Box>
+        )}
         
         {/* Publish Settings */}
         <Box>
@@ -210,6 +443,29 @@ export default function EventForm({ initial, mode = "create", eventId, existingI
               onChange={(e) => setValue("status", e.target.checked ? "PUBLISHED" : "DRAFT")}
             />
           </FormControl>
+          {!isSeries && (
+            <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4} mt={3}>
+              <FormControl>
+                <FormLabel fontSize="sm" fontWeight="semibold">Publish at</FormLabel>
+                <Input type="datetime-local" {...register("publishAt")} />
+                <FormHelperText>Drafts go live automatically at this time</FormHelperText>
+              </FormControl>
+              <FormControl>
+                <FormLabel fontSize="sm" fontWeight="semibold">Unpublish at</FormLabel>
+                <Input type="datetime-local" {...register("unpublishAt")} />
+                <FormHelperText>Moves the event back to draft at this time</FormHelperText>
+              </FormControl>
+            </SimpleGrid>
+          )}
+          {mode === "series" && (
+            <FormControl display="flex" alignItems="center" justifyContent="space-between" p={3} bg="gray.50" borderRadius="md" mt={3}>
+              <FormLabel mb="0" fontSize="sm" fontWeight="semibold">Apply to upcoming occurrences (except ones edited individually)</FormLabel>
+              <Switch 
+                isChecked={applyToFuture}
+                onChange={(e) => setApplyToFuture(e.target.checked)}
+              />
+            </FormControl>
+          )}
         </Box>
         
         {/* Action Buttons */}
@@ -236,7 +492,7 @@ export default function EventForm({ initial, mode = "create", eventId, existingI
             }}
             transition="all 0.3s ease-in-out"
           >
-            {mode === "edit" ? "Update Event" : "Save Event"}
+            {mode === "series" ? "Update Series" : mode === "edit" ? "Update Event" : "Save Event"}
           </Button>
           
           {/* Debug button removed */}
@@ -5,7 +5,7 @@ import { useState, useEffect } from "react";
 import type { Event } from "@/types";
 
 // More flexible type that can handle both Event interface and Prisma query results
-type EventItem = Event | {
+type EventItem = (Event | {
   id: string;
   slug: string;
   title: string;
@@ -17,10 +17,13 @@ type EventItem = Event | {
   state?: string | null;
   startAt: Date;
   endAt?: Date | null;
+  timezone?: string;
   status: string;
   heroImageId?: string | null;
   heroImage?: any;
   [key: string]: any;
+}) & {
+  distanceKm?: number | null; // Present when the list is sorted by distance
 };
 
 export default function EventGrid({ 
@@ -63,6 +66,7 @@ export default function EventGrid({
             slug={e.slug}
             title={e.title}
             startAt={e.startAt}
+            timezone={e.timezone}
             locationName={e.locationName}
             city={e.city}
             state={e.state}
@@ -70,6 +74,9 @@ export default function EventGrid({
             buttonType={e.buttonType as Event['buttonType']}
             ticketUrl={e.ticketUrl}
             status={e.status as Event['status']}
+            spotsLeft={e.spotsLeft}
+            waitlistEnabled={e.waitlistEnabled}
+            distanceKm={e.distanceKm}
             onDelete={() => handleDelete(e.id)}
             onStatusChange={handleStatusChange}
             showArchiveActions={showArchiveActions}
@@ -0,0 +1,186 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { Badge, Box, Button, Flex, HStack, Spinner, Stack, Table, Tbody, Td, Text, Th, Thead, Tr, useToast } from "@chakra-ui/react";
+import { formatDateTime } from "@/lib/utils";
+
+interface Revision {
+  id: string;
+  createdAt: string;
+  restoredFromId: string | null;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  user: { name: string | null; email: string } | null;
+}
+
+interface RevisionsResponse {
+  items: Revision[];
+  timezone: string;
+}
+
+const fieldLabels: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  ticketUrl: "Ticket URL",
+  buttonType: "Button type",
+  category: "Category",
+  tags: "Tags",
+  locationName: "Location",
+  address: "Address",
+  city: "City",
+  state: "State",
+  latitude: "Latitude",
+  longitude: "Longitude",
+  venueId: "Venue",
+  startAt: "Start",
+  endAt: "End",
+  timezone: "Timezone",
+  status: "Status",
+  capacity: "Capacity",
+  waitlistEnabled: "Waitlist",
+  access: "Access",
+  tierIds: "Tiers",
+  publishAt: "Publish at",
+  unpublishAt: "Unpublish at",
+  heroImageId: "Hero image",
+  imageIds: "Detail images",
+  waiverIds: "Waivers"
+};
+
+const dateFields = ["startAt", "endAt", "publishAt", "unpublishAt"];
+
+function formatValue(field: string, value: unknown, timezone: string) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (dateFields.includes(field)) return formatDateTime(value as string, timezone);
+  if (field === "imageIds") {
+    const count = (value as string[]).length;
+    return `${count} image${count === 1 ? "" : "s"}`;
+  }
+  if (field === "waiverIds") {
+    const count = (value as string[]).length;
+    return count > 0 ? `${count} waiver${count === 1 ? "" : "s"}` : "—";
+  }
+  if (field === "heroImageId" || field === "venueId") return "Set";
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "—";
+  if (typeof value === "boolean") return value ? "On" : "Off";
+
+  const text = String(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+}
+
+export default function EventHistory({ eventId }: { eventId: string }) {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [timezone, setTimezone] = useState("America/Los_Angeles");
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const toast = useToast();
+
+  const fetchRevisions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/events/${eventId}/revisions`);
+      const data: RevisionsResponse = await res.json();
+      if (!res.ok) throw new Error("Failed to fetch history");
+
+      setRevisions(data.items);
+      setTimezone(data.timezone);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch history",
+        status: "error",
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId, toast]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  const restore = async (revision: Revision) => {
+    if (!confirm(`Restore the event to how it was on ${formatDateTime(revision.createdAt)}?`)) return;
+
+    setRestoringId(revision.id);
+    try {
+      const res = await fetch(`/api/events/${eventId}/revisions/${revision.id}/restore`, { method: "POST" });
+      if (!res.ok) throw new Error("Failed to restore version");
+
+      toast({ title: "Version restored", status: "success", duration: 3000 });
+      window.location.reload();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore version",
+        status: "error",
+        duration: 5000,
+      });
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Box bg="white" p={{ base: 4, md: 6 }} borderRadius="xl" boxShadow="sm">
+      {loading ? (
+        <Flex justify="center" py={12}>
+          <Spinner size="lg" color="blue.500" />
+        </Flex>
+      ) : revisions.length === 0 ? (
+        <Box textAlign="center" py={12}>
+          <Text color="gray.500">No edits recorded yet</Text>
+        </Box>
+      ) : (
+        <Stack spacing={6}>
+          {revisions.map((revision, index) => {
+            const fields = Object.keys(revision.changes);
+            return (
+              <Box key={revision.id} borderBottomWidth={index < revisions.length - 1 ? "1px" : 0} pb={6}>
+                <HStack justify="space-between" align="start" mb={2}>
+                  <Box>
+                    <Text fontWeight="semibold">
+                      {revision.user ? (revision.user.name || revision.user.email) : "Original version"}
+                    </Text>
+                    <HStack spacing={2}>
+                      <Text fontSize="sm" color="gray.600">{formatDateTime(revision.createdAt)}</Text>
+                      {index === 0 && <Badge colorScheme="green" variant="subtle">Current</Badge>}
+                      {revision.restoredFromId && <Badge colorScheme="purple" variant="subtle">Restored</Badge>}
+                    </HStack>
+                  </Box>
+                  {index > 0 && (
+                    <Button size="xs" variant="outline" onClick={() => restore(revision)} isLoading={restoringId === revision.id}>
+                      Restore this version
+                    </Button>
+                  )}
+                </HStack>
+
+                {fields.length > 0 && (
+                  <Box overflowX="auto">
+                    <Table size="sm">
+                      <Thead>
+                        <Tr>
+                          <Th>Field</Th>
+                          <Th>From</Th>
+                          <Th>To</Th>
+                        </Tr>
+                      </Thead>
+                      <Tbody>
+                        {fields.map(field => (
+                          <Tr key={field}>
+                            <Td fontWeight="500">{fieldLabels[field] || field}</Td>
+                            <Td color="gray.500">{formatValue(field, revision.changes[field].from, timezone)}</Td>
+                            <Td>{formatValue(field, revision.changes[field].to, timezone)}</Td>
+                          </Tr>
+                        ))}
+                      </Tbody>
+                    </Table>
+                  </Box>
+                )}
+              </Box>
+            );
+          })}
+        </Stack>
+      )}
+    </Box>
+  );
+}
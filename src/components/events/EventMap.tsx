@@ -0,0 +1,195 @@
+"use client";
+import "leaflet/dist/leaflet.css";
+import "leaflet.markercluster/dist/MarkerCluster.css";
+import "leaflet.markercluster/dist/MarkerCluster.Default.css";
+import { useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import type { Map as LeafletMap, Marker, Popup } from "leaflet";
+import { Box, HStack, Spinner, Text } from "@chakra-ui/react";
+import EventCard from "./EventCard";
+import type { LatLng } from "@/lib/geo";
+
+export interface MapEvent {
+  id: string;
+  slug: string;
+  title: string;
+  startAt: string;
+  timezone?: string;
+  locationName?: string | null;
+  city?: string | null;
+  state?: string | null;
+  heroImage?: any;
+  buttonType: string;
+  ticketUrl?: string | null;
+  status: string;
+  spotsLeft?: number | null;
+  waitlistEnabled?: boolean;
+  latitude: number;
+  longitude: number;
+}
+
+// Southern California, where most events are
+const DEFAULT_CENTER: [number, number] = [34.05, -118.25];
+const DEFAULT_ZOOM = 9;
+const NEAR_ME_ZOOM = 11;
+const MAX_PINS = 200;
+
+const pinHtml = `<div style="width:18px;height:18px;border-radius:50%;background:#38a169;border:3px solid white;box-shadow:0 1px 4px rgba(0,0,0,.4)"></div>`;
+
+/**
+ * Clustered pins for published upcoming events, loading only what's inside the visible
+ * area whenever the map moves. Popups render the same EventCard as the list view.
+ */
+export default function EventMap({ center, filterQuery = "" }: { center?: LatLng | null; filterQuery?: string }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<LeafletMap | null>(null);
+  // Read by the map's loader, which is set up once; changing filters reloads the visible pins
+  const filterQueryRef = useRef(filterQuery);
+  const reloadRef = useRef<(() => void) | null>(null);
+  const [open, setOpen] = useState<{ event: MapEvent; element: HTMLElement; popup: Popup } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [pinCount, setPinCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    let controller: AbortController | null = null;
+
+    const setup = async () => {
+      // Leaflet touches window on import, so it's loaded in the browser only
+      const L = (await import("leaflet")).default;
+      await import("leaflet.markercluster");
+      if (cancelled || !containerRef.current) return;
+
+      const map = L.map(containerRef.current).setView(DEFAULT_CENTER, DEFAULT_ZOOM);
+      mapRef.current = map;
+      L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
+        attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+        maxZoom: 19
+      }).addTo(map);
+
+      const clusters = L.markerClusterGroup({ showCoverageOnHover: false, maxClusterRadius: 50 });
+      map.addLayer(clusters);
+      const icon = L.divIcon({ html: pinHtml, className: "", iconSize: [18, 18], iconAnchor: [9, 9], popupAnchor: [0, -9] });
+      // Pins by event id; kept across reloads so an open popup survives panning
+      const markers = new Map<string, Marker>();
+
+      const createMarker = (event: MapEvent) => {
+        const element = document.createElement("div");
+        const marker = L.marker([event.latitude, event.longitude], { icon, title: event.title });
+        marker.bindPopup(element, { minWidth: 240, maxWidth: 260 });
+        marker.on("popupopen", (e) => setOpen({ event, element, popup: e.popup }));
+        marker.on("popupclose", () => setOpen(current => (current?.element === element ? null : current)));
+        return marker;
+      };
+
+      const loadVisible = async () => {
+        controller?.abort();
+        const request = new AbortController();
+        controller = request;
+        const bounds = map.getBounds();
+        const bbox = [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()]
+          .map(value => value.toFixed(5))
+          .join(",");
+
+        setLoading(true);
+        try {
+          const res = await fetch(`/api/events?status=PUBLISHED&bbox=${bbox}&limit=${MAX_PINS}${filterQueryRef.current ? `&${filterQueryRef.current}` : ""}`, { signal: request.signal });
+          if (!res.ok) throw new Error(`Failed to load events (${res.status})`);
+          const data: { items: MapEvent[] } = await res.json();
+
+          const visible = new Set(data.items.map(event => event.id));
+          const stale = Array.from(markers.entries()).filter(([id]) => !visible.has(id));
+          clusters.removeLayers(stale.map(([, marker]) => marker));
+          stale.forEach(([id]) => markers.delete(id));
+
+          const added = data.items.filter(event => !markers.has(event.id)).map(event => {
+            const marker = createMarker(event);
+            markers.set(event.id, marker);
+            return marker;
+          });
+          clusters.addLayers(added);
+          setPinCount(markers.size);
+        } catch (error) {
+          if (error instanceof DOMException && error.name === "AbortError") return;
+          console.error("Failed to load map events:", error);
+        } finally {
+          if (!request.signal.aborted) setLoading(false);
+        }
+      };
+
+      map.on("moveend", loadVisible);
+      reloadRef.current = loadVisible;
+      loadVisible();
+    };
+
+    setup();
+
+    return () => {
+      cancelled = true;
+      controller?.abort();
+      mapRef.current?.remove();
+      mapRef.current = null;
+      reloadRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (filterQueryRef.current === filterQuery) return;
+    filterQueryRef.current = filterQuery;
+    reloadRef.current?.();
+  }, [filterQuery]);
+
+  useEffect(() => {
+    if (center) mapRef.current?.flyTo([center.latitude, center.longitude], NEAR_ME_ZOOM);
+  }, [center]);
+
+  // The popup sized itself while empty; refit it once the card has rendered
+  useEffect(() => {
+    if (!open) return;
+    const frame = requestAnimationFrame(() => open.popup.update());
+    return () => cancelAnimationFrame(frame);
+  }, [open]);
+
+  return (
+    <Box>
+      <Box
+        ref={containerRef}
+        h={{ base: "420px", md: "600px" }}
+        borderRadius="xl"
+        overflow="hidden"
+        border="1px solid"
+        borderColor="gray.200"
+        // Keep Leaflet's panes below Chakra's menus and modals
+        position="relative"
+        zIndex={0}
+      />
+      <HStack mt={2} spacing={2} color="gray.500" fontSize="sm">
+        {loading && <Spinner size="xs" />}
+        <Text>
+          {pinCount === 0 && !loading
+            ? "No upcoming events in this area. Zoom out to see more."
+            : `${pinCount} event${pinCount === 1 ? "" : "s"} in this area`}
+        </Text>
+      </HStack>
+      {open && createPortal(
+        <EventCard
+          id={open.event.id}
+          slug={open.event.slug}
+          title={open.event.title}
+          startAt={open.event.startAt}
+          timezone={open.event.timezone}
+          locationName={open.event.locationName}
+          city={open.event.city}
+          state={open.event.state}
+          hero={open.event.heroImage}
+          buttonType={open.event.buttonType as "RSVP" | "BUY_TICKETS"}
+          ticketUrl={open.event.ticketUrl}
+          status={open.event.status}
+          spotsLeft={open.event.spotsLeft}
+          waitlistEnabled={open.event.waitlistEnabled}
+        />,
+        open.element
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { Button, HStack, Select, useToast } from "@chakra-ui/react";
+
+export interface EventTemplate {
+  id: string;
+  name: string;
+  title: string | null;
+  description: string | null;
+  ticketUrl: string | null;
+  buttonType: string;
+  category: string | null;
+  tags: string[];
+  locationName: string | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  timezone: string;
+  capacity: number | null;
+  waitlistEnabled: boolean;
+  access: "PUBLIC" | "MEMBERS_RSVP" | "MEMBERS_ONLY" | "TIERS";
+  tierIds: string[];
+  venueId: string | null;
+}
+
+type TemplateFields = Omit<EventTemplate, "id" | "name">;
+
+/**
+ * Template picker for the event form: start from a saved template, or save the
+ * current values as a new one
+ */
+export default function EventTemplates({ allowApply, onApply, getValues }: {
+  allowApply: boolean;
+  onApply: (template: EventTemplate) => void;
+  getValues: () => Partial<TemplateFields>;
+}) {
+  const [templates, setTemplates] = useState<EventTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const toast = useToast();
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const res = await fetch("/api/templates");
+      if (!res.ok) return;
+      const data: { items: EventTemplate[] } = await res.json();
+      setTemplates(data.items);
+    } catch (error) {
+      console.error("Failed to fetch templates:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const applyTemplate = (id: string) => {
+    setSelectedId(id);
+    const template = templates.find(t => t.id === id);
+    if (template) onApply(template);
+  };
+
+  const saveTemplate = async () => {
+    const name = prompt("Template name");
+    if (!name?.trim()) return;
+
+    const values = getValues();
+    setIsSaving(true);
+    try {
+      const res = await fetch("/api/templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          title: values.title,
+          description: values.description,
+          ticketUrl: values.ticketUrl,
+          buttonType: values.buttonType,
+          category: values.category,
+          tags: values.tags,
+          locationName: values.locationName,
+          address: values.address,
+          city: values.city,
+          state: values.state,
+          timezone: values.timezone,
+          capacity: values.capacity,
+          waitlistEnabled: values.waitlistEnabled,
+          access: values.access,
+          tierIds: values.tierIds,
+          venueId: values.venueId
+        })
+      });
+      if (!res.ok) throw new Error("Failed to save template");
+
+      toast({ title: "Template saved", status: "success", duration: 3000 });
+      await fetchTemplates();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save template",
+        status: "error",
+        duration: 5000,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteTemplate = async () => {
+    const template = templates.find(t => t.id === selectedId);
+    if (!template || !confirm(`Delete the "${template.name}" template?`)) return;
+
+    try {
+      const res = await fetch(`/api/templates/${template.id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to delete template");
+
+      setSelectedId("");
+      await fetchTemplates();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete template",
+        status: "error",
+        duration: 5000,
+      });
+    }
+  };
+
+  return (
+    <HStack spacing={2} flexWrap="wrap">
+      {allowApply && templates.length > 0 && (
+        <>
+          <Select
+            placeholder="Start from a template…"
+            value={selectedId}
+            onChange={(e) => applyTemplate(e.target.value)}
+            maxW="300px"
+            size="sm"
+          >
+            {templates.map(template => (
+              <option key={template.id} value={template.id}>{template.name}</option>
+            ))}
+          </Select>
+          {selectedId && (
+            <Button type="button" size="sm" variant="ghost" colorScheme="red" onClick={deleteTemplate}>
+              Delete Template
+            </Button>
+          )}
+        </>
+      )}
+      <Button type="button" size="sm" variant="outline" onClick={saveTemplate} isLoading={isSaving}>
+        Save as Template
+      </Button>
+    </HStack>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+import { useEffect, useState } from "react";
+import dynamic from "next/dynamic";
+import { Box, Button, ButtonGroup, Flex, Heading, HStack, Spinner, Center, useToast } from "@chakra-ui/react";
+import EventGrid from "./EventGrid";
+import type { LatLng } from "@/lib/geo";
+
+// Leaflet needs the browser
+const EventMap = dynamic(() => import("./EventMap"), {
+  ssr: false,
+  loading: () => <Center h={{ base: "420px", md: "600px" }}><Spinner size="xl" /></Center>
+});
+
+type EventItem = React.ComponentProps<typeof EventGrid>["items"][number];
+
+/**
+ * Public upcoming events as a list or a map, optionally sorted by distance from the visitor.
+ * `filterQuery` carries the active taxonomy filters so the map and distance views match the list.
+ */
+export default function EventsBrowser({ items, filterQuery = "" }: { items: EventItem[]; filterQuery?: string }) {
+  const [view, setView] = useState<"list" | "map">("list");
+  const [origin, setOrigin] = useState<LatLng | null>(null);
+  const [nearbyItems, setNearbyItems] = useState<EventItem[] | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const toast = useToast();
+
+  const showError = (description: string) => {
+    toast({ title: "Couldn't sort by distance", description, status: "error", duration: 5000, isClosable: true });
+  };
+
+  const sortNearMe = () => {
+    if (!navigator.geolocation) {
+      showError("Your browser doesn't share its location");
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(async (position) => {
+      const here = { latitude: position.coords.latitude, longitude: position.coords.longitude };
+      try {
+        const res = await fetch(`/api/events?status=PUBLISHED&near=${here.latitude},${here.longitude}&sort=distance&limit=50${filterQuery ? `&${filterQuery}` : ""}`);
+        if (!res.ok) throw new Error("Failed to load events");
+        const data: { items: EventItem[] } = await res.json();
+        setOrigin(here);
+        setNearbyItems(data.items);
+      } catch (error) {
+        showError(error instanceof Error ? error.message : "Failed to load events");
+      } finally {
+        setIsLocating(false);
+      }
+    }, () => {
+      setIsLocating(false);
+      showError("Allow location access to see the events closest to you");
+    }, { timeout: 10000, maximumAge: 5 * 60 * 1000 });
+  };
+
+  const clearNearMe = () => {
+    setOrigin(null);
+    setNearbyItems(null);
+  };
+
+  // Distance results were fetched for the previous filters
+  useEffect(() => {
+    setOrigin(null);
+    setNearbyItems(null);
+  }, [filterQuery]);
+
+  const listItems = nearbyItems ?? items;
+
+  return (
+    <Box>
+      <Flex justify="space-between" align="center" mb={6} gap={4} flexWrap="wrap">
+        <Heading size="lg" color="green.600" fontFamily="'SUSE Mono', monospace" fontWeight="600">
+          Upcoming Events ({listItems.length})
+        </Heading>
+        <HStack spacing={3}>
+          {origin ? (
+            <Button size="sm" variant="ghost" onClick={clearNearMe}>
+              Clear location
+            </Button>
+          ) : (
+            <Button size="sm" variant="outline" colorScheme="green" onClick={sortNearMe} isLoading={isLocating}>
+              Near me
+            </Button>
+          )}
+          <ButtonGroup size="sm" isAttached variant="outline" colorScheme="green">
+            <Button onClick={() => setView("list")} variant={view === "list" ? "solid" : "outline"}>
+              List
+            </Button>
+            <Button onClick={() => setView("map")} variant={view === "map" ? "solid" : "outline"}>
+              Map
+            </Button>
+          </ButtonGroup>
+        </HStack>
+      </Flex>
+
+      {view === "list"
+        ? <EventGrid items={listItems} />
+        : <EventMap center={origin} filterQuery={filterQuery} />}
+    </Box>
+  );
+}
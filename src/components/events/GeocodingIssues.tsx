@@ -0,0 +1,43 @@
+import { Box, Heading, HStack, Stack, Text } from "@chakra-ui/react";
+import Link from "next/link";
+
+interface GeocodingIssue {
+  id: string;
+  title: string;
+  locationName: string | null;
+  city: string | null;
+  state: string | null;
+  geocodeError: string | null;
+}
+
+/**
+ * Events whose location couldn't be looked up, so they're missing from the map until
+ * someone corrects the location or enters coordinates
+ */
+export default function GeocodingIssues({ events }: { events: GeocodingIssue[] }) {
+  return (
+    <Box bg="white" p={{ base: 4, md: 6 }} borderRadius="2xl" shadow="lg" border="1px solid" borderColor="orange.100">
+      <Heading size="md" mb={1} color="gray.800" fontFamily="'SUSE Mono', monospace" fontWeight="600">
+        Locations Not Found
+      </Heading>
+      <Text fontSize="sm" color="gray.600" mb={4}>
+        Fix the address or enter the latitude and longitude by hand
+      </Text>
+      <Stack spacing={3}>
+        {events.map(event => (
+          <HStack key={event.id} justify="space-between" flexWrap="wrap" gap={2}>
+            <Box minW={0}>
+              <Text as={Link} href={`/dashboard/events/${event.id}/edit`} fontWeight="500" noOfLines={1} _hover={{ textDecoration: "underline" }}>
+                {event.title}
+              </Text>
+              <Text fontSize="sm" color="gray.500" noOfLines={1}>
+                {[event.locationName, event.city, event.state].filter(Boolean).join(", ")}
+              </Text>
+            </Box>
+            {event.geocodeError && <Text fontSize="sm" color="orange.600" noOfLines={1}>{event.geocodeError}</Text>}
+          </HStack>
+        ))}
+      </Stack>
+    </Box>
+  );
+}
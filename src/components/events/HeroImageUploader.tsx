@@ -11,6 +11,8 @@ import {
   IconButton,
   Image
 } from "@chakra-ui/react";
+import { uploadDirect } from "@/lib/direct-upload";
+import { waitForImageVariants } from "@/lib/image-status";
 
 export default function HeroImageUploader({ 
   eventId, 
@@ -102,36 +104,10 @@ export default function HeroImageUploader({
   };
 
   const uploadFile = async (file: File): Promise<{imageId: string, variants: any}> => {
-    const fd = new FormData();
-    fd.append("file", file);
-    if (eventId) fd.append("eventId", eventId);
-    
-    const res = await fetch("/api/upload", { method: "POST", body: fd });
-    
-    if (!res.ok) {
-      let errorMessage = "Upload failed";
-      
-      if (res.status === 413) {
-        errorMessage = `File "${file.name}" is too large (${formatFileSize(file.size)}). Please reduce the file size to under ${formatFileSize(FILE_SIZE_LIMIT)}.`;
-      } else if (res.status === 429) {
-        const retryAfter = res.headers.get('Retry-After');
-        const retrySeconds = retryAfter ? parseInt(retryAfter) : 900;
-        const retryMinutes = Math.ceil(retrySeconds / 60);
-        errorMessage = `Upload limit exceeded. Please wait ${retryMinutes} minute${retryMinutes !== 1 ? 's' : ''} before uploading again.`;
-      } else {
-        try {
-          const json = await res.json();
-          errorMessage = json.error || json.details || "Upload failed";
-        } catch (e) {
-          errorMessage = res.statusText || "Upload failed";
-        }
-      }
-      
-      throw new Error(errorMessage);
-    }
-    
-    const json = await res.json();
-    return { imageId: json.imageId, variants: json.variants };
+    const json = await uploadDirect<{ imageId: string; status: string; variants: any }>(file, { kind: "image", eventId });
+    // Variants are generated in the background; wait for them so previews have something to show
+    const variants = json.status === "processing" ? await waitForImageVariants(json.imageId) : json.variants;
+    return { imageId: json.imageId, variants };
   };
 
   const removeCurrentImage = () => {
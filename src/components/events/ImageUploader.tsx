@@ -16,6 +16,8 @@ import {
   Image as ChakraImage
 } from "@chakra-ui/react";
 import Image from "next/image";
+import { uploadDirect } from "@/lib/direct-upload";
+import { waitForImageVariants } from "@/lib/image-status";
 
 export default function ImageUploader({ 
   eventId, 
@@ -238,38 +240,14 @@ export default function ImageUploader({
   };
 
   const uploadFile = async (file: File): Promise<{imageId: string, variants: any}> => {
-    const fd = new FormData();
-    fd.append("file", file);
-    if (eventId) fd.append("eventId", eventId);
-    
-    const res = await fetch("/api/upload", { method: "POST", body: fd });
-    
-    if (!res.ok) {
-      let errorMessage = "Upload failed";
-      
-      // Handle specific HTTP status codes
-      if (res.status === 413) {
-        errorMessage = `File "${file.name}" is too large (${formatFileSize(file.size)}). Please reduce the file size to under ${formatFileSize(FILE_SIZE_LIMIT)}.`;
-      } else if (res.status === 429) {
-        const retryAfter = res.headers.get('Retry-After');
-        const retrySeconds = retryAfter ? parseInt(retryAfter) : 900; // Default to 15 minutes
-        const retryMinutes = Math.ceil(retrySeconds / 60);
-        errorMessage = `Upload limit exceeded. Please wait ${retryMinutes} minute${retryMinutes !== 1 ? 's' : ''} before uploading again.`;
-      } else {
-        try {
-          const json = await res.json();
-          errorMessage = json.error || json.details || "Upload failed";
-        } catch (e) {
-          // If response is not JSON, use status text
-          errorMessage = res.statusText || "Upload failed";
-        }
-      }
-      
-      throw new Error(errorMessage);
-    }
-    
-    const json = await res.json();
-    return { imageId: json.imageId, variants: json.variants };
+    const json = await uploadDirect<{ imageId: string; status: string; variants: any }>(file, {
+      kind: "image",
+      eventId,
+      onProgress: (percent) => setUploadProgress(prev => ({ ...prev, [file.name]: percent }))
+    });
+    // Variants are generated in the background; wait for them so previews have something to show
+    const variants = json.status === "processing" ? await waitForImageVariants(json.imageId) : json.variants;
+    return { imageId: json.imageId, variants };
   };
 
   const onUpload = async () => {
@@ -522,6 +500,11 @@ export default function ImageUploader({
                 <Badge colorScheme="blue" variant="subtle">
                   {formatFileSize(file.size)}
                 </Badge>
+                {uploadProgress[file.name] !== undefined && (
+                  <Badge colorScheme={uploadProgress[file.name] === 100 ? "green" : "gray"} variant="subtle">
+                    {uploadProgress[file.name]}%
+                  </Badge>
+                )}
                 <IconButton
                   aria-label="Remove file"
                   icon={<span>✕</span>}
@@ -0,0 +1,225 @@
+"use client";
+import { useState } from "react";
+import { Box, Button, FormControl, FormLabel, HStack, Input, Select, SimpleGrid, Tag, TagCloseButton, TagLabel, Text, Wrap, WrapItem } from "@chakra-ui/react";
+import type { z } from "zod";
+import type { recurrenceSchema } from "@/lib/validation";
+import { WEEKDAYS, describeRecurrence, formatRRule } from "@/lib/recurrence";
+
+export type RecurrenceValue = z.infer<typeof recurrenceSchema>;
+
+const ORDINALS = [
+  { value: "1", label: "First" },
+  { value: "2", label: "Second" },
+  { value: "3", label: "Third" },
+  { value: "4", label: "Fourth" },
+  { value: "-1", label: "Last" },
+];
+
+const DAY_LABELS: Record<string, string> = { SU: "Sun", MO: "Mon", TU: "Tue", WE: "Wed", TH: "Thu", FR: "Fri", SA: "Sat" };
+
+/**
+ * Weekday and monthly ordinal of a "YYYY-MM-DD..." value, used to seed a new rule
+ */
+function seedFromDate(startAt?: string) {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(startAt || "");
+  if (!match) return { weekday: "MO", ordinal: "1" };
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  const nth = Math.ceil(date.getUTCDate() / 7);
+  return { weekday: WEEKDAYS[date.getUTCDay()], ordinal: nth > 4 ? "-1" : String(nth) };
+}
+
+function summarize(value: RecurrenceValue) {
+  if (value.freq === "CUSTOM") return describeRecurrence(null, value.customDates);
+  if (value.byDay.length === 0) return "Pick at least one day";
+  return describeRecurrence(formatRRule({
+    freq: value.freq,
+    interval: value.interval,
+    byDay: value.byDay,
+    count: value.count,
+    until: value.until || undefined
+  }));
+}
+
+export default function RecurrenceFields({ value, onChange, startAt, allowNone = true }: {
+  value: RecurrenceValue | null;
+  onChange: (value: RecurrenceValue | null) => void;
+  /** The event's start, used to preselect a matching weekday */
+  startAt?: string;
+  /** Offer "Does not repeat" (creating); existing series always repeat */
+  allowNone?: boolean;
+}) {
+  const [newDate, setNewDate] = useState("");
+
+  const update = (changes: Partial<RecurrenceValue>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const changeFreq = (freq: string) => {
+    if (freq === "NONE") return onChange(null);
+    const seed = seedFromDate(startAt);
+    onChange({
+      freq: freq as RecurrenceValue["freq"],
+      interval: 1,
+      byDay: freq === "WEEKLY" ? [seed.weekday] : freq === "MONTHLY" ? [`${seed.ordinal}${seed.weekday}`] : [],
+      count: value?.count,
+      until: value?.until ?? "",
+      customDates: freq === "CUSTOM" && startAt ? [startAt.slice(0, 10)] : []
+    });
+  };
+
+  const toggleWeekday = (day: string) => {
+    if (!value) return;
+    update({ byDay: value.byDay.includes(day) ? value.byDay.filter(d => d !== day) : [...value.byDay, day] });
+  };
+
+  const monthly = value?.freq === "MONTHLY" ? /^(-?\d)(\w{2})$/.exec(value.byDay[0] || "") : null;
+  const endMode = value?.count ? "COUNT" : value?.until ? "UNTIL" : "NEVER";
+
+  return (
+    <Box p={3} bg="gray.50" borderRadius="md">
+      <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+        <FormControl>
+          <FormLabel fontSize="sm" fontWeight="semibold">Repeats</FormLabel>
+          <Select bg="white" value={value?.freq ?? "NONE"} onChange={(e) => changeFreq(e.target.value)}>
+            {allowNone && <option value="NONE">Does not repeat</option>}
+            <option value="WEEKLY">Weekly</option>
+            <option value="MONTHLY">Monthly</option>
+            <option value="CUSTOM">Custom dates</option>
+          </Select>
+        </FormControl>
+
+        {value && value.freq !== "CUSTOM" && (
+          <FormControl>
+            <FormLabel fontSize="sm" fontWeight="semibold">
+              Every ({value.freq === "WEEKLY" ? "weeks" : "months"})
+            </FormLabel>
+            <Input
+              bg="white"
+              type="number"
+              min={1}
+              max={12}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+            />
+          </FormControl>
+        )}
+      </SimpleGrid>
+
+      {value?.freq === "WEEKLY" && (
+        <FormControl mt={4}>
+          <FormLabel fontSize="sm" fontWeight="semibold">On</FormLabel>
+          <Wrap spacing={2}>
+            {WEEKDAYS.map(day => (
+              <WrapItem key={day}>
+                <Button
+                  type="button"
+                  size="sm"
+                  colorScheme="teal"
+                  variant={value.byDay.includes(day) ? "solid" : "outline"}
+                  onClick={() => toggleWeekday(day)}
+                >
+                  {DAY_LABELS[day]}
+                </Button>
+              </WrapItem>
+            ))}
+          </Wrap>
+        </FormControl>
+      )}
+
+      {value?.freq === "MONTHLY" && (
+        <FormControl mt={4}>
+          <FormLabel fontSize="sm" fontWeight="semibold">On the</FormLabel>
+          <HStack>
+            <Select
+              bg="white"
+              value={monthly?.[1] ?? "1"}
+              onChange={(e) => update({ byDay: [`${e.target.value}${monthly?.[2] ?? "MO"}`] })}
+            >
+              {ORDINALS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </Select>
+            <Select
+              bg="white"
+              value={monthly?.[2] ?? "MO"}
+              onChange={(e) => update({ byDay: [`${monthly?.[1] ?? "1"}${e.target.value}`] })}
+            >
+              {WEEKDAYS.map(day => <option key={day} value={day}>{DAY_LABELS[day]}</option>)}
+            </Select>
+          </HStack>
+        </FormControl>
+      )}
+
+      {value?.freq === "CUSTOM" && (
+        <FormControl mt={4}>
+          <FormLabel fontSize="sm" fontWeight="semibold">Dates</FormLabel>
+          <HStack mb={3}>
+            <Input bg="white" type="date" value={newDate} onChange={(e) => setNewDate(e.target.value)} />
+            <Button
+              type="button"
+              size="md"
+              isDisabled={!newDate || value.customDates.includes(newDate)}
+              onClick={() => {
+                update({ customDates: [...value.customDates, newDate].sort() });
+                setNewDate("");
+              }}
+            >
+              Add
+            </Button>
+          </HStack>
+          <Wrap spacing={2}>
+            {value.customDates.map(date => (
+              <WrapItem key={date}>
+                <Tag colorScheme="teal" borderRadius="full">
+                  <TagLabel>{date}</TagLabel>
+                  <TagCloseButton onClick={() => update({ customDates: value.customDates.filter(d => d !== date) })} />
+                </Tag>
+              </WrapItem>
+            ))}
+          </Wrap>
+        </FormControl>
+      )}
+
+      {value && value.freq !== "CUSTOM" && (
+        <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4} mt={4}>
+          <FormControl>
+            <FormLabel fontSize="sm" fontWeight="semibold">Ends</FormLabel>
+            <Select
+              bg="white"
+              value={endMode}
+              onChange={(e) => update({
+                count: e.target.value === "COUNT" ? 10 : undefined,
+                until: e.target.value === "UNTIL" ? (startAt || "").slice(0, 10) : ""
+              })}
+            >
+              <option value="NEVER">Never (up to a year ahead)</option>
+              <option value="COUNT">After a number of events</option>
+              <option value="UNTIL">On a date</option>
+            </Select>
+          </FormControl>
+          {endMode === "COUNT" && (
+            <FormControl>
+              <FormLabel fontSize="sm" fontWeight="semibold">Occurrences</FormLabel>
+              <Input
+                bg="white"
+                type="number"
+                min={1}
+                max={52}
+                value={value.count ?? ""}
+                onChange={(e) => update({ count: Math.min(52, Math.max(1, Number(e.target.value) || 1)) })}
+              />
+            </FormControl>
+          )}
+          {endMode === "UNTIL" && (
+            <FormControl>
+              <FormLabel fontSize="sm" fontWeight="semibold">Last date</FormLabel>
+              <Input bg="white" type="date" value={value.until || ""} onChange={(e) => update({ until: e.target.value })} />
+            </FormControl>
+          )}
+        </SimpleGrid>
+      )}
+
+      {value && (
+        <Text fontSize="sm" color="gray.600" mt={3}>{summarize(value)}</Text>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,190 @@
+"use client";
+import { useState } from "react";
+import { Box, Button, FormControl, FormLabel, Image, Input, Link, Modal, ModalOverlay, ModalContent, ModalHeader, ModalBody, ModalCloseButton, Text, VStack, useDisclosure, useToast } from "@chakra-ui/react";
+import WaiverSignaturePad, { type WaiverSignatureValue } from "@/components/waivers/WaiverSignaturePad";
+import type { EventWaiver } from "@/types";
+
+type Props = {
+  eventId: string;
+  eventTitle: string;
+  spotsLeft?: number | null; // null or undefined means no capacity limit
+  waitlistEnabled?: boolean;
+  // Signed-in members start from their account details
+  member?: { name: string | null; email: string } | null;
+  // Members-only RSVPs always go to the account's email
+  lockEmail?: boolean;
+  // Signed as part of the RSVP, one signature each
+  waivers?: EventWaiver[];
+};
+
+export default function RsvpForm({ eventId, eventTitle, spotsLeft, waitlistEnabled = true, member, lockEmail = false, waivers: initialWaivers = [] }: Props) {
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const [name, setName] = useState(member?.name ?? "");
+  const [email, setEmail] = useState(member?.email ?? "");
+  const [phone, setPhone] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [registeredStatus, setRegisteredStatus] = useState<"CONFIRMED" | "WAITLISTED" | null>(null);
+  const [checkInToken, setCheckInToken] = useState<string | null>(null);
+  // Replaced with the current versions if a waiver is updated while the form is open
+  const [waivers, setWaivers] = useState(initialWaivers);
+  const [signatures, setSignatures] = useState<Record<string, WaiverSignatureValue | null>>({});
+  const toast = useToast();
+
+  const isFull = spotsLeft === 0;
+  const isSoldOut = isFull && !waitlistEnabled;
+  const isRegistered = registeredStatus !== null;
+  const actionLabel = isFull ? "Join waitlist" : "RSVP";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || !email.trim()) {
+      toast({
+        title: "Missing details",
+        description: "Please enter your name and email address",
+        status: "warning",
+        duration: 3000,
+        isClosable: true,
+      });
+      return;
+    }
+
+    const unsigned = waivers.filter(waiver => !signatures[waiver.id]);
+    if (unsigned.length > 0) {
+      toast({
+        title: "Waiver not signed",
+        description: `Please agree to and sign ${unsigned.map(waiver => waiver.title).join(" and ")}`,
+        status: "warning",
+        duration: 4000,
+        isClosable: true,
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const res = await fetch(`/api/events/${eventId}/rsvp`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          email,
+          phone,
+          signatures: waivers.map(waiver => signatures[waiver.id])
+        })
+      });
+      const data = await res.json();
+
+      if (res.status === 409 && Array.isArray(data.waivers)) {
+        setWaivers(data.waivers);
+        setSignatures({});
+      }
+      if (!res.ok) {
+        throw new Error(typeof data.error === "string" ? data.error : "Please check your details and try again.");
+      }
+
+      setRegisteredStatus(data.status);
+      setCheckInToken(data.checkInToken);
+      toast({
+        title: data.status === "WAITLISTED" ? "Added to waitlist" : "RSVP confirmed",
+        description: data.message,
+        status: "success",
+        duration: 5000,
+        isClosable: true,
+      });
+    } catch (error) {
+      toast({
+        title: "RSVP failed",
+        description: error instanceof Error ? error.message : "Failed to RSVP. Please try again.",
+        status: "error",
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <Box p={6} bg="gray.50" borderBottom="1px solid" borderColor="gray.200">
+        <Button
+          size="lg"
+          colorScheme="green"
+          w="full"
+          maxW="300px"
+          onClick={onOpen}
+          isDisabled={isRegistered || isSoldOut}
+        >
+          {registeredStatus === "CONFIRMED"
+            ? "You're going!"
+            : registeredStatus === "WAITLISTED"
+              ? "You're on the waitlist"
+              : isSoldOut ? "Sold out" : actionLabel}
+        </Button>
+        {spotsLeft != null && !isRegistered && (
+          <Text mt={2} fontSize="sm" color={isFull || spotsLeft <= 5 ? "orange.600" : "gray.600"}>
+            {isFull
+              ? waitlistEnabled ? "This event is full. Join the waitlist and we'll email you if a spot opens up." : "This event is sold out."
+              : `${spotsLeft} ${spotsLeft === 1 ? "spot" : "spots"} left`}
+          </Text>
+        )}
+      </Box>
+
+      <Modal isOpen={isOpen} onClose={onClose} size={waivers.length > 0 ? "xl" : "md"} scrollBehavior="inside">
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>{isFull ? "Join the waitlist for" : "RSVP for"} {eventTitle}</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody pb={6}>
+            {isRegistered ? (
+              <VStack spacing={4} align="stretch">
+                <Text>
+                  {registeredStatus === "WAITLISTED"
+                    ? `Thanks, ${name.split(" ")[0]}! You're on the waitlist. We'll email you if a spot opens up.`
+                    : `Thanks, ${name.split(" ")[0]}! Your spot is confirmed. We'll see you there.`}
+                </Text>
+                {checkInToken && (
+                  <VStack spacing={2}>
+                    <Image src={`/api/tickets/${checkInToken}/qr`} alt="Check-in QR code" w="200px" h="200px" />
+                    <Text fontSize="sm" color="gray.600">
+                      Show this code at the door. We&apos;ve also emailed you a{" "}
+                      <Link href={`/tickets/${checkInToken}`} color="green.600" textDecoration="underline">link to your ticket</Link>.
+                    </Text>
+                  </VStack>
+                )}
+                <Button onClick={onClose}>Close</Button>
+              </VStack>
+            ) : (
+              <VStack as="form" onSubmit={handleSubmit} spacing={4} align="stretch">
+                <FormControl isRequired>
+                  <FormLabel fontSize="sm" fontWeight="semibold">Name</FormLabel>
+                  <Input value={name} onChange={(e) => setName(e.target.value)} />
+                </FormControl>
+                <FormControl isRequired>
+                  <FormLabel fontSize="sm" fontWeight="semibold">Email</FormLabel>
+                  <Input type="email" value={email} onChange={(e) => setEmail(e.target.value)} isReadOnly={lockEmail} />
+                </FormControl>
+                <FormControl>
+                  <FormLabel fontSize="sm" fontWeight="semibold">Phone</FormLabel>
+                  <Input type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} />
+                </FormControl>
+                {waivers.map(waiver => (
+                  <WaiverSignaturePad
+                    key={waiver.versionId}
+                    waiver={waiver}
+                    defaultName={name}
+                    onChange={(signature) => setSignatures(prev => ({ ...prev, [waiver.id]: signature }))}
+                  />
+                ))}
+                <Button type="submit" colorScheme="green" isLoading={isLoading} loadingText="Submitting...">
+                  {isFull ? "Join waitlist" : "Confirm RSVP"}
+                </Button>
+              </VStack>
+            )}
+          </ModalBody>
+        </ModalContent>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,47 @@
+import { Badge, Box, Heading, HStack, Stack, Text } from "@chakra-ui/react";
+import Link from "next/link";
+import { formatDateTime } from "@/lib/utils";
+
+interface ScheduledEvent {
+  id: string;
+  title: string;
+  status: string;
+  timezone: string;
+  publishAt: Date | null;
+  unpublishAt: Date | null;
+}
+
+/**
+ * Upcoming publish/unpublish changes the scheduler will apply, soonest first
+ */
+export default function ScheduledTransitions({ events }: { events: ScheduledEvent[] }) {
+  const transitions = events
+    .flatMap(event => [
+      ...(event.publishAt ? [{ event, action: "Publish" as const, at: event.publishAt }] : []),
+      ...(event.unpublishAt ? [{ event, action: "Unpublish" as const, at: event.unpublishAt }] : []),
+    ])
+    .sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+  if (transitions.length === 0) return null;
+
+  return (
+    <Box bg="white" p={{ base: 4, md: 6 }} borderRadius="2xl" shadow="lg" border="1px solid" borderColor="gray.100">
+      <Heading size="md" mb={4} color="gray.800" fontFamily="'SUSE Mono', monospace" fontWeight="600">
+        Scheduled Changes
+      </Heading>
+      <Stack spacing={3}>
+        {transitions.map(({ event, action, at }) => (
+          <HStack key={`${event.id}-${action}`} justify="space-between" flexWrap="wrap" gap={2}>
+            <HStack spacing={3} minW={0}>
+              <Badge colorScheme={action === "Publish" ? "green" : "orange"} variant="subtle">{action}</Badge>
+              <Text as={Link} href={`/dashboard/events/${event.id}/edit`} fontWeight="500" noOfLines={1} _hover={{ textDecoration: "underline" }}>
+                {event.title}
+              </Text>
+            </HStack>
+            <Text fontSize="sm" color="gray.600">{formatDateTime(at, event.timezone)}</Text>
+          </HStack>
+        ))}
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+import { useState } from "react";
+import { Badge, Box, Button, HStack, Table, TableContainer, Tbody, Td, Text, Th, Thead, Tr, useToast } from "@chakra-ui/react";
+import Link from "next/link";
+import { formatDateTime } from "@/lib/utils";
+
+interface Occurrence {
+  id: string;
+  slug: string;
+  startAt: string;
+  status: string;
+  occurrenceDate: string | null;
+  detachedFromSeries: boolean;
+  confirmedCount: number;
+}
+
+const statusColors: Record<string, string> = {
+  DRAFT: "gray",
+  PUBLISHED: "green",
+  ARCHIVED: "orange",
+  CANCELLED: "red"
+};
+
+export default function SeriesOccurrences({ seriesId, timezone, occurrences }: { seriesId: string; timezone: string; occurrences: Occurrence[] }) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const toast = useToast();
+
+  const setStatus = async (occurrence: Occurrence, status: "CANCELLED" | "PUBLISHED") => {
+    if (status === "CANCELLED" && !confirm(`Cancel the ${occurrence.occurrenceDate} occurrence?`)) return;
+
+    setBusyId(occurrence.id);
+    try {
+      const res = await fetch(`/api/events/${occurrence.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status })
+      });
+      if (!res.ok) throw new Error("Failed to update occurrence");
+
+      toast({ title: status === "CANCELLED" ? "Occurrence cancelled" : "Occurrence restored", status: "success", duration: 3000 });
+      window.location.reload();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update occurrence",
+        status: "error",
+        duration: 5000,
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteSeries = async () => {
+    if (!confirm("Delete this series? Upcoming occurrences without RSVPs are removed; the rest stay as standalone events.")) return;
+
+    setIsDeleting(true);
+    try {
+      const res = await fetch(`/api/series/${seriesId}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to delete series");
+      window.location.href = "/dashboard/events";
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete series",
+        status: "error",
+        duration: 5000,
+      });
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Box bg="white" p={{ base: 4, md: 6 }} borderRadius="xl" boxShadow="sm">
+      <HStack justify="space-between" mb={4}>
+        <Text fontWeight="semibold">{occurrences.length} occurrences</Text>
+        <Button size="sm" colorScheme="red" variant="outline" onClick={deleteSeries} isLoading={isDeleting}>
+          Delete Series
+        </Button>
+      </HStack>
+      <TableContainer>
+        <Table size="sm">
+          <Thead>
+            <Tr>
+              <Th>Date</Th>
+              <Th>Status</Th>
+              <Th isNumeric>RSVPs</Th>
+              <Th></Th>
+            </Tr>
+          </Thead>
+          <Tbody>
+            {occurrences.map((occurrence) => (
+              <Tr key={occurrence.id}>
+                <Td>
+                  <Text>{formatDateTime(occurrence.startAt, timezone)}</Text>
+                  {occurrence.detachedFromSeries && (
+                    <Badge variant="outline" colorScheme="purple" mt={1}>Edited individually</Badge>
+                  )}
+                </Td>
+                <Td>
+                  <Badge colorScheme={statusColors[occurrence.status] || "gray"} variant="subtle">{occurrence.status}</Badge>
+                </Td>
+                <Td isNumeric>{occurrence.confirmedCount}</Td>
+                <Td>
+                  <HStack justify="flex-end" spacing={2}>
+                    <Button as={Link} href={`/dashboard/events/${occurrence.id}/edit`} size="xs" variant="outline">
+                      Edit
+                    </Button>
+                    {occurrence.status === "CANCELLED" ? (
+                      <Button size="xs" colorScheme="green" variant="ghost" onClick={() => setStatus(occurrence, "PUBLISHED")} isLoading={busyId === occurrence.id}>
+                        Restore
+                      </Button>
+                    ) : (
+                      <Button size="xs" colorScheme="red" variant="ghost" onClick={() => setStatus(occurrence, "CANCELLED")} isLoading={busyId === occurrence.id}>
+                        Cancel
+                      </Button>
+                    )}
+                  </HStack>
+                </Td>
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+}
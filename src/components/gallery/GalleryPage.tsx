@@ -69,6 +69,7 @@ interface GalleryPageProps {
 
 export default function GalleryPage({ galleries, allTags }: GalleryPageProps) {
   const [searchTerm, setSearchTerm] = useState("");
+  const [searchMatches, setSearchMatches] = useState<Set<string> | null>(null);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [selectedEvent, setSelectedEvent] = useState<string>("");
   const [selectedImage, setSelectedImage] = useState<GalleryImage | null>(null);
@@ -104,12 +105,42 @@ export default function GalleryPage({ galleries, allTags }: GalleryPageProps) {
     return Array.from(eventMap.values());
   }, [galleries]);
 
+  // Full-text search runs on the server: galleries matching by name, description or tags,
+  // or holding a photo whose title, caption or tags match
+  useEffect(() => {
+    // Matches for the previous term would filter the wrong set while this one loads
+    setSearchMatches(null);
+    const query = searchTerm.trim();
+    if (!query) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: query, mode: "galleries" });
+        const response = await fetch(`/api/search?${params}`, { signal: controller.signal });
+        if (!response.ok) throw new Error(`Search failed (${response.status})`);
+        const data: { galleryIds: string[] } = await response.json();
+        setSearchMatches(new Set(data.galleryIds));
+      } catch (error) {
+        if (error instanceof DOMException && error.name === "AbortError") return;
+        console.error('Gallery search failed:', error);
+        setSearchMatches(new Set());
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [searchTerm]);
+
+  const searching = searchTerm.trim() !== "" && searchMatches === null;
+
   // Filter galleries based on search and filters
   const filteredGalleries = useMemo(() => {
     return galleries.filter(gallery => {
-      // Search term filter
-      if (searchTerm && !gallery.name.toLowerCase().includes(searchTerm.toLowerCase()) &&
-          !gallery.description?.toLowerCase().includes(searchTerm.toLowerCase())) {
+      // Search filter
+      if (searchTerm.trim() && !searchMatches?.has(gallery.id)) {
         return false;
       }
 
@@ -125,7 +156,7 @@ export default function GalleryPage({ galleries, allTags }: GalleryPageProps) {
 
       return true;
     });
-  }, [galleries, searchTerm, selectedEvent, selectedTags]);
+  }, [galleries, searchTerm, searchMatches, selectedEvent, selectedTags]);
 
   const handleImageClick = (image: GalleryImage) => {
     setSelectedImage(image);
@@ -227,7 +258,7 @@ export default function GalleryPage({ galleries, allTags }: GalleryPageProps) {
                         <span>🔍</span>
                       </InputLeftElement>
                       <Input
-                        placeholder="Search galleries and descriptions..."
+                        placeholder="Search galleries, captions and tags..."
                         value={searchTerm}
                         onChange={(e) => setSearchTerm(e.target.value)}
                       />
@@ -298,7 +329,9 @@ export default function GalleryPage({ galleries, allTags }: GalleryPageProps) {
 
               {/* Results Count */}
               <Text fontSize="lg" fontWeight="semibold">
-                {filteredGalleries.length} gallery{filteredGalleries.length !== 1 ? 'ies' : ''} found
+                {searching
+                  ? "Searching..."
+                  : `${filteredGalleries.length} galler${filteredGalleries.length !== 1 ? 'ies' : 'y'} found`}
               </Text>
 
               {/* Galleries Grid */}
@@ -408,7 +441,7 @@ export default function GalleryPage({ galleries, allTags }: GalleryPageProps) {
               </SimpleGrid>
 
               {/* No Results */}
-              {filteredGalleries.length === 0 && (
+              {!searching && filteredGalleries.length === 0 && (
                 <Box textAlign="center" py={12}>
                   <Text fontSize="lg" color="gray.500">
                     No galleries found matching your criteria
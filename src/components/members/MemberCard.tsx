@@ -0,0 +1,97 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { Badge, Box, Heading, Image, Progress, Stack, Text } from "@chakra-ui/react";
+import QRCode from "qrcode";
+import { CARD_WINDOW_SECONDS, currentCardCode, type MemberCard as Card, type MemberCardCode } from "@/lib/member-card";
+
+// Fetch the next batch while this many codes are still left, so a dropped signal doesn't blank the card
+const REFILL_BELOW = 8;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+/**
+ * The member's card with a QR code that changes every CARD_WINDOW_SECONDS. Codes come in
+ * batches, so the card keeps rotating for several minutes without a connection.
+ */
+export default function MemberCard({ card, initialCodes }: { card: Card; initialCodes: MemberCardCode[] }) {
+  const [codes, setCodes] = useState(initialCodes);
+  const [now, setNow] = useState(nowSeconds);
+  const [qr, setQr] = useState<string | null>(null);
+  const refilling = useRef(false);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(nowSeconds()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const current = currentCardCode(codes, now);
+  const remaining = codes.filter(code => code.notBefore >= now).length;
+
+  useEffect(() => {
+    if (remaining >= REFILL_BELOW || refilling.current) return;
+    refilling.current = true;
+    fetch("/api/me/card")
+      .then(res => (res.ok ? res.json() : null))
+      .then((data: { codes: MemberCardCode[] } | null) => {
+        if (data) setCodes(data.codes);
+      })
+      .catch(() => {
+        // Offline: keep showing what's left and try again on the next tick
+      })
+      .finally(() => {
+        refilling.current = false;
+      });
+  }, [remaining]);
+
+  useEffect(() => {
+    if (!current) {
+      setQr(null);
+      return;
+    }
+    QRCode.toDataURL(current.token, { errorCorrectionLevel: "M", margin: 2, width: 520 })
+      .then(setQr)
+      .catch(error => console.error("Failed to draw member card QR code:", error));
+  }, [current]);
+
+  const secondsLeft = current ? current.notBefore + CARD_WINDOW_SECONDS - now : 0;
+
+  return (
+    <Box bg="white" borderRadius="xl" boxShadow="lg" overflow="hidden" maxW="sm" mx="auto">
+      <Box bg="green.600" color="white" px={6} py={4}>
+        <Text fontSize="xs" letterSpacing="wider" textTransform="uppercase" opacity={0.85}>
+          THC Members Only Club
+        </Text>
+        <Heading size="lg" fontFamily="'SUSE Mono', monospace" fontWeight="600" noOfLines={1}>
+          {card.name}
+        </Heading>
+      </Box>
+
+      <Stack spacing={4} p={6} align="center" textAlign="center">
+        <Stack direction="row" spacing={2} align="center">
+          <Badge colorScheme={card.tier ? "yellow" : "green"} fontSize="md">{card.tier ?? "Member"}</Badge>
+          {card.tierExpiresOn && <Text fontSize="sm" color="gray.600">until {card.tierExpiresOn}</Text>}
+        </Stack>
+
+        {current && qr ? (
+          <>
+            <Image src={qr} alt="Member card QR code" w="260px" h="260px" />
+            <Box w="260px">
+              <Progress value={(secondsLeft / CARD_WINDOW_SECONDS) * 100} size="xs" colorScheme="green" borderRadius="full" />
+              <Text fontSize="xs" color="gray.500" mt={1}>
+                New code in {secondsLeft}s • {new Date(now * 1000).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", second: "2-digit" })}
+              </Text>
+            </Box>
+          </>
+        ) : (
+          <Box py={10}>
+            <Text color="gray.600">Your card needs a connection to refresh its code. Reconnect and it will update by itself.</Text>
+          </Box>
+        )}
+
+        <Text fontSize="sm" color="gray.600">
+          Show this screen at the door. Screenshots won&apos;t work; the code changes every {CARD_WINDOW_SECONDS} seconds.
+        </Text>
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Alert, AlertDescription, AlertIcon, AlertTitle, Badge, Box, Button, Heading, Stack, Text, VStack, useToast } from "@chakra-ui/react";
+import jsQR from "jsqr";
+import type { JWK } from "jose";
+import { verifyMemberCardToken, type MemberCard } from "@/lib/member-card";
+
+interface ScanResult {
+  status: "success" | "warning" | "error";
+  message: string;
+  card?: MemberCard;
+}
+
+// Ignore the same code for a moment so one scan doesn't fire repeatedly
+const SCAN_COOLDOWN_MS = 2500;
+
+const REJECTIONS = {
+  expired: "This code has expired. Ask the member to refresh their card.",
+  early: "This code isn't valid yet. Check that this device's clock is right.",
+  invalid: "Not a member card from this club."
+} as const;
+
+const formatTime = (date: Date) => date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+
+/**
+ * Door scanner for member cards. Codes are checked on this device against the card public key,
+ * so nothing here needs a connection once the page is open.
+ */
+export default function MemberCardScanner({ publicKey }: { publicKey: JWK }) {
+  const [isScanning, setIsScanning] = useState(false);
+  const [lastResult, setLastResult] = useState<ScanResult | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const lastScanRef = useRef<{ token: string; at: number } | null>(null);
+  // Codes accepted on this device, to catch one screen being passed back down the line
+  const acceptedRef = useRef(new Map<string, Date>());
+  const toast = useToast();
+
+  const verify = useCallback(async (token: string) => {
+    const result = await verifyMemberCardToken(token, publicKey);
+    if (!result.valid) {
+      setLastResult({ status: "error", message: REJECTIONS[result.reason] });
+      return;
+    }
+
+    const acceptedAt = acceptedRef.current.get(token);
+    if (acceptedAt) {
+      setLastResult({ status: "warning", message: `This code was already scanned at ${formatTime(acceptedAt)}`, card: result.card });
+      return;
+    }
+    acceptedRef.current.set(token, new Date());
+    setLastResult({ status: "success", message: "Valid member card", card: result.card });
+  }, [publicKey]);
+
+  const stopScanner = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setIsScanning(false);
+  }, []);
+
+  const startScanner = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+      streamRef.current = stream;
+      setIsScanning(true);
+    } catch {
+      toast({
+        title: "Camera unavailable",
+        description: "Allow camera access to scan member cards.",
+        status: "warning",
+        duration: 5000,
+      });
+    }
+  };
+
+  // Decode frames from the camera while the scanner is open
+  useEffect(() => {
+    if (!isScanning || !videoRef.current || !streamRef.current) return;
+
+    const video = videoRef.current;
+    video.srcObject = streamRef.current;
+    video.play().catch(() => {});
+
+    let frame: number;
+    const tick = () => {
+      const canvas = canvasRef.current;
+      if (canvas && video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const ctx = canvas.getContext("2d", { willReadFrequently: true });
+        if (ctx) {
+          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+          const code = jsQR(image.data, image.width, image.height, { inversionAttempts: "dontInvert" });
+          const now = Date.now();
+          const last = lastScanRef.current;
+          if (code?.data && !(last && last.token === code.data && now - last.at < SCAN_COOLDOWN_MS)) {
+            lastScanRef.current = { token: code.data, at: now };
+            verify(code.data);
+          }
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [isScanning, verify]);
+
+  // Release the camera when leaving the page
+  useEffect(() => stopScanner, [stopScanner]);
+
+  return (
+    <VStack spacing={5} align="stretch">
+      <Box textAlign="center">
+        <Heading size="md" fontFamily="'SUSE Mono', monospace" fontWeight="600" mb={1}>
+          Scan Member Cards
+        </Heading>
+        <Text fontSize="sm" color="gray.600">Works offline once this page has loaded.</Text>
+      </Box>
+
+      {lastResult && (
+        <Alert status={lastResult.status} borderRadius="md" variant="left-accent" alignItems="start">
+          <AlertIcon />
+          <Box flex={1}>
+            <AlertTitle>{lastResult.message}</AlertTitle>
+            {lastResult.card && (
+              <AlertDescription>
+                <Stack spacing={1} mt={2}>
+                  <Text fontSize="xl" fontWeight="bold">{lastResult.card.name}</Text>
+                  <Stack direction="row" align="center" spacing={2}>
+                    <Badge colorScheme={lastResult.card.tier ? "yellow" : "green"}>{lastResult.card.tier ?? "Member"}</Badge>
+                    {lastResult.card.tierExpiresOn && <Text fontSize="sm">until {lastResult.card.tierExpiresOn}</Text>}
+                  </Stack>
+                </Stack>
+              </AlertDescription>
+            )}
+          </Box>
+        </Alert>
+      )}
+
+      <Box>
+        {isScanning ? (
+          <VStack spacing={3}>
+            <Box as="video" ref={videoRef} w="100%" borderRadius="lg" bg="black" playsInline muted />
+            <canvas ref={canvasRef} style={{ display: "none" }} />
+            <Button w="full" size="lg" variant="outline" onClick={stopScanner}>
+              Stop Scanner
+            </Button>
+          </VStack>
+        ) : (
+          <Button w="full" size="lg" colorScheme="green" onClick={startScanner}>
+            Scan Member Card
+          </Button>
+        )}
+      </Box>
+    </VStack>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+import { useState } from "react";
+import { Alert, AlertDescription, AlertIcon, Box, Button, FormControl, FormLabel, Heading, Input, SimpleGrid, Stack, Text, useToast } from "@chakra-ui/react";
+import { signOut } from "next-auth/react";
+
+interface Profile {
+  name: string | null;
+  email: string;
+  dateOfBirth: string | null;
+  emailVerified: boolean;
+  memberSince: string;
+}
+
+/**
+ * A member's own details: name and password are editable, email and date of birth are not
+ */
+export default function MemberProfile({ user }: { user: Profile }) {
+  const [name, setName] = useState(user.name ?? "");
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const toast = useToast();
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      status: "error",
+      duration: 5000,
+    });
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const res = await fetch("/api/me", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          ...(newPassword ? { currentPassword, newPassword } : {})
+        })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        const fieldError = data.error?.fieldErrors && Object.values(data.error.fieldErrors as Record<string, string[]>)[0]?.[0];
+        throw new Error(typeof data.error === "string" ? data.error : fieldError || data.error?.formErrors?.[0] || "Failed to save");
+      }
+
+      setCurrentPassword("");
+      setNewPassword("");
+      toast({ title: "Profile saved", status: "success", duration: 3000 });
+    } catch (error) {
+      showError(error, "Failed to save");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const resendVerification = async () => {
+    setIsResending(true);
+    try {
+      const res = await fetch("/api/auth/verify-email", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to send");
+      toast({ title: "Verification email sent", description: `Check ${user.email}`, status: "success", duration: 5000 });
+    } catch (error) {
+      showError(error, "Failed to send");
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <Box bg="white" p={6} borderRadius="xl" boxShadow="sm">
+      <Stack spacing={6}>
+        {!user.emailVerified && (
+          <Alert status="warning" borderRadius="md" flexWrap="wrap" gap={2}>
+            <AlertIcon />
+            <AlertDescription flex={1}>
+              Verify your email to RSVP to members-only events.
+            </AlertDescription>
+            <Button size="sm" onClick={resendVerification} isLoading={isResending}>
+              Resend link
+            </Button>
+          </Alert>
+        )}
+
+        <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4}>
+          <Box>
+            <Text fontSize="sm" color="gray.500">Email</Text>
+            <Text fontWeight="600" wordBreak="break-all">{user.email}</Text>
+          </Box>
+          <Box>
+            <Text fontSize="sm" color="gray.500">Date of birth</Text>
+            <Text fontWeight="600">{user.dateOfBirth ?? "—"}</Text>
+          </Box>
+          <Box>
+            <Text fontSize="sm" color="gray.500">Member since</Text>
+            <Text fontWeight="600">{new Date(user.memberSince).toLocaleDateString()}</Text>
+          </Box>
+        </SimpleGrid>
+
+        <Box as="form" onSubmit={save}>
+          <Heading size="sm" mb={3}>Edit profile</Heading>
+          <Stack spacing={4}>
+            <FormControl isRequired>
+              <FormLabel fontSize="sm" fontWeight="semibold">Name</FormLabel>
+              <Input value={name} onChange={(e) => setName(e.target.value)} autoComplete="name" />
+            </FormControl>
+            <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+              <FormControl>
+                <FormLabel fontSize="sm" fontWeight="semibold">Current password</FormLabel>
+                <Input type="password" value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} autoComplete="current-password" />
+              </FormControl>
+              <FormControl>
+                <FormLabel fontSize="sm" fontWeight="semibold">New password</FormLabel>
+                <Input type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} autoComplete="new-password" placeholder="Leave blank to keep" />
+              </FormControl>
+            </SimpleGrid>
+            <Stack direction={{ base: "column", sm: "row" }} spacing={3}>
+              <Button type="submit" colorScheme="green" isLoading={isSaving}>
+                Save
+              </Button>
+              <Button variant="ghost" onClick={() => signOut({ callbackUrl: "/" })}>
+                Sign out
+              </Button>
+            </Stack>
+          </Stack>
+        </Box>
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,35 @@
+"use client";
+import { useEffect, useState } from "react";
+import { Checkbox, CheckboxGroup, Stack, Text } from "@chakra-ui/react";
+import type { MembershipTier } from "@/types";
+
+/**
+ * Checkboxes for choosing which membership tiers an event is open to
+ */
+export default function TierPicker({ value, onChange }: {
+  value: string[];
+  onChange: (tierIds: string[]) => void;
+}) {
+  const [tiers, setTiers] = useState<MembershipTier[] | null>(null);
+
+  useEffect(() => {
+    fetch("/api/tiers")
+      .then(res => (res.ok ? res.json() : { items: [] }))
+      .then((data: { items: MembershipTier[] }) => setTiers(data.items))
+      .catch(error => console.error("Failed to fetch membership tiers:", error));
+  }, []);
+
+  if (tiers && tiers.length === 0) {
+    return <Text fontSize="sm" color="gray.500">No tiers yet; an admin can add them under Users.</Text>;
+  }
+
+  return (
+    <CheckboxGroup value={value} onChange={(ids) => onChange(ids.map(String))}>
+      <Stack direction={{ base: "column", sm: "row" }} spacing={4} flexWrap="wrap">
+        {(tiers ?? []).map(tier => (
+          <Checkbox key={tier.id} value={tier.id}>{tier.name}</Checkbox>
+        ))}
+      </Stack>
+    </CheckboxGroup>
+  );
+}
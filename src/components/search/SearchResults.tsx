@@ -0,0 +1,200 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import NextLink from "next/link";
+import { Badge, Box, Button, Center, HStack, Image, Spinner, Stack, Text, Wrap, WrapItem } from "@chakra-ui/react";
+import SearchBar from "@/components/ui/SearchBar";
+import Pagination from "@/components/ui/Pagination";
+import { formatDateTime } from "@/lib/utils";
+import type { HighlightSegment, SearchType } from "@/lib/search";
+
+type Result = {
+  type: SearchType;
+  id: string;
+  title: string;
+  url: string;
+  snippet: HighlightSegment[];
+  imageVariants: any;
+  startAt?: string;
+  timezone?: string;
+  city?: string | null;
+  state?: string | null;
+  imageCount?: number;
+  galleryName?: string;
+};
+
+type SearchResponse = {
+  items: Result[];
+  counts: Record<SearchType, number>;
+  page: number;
+  pageSize: number;
+  total: number;
+};
+
+const TYPE_LABELS: Record<SearchType, string> = { event: "Events", gallery: "Galleries", image: "Photos" };
+const TYPE_BADGES: Record<SearchType, string> = { event: "Event", gallery: "Gallery", image: "Photo" };
+const TYPE_COLORS: Record<SearchType, string> = { event: "green", gallery: "purple", image: "blue" };
+
+function Snippet({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <Text fontSize="sm" color="gray.600" noOfLines={3}>
+      {segments.map((segment, index) => segment.match
+        ? <Box as="mark" key={index} bg="yellow.100" px="1px" borderRadius="sm">{segment.text}</Box>
+        : <span key={index}>{segment.text}</span>)}
+    </Text>
+  );
+}
+
+function describe(result: Result) {
+  if (result.type === "event" && result.startAt) {
+    const place = [result.city, result.state].filter(Boolean).join(", ");
+    return `${formatDateTime(result.startAt, result.timezone)}${place ? ` • ${place}` : ""}`;
+  }
+  if (result.type === "gallery") return `${result.imageCount ?? 0} photos`;
+  return result.galleryName ? `In ${result.galleryName}` : "";
+}
+
+/**
+ * Search box and results; the query, type filter and page live in the URL so searches can be shared
+ */
+export default function SearchResults() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const q = searchParams.get("q") ?? "";
+  const type = searchParams.get("type") as SearchType | null;
+  const page = Math.max(parseInt(searchParams.get("page") ?? "1") || 1, 1);
+  const [pageSize, setPageSize] = useState(24);
+  const [data, setData] = useState<SearchResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const updateParams = useCallback((changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    Object.entries(changes).forEach(([key, value]) => value ? params.set(key, value) : params.delete(key));
+    router.replace(`${pathname}?${params.toString()}`, { scroll: false });
+  }, [pathname, router, searchParams]);
+
+  const handleSearch = useCallback((query: string) => {
+    if (query.trim() === q) return;
+    updateParams({ q: query.trim() || null, page: null });
+  }, [q, updateParams]);
+
+  useEffect(() => {
+    if (!q) {
+      setData(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const params = new URLSearchParams({ q, page: String(page), limit: String(pageSize) });
+    if (type) params.set("type", type);
+
+    setLoading(true);
+    fetch(`/api/search?${params}`, { signal: controller.signal })
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`Search failed (${res.status})`)))
+      .then((json: SearchResponse) => setData(json))
+      .catch(error => {
+        if (error instanceof DOMException && error.name === "AbortError") return;
+        console.error("Search failed:", error);
+        setData(null);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [q, type, page, pageSize]);
+
+  const total = data ? (type ? data.counts[type] : data.total) : 0;
+
+  return (
+    <Stack spacing={6}>
+      <SearchBar placeholder="Search events, galleries and photos..." onSearch={handleSearch} initialValue={q} />
+
+      {data && (
+        <Wrap spacing={2}>
+          <WrapItem>
+            <Button size="sm" variant={type ? "outline" : "solid"} colorScheme="green" onClick={() => updateParams({ type: null, page: null })}>
+              All ({data.total})
+            </Button>
+          </WrapItem>
+          {(Object.keys(TYPE_LABELS) as SearchType[]).map(key => (
+            <WrapItem key={key}>
+              <Button
+                size="sm"
+                variant={type === key ? "solid" : "outline"}
+                colorScheme="green"
+                onClick={() => updateParams({ type: key, page: null })}
+                isDisabled={data.counts[key] === 0 && type !== key}
+              >
+                {TYPE_LABELS[key]} ({data.counts[key]})
+              </Button>
+            </WrapItem>
+          ))}
+        </Wrap>
+      )}
+
+      {loading && !data && (
+        <Center py={12}><Spinner size="lg" /></Center>
+      )}
+
+      {q && data && data.items.length === 0 && !loading && (
+        <Text color="gray.500" textAlign="center" py={12}>
+          Nothing matched &quot;{q}&quot;. Try fewer or different words.
+        </Text>
+      )}
+
+      {data && data.items.length > 0 && (
+        <Stack spacing={4} opacity={loading ? 0.6 : 1} transition="opacity 0.2s">
+          {data.items.map(result => {
+            const thumb = result.imageVariants?.thumb?.webpUrl ?? result.imageVariants?.thumb?.jpgUrl;
+            return (
+              <HStack
+                key={`${result.type}-${result.id}`}
+                as={NextLink}
+                href={result.url}
+                align="start"
+                spacing={4}
+                p={4}
+                bg="white"
+                borderRadius="lg"
+                border="1px solid"
+                borderColor="gray.100"
+                _hover={{ shadow: "md", borderColor: "green.200" }}
+                transition="all 0.2s"
+              >
+                {thumb && (
+                  <Image src={thumb} alt={result.title} boxSize={{ base: "64px", md: "88px" }} objectFit="cover" borderRadius="md" flexShrink={0} />
+                )}
+                <Box minW={0} flex={1}>
+                  <HStack spacing={2} mb={1}>
+                    <Badge colorScheme={TYPE_COLORS[result.type]} variant="subtle">{TYPE_BADGES[result.type]}</Badge>
+                    <Text fontSize="xs" color="gray.500" noOfLines={1}>{describe(result)}</Text>
+                  </HStack>
+                  <Text fontWeight="600" color="gray.800" noOfLines={1} fontFamily="'SUSE Mono', monospace">
+                    {result.title}
+                  </Text>
+                  {result.snippet.length > 0 && <Snippet segments={result.snippet} />}
+                </Box>
+              </HStack>
+            );
+          })}
+        </Stack>
+      )}
+
+      {data && total > pageSize && (
+        <Pagination
+          currentPage={page}
+          totalPages={Math.ceil(total / pageSize)}
+          totalItems={total}
+          pageSize={pageSize}
+          onPageChange={(next) => updateParams({ page: next > 1 ? String(next) : null })}
+          onPageSizeChange={(size) => {
+            setPageSize(size);
+            updateParams({ page: null });
+          }}
+        />
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { Alert, AlertDescription, AlertIcon, Badge, Box, Button, Divider, Flex, FormControl, FormLabel, Heading, HStack, IconButton, Input, Select, Spinner, Stack, Switch, Text, useToast } from "@chakra-ui/react";
+import { AddIcon, ArrowDownIcon, ArrowUpIcon, DeleteIcon } from "@chakra-ui/icons";
+import SurveyResults from "./SurveyResults";
+import type { SurveyQuestion, SurveyQuestionResult } from "@/types";
+
+interface SurveyResponse {
+  survey: { id: string; enabled: boolean; sentAt: string | null; sentTo: number | null } | null;
+  questions: SurveyQuestion[];
+  responses: number;
+  results: SurveyQuestionResult[];
+  averageRating?: number | null;
+  attendAgainRate?: number | null;
+}
+
+const QUESTION_TYPES: Array<{ value: SurveyQuestion["type"]; label: string }> = [
+  { value: "RATING", label: "Rating (1-5)" },
+  { value: "ATTEND_AGAIN", label: "Would attend again (yes/no)" },
+  { value: "TEXT", label: "Free text" }
+];
+
+const newQuestionId = () => `q-${Date.now().toString(36)}`;
+
+/**
+ * Per-event survey questions, emailed to attendees once the event is archived, with the results below
+ */
+export default function SurveyBuilder({ eventId }: { eventId: string }) {
+  const [data, setData] = useState<SurveyResponse | null>(null);
+  const [questions, setQuestions] = useState<SurveyQuestion[]>([]);
+  const [enabled, setEnabled] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const toast = useToast();
+
+  const fetchSurvey = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/events/${eventId}/survey`);
+      const json: SurveyResponse = await res.json();
+      if (!res.ok) throw new Error("Failed to fetch survey");
+      setData(json);
+      setQuestions(json.questions);
+      setEnabled(json.survey?.enabled ?? true);
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to fetch survey", status: "error", duration: 5000, isClosable: true });
+    }
+  }, [eventId, toast]);
+
+  useEffect(() => {
+    fetchSurvey();
+  }, [fetchSurvey]);
+
+  const updateQuestion = (index: number, changes: Partial<SurveyQuestion>) =>
+    setQuestions(prev => prev.map((question, i) => (i === index ? { ...question, ...changes } : question)));
+
+  const moveQuestion = (index: number, offset: number) =>
+    setQuestions(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+
+  const addQuestion = () =>
+    setQuestions(prev => [...prev, { id: newQuestionId(), type: "RATING", label: "", required: false }]);
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(`/api/events/${eventId}/survey`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled, questions })
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        const fieldError = json.error?.fieldErrors && Object.values(json.error.fieldErrors as Record<string, string[]>)[0]?.[0];
+        throw new Error(typeof json.error === "string" ? json.error : fieldError || "Failed to save survey");
+      }
+      toast({ title: "Survey saved", status: "success", duration: 3000 });
+      await fetchSurvey();
+    } catch (error) {
+      toast({
+        title: "Error saving survey",
+        description: error instanceof Error ? error.message : "Unknown error",
+        status: "error",
+        duration: 5000,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!data) {
+    return (
+      <Flex justify="center" py={12}>
+        <Spinner size="lg" color="blue.500" />
+      </Flex>
+    );
+  }
+
+  const { survey } = data;
+
+  return (
+    <Box bg="white" p={{ base: 4, md: 6 }} borderRadius="xl" boxShadow="sm">
+      <Stack spacing={6}>
+        <Alert status={survey?.sentAt ? "success" : "info"} borderRadius="md">
+          <AlertIcon />
+          <AlertDescription fontSize="sm">
+            {!survey
+              ? "This event has no survey yet. Save one to email it to attendees once the event is archived."
+              : survey.sentAt
+                ? `Emailed to ${survey.sentTo ?? 0} attendee(s) on ${new Date(survey.sentAt).toLocaleDateString()}. Edits change the form for anyone who hasn't answered yet.`
+                : "Attendees get this by email once the event is archived; checked-in attendees if anyone was checked in, otherwise everyone who RSVPed."}
+          </AlertDescription>
+        </Alert>
+
+        <FormControl display="flex" alignItems="center" justifyContent="space-between" p={3} bg="gray.50" borderRadius="md">
+          <FormLabel mb="0" fontSize="sm" fontWeight="semibold">Collect feedback for this event</FormLabel>
+          <Switch isChecked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+        </FormControl>
+
+        <Stack spacing={3}>
+          {questions.map((question, index) => (
+            <Box key={question.id} p={3} borderWidth="1px" borderColor="gray.200" borderRadius="md">
+              <Stack direction={{ base: "column", md: "row" }} spacing={3} align={{ md: "center" }}>
+                <Input
+                  flex={1}
+                  placeholder="Question"
+                  value={question.label}
+                  onChange={(e) => updateQuestion(index, { label: e.target.value })}
+                />
+                <Select
+                  maxW={{ md: "240px" }}
+                  value={question.type}
+                  onChange={(e) => updateQuestion(index, { type: e.target.value as SurveyQuestion["type"] })}
+                >
+                  {QUESTION_TYPES.map(type => (
+                    <option key={type.value} value={type.value}>{type.label}</option>
+                  ))}
+                </Select>
+                <HStack spacing={1}>
+                  <FormControl display="flex" alignItems="center" w="auto" mr={2}>
+                    <FormLabel mb="0" fontSize="sm">Required</FormLabel>
+                    <Switch size="sm" isChecked={question.required} onChange={(e) => updateQuestion(index, { required: e.target.checked })} />
+                  </FormControl>
+                  <IconButton aria-label="Move up" icon={<ArrowUpIcon />} size="sm" variant="ghost" isDisabled={index === 0} onClick={() => moveQuestion(index, -1)} />
+                  <IconButton aria-label="Move down" icon={<ArrowDownIcon />} size="sm" variant="ghost" isDisabled={index === questions.length - 1} onClick={() => moveQuestion(index, 1)} />
+                  <IconButton
+                    aria-label="Remove question"
+                    icon={<DeleteIcon />}
+                    size="sm"
+                    variant="ghost"
+                    colorScheme="red"
+                    onClick={() => setQuestions(prev => prev.filter((_, i) => i !== index))}
+                  />
+                </HStack>
+              </Stack>
+            </Box>
+          ))}
+          <Button leftIcon={<AddIcon />} variant="outline" size="sm" alignSelf="start" onClick={addQuestion} isDisabled={questions.length >= 20}>
+            Add question
+          </Button>
+        </Stack>
+
+        <Button colorScheme="blue" alignSelf="start" onClick={save} isLoading={isSaving} isDisabled={questions.length === 0}>
+          {survey ? "Save Survey" : "Create Survey"}
+        </Button>
+
+        <Divider />
+
+        <Box>
+          <HStack mb={4} spacing={3}>
+            <Heading size="md" fontFamily="'SUSE Mono', monospace" fontWeight="600">Results</Heading>
+            {survey && !survey.enabled && <Badge>Closed</Badge>}
+          </HStack>
+          <SurveyResults
+            responses={data.responses}
+            invited={survey?.sentTo}
+            results={data.results}
+            averageRating={data.averageRating ?? null}
+            attendAgainRate={data.attendAgainRate ?? null}
+          />
+        </Box>
+      </Stack>
+    </Box>
+  );
+}
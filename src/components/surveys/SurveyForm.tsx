@@ -0,0 +1,110 @@
+"use client";
+import { useState } from "react";
+import { Button, ButtonGroup, FormControl, FormLabel, HStack, Text, Textarea, VStack, useToast } from "@chakra-ui/react";
+import type { SurveyQuestion } from "@/types";
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+export default function SurveyForm({ token, questions }: { token: string; questions: SurveyQuestion[] }) {
+  const [answers, setAnswers] = useState<Record<string, number | string | boolean | null>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const toast = useToast();
+
+  const setAnswer = (id: string, value: number | string | boolean | null) =>
+    setAnswers(prev => ({ ...prev, [id]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const missing = questions.find(question =>
+      question.required && (answers[question.id] == null || answers[question.id] === "")
+    );
+    if (missing) {
+      toast({ title: "One more answer", description: `Please answer "${missing.label}"`, status: "warning", duration: 4000, isClosable: true });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const res = await fetch("/api/surveys/responses", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, answers })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(typeof data.error === "string" ? data.error : "Failed to submit your answers");
+      setSubmitted(true);
+    } catch (error) {
+      toast({
+        title: "Couldn't submit",
+        description: error instanceof Error ? error.message : "Failed to submit your answers",
+        status: "error",
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (submitted) {
+    return (
+      <VStack spacing={2} py={6} textAlign="center">
+        <Text fontSize="xl" fontWeight="600">Thanks for your feedback!</Text>
+        <Text color="gray.600">It helps us plan the next one.</Text>
+      </VStack>
+    );
+  }
+
+  return (
+    <VStack as="form" onSubmit={handleSubmit} spacing={6} align="stretch">
+      {questions.map(question => (
+        <FormControl key={question.id} isRequired={question.required}>
+          <FormLabel fontWeight="semibold">{question.label}</FormLabel>
+          {question.type === "RATING" && (
+            <VStack align="start" spacing={1}>
+              <ButtonGroup size="md" isAttached variant="outline" colorScheme="green">
+                {RATINGS.map(rating => (
+                  <Button
+                    key={rating}
+                    variant={answers[question.id] === rating ? "solid" : "outline"}
+                    onClick={() => setAnswer(question.id, rating)}
+                    aria-label={`${rating} out of 5`}
+                  >
+                    {rating}
+                  </Button>
+                ))}
+              </ButtonGroup>
+              <HStack justify="space-between" w="full" maxW="220px" fontSize="xs" color="gray.500">
+                <Text>Poor</Text>
+                <Text>Excellent</Text>
+              </HStack>
+            </VStack>
+          )}
+          {question.type === "ATTEND_AGAIN" && (
+            <ButtonGroup size="md" variant="outline" colorScheme="green">
+              <Button variant={answers[question.id] === true ? "solid" : "outline"} onClick={() => setAnswer(question.id, true)}>
+                Yes
+              </Button>
+              <Button variant={answers[question.id] === false ? "solid" : "outline"} onClick={() => setAnswer(question.id, false)}>
+                No
+              </Button>
+            </ButtonGroup>
+          )}
+          {question.type === "TEXT" && (
+            <Textarea
+              rows={4}
+              maxLength={2000}
+              value={(answers[question.id] as string | undefined) ?? ""}
+              onChange={(e) => setAnswer(question.id, e.target.value)}
+            />
+          )}
+        </FormControl>
+      ))}
+      <Button type="submit" colorScheme="green" size="lg" isLoading={isSubmitting} loadingText="Submitting...">
+        Send feedback
+      </Button>
+    </VStack>
+  );
+}
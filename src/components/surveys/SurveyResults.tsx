@@ -0,0 +1,77 @@
+"use client";
+import { Box, HStack, Progress, SimpleGrid, Stack, Stat, StatHelpText, StatLabel, StatNumber, Text } from "@chakra-ui/react";
+import type { SurveyQuestionResult } from "@/types";
+
+const formatPercent = (rate: number | null) => (rate == null ? "—" : `${Math.round(rate * 100)}%`);
+
+export default function SurveyResults({ responses, invited, results, averageRating, attendAgainRate }: {
+  responses: number;
+  // How many attendees the survey went to, when it has been sent
+  invited?: number | null;
+  results: SurveyQuestionResult[];
+  averageRating: number | null;
+  attendAgainRate: number | null;
+}) {
+  if (responses === 0) {
+    return <Text color="gray.500">No responses yet.</Text>;
+  }
+
+  return (
+    <Stack spacing={6}>
+      <SimpleGrid columns={{ base: 1, sm: 3 }} spacing={4}>
+        <Stat p={4} bg="gray.50" borderRadius="md">
+          <StatLabel>Responses</StatLabel>
+          <StatNumber>{responses}</StatNumber>
+          {invited ? <StatHelpText>{formatPercent(responses / invited)} of {invited} attendees</StatHelpText> : null}
+        </Stat>
+        <Stat p={4} bg="gray.50" borderRadius="md">
+          <StatLabel>Average rating</StatLabel>
+          <StatNumber>{averageRating == null ? "—" : averageRating.toFixed(1)}</StatNumber>
+          <StatHelpText>out of 5, across rating questions</StatHelpText>
+        </Stat>
+        <Stat p={4} bg="gray.50" borderRadius="md">
+          <StatLabel>Would attend again</StatLabel>
+          <StatNumber>{formatPercent(attendAgainRate)}</StatNumber>
+        </Stat>
+      </SimpleGrid>
+
+      {results.map(result => (
+        <Box key={result.question.id}>
+          <HStack justify="space-between" mb={2}>
+            <Text fontWeight="600">{result.question.label}</Text>
+            <Text fontSize="sm" color="gray.500">{result.answered} answered</Text>
+          </HStack>
+          {result.type === "RATING" && (
+            <Stack spacing={1}>
+              {[...result.distribution].reverse().map((count, i) => (
+                <HStack key={i} spacing={3}>
+                  <Text fontSize="sm" w="12px">{result.distribution.length - i}</Text>
+                  <Progress flex={1} value={result.answered ? (count / result.answered) * 100 : 0} colorScheme="green" size="sm" borderRadius="full" />
+                  <Text fontSize="sm" color="gray.600" w="32px" textAlign="right">{count}</Text>
+                </HStack>
+              ))}
+              <Text fontSize="sm" color="gray.600">Average {result.average == null ? "—" : result.average.toFixed(1)}</Text>
+            </Stack>
+          )}
+          {result.type === "ATTEND_AGAIN" && (
+            <HStack spacing={3}>
+              <Progress flex={1} value={result.answered ? (result.yes / result.answered) * 100 : 0} colorScheme="green" size="sm" borderRadius="full" />
+              <Text fontSize="sm" color="gray.600">{result.yes} yes • {result.no} no</Text>
+            </HStack>
+          )}
+          {result.type === "TEXT" && (
+            result.answers.length === 0 ? (
+              <Text fontSize="sm" color="gray.500">No written answers</Text>
+            ) : (
+              <Stack spacing={2} maxH="300px" overflowY="auto">
+                {result.answers.map((answer, i) => (
+                  <Text key={i} fontSize="sm" p={3} bg="gray.50" borderRadius="md" whiteSpace="pre-wrap">{answer}</Text>
+                ))}
+              </Stack>
+            )
+          )}
+        </Box>
+      ))}
+    </Stack>
+  );
+}
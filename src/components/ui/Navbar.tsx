@@ -59,14 +59,19 @@ export default function Navbar() {
     { label: "Home", href: "/" },
     { label: "Events", href: "/events" },
     { label: "Gallery", href: "/gallery" },
+    { label: "Search", href: "/search" },
     { label: "FAQ", href: "/faq" },
     { label: "Contact", href: "/contact" },
     { label: "Waiver", href: "https://thcmembersonlyclub.com/waiver/", isExternal: true },
   ];
 
-  // Only add Dashboard link after hydration to avoid mismatch
+  // Only add account links after hydration to avoid mismatch
   if (isHydrated && session) {
-    navLinks.push({ label: "Dashboard", href: "/dashboard" });
+    navLinks.push((session as any).role === "MEMBER"
+      ? { label: "My Account", href: "/account" }
+      : { label: "Dashboard", href: "/dashboard" });
+  } else if (isHydrated && status === "unauthenticated") {
+    navLinks.push({ label: "Join", href: "/signup" });
   }
 
   const NavLinks = () => (
@@ -0,0 +1,181 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalFooter,
+  ModalBody,
+  ModalCloseButton,
+  Button,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Input,
+  Select,
+  VStack,
+  HStack,
+  useToast,
+  Flex,
+} from "@chakra-ui/react";
+import type { Membership, MembershipTier } from "@/types";
+
+interface MembershipFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  user: {
+    id: string;
+    name: string | null;
+    email: string;
+    membership?: Membership | null;
+  } | null;
+  tiers: MembershipTier[];
+  onSuccess: () => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Push a YYYY-MM-DD date forward, starting from today if it's already past
+function extendDate(from: string, { months = 0, years = 0 }: { months?: number; years?: number }) {
+  const start = from && from > today() ? from : today();
+  const [year, month, day] = start.split("-").map(Number);
+  const next = new Date(Date.UTC(year + years, month - 1 + months, day));
+  return next.toISOString().slice(0, 10);
+}
+
+export function MembershipForm({ isOpen, onClose, user, tiers, onSuccess }: MembershipFormProps) {
+  const [tierId, setTierId] = useState("");
+  const [expiresOn, setExpiresOn] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [revoking, setRevoking] = useState(false);
+  const toast = useToast();
+
+  const membership = user?.membership ?? null;
+
+  useEffect(() => {
+    if (isOpen) {
+      setTierId(membership?.tierId ?? tiers[0]?.id ?? "");
+      setExpiresOn(membership?.expiresOn ?? "");
+    }
+  }, [isOpen, membership, tiers]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      status: "error",
+      duration: 5000,
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}/membership`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tierId, expiresOn: expiresOn || null }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        const fieldError = data.error?.fieldErrors && Object.values(data.error.fieldErrors as Record<string, string[]>)[0]?.[0];
+        throw new Error(typeof data.error === "string" ? data.error : fieldError || "Failed to save membership");
+      }
+
+      toast({
+        title: "Membership saved",
+        description: `${user.name || user.email} is now ${data.tier.name}${data.expiresOn ? ` until ${data.expiresOn}` : ""}`,
+        status: "success",
+        duration: 3000,
+      });
+      onSuccess();
+    } catch (error) {
+      showError(error, "Failed to save membership");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!user || !confirm(`Revoke ${user.name || user.email}'s ${membership?.tier?.name ?? ""} membership?`)) return;
+
+    setRevoking(true);
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}/membership`, { method: "DELETE" });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to revoke membership");
+      }
+
+      toast({ title: "Membership revoked", status: "success", duration: 3000 });
+      onSuccess();
+    } catch (error) {
+      showError(error, "Failed to revoke membership");
+    } finally {
+      setRevoking(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size={{ base: "sm", md: "md" }}>
+      <ModalOverlay />
+      <ModalContent>
+        <form onSubmit={handleSubmit}>
+          <ModalHeader>Membership: {user?.name || user?.email}</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody>
+            <VStack spacing={4}>
+              <FormControl isRequired>
+                <FormLabel>Tier</FormLabel>
+                <Select value={tierId} onChange={(e) => setTierId(e.target.value)} placeholder={tiers.length ? undefined : "Add a tier first"}>
+                  {tiers.map(tier => (
+                    <option key={tier.id} value={tier.id}>{tier.name}</option>
+                  ))}
+                </Select>
+              </FormControl>
+
+              <FormControl>
+                <FormLabel>Expires after</FormLabel>
+                <Input type="date" value={expiresOn} min={today()} onChange={(e) => setExpiresOn(e.target.value)} />
+                <HStack mt={2} spacing={2} flexWrap="wrap">
+                  <Button size="xs" variant="outline" onClick={() => setExpiresOn(extendDate(expiresOn, { months: 1 }))}>
+                    +1 month
+                  </Button>
+                  <Button size="xs" variant="outline" onClick={() => setExpiresOn(extendDate(expiresOn, { years: 1 }))}>
+                    +1 year
+                  </Button>
+                  <Button size="xs" variant="ghost" onClick={() => setExpiresOn("")}>
+                    Never expires
+                  </Button>
+                </HStack>
+                <FormHelperText>The membership lapses at the end of this day.</FormHelperText>
+              </FormControl>
+            </VStack>
+          </ModalBody>
+          <ModalFooter>
+            <Flex width="100%" gap={3} direction={{ base: "column", sm: "row" }} justify="space-between">
+              {membership ? (
+                <Button colorScheme="red" variant="outline" onClick={handleRevoke} isLoading={revoking}>
+                  Revoke
+                </Button>
+              ) : <span />}
+              <Flex gap={3} direction={{ base: "column", sm: "row" }}>
+                <Button variant="ghost" onClick={onClose}>
+                  Cancel
+                </Button>
+                <Button type="submit" colorScheme="blue" isLoading={saving} isDisabled={!tierId}>
+                  {membership ? "Update Membership" : "Grant Membership"}
+                </Button>
+              </Flex>
+            </Flex>
+          </ModalFooter>
+        </form>
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Box,
+  Button,
+  Flex,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Heading,
+  HStack,
+  IconButton,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  NumberInput,
+  NumberInputField,
+  Stack,
+  Text,
+  Textarea,
+  VStack,
+  useDisclosure,
+  useToast,
+} from "@chakra-ui/react";
+import { AddIcon, DeleteIcon, EditIcon } from "@chakra-ui/icons";
+import type { MembershipTier } from "@/types";
+
+const emptyForm = { name: "", description: "", benefits: "", sortOrder: 0 };
+
+/**
+ * The club's membership tiers, with a modal for adding and editing them.
+ * Benefits are edited one per line.
+ */
+export function TierManager({ tiers, onChange }: { tiers: MembershipTier[]; onChange: () => void }) {
+  const [editing, setEditing] = useState<MembershipTier | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const toast = useToast();
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      status: "error",
+      duration: 5000,
+    });
+  };
+
+  const openForm = (tier: MembershipTier | null) => {
+    setEditing(tier);
+    setForm(tier ? {
+      name: tier.name,
+      description: tier.description ?? "",
+      benefits: tier.benefits.join("\n"),
+      sortOrder: tier.sortOrder
+    } : { ...emptyForm, sortOrder: tiers.length });
+    onOpen();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await fetch(editing ? `/api/tiers/${editing.id}` : "/api/tiers", {
+        method: editing ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name,
+          description: form.description,
+          benefits: form.benefits.split("\n").map(line => line.trim()),
+          sortOrder: form.sortOrder
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        const fieldError = data.error?.fieldErrors && Object.values(data.error.fieldErrors as Record<string, string[]>)[0]?.[0];
+        throw new Error(typeof data.error === "string" ? data.error : fieldError || "Failed to save tier");
+      }
+
+      toast({ title: `Tier ${editing ? "updated" : "created"}`, status: "success", duration: 3000 });
+      onClose();
+      onChange();
+    } catch (error) {
+      showError(error, "Failed to save tier");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (tier: MembershipTier) => {
+    if (!confirm(`Delete the ${tier.name} tier? Events limited to it will no longer list it.`)) return;
+    try {
+      const response = await fetch(`/api/tiers/${tier.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to delete tier");
+      }
+      toast({ title: "Tier deleted", status: "success", duration: 3000 });
+      onChange();
+    } catch (error) {
+      showError(error, "Failed to delete tier");
+    }
+  };
+
+  return (
+    <Box bg="white" rounded="lg" shadow="sm" p={{ base: 4, md: 6 }}>
+      <Flex justify="space-between" align="center" mb={4} gap={4}>
+        <Heading size="md" color="gray.800" fontFamily="'SUSE Mono', monospace" fontWeight="600">
+          Membership Tiers
+        </Heading>
+        <Button leftIcon={<AddIcon />} size="sm" colorScheme="blue" variant="outline" onClick={() => openForm(null)}>
+          Add Tier
+        </Button>
+      </Flex>
+
+      {tiers.length === 0 ? (
+        <Text color="gray.500" fontSize="sm">No tiers yet. Add one to start granting memberships.</Text>
+      ) : (
+        <Stack spacing={3}>
+          {tiers.map(tier => (
+            <Flex key={tier.id} justify="space-between" align="start" p={3} bg="gray.50" borderRadius="md" gap={3}>
+              <Box minW={0}>
+                <Text fontWeight="600">{tier.name}</Text>
+                {tier.description && <Text fontSize="sm" color="gray.600">{tier.description}</Text>}
+                {tier.benefits.length > 0 && (
+                  <Text fontSize="sm" color="gray.500" noOfLines={2}>{tier.benefits.join(" • ")}</Text>
+                )}
+              </Box>
+              <HStack spacing={1}>
+                <IconButton aria-label="Edit tier" icon={<EditIcon />} size="sm" variant="ghost" colorScheme="blue" onClick={() => openForm(tier)} />
+                <IconButton aria-label="Delete tier" icon={<DeleteIcon />} size="sm" variant="ghost" colorScheme="red" onClick={() => handleDelete(tier)} />
+              </HStack>
+            </Flex>
+          ))}
+        </Stack>
+      )}
+
+      <Modal isOpen={isOpen} onClose={onClose} size={{ base: "sm", md: "md" }} scrollBehavior="inside">
+        <ModalOverlay />
+        <ModalContent>
+          <form onSubmit={handleSubmit}>
+            <ModalHeader>{editing ? `Edit ${editing.name}` : "New Tier"}</ModalHeader>
+            <ModalCloseButton />
+            <ModalBody>
+              <VStack spacing={4}>
+                <FormControl isRequired>
+                  <FormLabel>Name</FormLabel>
+                  <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="VIP" />
+                </FormControl>
+                <FormControl>
+                  <FormLabel>Description</FormLabel>
+                  <Input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+                </FormControl>
+                <FormControl>
+                  <FormLabel>Benefits</FormLabel>
+                  <Textarea rows={4} value={form.benefits} onChange={(e) => setForm({ ...form, benefits: e.target.value })} />
+                  <FormHelperText>One per line</FormHelperText>
+                </FormControl>
+                <FormControl>
+                  <FormLabel>Sort order</FormLabel>
+                  <NumberInput min={0} value={form.sortOrder} onChange={(_, value) => setForm({ ...form, sortOrder: Number.isNaN(value) ? 0 : value })}>
+                    <NumberInputField />
+                  </NumberInput>
+                  <FormHelperText>Lower numbers are listed first</FormHelperText>
+                </FormControl>
+              </VStack>
+            </ModalBody>
+            <ModalFooter>
+              <Button variant="ghost" mr={3} onClick={onClose}>Cancel</Button>
+              <Button type="submit" colorScheme="blue" isLoading={saving}>
+                {editing ? "Save Tier" : "Create Tier"}
+              </Button>
+            </ModalFooter>
+          </form>
+        </ModalContent>
+      </Modal>
+    </Box>
+  );
+}
@@ -248,6 +248,7 @@ export function UserForm({ isOpen, onClose, user, onSuccess }: UserFormProps) {
                   value={formData.role}
                   onChange={(e) => handleInputChange("role", e.target.value)}
                 >
+                  <option value="MEMBER">Member</option>
                   <option value="VIEWER">Viewer</option>
                   <option value="ORGANIZER">Organizer</option>
                   <option value="ADMIN">Admin</option>
@@ -0,0 +1,189 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalFooter,
+  ModalBody,
+  ModalCloseButton,
+  Button,
+  VStack,
+  FormControl,
+  FormLabel,
+  FormHelperText,
+  Input,
+  Textarea,
+  SimpleGrid,
+  useToast,
+} from "@chakra-ui/react";
+import DetailImagesUploader from "@/components/events/DetailImagesUploader";
+import type { Venue } from "@/types";
+
+type UploadedImage = { id: string; variants: any; fileName: string };
+
+const emptyForm = {
+  name: "",
+  description: "",
+  address: "",
+  city: "",
+  state: "",
+  latitude: "",
+  longitude: "",
+  capacity: "",
+  staffParkingAddress: "",
+  staffParkingNotes: "",
+};
+
+const toNumber = (value: string) => (value.trim() === "" ? null : Number(value));
+
+export default function VenueForm({ isOpen, onClose, venue, onSaved }: {
+  isOpen: boolean;
+  onClose: () => void;
+  venue: Venue | null;
+  onSaved: () => void;
+}) {
+  const [formData, setFormData] = useState(emptyForm);
+  const [images, setImages] = useState<UploadedImage[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const toast = useToast();
+
+  const initialImages = useMemo<UploadedImage[]>(() => (venue?.images || []).map(image => ({
+    id: image.id,
+    variants: image.variants,
+    fileName: `image-${image.id.slice(-8)}`
+  })), [venue]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFormData(venue ? {
+      name: venue.name,
+      description: venue.description || "",
+      address: venue.address || "",
+      city: venue.city || "",
+      state: venue.state || "",
+      latitude: venue.latitude?.toString() ?? "",
+      longitude: venue.longitude?.toString() ?? "",
+      capacity: venue.capacity?.toString() ?? "",
+      staffParkingAddress: venue.staffParkingAddress || "",
+      staffParkingNotes: venue.staffParkingNotes || "",
+    } : emptyForm);
+  }, [isOpen, venue]);
+
+  const handleChange = (field: keyof typeof emptyForm, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(venue ? `/api/venues/${venue.id}` : "/api/venues", {
+        method: venue ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...formData,
+          latitude: toNumber(formData.latitude),
+          longitude: toNumber(formData.longitude),
+          capacity: toNumber(formData.capacity),
+          imageIds: images.map(image => image.id)
+        })
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(typeof json.error === "string" ? json.error : "Failed to save venue");
+      }
+
+      toast({ title: venue ? "Venue updated" : "Venue created", status: "success", duration: 3000 });
+      onSaved();
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save venue",
+        status: "error",
+        duration: 5000,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="xl">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader fontFamily="'SUSE Mono', monospace" fontWeight="600">
+          {venue ? "Edit Venue" : "Add Venue"}
+        </ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <VStack spacing={4} align="stretch">
+            <FormControl isRequired>
+              <FormLabel>Name</FormLabel>
+              <Input value={formData.name} onChange={(e) => handleChange("name", e.target.value)} />
+            </FormControl>
+            <FormControl>
+              <FormLabel>Description</FormLabel>
+              <Textarea rows={3} value={formData.description} onChange={(e) => handleChange("description", e.target.value)} />
+            </FormControl>
+            <FormControl>
+              <FormLabel>Address</FormLabel>
+              <Input value={formData.address} onChange={(e) => handleChange("address", e.target.value)} />
+            </FormControl>
+            <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4}>
+              <FormControl>
+                <FormLabel>City</FormLabel>
+                <Input value={formData.city} onChange={(e) => handleChange("city", e.target.value)} />
+              </FormControl>
+              <FormControl>
+                <FormLabel>State</FormLabel>
+                <Input value={formData.state} onChange={(e) => handleChange("state", e.target.value)} />
+              </FormControl>
+              <FormControl>
+                <FormLabel>Capacity</FormLabel>
+                <Input type="number" min={1} value={formData.capacity} onChange={(e) => handleChange("capacity", e.target.value)} />
+              </FormControl>
+            </SimpleGrid>
+            <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+              <FormControl>
+                <FormLabel>Latitude</FormLabel>
+                <Input type="number" step="any" value={formData.latitude} onChange={(e) => handleChange("latitude", e.target.value)} />
+              </FormControl>
+              <FormControl>
+                <FormLabel>Longitude</FormLabel>
+                <Input type="number" step="any" value={formData.longitude} onChange={(e) => handleChange("longitude", e.target.value)} />
+              </FormControl>
+            </SimpleGrid>
+            <FormControl>
+              <FormLabel>Staff Parking Address</FormLabel>
+              <Input value={formData.staffParkingAddress} onChange={(e) => handleChange("staffParkingAddress", e.target.value)} />
+              <FormHelperText>Prefilled into new coordination sheets for events here</FormHelperText>
+            </FormControl>
+            <FormControl>
+              <FormLabel>Staff Parking Notes</FormLabel>
+              <Textarea rows={3} value={formData.staffParkingNotes} onChange={(e) => handleChange("staffParkingNotes", e.target.value)} />
+            </FormControl>
+            <FormControl>
+              <FormLabel>Photos</FormLabel>
+              <DetailImagesUploader
+                key={venue?.id ?? "new"}
+                onImagesUploaded={setImages}
+                initialImages={initialImages}
+              />
+            </FormControl>
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="ghost" mr={3} onClick={onClose}>
+            Cancel
+          </Button>
+          <Button colorScheme="blue" onClick={handleSubmit} isLoading={isSaving} isDisabled={!formData.name.trim()}>
+            {venue ? "Save Venue" : "Create Venue"}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+import { useEffect, useState } from "react";
+import { Select } from "@chakra-ui/react";
+import type { Venue } from "@/types";
+
+/**
+ * Saved-venue dropdown; picking one hands the whole venue to `onSelect` so the caller can
+ * copy its details, picking "none" passes null
+ */
+export default function VenueSelect({ value, onSelect, size = "md" }: {
+  value?: string | null;
+  onSelect: (venue: Venue | null) => void;
+  size?: "sm" | "md";
+}) {
+  const [venues, setVenues] = useState<Venue[]>([]);
+
+  useEffect(() => {
+    fetch("/api/venues")
+      .then(res => (res.ok ? res.json() : { items: [] }))
+      .then((data: { items: Venue[] }) => setVenues(data.items))
+      .catch(error => console.error("Failed to fetch venues:", error));
+  }, []);
+
+  return (
+    <Select
+      size={size}
+      value={value || ""}
+      onChange={(e) => onSelect(venues.find(venue => venue.id === e.target.value) ?? null)}
+    >
+      <option value="">No saved venue</option>
+      {venues.map(venue => (
+        <option key={venue.id} value={venue.id}>
+          {venue.name}{venue.city ? ` — ${venue.city}` : ""}
+        </option>
+      ))}
+    </Select>
+  );
+}
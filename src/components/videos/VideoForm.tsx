@@ -27,6 +27,7 @@ import {
   AlertIcon,
 } from "@chakra-ui/react";
 import type { RecentEventVideo } from "@/types";
+import { UploadError, uploadDirect } from "@/lib/direct-upload";
 
 // Upload configuration constants
 const MAX_VIDEO_SIZE = 200 * 1024 * 1024; // 200MB
@@ -167,57 +168,13 @@ export default function VideoForm({ isOpen, onClose, onSubmit, video }: VideoFor
     
     try {
       setUploadingState(true);
-      setProgress(10); // Start progress
 
-      // Create form data
-      const formData = new FormData();
-      formData.append("file", file);
-      formData.append("fileType", type);
-
-      setProgress(30);
-
-      // Upload to new endpoint
-      const response = await fetch("/api/upload/video", {
-        method: "POST",
-        body: formData,
-        credentials: "include",
+      // Straight to storage in parts; choosing the same file again after a failure resumes it
+      const result = await uploadDirect<{ url: string }>(file, {
+        kind: type === "video" ? "video" : "video-thumbnail",
+        onProgress: setProgress,
       });
 
-      setProgress(70);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: "Upload failed" }));
-        
-        let errorMessage = errorData.message || errorData.error || "Upload failed";
-        
-        // Handle specific error cases
-        if (response.status === 413) {
-          errorMessage = `File too large: ${errorData.message || "Maximum size exceeded"}`;
-        } else if (response.status === 429) {
-          const retryAfter = response.headers.get("Retry-After");
-          const retryMinutes = retryAfter ? Math.ceil(parseInt(retryAfter) / 60) : 15;
-          errorMessage = `Rate limit exceeded. Please try again in ${retryMinutes} minute${retryMinutes !== 1 ? "s" : ""}.`;
-        } else if (response.status === 400) {
-          errorMessage = errorData.message || "Invalid file type or format";
-        } else if (response.status === 401 || response.status === 403) {
-          errorMessage = "You don't have permission to upload files";
-        }
-
-        setError(errorMessage);
-        toast({
-          title: "Upload Failed",
-          description: errorMessage,
-          status: "error",
-          duration: 5000,
-          isClosable: true,
-        });
-        return;
-      }
-
-      setProgress(90);
-
-      const result = await response.json();
-      
       if (type === "video") {
         handleInputChange("videoUrl", result.url);
         handleInputChange("videoType", "UPLOADED");
@@ -225,8 +182,6 @@ export default function VideoForm({ isOpen, onClose, onSubmit, video }: VideoFor
         handleInputChange("thumbnailUrl", result.url);
       }
 
-      setProgress(100);
-
       toast({
         title: "Success",
         description: `${type === "video" ? "Video" : "Thumbnail"} uploaded successfully`,
@@ -241,10 +196,13 @@ export default function VideoForm({ isOpen, onClose, onSubmit, video }: VideoFor
       }, 1000);
     } catch (error) {
       console.error(`Error uploading ${type}:`, error);
-      const errorMessage = error instanceof Error ? error.message : "Failed to upload file";
+      let errorMessage = error instanceof Error ? error.message : "Failed to upload file";
+      if (error instanceof UploadError && (error.status === 401 || error.status === 403)) {
+        errorMessage = "You don't have permission to upload files";
+      }
       setError(errorMessage);
       toast({
-        title: "Error",
+        title: "Upload Failed",
         description: errorMessage,
         status: "error",
         duration: 5000,
@@ -0,0 +1,112 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalFooter,
+  ModalBody,
+  ModalCloseButton,
+  Button,
+  VStack,
+  FormControl,
+  FormLabel,
+  FormHelperText,
+  Input,
+  Textarea,
+  useToast,
+} from "@chakra-ui/react";
+import type { Waiver } from "@/types";
+
+export default function WaiverForm({ isOpen, onClose, waiver, onSaved }: {
+  isOpen: boolean;
+  onClose: () => void;
+  waiver: Waiver | null;
+  onSaved: () => void;
+}) {
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const toast = useToast();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setTitle(waiver?.title ?? "");
+    setBody(waiver?.currentVersion?.body ?? "");
+  }, [isOpen, waiver]);
+
+  const bodyChanged = !!waiver && body.trim() !== (waiver.currentVersion?.body ?? "");
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(waiver ? `/api/waivers/${waiver.id}` : "/api/waivers", {
+        method: waiver ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title, body })
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(typeof json.error === "string" ? json.error : "Failed to save waiver");
+      }
+
+      toast({
+        title: waiver ? (bodyChanged ? `Published version ${json.versions[0]?.version}` : "Waiver updated") : "Waiver created",
+        status: "success",
+        duration: 3000
+      });
+      onSaved();
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save waiver",
+        status: "error",
+        duration: 5000,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="2xl">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader fontFamily="'SUSE Mono', monospace" fontWeight="600">
+          {waiver ? "Edit Waiver" : "Add Waiver"}
+        </ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <VStack spacing={4} align="stretch">
+            <FormControl isRequired>
+              <FormLabel>Title</FormLabel>
+              <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Liability Release" />
+            </FormControl>
+            <FormControl isRequired>
+              <FormLabel>Waiver Text</FormLabel>
+              <Textarea rows={14} value={body} onChange={(e) => setBody(e.target.value)} />
+              <FormHelperText>
+                {waiver
+                  ? bodyChanged
+                    ? `Saving publishes version ${(waiver.currentVersion?.version ?? 0) + 1}. New RSVPs sign it; existing signatures stay on the version they signed.`
+                    : `Version ${waiver.currentVersion?.version ?? 1}. Editing the text publishes a new version.`
+                  : "Attendees read and sign this when they RSVP to events it's attached to"}
+              </FormHelperText>
+            </FormControl>
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="ghost" mr={3} onClick={onClose}>
+            Cancel
+          </Button>
+          <Button colorScheme="blue" onClick={handleSubmit} isLoading={isSaving} isDisabled={!title.trim() || !body.trim()}>
+            {waiver ? "Save Waiver" : "Create Waiver"}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
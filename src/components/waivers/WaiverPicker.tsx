@@ -0,0 +1,41 @@
+"use client";
+import { useEffect, useState } from "react";
+import { Badge, Checkbox, CheckboxGroup, Stack, Text } from "@chakra-ui/react";
+import type { Waiver } from "@/types";
+
+/**
+ * Checkboxes for choosing the waivers attendees sign when they RSVP. Archived waivers
+ * only show up while they're still attached, so they can be taken off.
+ */
+export default function WaiverPicker({ value, onChange }: {
+  value: string[];
+  onChange: (waiverIds: string[]) => void;
+}) {
+  const [waivers, setWaivers] = useState<Waiver[] | null>(null);
+
+  useEffect(() => {
+    fetch("/api/waivers?archived=1")
+      .then(res => (res.ok ? res.json() : { items: [] }))
+      .then((data: { items: Waiver[] }) => setWaivers(data.items))
+      .catch(error => console.error("Failed to fetch waivers:", error));
+  }, []);
+
+  const options = (waivers ?? []).filter(waiver => !waiver.archived || value.includes(waiver.id));
+
+  if (waivers && options.length === 0) {
+    return <Text fontSize="sm" color="gray.500">No waivers yet; add them under Waivers.</Text>;
+  }
+
+  return (
+    <CheckboxGroup value={value} onChange={(ids) => onChange(ids.map(String))}>
+      <Stack direction={{ base: "column", sm: "row" }} spacing={4} flexWrap="wrap">
+        {options.map(waiver => (
+          <Checkbox key={waiver.id} value={waiver.id}>
+            {waiver.title}
+            {waiver.archived && <Badge ml={2} colorScheme="gray">Archived</Badge>}
+          </Checkbox>
+        ))}
+      </Stack>
+    </CheckboxGroup>
+  );
+}
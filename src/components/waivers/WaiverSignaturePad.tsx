@@ -0,0 +1,140 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { Box, Button, ButtonGroup, Checkbox, FormControl, FormLabel, HStack, Input, Text, VStack } from "@chakra-ui/react";
+import type { EventWaiver } from "@/types";
+
+export interface WaiverSignatureValue {
+  waiverVersionId: string;
+  signerName: string;
+  signatureType: "TYPED" | "DRAWN";
+  signatureImage?: string;
+}
+
+const PAD_WIDTH = 400;
+const PAD_HEIGHT = 150;
+
+/**
+ * One waiver's text with a typed or drawn signature. Reports null until the attendee has
+ * agreed and signed, so the form can tell which waivers are still outstanding.
+ */
+export default function WaiverSignaturePad({ waiver, defaultName, onChange }: {
+  waiver: EventWaiver;
+  defaultName: string;
+  onChange: (signature: WaiverSignatureValue | null) => void;
+}) {
+  const [agreed, setAgreed] = useState(false);
+  const [mode, setMode] = useState<"TYPED" | "DRAWN">("TYPED");
+  const [typedName, setTypedName] = useState(defaultName);
+  const [drawing, setDrawing] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    if (!agreed) return onChange(null);
+    if (mode === "TYPED") {
+      onChange(typedName.trim() ? { waiverVersionId: waiver.versionId, signerName: typedName.trim(), signatureType: "TYPED" } : null);
+    } else {
+      onChange(drawing && typedName.trim()
+        ? { waiverVersionId: waiver.versionId, signerName: typedName.trim(), signatureType: "DRAWN", signatureImage: drawing }
+        : null);
+    }
+    // onChange is a fresh closure on every parent render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [agreed, mode, typedName, drawing, waiver.versionId]);
+
+  const pointFor = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (PAD_WIDTH / rect.width),
+      y: (e.clientY - rect.top) * (PAD_HEIGHT / rect.height)
+    };
+  };
+
+  const startStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPoint.current = pointFor(e);
+  };
+
+  const continueStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx || !lastPoint.current) return;
+    const point = pointFor(e);
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = "round";
+    ctx.strokeStyle = "#1a202c";
+    ctx.beginPath();
+    ctx.moveTo(lastPoint.current.x, lastPoint.current.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPoint.current = point;
+  };
+
+  const endStroke = () => {
+    if (!lastPoint.current) return;
+    lastPoint.current = null;
+    setDrawing(canvasRef.current?.toDataURL("image/png") ?? null);
+  };
+
+  const clearPad = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    setDrawing(null);
+  };
+
+  return (
+    <VStack align="stretch" spacing={3} p={3} borderWidth="1px" borderColor="gray.200" borderRadius="md">
+      <HStack justify="space-between">
+        <Text fontWeight="semibold">{waiver.title}</Text>
+        <Text fontSize="xs" color="gray.500">Version {waiver.version}</Text>
+      </HStack>
+      <Box maxH="200px" overflowY="auto" p={3} bg="gray.50" borderRadius="md" fontSize="sm" whiteSpace="pre-wrap">
+        {waiver.body}
+      </Box>
+      <Checkbox isChecked={agreed} onChange={(e) => setAgreed(e.target.checked)}>
+        <Text fontSize="sm">I have read and agree to this waiver</Text>
+      </Checkbox>
+      {agreed && (
+        <>
+          <ButtonGroup size="xs" isAttached variant="outline">
+            <Button isActive={mode === "TYPED"} onClick={() => setMode("TYPED")}>Type signature</Button>
+            <Button isActive={mode === "DRAWN"} onClick={() => setMode("DRAWN")}>Draw signature</Button>
+          </ButtonGroup>
+          <FormControl isRequired>
+            <FormLabel fontSize="sm" fontWeight="semibold">Full name</FormLabel>
+            <Input
+              value={typedName}
+              onChange={(e) => setTypedName(e.target.value)}
+              fontFamily={mode === "TYPED" ? "cursive" : undefined}
+              fontSize={mode === "TYPED" ? "xl" : undefined}
+            />
+          </FormControl>
+          {mode === "DRAWN" && (
+            <Box>
+              <Box
+                as="canvas"
+                ref={canvasRef}
+                width={PAD_WIDTH}
+                height={PAD_HEIGHT}
+                w="full"
+                bg="white"
+                borderWidth="1px"
+                borderColor="gray.300"
+                borderRadius="md"
+                cursor="crosshair"
+                style={{ touchAction: "none", aspectRatio: `${PAD_WIDTH} / ${PAD_HEIGHT}` }}
+                onPointerDown={startStroke}
+                onPointerMove={continueStroke}
+                onPointerUp={endStroke}
+                onPointerLeave={endStroke}
+              />
+              <HStack justify="space-between" mt={1}>
+                <Text fontSize="xs" color="gray.500">Sign above with your finger or mouse</Text>
+                <Button size="xs" variant="ghost" onClick={clearPad}>Clear</Button>
+              </HStack>
+            </Box>
+          )}
+        </>
+      )}
+    </VStack>
+  );
+}
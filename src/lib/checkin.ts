@@ -0,0 +1,49 @@
+import { SignJWT, jwtVerify } from "jose";
+
+const CHECKIN_AUDIENCE = "event-checkin";
+
+function getSecret() {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) throw new Error("NEXTAUTH_SECRET is required to sign check-in tokens");
+  return new TextEncoder().encode(secret);
+}
+
+export interface CheckInTokenPayload {
+  registrationId: string;
+  eventId: string;
+}
+
+/**
+ * Sign the token encoded in an attendee's QR code.
+ * It carries no expiry: a token stays valid as long as its registration is CONFIRMED.
+ */
+export async function createCheckInToken({ registrationId, eventId }: CheckInTokenPayload): Promise<string> {
+  return new SignJWT({ eid: eventId })
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(registrationId)
+    .setAudience(CHECKIN_AUDIENCE)
+    .setIssuedAt()
+    .sign(getSecret());
+}
+
+/**
+ * Verify a scanned check-in token
+ * @returns The registration and event it was issued for, or null if the signature is invalid
+ */
+export async function verifyCheckInToken(token: string): Promise<CheckInTokenPayload | null> {
+  try {
+    const { payload } = await jwtVerify(token, getSecret(), { audience: CHECKIN_AUDIENCE });
+    if (!payload.sub || typeof payload.eid !== "string") return null;
+    return { registrationId: payload.sub, eventId: payload.eid };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Public URL of the attendee's ticket page showing their QR code
+ */
+export function getTicketUrl(token: string) {
+  const baseUrl = process.env.NEXTAUTH_URL || "https://thcmembersonlyclub.com";
+  return `${baseUrl}/tickets/${token}`;
+}
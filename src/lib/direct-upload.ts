@@ -0,0 +1,175 @@
+import type { UploadKind } from "@/types";
+
+/**
+ * Browser side of the direct-to-storage multipart uploads (src/app/api/upload/multipart).
+ * Parts go straight to storage a few at a time, each retried on its own; the upload token is kept
+ * in localStorage, so uploading the same file again after a failure or reload resumes it.
+ */
+
+const PART_CONCURRENCY = 3;
+const PART_ATTEMPTS = 4;
+const STORAGE_PREFIX = "direct-upload:";
+
+export class UploadError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+interface PartsResponse {
+  partSize: number;
+  partCount: number;
+  uploaded: Array<{ partNumber: number; size: number }>;
+  urls: Record<string, string>;
+}
+
+export interface DirectUploadOptions {
+  kind: UploadKind;
+  eventId?: string;
+  /** 0-100, counting parts stored by an earlier attempt; 100 once the upload is registered */
+  onProgress?: (percent: number) => void;
+}
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const fieldError = data.error?.fieldErrors && Object.values(data.error.fieldErrors as Record<string, string[]>)[0]?.[0];
+    const message = typeof data.error === "string" ? data.error : fieldError || data.error?.formErrors?.[0];
+    throw new UploadError(message || `Upload failed (${res.status})`, res.status);
+  }
+  return data;
+}
+
+function putPart(url: string, body: Blob, onProgress: (loaded: number) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url);
+    xhr.upload.onprogress = (e) => onProgress(e.loaded);
+    xhr.onload = () => xhr.status >= 200 && xhr.status < 300
+      ? resolve()
+      : reject(new UploadError(`Storage rejected part (${xhr.status})`, xhr.status));
+    xhr.onerror = () => reject(new UploadError("Network error while uploading"));
+    xhr.send(body);
+  });
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const storageKey = (file: File, { kind, eventId }: DirectUploadOptions) =>
+  `${STORAGE_PREFIX}${kind}:${eventId ?? ""}:${file.name}:${file.size}:${file.lastModified}`;
+
+function rememberToken(key: string, token: string | null) {
+  try {
+    if (token) localStorage.setItem(key, token);
+    else localStorage.removeItem(key);
+  } catch {
+    // Private browsing or storage full; uploads still work, they just can't resume
+  }
+}
+
+function storedToken(key: string) {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Upload a file straight to storage (S3, or the local driver in development) and register it
+ * @returns The complete endpoint's reply: `{ imageId, status, variants }` for images,
+ * `{ key, url, fileName, fileSize, mimeType }` for everything else
+ * @throws UploadError with the server's message when the upload is refused or fails
+ */
+export async function uploadDirect<T>(file: File, options: DirectUploadOptions): Promise<T> {
+  const { kind, eventId, onProgress } = options;
+  const resumeKey = storageKey(file, options);
+
+  let token = storedToken(resumeKey);
+  let parts: PartsResponse | null = null;
+  if (token) {
+    try {
+      parts = await postJson<PartsResponse>("/api/upload/multipart/parts", { token });
+    } catch {
+      // Expired or already finished; start over
+      token = null;
+      rememberToken(resumeKey, null);
+    }
+  }
+  if (!token || !parts) {
+    const started = await postJson<{ token: string }>("/api/upload/multipart", {
+      kind,
+      fileName: file.name,
+      fileSize: file.size,
+      contentType: file.type,
+      eventId: eventId ?? null
+    });
+    token = started.token;
+    rememberToken(resumeKey, token);
+    parts = await postJson<PartsResponse>("/api/upload/multipart/parts", { token });
+  }
+
+  const { partSize, urls } = parts;
+  const loaded: Record<number, number> = {};
+  parts.uploaded.forEach((part) => { loaded[part.partNumber] = part.size; });
+  const report = () => {
+    const bytes = Object.keys(loaded).reduce((total, partNumber) => total + loaded[Number(partNumber)], 0);
+    onProgress?.(Math.min(99, Math.round((bytes / file.size) * 100)));
+  };
+  report();
+
+  const uploadPart = async (partNumber: number) => {
+    const body = file.slice((partNumber - 1) * partSize, Math.min(partNumber * partSize, file.size));
+    let url = urls[partNumber];
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await putPart(url, body, (bytes) => { loaded[partNumber] = bytes; report(); });
+        loaded[partNumber] = body.size;
+        report();
+        return;
+      } catch (error) {
+        loaded[partNumber] = 0;
+        report();
+        if (attempt >= PART_ATTEMPTS) throw error;
+        await sleep(1000 * 2 ** (attempt - 1));
+        // Part URLs expire after an hour; ask for a fresh one
+        if (error instanceof UploadError && error.status === 403) {
+          const fresh = await postJson<PartsResponse>("/api/upload/multipart/parts", { token, partNumbers: [partNumber] });
+          url = fresh.urls[partNumber];
+        }
+      }
+    }
+  };
+
+  const queue = Object.keys(urls).map(Number).sort((a, b) => a - b);
+  let failed = false;
+  await Promise.all(Array.from({ length: Math.min(PART_CONCURRENCY, queue.length) }, async () => {
+    while (queue.length > 0 && !failed) {
+      try {
+        await uploadPart(queue.shift()!);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  }));
+
+  try {
+    const result = await postJson<T>("/api/upload/multipart/complete", { token });
+    rememberToken(resumeKey, null);
+    onProgress?.(100);
+    return result;
+  } catch (error) {
+    // Rejected files are deleted and expired uploads are gone; neither can be resumed
+    if (error instanceof UploadError && (error.status === 404 || error.status === 422)) {
+      rememberToken(resumeKey, null);
+    }
+    throw error;
+  }
+}
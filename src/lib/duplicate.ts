@@ -0,0 +1,137 @@
+import type { Coordination, CoordinationDocument, Event, Image, Prisma } from "@prisma/client";
+import { utcToZonedInput, zonedTimeToUtc } from "@/lib/timezone";
+import { generateUniqueEventSlug } from "@/lib/utils";
+
+const WEEK_MS = 7 * 86400000;
+
+type SourceEvent = Event & {
+  images: Image[];
+  waivers: Array<{ id: string }>;
+  coordination: Array<Coordination & { documents: CoordinationDocument[] }>;
+};
+
+/**
+ * Move the local date of a "YYYY-MM-DDTHH:mm" value forward by whole weeks
+ */
+function addWeeks(localDateTime: string, weeks: number) {
+  const [year, month, day] = localDateTime.slice(0, 10).split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + weeks * 7)).toISOString().slice(0, 10);
+  return `${date}${localDateTime.slice(10)}`;
+}
+
+/**
+ * Dates for a copy of an event: the first same-weekday slot after both the original and now,
+ * at the same wall-clock time in the event's timezone (so DST changes don't shift it)
+ */
+export function getDuplicateSchedule(event: Pick<Event, "startAt" | "endAt" | "timezone">, now = new Date()) {
+  const weeks = Math.max(1, Math.ceil((now.getTime() - event.startAt.getTime()) / WEEK_MS));
+  const startAt = zonedTimeToUtc(addWeeks(utcToZonedInput(event.startAt, event.timezone), weeks), event.timezone);
+  const endAt = event.endAt
+    ? zonedTimeToUtc(addWeeks(utcToZonedInput(event.endAt, event.timezone), weeks), event.timezone)
+    : null;
+  return { startAt, endAt };
+}
+
+/**
+ * Copy an event into a new draft owned by `ownerId`, with a fresh slug and schedule.
+ * Images are copied as new records pointing at the same stored files; coordination sheets
+ * (with their documents) only when asked. Waivers stay attached; registrations (and their
+ * signatures), revisions and series links stay behind.
+ */
+export async function duplicateEvent(
+  tx: Prisma.TransactionClient,
+  source: SourceEvent,
+  { ownerId, includeCoordination }: { ownerId: string; includeCoordination: boolean }
+) {
+  const title = `${source.title} (Copy)`.slice(0, 140);
+  const { startAt, endAt } = getDuplicateSchedule(source);
+
+  const event = await tx.event.create({
+    data: {
+      slug: await generateUniqueEventSlug(title, source.locationName, { db: tx }),
+      title,
+      description: source.description,
+      ticketUrl: source.ticketUrl,
+      buttonType: source.buttonType,
+      category: source.category,
+      tags: source.tags,
+      access: source.access,
+      tierIds: source.tierIds,
+      waivers: { connect: source.waivers.map(waiver => ({ id: waiver.id })) },
+      locationName: source.locationName,
+      address: source.address,
+      city: source.city,
+      state: source.state,
+      latitude: source.latitude,
+      longitude: source.longitude,
+      venueId: source.venueId,
+      startAt,
+      endAt,
+      timezone: source.timezone,
+      status: "DRAFT",
+      capacity: source.capacity,
+      waitlistEnabled: source.waitlistEnabled,
+      ownerId
+    }
+  });
+
+  const images = [...source.images];
+  // The hero image may be owned by no event (e.g. shared with a series template)
+  if (source.heroImageId && !images.some(image => image.id === source.heroImageId)) {
+    const hero = await tx.image.findUnique({ where: { id: source.heroImageId } });
+    if (hero) images.push(hero);
+  }
+  for (const image of images) {
+    // Copies share the source's S3 objects, which don't all exist until processing is done
+    if (image.status !== "READY") continue;
+    const copy = await tx.image.create({
+      data: {
+        eventId: event.id,
+        uploaderId: image.uploaderId,
+        originalKey: image.originalKey,
+        format: image.format,
+        width: image.width,
+        height: image.height,
+        variants: image.variants as Prisma.InputJsonValue
+      }
+    });
+    if (image.id === source.heroImageId) {
+      await tx.event.update({ where: { id: event.id }, data: { heroImageId: copy.id } });
+    }
+  }
+
+  if (includeCoordination) {
+    for (const coordination of source.coordination) {
+      await tx.coordination.create({
+        data: {
+          eventId: event.id,
+          title: coordination.title,
+          description: coordination.description,
+          notes: coordination.notes,
+          specialMessage: coordination.specialMessage,
+          location: coordination.location,
+          importantTimes: coordination.importantTimes ?? undefined,
+          staffParkingAddress: coordination.staffParkingAddress,
+          staffParkingNotes: coordination.staffParkingNotes,
+          pointOfContacts: coordination.pointOfContacts ?? undefined,
+          isActive: coordination.isActive,
+          // New share token by default; custom slugs are unique, so the copy starts without one
+          documents: {
+            create: coordination.documents.map(document => ({
+              title: document.title,
+              description: document.description,
+              type: document.type,
+              fileUrl: document.fileUrl,
+              fileName: document.fileName,
+              fileSize: document.fileSize,
+              mimeType: document.mimeType,
+              sortOrder: document.sortOrder
+            }))
+          }
+        }
+      });
+    }
+  }
+
+  return event;
+}
@@ -13,12 +13,18 @@ const envSchema = z.object({
   // GOOGLE_CLIENT_ID: z.string().optional(),
   // GOOGLE_CLIENT_SECRET: z.string().optional(),
   
-  // AWS S3
-  AWS_REGION: z.string().min(1, 'AWS_REGION is required'),
-  S3_BUCKET: z.string().min(1, 'S3_BUCKET is required'),
-  AWS_ACCESS_KEY_ID: z.string().min(1, 'AWS_ACCESS_KEY_ID is required'),
-  AWS_SECRET_ACCESS_KEY: z.string().min(1, 'AWS_SECRET_ACCESS_KEY is required'),
-  S3_PUBLIC_BASE_URL: z.string().url('Invalid S3_PUBLIC_BASE_URL'),
+  // File storage (src/lib/storage.ts - S3 by default, local disk for development)
+  STORAGE_DRIVER: z.enum(['s3', 'local']).optional(),
+  STORAGE_LOCAL_DIR: z.string().optional(),
+  
+  // AWS S3 or an S3-compatible service (required unless STORAGE_DRIVER=local)
+  AWS_REGION: z.string().optional(),
+  S3_BUCKET: z.string().optional(),
+  AWS_ACCESS_KEY_ID: z.string().optional(),
+  AWS_SECRET_ACCESS_KEY: z.string().optional(),
+  S3_PUBLIC_BASE_URL: z.string().url('Invalid S3_PUBLIC_BASE_URL').optional(),
+  S3_ENDPOINT: z.string().url('Invalid S3_ENDPOINT').optional(),
+  S3_FORCE_PATH_STYLE: z.string().transform(val => val === 'true').optional(),
   
   // Instagram (optional)
   INSTAGRAM_APP_ID: z.string().optional(),
@@ -30,6 +36,25 @@ const envSchema = z.object({
   FACEBOOK_APP_SECRET: z.string().optional(),
   FACEBOOK_REDIRECT_URI: z.string().url().optional(),
   
+  // Transactional email (optional)
+  RESEND_API_KEY: z.string().optional(),
+  EMAIL_FROM: z.string().optional(),
+  
+  // Geocoding (optional - defaults to nominatim in production, static table otherwise)
+  GEOCODING_PROVIDER: z.enum(['nominatim', 'google', 'static', 'none']).optional(),
+  GEOCODING_STATIC_FILE: z.string().optional(),
+  GOOGLE_GEOCODING_API_KEY: z.string().optional(),
+  
+  // Scheduled jobs (Vercel Cron sends it as a bearer token)
+  CRON_SECRET: z.string().optional(),
+  
+  // Abandoned image uploads (optional - deleted by the scheduled jobs after 72 hours unless dry-run)
+  IMAGE_GC_MAX_AGE_HOURS: z.coerce.number().positive().optional(),
+  IMAGE_GC_DRY_RUN: z.string().transform(val => val === 'true').optional(),
+  
+  // Member cards (optional - ES256 PKCS#8 PEM that signs the rotating QR codes)
+  MEMBER_CARD_PRIVATE_KEY: z.string().optional(),
+  
   // Monitoring (optional)
   SENTRY_DSN: z.string().url().optional(),
   GOOGLE_ANALYTICS_ID: z.string().optional(),
@@ -46,6 +71,11 @@ const envSchema = z.object({
   
   // Environment
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
+}).superRefine((vars, ctx) => {
+  if (vars.STORAGE_DRIVER === 'local') return;
+  for (const name of ['S3_BUCKET', 'S3_PUBLIC_BASE_URL'] as const) {
+    if (!vars[name]) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [name], message: `${name} is required for S3 storage` });
+  }
 });
 
 // Validate environment variables
@@ -92,10 +122,12 @@ export const requiredProductionVars = [
   'DATABASE_URL',
   'NEXTAUTH_URL',
   'NEXTAUTH_SECRET',
+] as const;
+
+// Required in production unless STORAGE_DRIVER=local
+export const requiredS3Vars = [
   'AWS_REGION',
   'S3_BUCKET',
-  'AWS_ACCESS_KEY_ID',
-  'AWS_SECRET_ACCESS_KEY',
   'S3_PUBLIC_BASE_URL',
 ] as const;
 
@@ -103,7 +135,10 @@ export const requiredProductionVars = [
 export function validateProductionEnv(): boolean {
   if (!isProduction) return true;
   
-  const missing = requiredProductionVars.filter(varName => !process.env[varName]);
+  const required = process.env.STORAGE_DRIVER === 'local'
+    ? [...requiredProductionVars]
+    : [...requiredProductionVars, ...requiredS3Vars];
+  const missing = required.filter(varName => !process.env[varName]);
   
   if (missing.length > 0) {
     throw new Error(`Missing required production environment variables: ${missing.join(', ')}`);
@@ -0,0 +1,145 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { DATE_RANGES, EVENT_CATEGORY_VALUES, PRICE_TYPES, getDateRange, normalizeTags, type DateRange } from "@/lib/taxonomy";
+
+/**
+ * Taxonomy filters for GET /api/events and the facet counts shown next to them.
+ * Facets take comma-separated values and match any of them (category=social,workshop);
+ * different facets must all match.
+ */
+
+export const FACETS = ["category", "tag", "city", "buttonType", "when"] as const;
+export type Facet = typeof FACETS[number];
+
+export type EventFilters = {
+  category?: string[];
+  tag?: string[];
+  city?: string[];
+  buttonType?: string[];
+  when?: DateRange;
+};
+
+export type FacetCount = { value: string; count: number };
+export type EventFacets = Record<Facet, FacetCount[]>;
+
+// Cities and tags can be many; the filters only offer the most common ones
+const MAX_FACET_VALUES = 20;
+
+const listParam = (value: string | null) =>
+  value ? value.split(",").map(part => part.trim()).filter(Boolean) : [];
+
+/**
+ * Read the facet parameters, or explain the first one that isn't valid
+ */
+export function parseEventFilters(searchParams: URLSearchParams): { filters: EventFilters } | { error: string } {
+  const filters: EventFilters = {};
+
+  const categories = listParam(searchParams.get("category"));
+  if (categories.some(category => !(EVENT_CATEGORY_VALUES as readonly string[]).includes(category))) {
+    return { error: `category must be one of ${EVENT_CATEGORY_VALUES.join(", ")}` };
+  }
+  if (categories.length > 0) filters.category = categories;
+
+  const buttonTypes = listParam(searchParams.get("buttonType"));
+  if (buttonTypes.some(type => !PRICE_TYPES.some(price => price.value === type))) {
+    return { error: "buttonType must be RSVP or BUY_TICKETS" };
+  }
+  if (buttonTypes.length > 0) filters.buttonType = buttonTypes;
+
+  const tags = normalizeTags(listParam(searchParams.get("tag")));
+  if (tags.length > 0) filters.tag = tags;
+
+  const cities = listParam(searchParams.get("city"));
+  if (cities.length > 0) filters.city = cities;
+
+  const when = searchParams.get("when");
+  if (when) {
+    if (!DATE_RANGES.some(range => range.value === when)) {
+      return { error: `when must be one of ${DATE_RANGES.map(range => range.value).join(", ")}` };
+    }
+    filters.when = when as DateRange;
+  }
+
+  return { filters };
+}
+
+function dateRangeCondition(range: DateRange, now: Date): Prisma.EventWhereInput {
+  const { from, to } = getDateRange(range, now)!;
+  return { startAt: { gte: from, lt: to } };
+}
+
+/**
+ * One where clause per active facet, kept apart so each facet can be counted without its own filter
+ */
+export function facetConditions(filters: EventFilters, now = new Date()): Partial<Record<Facet, Prisma.EventWhereInput>> {
+  const conditions: Partial<Record<Facet, Prisma.EventWhereInput>> = {};
+  if (filters.category) conditions.category = { category: { in: filters.category } };
+  if (filters.tag) conditions.tag = { tags: { hasSome: filters.tag } };
+  if (filters.city) conditions.city = { OR: filters.city.map(city => ({ city: { equals: city, mode: "insensitive" as const } })) };
+  if (filters.buttonType) conditions.buttonType = { buttonType: { in: filters.buttonType as Array<"RSVP" | "BUY_TICKETS"> } };
+  if (filters.when) conditions.when = dateRangeCondition(filters.when, now);
+  return conditions;
+}
+
+export function applyFacetConditions(
+  where: Prisma.EventWhereInput,
+  conditions: Partial<Record<Facet, Prisma.EventWhereInput>>,
+  except?: Facet
+): Prisma.EventWhereInput {
+  const active = (Object.entries(conditions) as Array<[Facet, Prisma.EventWhereInput]>)
+    .filter(([facet]) => facet !== except)
+    .map(([, condition]) => condition);
+  return active.length > 0 ? { AND: [where, ...active] } : where;
+}
+
+const byCount = (a: FacetCount, b: FacetCount) => b.count - a.count || a.value.localeCompare(b.value);
+
+/**
+ * How many events each facet value would match, given `where` and the other active facets
+ */
+export async function getEventFacets(
+  where: Prisma.EventWhereInput,
+  conditions: Partial<Record<Facet, Prisma.EventWhereInput>>,
+  now = new Date()
+): Promise<EventFacets> {
+  const scoped = (facet: Facet) => applyFacetConditions(where, conditions, facet);
+
+  const [categories, cities, buttonTypes, tagged, ranges]: [
+    Array<{ category: string | null; _count: { _all: number } }>,
+    Array<{ city: string | null; _count: { _all: number } }>,
+    Array<{ buttonType: string; _count: { _all: number } }>,
+    Array<{ tags: string[] }>,
+    number[]
+  ] = await Promise.all([
+    prisma.event.groupBy({ by: ["category"], where: { AND: [scoped("category"), { category: { not: null } }] }, _count: { _all: true } }),
+    prisma.event.groupBy({ by: ["city"], where: { AND: [scoped("city"), { city: { not: null } }] }, _count: { _all: true } }),
+    prisma.event.groupBy({ by: ["buttonType"], where: scoped("buttonType"), _count: { _all: true } }),
+    // Postgres arrays can't be grouped through Prisma, so tags are counted here
+    prisma.event.findMany({ where: { AND: [scoped("tag"), { tags: { isEmpty: false } }] }, select: { tags: true } }),
+    Promise.all(DATE_RANGES.map(range =>
+      prisma.event.count({ where: { AND: [scoped("when"), dateRangeCondition(range.value, now)] } })
+    ))
+  ]);
+
+  const tagCounts = new Map<string, number>();
+  for (const { tags } of tagged) {
+    for (const tag of tags) tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+  }
+
+  // City spellings differ in case between events; they filter together, so count them together
+  const cityCounts = new Map<string, FacetCount>();
+  for (const row of cities) {
+    const key = row.city!.trim().toLowerCase();
+    const existing = cityCounts.get(key);
+    if (existing) existing.count += row._count._all;
+    else cityCounts.set(key, { value: row.city!.trim(), count: row._count._all });
+  }
+
+  return {
+    category: categories.map(row => ({ value: row.category!, count: row._count._all })).sort(byCount),
+    tag: Array.from(tagCounts, ([value, count]) => ({ value, count })).sort(byCount).slice(0, MAX_FACET_VALUES),
+    city: Array.from(cityCounts.values()).sort(byCount).slice(0, MAX_FACET_VALUES),
+    buttonType: buttonTypes.map(row => ({ value: row.buttonType, count: row._count._all })).sort(byCount),
+    when: DATE_RANGES.map((range, index) => ({ value: range.value, count: ranges[index] }))
+  };
+}
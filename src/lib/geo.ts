@@ -0,0 +1,80 @@
+/**
+ * Coordinate helpers for location-based event queries (map bounds, "near me").
+ * Distances are in kilometres.
+ */
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export interface BoundingBox {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points (haversine)
+ */
+export function distanceKm(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Smallest box containing the circle, to narrow a radius search down in the database
+ * before measuring exact distances
+ */
+export function boundingBoxAround(center: LatLng, radiusKm: number): BoundingBox {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  // Longitude degrees shrink towards the poles; near them, take every longitude
+  const cosLat = Math.cos(toRadians(center.latitude));
+  const lngDelta = cosLat < 1e-6 ? 180 : Math.min(180, latDelta / cosLat);
+  return {
+    west: lngDelta >= 180 ? -180 : wrapLongitude(center.longitude - lngDelta),
+    south: Math.max(-90, center.latitude - latDelta),
+    east: lngDelta >= 180 ? 180 : wrapLongitude(center.longitude + lngDelta),
+    north: Math.min(90, center.latitude + latDelta)
+  };
+}
+
+function wrapLongitude(longitude: number): number {
+  if (longitude >= -180 && longitude <= 180) return longitude;
+  return ((((longitude + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * "west,south,east,north" as sent by map clients; null when malformed.
+ * A west edge greater than the east edge means the box crosses the antimeridian.
+ */
+export function parseBoundingBox(value: string | null): BoundingBox | null {
+  if (!value) return null;
+  const parts = value.split(",").map(Number);
+  if (parts.length !== 4 || parts.some(part => !Number.isFinite(part))) return null;
+
+  const [west, south, east, north] = parts;
+  if (south > north || south < -90 || north > 90) return null;
+  // Maps zoomed far out can report longitudes beyond ±180
+  if (east - west >= 360) return { west: -180, south, east: 180, north };
+  return { west: wrapLongitude(west), south, east: wrapLongitude(east), north };
+}
+
+/**
+ * "lat,lng"; null when malformed
+ */
+export function parseLatLng(value: string | null): LatLng | null {
+  if (!value) return null;
+  const [latitude, longitude] = value.split(",").map(Number);
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+}
@@ -0,0 +1,240 @@
+import { readFileSync } from "fs";
+import type { Event } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+
+/**
+ * Address → coordinates lookups for events, behind a provider interface so production can use
+ * a real service while tests and offline development use a static table.
+ *
+ * GEOCODING_PROVIDER selects the provider:
+ * - "nominatim" (default in production): OpenStreetMap, no key required
+ * - "google": Google Geocoding API, needs GOOGLE_GEOCODING_API_KEY
+ * - "static" (default in development and tests): addresses listed in the JSON file at
+ *   GEOCODING_STATIC_FILE, as { "<address>": { "latitude": 0, "longitude": 0 } }
+ * - "none": never look anything up
+ */
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  /** Resolves to null when the address has no match; throws when the lookup itself failed */
+  geocode(query: string): Promise<GeocodeResult | null>;
+}
+
+const LOOKUP_TIMEOUT_MS = 5000;
+
+/**
+ * Cache key for an address: lower-cased, single-spaced, without empty parts
+ */
+export function normalizeAddress(parts: Array<string | null | undefined>): string {
+  return parts
+    .map(part => (part ?? "").trim().replace(/\s+/g, " ").toLowerCase())
+    .filter(Boolean)
+    .join(", ");
+}
+
+export function createStaticProvider(table: Record<string, GeocodeResult>): GeocodingProvider {
+  const entries = new Map(
+    Object.entries(table).map(([address, result]) => [normalizeAddress([address]), result])
+  );
+  return {
+    name: "static",
+    async geocode(query) {
+      return entries.get(query) ?? null;
+    }
+  };
+}
+
+function loadStaticTable(): Record<string, GeocodeResult> {
+  const file = process.env.GEOCODING_STATIC_FILE;
+  if (!file) return {};
+  try {
+    return JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    logger.error('Failed to read static geocoding table', error as Error, { file });
+    return {};
+  }
+}
+
+// Nominatim's usage policy allows one request per second
+const NOMINATIM_INTERVAL_MS = 1000;
+let nominatimNextSlot = 0;
+
+/**
+ * Wait for this process's next free Nominatim slot. Slots are claimed before waiting, so
+ * concurrent lookups queue up a second apart instead of all firing at once.
+ */
+async function waitForNominatimSlot() {
+  const now = Date.now();
+  const slot = Math.max(now, nominatimNextSlot);
+  nominatimNextSlot = slot + NOMINATIM_INTERVAL_MS;
+  if (slot > now) await new Promise(resolve => setTimeout(resolve, slot - now));
+}
+
+const nominatimProvider: GeocodingProvider = {
+  name: "nominatim",
+  async geocode(query) {
+    await waitForNominatimSlot();
+    const params = new URLSearchParams({ q: query, format: "jsonv2", limit: "1", countrycodes: "us" });
+    const res = await fetch(`https://nominatim.openstreetmap.org/search?${params}`, {
+      // Nominatim's usage policy requires an identifying User-Agent
+      headers: { "User-Agent": `THC Members Only Club (${process.env.NEXTAUTH_URL || "https://thcmembersonlyclub.com"})` },
+      signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS)
+    });
+    if (!res.ok) throw new Error(`Nominatim responded with ${res.status}`);
+
+    const results: Array<{ lat: string; lon: string }> = await res.json();
+    if (results.length === 0) return null;
+    return { latitude: Number(results[0].lat), longitude: Number(results[0].lon) };
+  }
+};
+
+const googleProvider: GeocodingProvider = {
+  name: "google",
+  async geocode(query) {
+    const key = process.env.GOOGLE_GEOCODING_API_KEY;
+    if (!key) throw new Error("GOOGLE_GEOCODING_API_KEY is not configured");
+
+    const params = new URLSearchParams({ address: query, key });
+    const res = await fetch(`https://maps.googleapis.com/maps/api/geocode/json?${params}`, {
+      signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS)
+    });
+    if (!res.ok) throw new Error(`Google Geocoding responded with ${res.status}`);
+
+    const data: { status: string; results: Array<{ geometry: { location: { lat: number; lng: number } } }> } = await res.json();
+    if (data.status === "ZERO_RESULTS") return null;
+    if (data.status !== "OK") throw new Error(`Google Geocoding returned ${data.status}`);
+    const { lat, lng } = data.results[0].geometry.location;
+    return { latitude: lat, longitude: lng };
+  }
+};
+
+let provider: GeocodingProvider | null | undefined;
+
+/**
+ * Provider chosen by GEOCODING_PROVIDER, or null when geocoding is turned off
+ */
+export function getGeocodingProvider(): GeocodingProvider | null {
+  if (provider !== undefined) return provider;
+
+  const name = process.env.GEOCODING_PROVIDER || (process.env.NODE_ENV === "production" ? "nominatim" : "static");
+  switch (name) {
+    case "nominatim": provider = nominatimProvider; break;
+    case "google": provider = googleProvider; break;
+    case "static": provider = createStaticProvider(loadStaticTable()); break;
+    case "none": provider = null; break;
+    default:
+      logger.warn('Unknown GEOCODING_PROVIDER, geocoding disabled', { provider: name });
+      provider = null;
+  }
+  return provider;
+}
+
+/**
+ * Replace the configured provider, e.g. with createStaticProvider in tests
+ */
+export function setGeocodingProvider(next: GeocodingProvider | null) {
+  provider = next;
+}
+
+/**
+ * Look up an address through the cache, asking the provider only on a miss.
+ * "No match" answers are cached too; errors are not, so they're retried next time.
+ */
+export async function geocodeAddress(query: string): Promise<GeocodeResult | null> {
+  const geocoder = getGeocodingProvider();
+  if (!geocoder) return null;
+
+  const cached = await prisma.geocodeCache.findUnique({ where: { query } });
+  if (cached && cached.provider === geocoder.name) {
+    return cached.latitude != null && cached.longitude != null
+      ? { latitude: cached.latitude, longitude: cached.longitude }
+      : null;
+  }
+
+  const result = await geocoder.geocode(query);
+  const data = { provider: geocoder.name, latitude: result?.latitude ?? null, longitude: result?.longitude ?? null };
+  await prisma.geocodeCache.upsert({ where: { query }, create: { query, ...data }, update: data });
+  return result;
+}
+
+// Event fields the lookup query is built from; changing any of them means looking up again
+export const LOCATION_FIELDS = ["locationName", "address", "city", "state"] as const;
+
+type GeocodableEvent = Pick<Event, "id" | typeof LOCATION_FIELDS[number]>;
+
+/**
+ * Fill an event's coordinates from its location fields and record how that went, so failures
+ * show up for organizers to fix by hand. Never throws: a failed lookup must not fail the save.
+ */
+export async function geocodeEvent(event: GeocodableEvent): Promise<void> {
+  if (!getGeocodingProvider()) return;
+
+  // A street address is enough on its own; without one, the venue name narrows down the city
+  const query = normalizeAddress(event.address
+    ? [event.address, event.city, event.state]
+    : [event.locationName, event.city, event.state]);
+  if (!query) {
+    // Fields holding only whitespace are cleared too, so geocodePendingEvents stops picking them
+    const blankFields: Record<string, null> = {};
+    for (const field of LOCATION_FIELDS) {
+      if (event[field] != null && !event[field]!.trim()) blankFields[field] = null;
+    }
+    await prisma.event.update({
+      where: { id: event.id },
+      data: { ...blankFields, latitude: null, longitude: null, geocodeStatus: null, geocodeError: null }
+    });
+    return;
+  }
+
+  try {
+    const result = await geocodeAddress(query);
+    await prisma.event.update({
+      where: { id: event.id },
+      data: result
+        ? { ...result, geocodeStatus: "OK", geocodeError: null }
+        : { latitude: null, longitude: null, geocodeStatus: "FAILED", geocodeError: `No match found for "${query}"` }
+    });
+  } catch (error) {
+    logger.error('Geocoding failed', error as Error, { eventId: event.id, query });
+    await prisma.event.update({
+      where: { id: event.id },
+      data: { geocodeStatus: "FAILED", geocodeError: error instanceof Error ? error.message : "Lookup failed" }
+    }).catch(() => {});
+  }
+}
+
+/**
+ * Geocode events that have a location but were never looked up, such as generated
+ * series occurrences. Run by the scheduler in small batches; Nominatim's are smaller, since
+ * its lookups go out a second apart and the whole run has to fit the cron's 30 seconds.
+ */
+export async function geocodePendingEvents(limit?: number): Promise<number> {
+  const geocoder = getGeocodingProvider();
+  if (!geocoder) return 0;
+
+  const pending = await prisma.event.findMany({
+    where: {
+      geocodeStatus: null,
+      status: { in: ["DRAFT", "PUBLISHED"] },
+      // Forms may have saved blank fields as "" rather than null; those have nothing to look up
+      OR: [
+        { AND: [{ address: { not: null } }, { address: { not: "" } }] },
+        { AND: [{ locationName: { not: null } }, { locationName: { not: "" } }] }
+      ]
+    },
+    select: { id: true, locationName: true, address: true, city: true, state: true },
+    orderBy: { startAt: "asc" },
+    take: limit ?? (geocoder.name === "nominatim" ? 10 : 20)
+  });
+
+  for (const event of pending) {
+    await geocodeEvent(event);
+  }
+  return pending.length;
+}
@@ -0,0 +1,210 @@
+import type { Event } from "@prisma/client";
+import { getEndOfZonedDay, getTimeZoneOffset, getZonedParts } from "@/lib/timezone";
+
+/**
+ * iCalendar (RFC 5545) output for events: single-event downloads and the subscribable feed.
+ * Times are written in each event's own timezone with a generated VTIMEZONE, so calendar
+ * apps show the right wall-clock time even across DST changes.
+ */
+
+export type IcsEvent = Pick<Event,
+  'id' | 'slug' | 'title' | 'description' | 'locationName' | 'address' | 'city' | 'state' |
+  'startAt' | 'endAt' | 'timezone' | 'status' | 'updatedAt'
+>;
+
+const PRODID = "-//THC Members Only Club//Events//EN";
+const DAY_MS = 86400000;
+
+const pad = (n: number, width = 2) => String(Math.abs(n)).padStart(width, "0");
+
+function getBaseUrl() {
+  return process.env.NEXTAUTH_URL || "https://thcmembersonlyclub.com";
+}
+
+export function getEventUrl(slug: string) {
+  return `${getBaseUrl()}/events/${slug}`;
+}
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Fold a content line to 75 octets, continuing with CRLF + space, without splitting characters
+ */
+function foldLine(line: string) {
+  const chunks: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their 75
+    if (octets + size > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+function formatUtc(date: Date) {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+function formatLocal(date: Date, timeZone: string) {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+}
+
+// Wall-clock value of an instant shifted by a fixed offset, for VTIMEZONE DTSTART lines
+function formatShifted(instant: number, offset: number) {
+  return formatUtc(new Date(instant + offset)).slice(0, -1);
+}
+
+function formatOffset(offset: number) {
+  const minutes = Math.round(offset / 60000);
+  return `${minutes < 0 ? "-" : "+"}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+}
+
+function getZoneAbbreviation(date: Date, timeZone: string) {
+  const part = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" })
+    .formatToParts(date)
+    .find(p => p.type === "timeZoneName");
+  return part?.value;
+}
+
+/**
+ * Find the instants between `from` and `to` where the zone's UTC offset changes
+ */
+function findTransitions(timeZone: string, from: number, to: number) {
+  const transitions: Array<{ at: number; offsetFrom: number; offsetTo: number }> = [];
+  let prev = getTimeZoneOffset(new Date(from), timeZone);
+
+  for (let t = from + DAY_MS; t <= to; t += DAY_MS) {
+    const offset = getTimeZoneOffset(new Date(t), timeZone);
+    if (offset === prev) continue;
+
+    // Narrow the change down to the minute
+    let lo = t - DAY_MS;
+    let hi = t;
+    while (hi - lo > 60000) {
+      const mid = lo + Math.floor((hi - lo) / 120000) * 60000;
+      if (getTimeZoneOffset(new Date(mid), timeZone) === prev) lo = mid;
+      else hi = mid;
+    }
+    transitions.push({ at: hi, offsetFrom: prev, offsetTo: offset });
+    prev = offset;
+  }
+
+  return transitions;
+}
+
+/**
+ * VTIMEZONE covering the years the given instants fall in. Each DST change is listed
+ * explicitly rather than as an RRULE, which every client understands.
+ */
+function buildTimezone(timeZone: string, instants: Date[]) {
+  const years = instants.map(d => d.getUTCFullYear());
+  const from = Date.UTC(Math.min(...years), 0, 1);
+  const to = Date.UTC(Math.max(...years) + 1, 0, 1);
+
+  const initial = getTimeZoneOffset(new Date(from), timeZone);
+  const transitions = findTransitions(timeZone, from, to);
+  const standardOffset = Math.min(initial, ...transitions.map(t => t.offsetTo));
+
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+  const observances = [{ at: from, offsetFrom: initial, offsetTo: initial }, ...transitions];
+  for (const { at, offsetFrom, offsetTo } of observances) {
+    const kind = offsetTo > standardOffset ? "DAYLIGHT" : "STANDARD";
+    const name = getZoneAbbreviation(new Date(at), timeZone);
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatShifted(at, offsetFrom)}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      ...(name ? [`TZNAME:${name}`] : []),
+      `END:${kind}`
+    );
+  }
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+/**
+ * Archived events that already happened stay confirmed; archiving an upcoming event
+ * (or cancelling it) means it won't take place
+ */
+function getIcsStatus(event: IcsEvent, now: Date) {
+  if (event.status === "CANCELLED") return "CANCELLED";
+  if (event.status === "ARCHIVED") return (event.endAt ?? getEndOfZonedDay(event.startAt, event.timezone)) <= now ? "CONFIRMED" : "CANCELLED";
+  if (event.status === "DRAFT") return "TENTATIVE";
+  return "CONFIRMED";
+}
+
+function buildEvent(event: IcsEvent, now: Date) {
+  const host = new URL(getBaseUrl()).host;
+  const url = getEventUrl(event.slug);
+  const location = [event.locationName, event.address, event.city, event.state].filter(Boolean).join(", ");
+  const description = [event.description, url].filter(Boolean).join("\n\n");
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${event.id}@${host}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `LAST-MODIFIED:${formatUtc(event.updatedAt)}`,
+    // SEQUENCE must grow with each change; seconds since the epoch of the last update always do
+    `SEQUENCE:${Math.floor(event.updatedAt.getTime() / 1000)}`,
+    `DTSTART;TZID=${event.timezone}:${formatLocal(event.startAt, event.timezone)}`,
+    ...(event.endAt ? [`DTEND;TZID=${event.timezone}:${formatLocal(event.endAt, event.timezone)}`] : []),
+    `SUMMARY:${escapeText(event.title)}`,
+    ...(location ? [`LOCATION:${escapeText(location)}`] : []),
+    `DESCRIPTION:${escapeText(description)}`,
+    `URL:${url}`,
+    `STATUS:${getIcsStatus(event, now)}`,
+    "END:VEVENT"
+  ];
+}
+
+/**
+ * Serialize events into a VCALENDAR document
+ * @param options.name Calendar name shown by subscribing apps
+ */
+export function buildCalendar(events: IcsEvent[], options: { name?: string } = {}): string {
+  const now = new Date();
+
+  const instantsByZone = new Map<string, Date[]>();
+  for (const event of events) {
+    const instants = instantsByZone.get(event.timezone) ?? [];
+    instants.push(event.startAt, ...(event.endAt ? [event.endAt] : []));
+    instantsByZone.set(event.timezone, instants);
+  }
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(options.name ? [
+      `X-WR-CALNAME:${escapeText(options.name)}`,
+      "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+      "X-PUBLISHED-TTL:PT1H"
+    ] : []),
+    ...Array.from(instantsByZone.entries()).flatMap(([timeZone, instants]) => buildTimezone(timeZone, instants)),
+    ...events.flatMap(event => buildEvent(event, now)),
+    "END:VCALENDAR"
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,28 @@
+import type { ImageVariants } from "@/types";
+
+const POLL_INTERVAL_MS = 1500;
+const POLL_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Wait for the job worker to finish an image accepted by POST /api/upload (which replies
+ * `status: "processing"`), polling /api/images/status/[id]. Used by the image uploaders.
+ * @returns The generated variants
+ * @throws If processing failed or is still running after five minutes
+ */
+export async function waitForImageVariants(imageId: string): Promise<ImageVariants> {
+  const deadline = Date.now() + POLL_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+
+    const res = await fetch(`/api/images/status/${imageId}`, { cache: "no-store" });
+    // Transient errors are retried until the deadline
+    if (!res.ok) continue;
+
+    const data: { status: string; variants: ImageVariants | null; error: string | null } = await res.json();
+    if (data.status === "ready" && data.variants) return data.variants;
+    if (data.status === "failed") throw new Error(data.error || "Image processing failed");
+  }
+
+  throw new Error("Image is taking longer than usual to process; try again in a few minutes");
+}
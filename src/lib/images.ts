@@ -1,4 +1,8 @@
 import sharp from "sharp";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getStorage } from "@/lib/storage";
+import type { ImageVariants } from "@/types";
 
 export const VARIANTS = [
   { name: "tiny",  width: 300 },
@@ -19,3 +23,59 @@ export async function makeVariant(buf: Buffer, width: number) {
   const meta = await sharp(webp).metadata();
   return { webp, jpeg, width: meta.width!, height: meta.height! };
 }
+
+// Uploads are stored as `${baseKey}_source.${ext}`; variants are written next to them
+export const SOURCE_SUFFIX = "_source";
+
+export const variantBaseKey = (originalKey: string) => originalKey.replace(/_source\.[^./]+$/, "");
+
+/** Where one format of a variant is stored; "orig" is the capped original */
+export const variantKey = (baseKey: string, name: string, extension: "webp" | "jpg") => `${baseKey}_${name}.${extension}`;
+
+/**
+ * Resize an uploaded image into every variant plus the capped original, and mark it READY.
+ * Runs in the job worker ("image.variants" jobs); safe to run again after a partial failure.
+ */
+export async function generateImageVariants(imageId: string) {
+  const image = await prisma.image.findUnique({ where: { id: imageId } });
+  // Deleted while queued, or already done by an earlier attempt
+  if (!image || image.status === "READY") return;
+
+  const storage = getStorage();
+  const store = async (key: string, body: Buffer, contentType: string) => {
+    await storage.put(key, body, { contentType });
+    return storage.publicUrl(key);
+  };
+
+  const baseBuf = await normalizeBuffer(await storage.get(image.originalKey));
+  const baseKey = variantBaseKey(image.originalKey);
+  const variants: Partial<ImageVariants> = {};
+
+  for (const v of VARIANTS) {
+    const out = await makeVariant(baseBuf, v.width);
+    const webpKey = variantKey(baseKey, v.name, "webp");
+    const jpgKey  = variantKey(baseKey, v.name, "jpg");
+    const webpUrl = await store(webpKey, out.webp, "image/webp");
+    const jpgUrl  = await store(jpgKey, out.jpeg, "image/jpeg");
+    variants[v.name] = { width: out.width, height: out.height, webpKey, jpgKey, webpUrl, jpgUrl };
+  }
+
+  // Original (capped to 2400w)
+  const hero = await makeVariant(baseBuf, 2400);
+  const origWebpKey = variantKey(baseKey, "orig", "webp");
+  const origJpgKey  = variantKey(baseKey, "orig", "jpg");
+  const origWebpUrl = await store(origWebpKey, hero.webp, "image/webp");
+  const origJpgUrl  = await store(origJpgKey, hero.jpeg, "image/jpeg");
+  variants.original = { webpKey: origWebpKey, jpgKey: origJpgKey, webpUrl: origWebpUrl, jpgUrl: origJpgUrl, width: hero.width, height: hero.height };
+
+  await prisma.image.update({
+    where: { id: imageId },
+    data: {
+      width: hero.width,
+      height: hero.height,
+      variants: variants as Prisma.InputJsonValue,
+      status: "READY",
+      processingError: null
+    }
+  });
+}
@@ -0,0 +1,165 @@
+import { hostname } from "os";
+import type { Job, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { generateImageVariants } from "@/lib/images";
+import { sendSurveyEmail } from "@/lib/surveys";
+
+/**
+ * Postgres-backed background jobs for work too slow to do inside a request. Jobs are
+ * enqueued with enqueueJob and run by the worker process (`npm run worker`, scripts/worker.ts).
+ * Failed attempts are retried with exponential backoff; after maxAttempts a job is DEAD
+ * and its handler's onDead runs.
+ */
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export interface JobPayloads {
+  "image.variants": { imageId: string };
+  "survey.email": { surveyId: string; registrationId: string };
+}
+
+export type JobType = keyof JobPayloads;
+
+interface JobHandler<T extends JobType> {
+  run: (payload: JobPayloads[T]) => Promise<void>;
+  /** Called once, when the job runs out of attempts */
+  onDead?: (payload: JobPayloads[T], error: string) => Promise<void>;
+}
+
+const JOB_HANDLERS: { [T in JobType]: JobHandler<T> } = {
+  "image.variants": {
+    run: ({ imageId }) => generateImageVariants(imageId),
+    onDead: async ({ imageId }, error) => {
+      await prisma.image.updateMany({
+        where: { id: imageId, status: "PROCESSING" },
+        data: { status: "FAILED", processingError: error }
+      });
+    }
+  },
+  "survey.email": {
+    run: (payload) => sendSurveyEmail(payload)
+  }
+};
+
+// A RUNNING job whose worker hasn't reported back in this long is assumed to have crashed
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// Finished jobs are kept this long for debugging; DEAD ones stay until someone looks at them
+const SUCCEEDED_RETENTION_DAYS = 7;
+
+/** Wait before attempt `attempts + 1`: 30s, 1m, 2m, ... capped at an hour */
+export const retryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+
+export const defaultWorkerId = () => `${hostname()}:${process.pid}`;
+
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  db: Db = prisma,
+  options: { maxAttempts?: number; runAt?: Date } = {}
+): Promise<Job> {
+  return db.job.create({ data: { type, payload: payload as Prisma.InputJsonValue, ...options } });
+}
+
+/**
+ * Lock up to `limit` due jobs for this worker. SKIP LOCKED lets several workers poll the
+ * same table without picking up the same job.
+ */
+async function claimJobs(limit: number, workerId: string): Promise<Job[]> {
+  return prisma.$queryRaw<Job[]>`
+    UPDATE "Job"
+    SET status = 'RUNNING', attempts = attempts + 1, "lockedAt" = NOW(), "lockedBy" = ${workerId}, "updatedAt" = NOW()
+    WHERE id IN (
+      SELECT id FROM "Job"
+      WHERE status = 'PENDING' AND "runAt" <= NOW()
+      ORDER BY "runAt"
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *`;
+}
+
+/**
+ * Record a failed attempt: back to PENDING after a delay, or DEAD once attempts run out.
+ * Only the worker holding the lock may fail a job, so a stale worker can't clobber a retry.
+ */
+async function failJob(job: Job, error: string, retry = true) {
+  const dead = !retry || job.attempts >= job.maxAttempts;
+  const { count } = await prisma.job.updateMany({
+    where: { id: job.id, status: "RUNNING", lockedBy: job.lockedBy },
+    data: dead
+      ? { status: "DEAD", lastError: error, lockedAt: null, lockedBy: null, completedAt: new Date() }
+      : { status: "PENDING", lastError: error, lockedAt: null, lockedBy: null, runAt: new Date(Date.now() + retryDelay(job.attempts)) }
+  });
+  if (!count || !dead) return;
+
+  logger.warn('Job dead-lettered', { jobId: job.id, type: job.type, attempts: job.attempts, error });
+  const handler = JOB_HANDLERS[job.type as JobType] as JobHandler<JobType> | undefined;
+  try {
+    await handler?.onDead?.(job.payload as unknown as JobPayloads[JobType], error);
+  } catch (onDeadError) {
+    logger.error('Job onDead handler failed', onDeadError as Error, { jobId: job.id, type: job.type });
+  }
+}
+
+async function runJob(job: Job) {
+  const handler = JOB_HANDLERS[job.type as JobType] as JobHandler<JobType> | undefined;
+  if (!handler) {
+    await failJob(job, `Unknown job type "${job.type}"`, false);
+    return false;
+  }
+
+  try {
+    await handler.run(job.payload as unknown as JobPayloads[JobType]);
+    await prisma.job.updateMany({
+      where: { id: job.id, status: "RUNNING", lockedBy: job.lockedBy },
+      data: { status: "SUCCEEDED", lastError: null, lockedAt: null, lockedBy: null, completedAt: new Date() }
+    });
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn('Job attempt failed', { jobId: job.id, type: job.type, attempt: job.attempts, error: message });
+    await failJob(job, message);
+    return false;
+  }
+}
+
+/**
+ * Jobs left RUNNING by a worker that crashed or was killed count as a failed attempt
+ */
+export async function releaseStaleJobs(now = new Date()): Promise<number> {
+  const stale = await prisma.job.findMany({
+    where: { status: "RUNNING", lockedAt: { lt: new Date(now.getTime() - LOCK_TIMEOUT_MS) } }
+  });
+  for (const job of stale) {
+    await failJob(job, `Worker ${job.lockedBy ?? "unknown"} stopped before the job finished`);
+  }
+  return stale.length;
+}
+
+/**
+ * Claim and run one batch of due jobs
+ * @returns How many jobs were run and how many of those failed
+ */
+export async function runJobs({ limit = 5, workerId = defaultWorkerId() } = {}) {
+  const jobs = await claimJobs(limit, workerId);
+  let failed = 0;
+  for (const job of jobs) {
+    if (!(await runJob(job))) failed++;
+  }
+  return { ran: jobs.length, failed };
+}
+
+/**
+ * Delete SUCCEEDED jobs past their retention period
+ * @returns The number of jobs deleted
+ */
+export async function pruneFinishedJobs(now = new Date()): Promise<number> {
+  const { count } = await prisma.job.deleteMany({
+    where: { status: "SUCCEEDED", completedAt: { lt: new Date(now.getTime() - SUCCEEDED_RETENTION_DAYS * 86400000) } }
+  });
+  return count;
+}
@@ -0,0 +1,38 @@
+import { logger } from "@/lib/logger";
+
+const RESEND_API_KEY = process.env.RESEND_API_KEY;
+const EMAIL_FROM = process.env.EMAIL_FROM || "THC Members Only Club <events@thcmembersonlyclub.com>";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Send a transactional email through Resend.
+ * Without RESEND_API_KEY (local development) the message is logged instead of sent.
+ * Never throws: a failed notification must not fail the request that triggered it.
+ */
+export async function sendEmail(message: EmailMessage): Promise<boolean> {
+  if (!RESEND_API_KEY) {
+    logger.info('Email not sent (RESEND_API_KEY not configured)', { to: message.to, subject: message.subject });
+    return false;
+  }
+
+  try {
+    const res = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${RESEND_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ from: EMAIL_FROM, ...message }),
+    });
+    if (!res.ok) throw new Error(`Resend responded with ${res.status}`);
+    return true;
+  } catch (error) {
+    logger.error('Failed to send email', error as Error, { to: message.to, subject: message.subject });
+    return false;
+  }
+}
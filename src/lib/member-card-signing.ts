@@ -0,0 +1,78 @@
+import { createPrivateKey, createPublicKey, type KeyObject } from "crypto";
+import { SignJWT, exportJWK, type JWK } from "jose";
+import { prisma } from "@/lib/prisma";
+import { activeTierId, isVerifiedMember, membershipExpiresOn, type Viewer } from "@/lib/members";
+import { CARD_WINDOW_SECONDS, MEMBER_CARD_AUDIENCE, type MemberCard, type MemberCardCode } from "@/lib/member-card";
+
+// Ten minutes of codes, so a card keeps rotating through a patchy signal
+const CODES_PER_BATCH = 20;
+
+let privateKey: KeyObject | null = null;
+
+/**
+ * The ES256 key from MEMBER_CARD_PRIVATE_KEY (PKCS#8 PEM; literal "\n"s are accepted so it fits
+ * on one line), or null when member cards aren't configured
+ */
+function getPrivateKey(): KeyObject | null {
+  const pem = process.env.MEMBER_CARD_PRIVATE_KEY;
+  if (!pem) return null;
+  privateKey ??= createPrivateKey(pem.replace(/\\n/g, "\n"));
+  return privateKey;
+}
+
+export const isMemberCardConfigured = () => !!process.env.MEMBER_CARD_PRIVATE_KEY;
+
+/**
+ * The public half of the signing key, handed to the door scanner so it can verify offline
+ */
+export async function getMemberCardPublicKey(): Promise<JWK | null> {
+  const key = getPrivateKey();
+  if (!key) return null;
+  const { kty, crv, x, y } = await exportJWK(createPublicKey(key));
+  return { kty, crv, x, y };
+}
+
+/**
+ * What a verified member's card shows; null for visitors and unverified members
+ */
+export async function getMemberCard(viewer: Viewer | null): Promise<MemberCard | null> {
+  if (!viewer || !isVerifiedMember(viewer)) return null;
+
+  const tierId = activeTierId(viewer);
+  const tier = tierId
+    ? await prisma.membershipTier.findUnique({ where: { id: tierId }, select: { name: true } })
+    : null;
+
+  return {
+    userId: viewer.id,
+    name: viewer.name || viewer.email,
+    tier: tier?.name ?? null,
+    tierExpiresOn: tier && viewer.membership?.expiresAt ? membershipExpiresOn(viewer.membership.expiresAt) : null
+  };
+}
+
+/**
+ * Sign the next batch of rotating codes for `card`, starting with the current window.
+ * Codes are never stored; a revoked tier drops off the card once the batch runs out.
+ */
+export async function createMemberCardCodes(card: MemberCard, now = Date.now()): Promise<MemberCardCode[]> {
+  const key = getPrivateKey();
+  if (!key) throw new Error("MEMBER_CARD_PRIVATE_KEY is required to sign member cards");
+
+  const firstWindow = Math.floor(now / 1000 / CARD_WINDOW_SECONDS) * CARD_WINDOW_SECONDS;
+  return Promise.all(Array.from({ length: CODES_PER_BATCH }, async (_, i) => {
+    const notBefore = firstWindow + i * CARD_WINDOW_SECONDS;
+    const token = await new SignJWT({
+      n: card.name,
+      ...(card.tier ? { t: card.tier } : {}),
+      ...(card.tierExpiresOn ? { x: card.tierExpiresOn } : {})
+    })
+      .setProtectedHeader({ alg: "ES256" })
+      .setSubject(card.userId)
+      .setAudience(MEMBER_CARD_AUDIENCE)
+      .setNotBefore(notBefore)
+      .setExpirationTime(notBefore + CARD_WINDOW_SECONDS)
+      .sign(key);
+    return { token, notBefore };
+  }));
+}
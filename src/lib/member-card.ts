@@ -0,0 +1,68 @@
+import { importJWK, jwtVerify, type JWK } from "jose";
+
+/**
+ * Member card QR codes. Each code is an ES256 token valid for one short window; the card page
+ * rotates through a batch of them, and door staff verify them against the public key alone,
+ * so scanning keeps working while the venue is offline. Signing lives in member-card-signing.ts.
+ */
+
+export const MEMBER_CARD_AUDIENCE = "member-card";
+// Each code is shown for this long...
+export const CARD_WINDOW_SECONDS = 30;
+// ...and accepted this much either side of it, for slow scans and clocks that drift a little
+const CLOCK_TOLERANCE_SECONDS = 30;
+
+export interface MemberCard {
+  userId: string;
+  name: string;
+  tier: string | null;
+  // Last day of the tier (YYYY-MM-DD); null when there's no tier or it doesn't lapse
+  tierExpiresOn: string | null;
+}
+
+export interface MemberCardCode {
+  token: string;
+  // Unix seconds; show the code from notBefore until notBefore + CARD_WINDOW_SECONDS
+  notBefore: number;
+}
+
+export type MemberCardCheck =
+  | { valid: true; card: MemberCard }
+  // "early" means the scanner's clock is behind the phone's by more than the tolerance
+  | { valid: false; reason: "expired" | "early" | "invalid" };
+
+/**
+ * Check a scanned code against the card public key; runs in the browser as well as on the server
+ */
+export async function verifyMemberCardToken(token: string, publicKey: JWK): Promise<MemberCardCheck> {
+  try {
+    const key = await importJWK(publicKey, "ES256");
+    const { payload } = await jwtVerify(token, key, {
+      audience: MEMBER_CARD_AUDIENCE,
+      algorithms: ["ES256"],
+      clockTolerance: CLOCK_TOLERANCE_SECONDS
+    });
+    if (!payload.sub || typeof payload.n !== "string") return { valid: false, reason: "invalid" };
+    return {
+      valid: true,
+      card: {
+        userId: payload.sub,
+        name: payload.n,
+        tier: typeof payload.t === "string" ? payload.t : null,
+        tierExpiresOn: typeof payload.x === "string" ? payload.x : null
+      }
+    };
+  } catch (error) {
+    const { code, claim } = error as { code?: string; claim?: string };
+    if (code === "ERR_JWT_EXPIRED") return { valid: false, reason: "expired" };
+    if (code === "ERR_JWT_CLAIM_VALIDATION_FAILED" && claim === "nbf") return { valid: false, reason: "early" };
+    return { valid: false, reason: "invalid" };
+  }
+}
+
+/**
+ * The code to show at `now` (unix seconds), or null once the batch has run out
+ */
+export function currentCardCode(codes: MemberCardCode[], now: number): MemberCardCode | null {
+  return codes.find(code => now >= code.notBefore && now < code.notBefore + CARD_WINDOW_SECONDS) ?? null;
+}
@@ -0,0 +1,161 @@
+import { SignJWT, jwtVerify } from "jose";
+import type { EventAccess, Prisma, Role } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getServerAuthSession } from "@/lib/auth";
+import { sendEmail } from "@/lib/mailer";
+import { isStaff } from "@/lib/rbac";
+import { getEndOfZonedDay, getZonedDate, zonedTimeToUtc } from "@/lib/timezone";
+
+const VERIFY_AUDIENCE = "email-verification";
+const VERIFY_EXPIRY = "2d";
+
+function getSecret() {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) throw new Error("NEXTAUTH_SECRET is required to sign verification tokens");
+  return new TextEncoder().encode(secret);
+}
+
+/**
+ * Sign the token in a member's verification link. It names the email it was sent to,
+ * so a link stops working if the account's email changes.
+ */
+export async function createEmailVerificationToken(user: { id: string; email: string }): Promise<string> {
+  return new SignJWT({ email: user.email })
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(user.id)
+    .setAudience(VERIFY_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(VERIFY_EXPIRY)
+    .sign(getSecret());
+}
+
+/**
+ * @returns The user and email the link was sent for, or null if it's invalid or expired
+ */
+export async function verifyEmailVerificationToken(token: string): Promise<{ userId: string; email: string } | null> {
+  try {
+    const { payload } = await jwtVerify(token, getSecret(), { audience: VERIFY_AUDIENCE });
+    if (!payload.sub || typeof payload.email !== "string") return null;
+    return { userId: payload.sub, email: payload.email };
+  } catch {
+    return null;
+  }
+}
+
+export async function sendVerificationEmail(user: { id: string; email: string; name?: string | null }) {
+  const baseUrl = process.env.NEXTAUTH_URL || "https://thcmembersonlyclub.com";
+  const token = await createEmailVerificationToken(user);
+  return sendEmail({
+    to: user.email,
+    subject: "Confirm your THC Members Only Club email",
+    text: [
+      `Hi ${user.name || "there"},`,
+      "",
+      "Thanks for joining the THC Members Only Club. Confirm your email address to RSVP to members' events:",
+      `${baseUrl}/api/auth/verify-email?token=${encodeURIComponent(token)}`,
+      "",
+      "The link expires in 2 days. If you didn't sign up, you can ignore this email."
+    ].join("\n")
+  });
+}
+
+export interface Viewer {
+  id: string;
+  email: string;
+  name: string | null;
+  role: Role;
+  emailVerifiedAt: Date | null;
+  membership: { tierId: string; expiresAt: Date | null } | null;
+}
+
+/**
+ * The signed-in user looking at a public page, or null for visitors
+ */
+export async function getViewer(): Promise<Viewer | null> {
+  const session = await getServerAuthSession();
+  if (!session?.user?.email) return null;
+  return prisma.user.findUnique({
+    where: { email: session.user.email },
+    select: {
+      id: true, email: true, name: true, role: true, emailVerifiedAt: true,
+      membership: { select: { tierId: true, expiresAt: true } }
+    }
+  });
+}
+
+/**
+ * Members count once they've verified their email; staff accounts are created by admins
+ */
+export const isVerifiedMember = (viewer: Pick<Viewer, "role" | "emailVerifiedAt"> | null) =>
+  !!viewer && (viewer.role !== "MEMBER" || !!viewer.emailVerifiedAt);
+
+/**
+ * The tier a verified member holds right now, or null once it has expired
+ */
+export function activeTierId(viewer: Viewer | null, now = new Date()): string | null {
+  const membership = viewer?.membership;
+  if (!membership || !isVerifiedMember(viewer)) return null;
+  return !membership.expiresAt || membership.expiresAt > now ? membership.tierId : null;
+}
+
+// Memberships run to the end of their last day in the club's home timezone
+const MEMBERSHIP_TIME_ZONE = "America/Los_Angeles";
+
+export const membershipExpiresAt = (expiresOn: string) =>
+  getEndOfZonedDay(zonedTimeToUtc(`${expiresOn}T12:00`, MEMBERSHIP_TIME_ZONE), MEMBERSHIP_TIME_ZONE);
+
+/** The last day (YYYY-MM-DD) of a membership ending at `expiresAt` */
+export const membershipExpiresOn = (expiresAt: Date) =>
+  getZonedDate(new Date(expiresAt.getTime() - 1), MEMBERSHIP_TIME_ZONE);
+
+/** Access settings under which only some viewers get the location and description */
+export const isRestrictedAccess = (access?: EventAccess | null) => access === "MEMBERS_ONLY" || access === "TIERS";
+
+type AccessControlled = { access?: EventAccess; tierIds?: string[] };
+
+export function canSeeEventDetails(event: AccessControlled, viewer: Viewer | null): boolean {
+  switch (event.access) {
+    case "MEMBERS_ONLY":
+      return isVerifiedMember(viewer);
+    case "TIERS": {
+      if (isStaff(viewer?.role)) return true;
+      const tierId = activeTierId(viewer);
+      return !!tierId && !!event.tierIds?.includes(tierId);
+    }
+    default:
+      return true;
+  }
+}
+
+export function canRsvpToEvent(event: AccessControlled, viewer: Viewer | null): boolean {
+  if (!event.access || event.access === "PUBLIC") return true;
+  return isVerifiedMember(viewer) && canSeeEventDetails(event, viewer);
+}
+
+/**
+ * Prisma filter for the events whose details `viewer` may see, matching canSeeEventDetails
+ */
+export function visibleDetailsWhere(viewer: Viewer | null): Prisma.EventWhereInput {
+  if (isStaff(viewer?.role)) return {};
+  if (!isVerifiedMember(viewer)) return { access: { notIn: ["MEMBERS_ONLY", "TIERS"] } };
+  const tierId = activeTierId(viewer);
+  return tierId ? { OR: [{ access: { not: "TIERS" } }, { tierIds: { has: tierId } }] } : { access: { not: "TIERS" } };
+}
+
+// Left out of restricted events for everyone else; title, date, city and image stay public
+const MEMBER_DETAIL_FIELDS = ["description", "locationName", "address", "latitude", "longitude", "ticketUrl"] as const;
+
+/**
+ * The event as `viewer` may see it: members-only and tier-gated events lose their details
+ * (and come back with `detailsHidden: true`) unless the viewer may see them
+ */
+export function forViewer<T extends AccessControlled>(event: T, viewer: Viewer | null): T & { detailsHidden?: boolean } {
+  if (canSeeEventDetails(event, viewer)) return event;
+
+  const redacted: Record<string, unknown> = { ...event, detailsHidden: true };
+  for (const field of MEMBER_DETAIL_FIELDS) {
+    if (field in redacted) redacted[field] = null;
+  }
+  if (Array.isArray(redacted.images)) redacted.images = [];
+  return redacted as T & { detailsHidden?: boolean };
+}
@@ -106,4 +106,8 @@ export const uploadRateLimit = rateLimit({
 export const contactRateLimit = rateLimit({
   windowMs: 60 * 60 * 1000, // 1 hour
   max: 3, // 3 contact messages per hour
-});
\ No newline at end of file
+});
+export const rsvpRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10, // 10 RSVPs per hour
+});
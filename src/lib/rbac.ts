@@ -2,7 +2,10 @@ import { Role, Event } from "@prisma/client";
 
 export const isAdmin = (role?: Role | null) => role === "ADMIN";
 
-export const canEditEvent = (event: Event, userId?: string | null, role?: Role | null) => {
+// Everyone but self-registered members works on the club's side of the site
+export const isStaff = (role?: Role | null) => !!role && role !== "MEMBER";
+
+export const canEditEvent = (event: Pick<Event, "ownerId">, userId?: string | null, role?: Role | null) => {
   if (!userId) return false;
   if (isAdmin(role) || role === "ORGANIZER") return true;
   return event.ownerId === userId;
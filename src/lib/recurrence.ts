@@ -0,0 +1,200 @@
+/**
+ * A small subset of iCalendar RRULE (RFC 5545) for event series:
+ *   FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH
+ *   FREQ=MONTHLY;BYDAY=2TU        (second Tuesday)
+ *   FREQ=MONTHLY;BYDAY=-1FR       (last Friday)
+ * plus COUNT and UNTIL. Custom schedules use explicit dates instead of a rule.
+ *
+ * All dates here are local calendar dates ("YYYY-MM-DD") in the series' timezone;
+ * converting to UTC instants happens when occurrences are materialized.
+ */
+
+export const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  SU: "Sunday",
+  MO: "Monday",
+  TU: "Tuesday",
+  WE: "Wednesday",
+  TH: "Thursday",
+  FR: "Friday",
+  SA: "Saturday",
+};
+
+export interface RecurrenceRule {
+  freq: "WEEKLY" | "MONTHLY";
+  interval: number;
+  /** WEEKLY: plain weekdays ("TU"); MONTHLY: ordinal weekdays ("2TU", "-1FR") */
+  byDay: string[];
+  count?: number;
+  /** Last local date (inclusive) */
+  until?: string;
+}
+
+const BYDAY_PATTERN = /^(-?[1-4])?(SU|MO|TU|WE|TH|FR|SA)$/;
+
+export function parseRRule(rrule: string): RecurrenceRule {
+  const fields = Object.fromEntries(
+    rrule.replace(/^RRULE:/, "").split(";").filter(Boolean).map(part => {
+      const [key, value = ""] = part.split("=");
+      return [key.toUpperCase(), value.toUpperCase()];
+    })
+  );
+
+  if (fields.FREQ !== "WEEKLY" && fields.FREQ !== "MONTHLY") {
+    throw new Error(`Unsupported recurrence frequency: ${fields.FREQ || "(none)"}`);
+  }
+
+  const byDay = (fields.BYDAY || "").split(",").filter(Boolean);
+  for (const day of byDay) {
+    const match = BYDAY_PATTERN.exec(day);
+    if (!match) throw new Error(`Invalid BYDAY value: ${day}`);
+    if (fields.FREQ === "WEEKLY" && match[1]) throw new Error("Weekly rules cannot use ordinal weekdays");
+    if (fields.FREQ === "MONTHLY" && !match[1]) throw new Error("Monthly rules need an ordinal weekday, e.g. 2TU");
+  }
+  if (byDay.length === 0) throw new Error("BYDAY is required");
+
+  const interval = fields.INTERVAL ? parseInt(fields.INTERVAL, 10) : 1;
+  if (!Number.isInteger(interval) || interval < 1) throw new Error("INTERVAL must be a positive integer");
+
+  const count = fields.COUNT ? parseInt(fields.COUNT, 10) : undefined;
+  if (count !== undefined && (!Number.isInteger(count) || count < 1)) throw new Error("COUNT must be a positive integer");
+
+  let until: string | undefined;
+  if (fields.UNTIL) {
+    const m = /^(\d{4})(\d{2})(\d{2})/.exec(fields.UNTIL);
+    if (!m) throw new Error("UNTIL must be a date (YYYYMMDD)");
+    until = `${m[1]}-${m[2]}-${m[3]}`;
+  }
+
+  return { freq: fields.FREQ, interval, byDay, count, until };
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  return [
+    `FREQ=${rule.freq}`,
+    rule.interval > 1 ? `INTERVAL=${rule.interval}` : null,
+    `BYDAY=${rule.byDay.join(",")}`,
+    rule.count ? `COUNT=${rule.count}` : null,
+    rule.until ? `UNTIL=${rule.until.replace(/-/g, "")}` : null,
+  ].filter(Boolean).join(";");
+}
+
+// Date-only arithmetic on UTC midnights, so the host timezone never shifts a day
+const toDate = (ymd: string) => {
+  const [y, m, d] = ymd.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+const toYmd = (date: Date) => date.toISOString().slice(0, 10);
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * 86400000);
+
+/**
+ * The nth weekday of a month (n = -1 for the last), or null if the month has no such day
+ */
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, n: number): Date | null {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month, 1));
+    const offset = (weekday - first.getUTCDay() + 7) % 7;
+    const date = new Date(Date.UTC(year, month, 1 + offset + (n - 1) * 7));
+    return date.getUTCMonth() === month ? date : null;
+  }
+  const last = new Date(Date.UTC(year, month + 1, 0));
+  const offset = (last.getUTCDay() - weekday + 7) % 7;
+  const date = new Date(Date.UTC(year, month + 1, -offset + (n + 1) * 7));
+  return date.getUTCMonth() === month ? date : null;
+}
+
+export interface ExpandOptions {
+  /** First local date of the series; generated dates never precede it */
+  startDate: string;
+  rrule?: string | null;
+  /** Explicit extra dates (custom schedules, RDATE) */
+  customDates?: string[];
+  /** Dates removed from the series (EXDATE) */
+  exDates?: string[];
+  /** Hard cap on generated dates */
+  limit: number;
+  /** Don't generate past this local date */
+  horizon: string;
+}
+
+/**
+ * Expand a series definition into its ordered list of local occurrence dates
+ */
+export function expandOccurrences({ startDate, rrule, customDates = [], exDates = [], limit, horizon }: ExpandOptions): string[] {
+  const dates = new Set<string>();
+  const start = toDate(startDate);
+
+  if (rrule) {
+    const rule = parseRRule(rrule);
+    const end = rule.until && rule.until < horizon ? rule.until : horizon;
+    const max = Math.min(rule.count ?? limit, limit);
+    const ruleDates: string[] = [];
+
+    if (rule.freq === "WEEKLY") {
+      const weekdays = rule.byDay.map(d => WEEKDAYS.indexOf(d as Weekday)).sort((a, b) => a - b);
+      // Weeks start on Monday (RRULE default WKST)
+      let weekStart = addDays(start, -((start.getUTCDay() + 6) % 7));
+      while (ruleDates.length < max && toYmd(weekStart) <= end) {
+        for (const weekday of weekdays) {
+          const date = addDays(weekStart, (weekday + 6) % 7);
+          const ymd = toYmd(date);
+          if (date >= start && ymd <= end && ruleDates.length < max) ruleDates.push(ymd);
+        }
+        weekStart = addDays(weekStart, 7 * rule.interval);
+      }
+    } else {
+      let year = start.getUTCFullYear();
+      let month = start.getUTCMonth();
+      while (ruleDates.length < max && toYmd(new Date(Date.UTC(year, month, 1))) <= end) {
+        const inMonth = rule.byDay
+          .map(d => {
+            const [, n, day] = BYDAY_PATTERN.exec(d)!;
+            return nthWeekdayOfMonth(year, month, WEEKDAYS.indexOf(day as Weekday), parseInt(n, 10));
+          })
+          .filter((d): d is Date => d !== null)
+          .sort((a, b) => a.getTime() - b.getTime());
+        for (const date of inMonth) {
+          const ymd = toYmd(date);
+          if (date >= start && ymd <= end && ruleDates.length < max) ruleDates.push(ymd);
+        }
+        month += rule.interval;
+        year += Math.floor(month / 12);
+        month %= 12;
+      }
+    }
+
+    ruleDates.forEach(d => dates.add(d));
+  }
+
+  customDates.filter(d => d >= startDate && d <= horizon).forEach(d => dates.add(d));
+  exDates.forEach(d => dates.delete(d));
+
+  return Array.from(dates).sort().slice(0, limit);
+}
+
+const ordinal = (n: number) =>
+  n < 0 ? ["last", "second to last", "third to last", "fourth to last"][-n - 1] : ["first", "second", "third", "fourth"][n - 1];
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Tuesday, Thursday" or "Monthly on the last Friday"
+ */
+export function describeRecurrence(rrule: string | null | undefined, customDates: string[] = []): string {
+  if (!rrule) return customDates.length > 0 ? `${customDates.length} custom dates` : "Does not repeat";
+
+  const rule = parseRRule(rrule);
+  const unit = rule.freq === "WEEKLY" ? "week" : "month";
+  const every = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : rule.freq === "WEEKLY" ? "Weekly" : "Monthly";
+  const days = rule.byDay.map(d => {
+    const [, n, day] = BYDAY_PATTERN.exec(d)!;
+    const name = WEEKDAY_NAMES[day as Weekday];
+    return n ? `the ${ordinal(parseInt(n, 10))} ${name}` : name;
+  });
+
+  return [
+    `${every} on ${days.join(", ")}`,
+    rule.count ? `, ${rule.count} times` : "",
+    rule.until ? `, until ${rule.until}` : "",
+  ].join("");
+}
@@ -0,0 +1,107 @@
+import type { Prisma, Registration } from "@prisma/client";
+import { sendEmail } from "@/lib/mailer";
+import { formatDateTime } from "@/lib/utils";
+import { createCheckInToken, getTicketUrl } from "@/lib/checkin";
+
+type EventCapacity = { capacity: number | null; waitlistEnabled: boolean };
+
+/**
+ * Remaining confirmed spots for an event, or null when it has no capacity limit
+ */
+export function getSpotsLeft(event: Pick<EventCapacity, 'capacity'>, confirmedCount: number): number | null {
+  if (event.capacity == null) return null;
+  return Math.max(event.capacity - confirmedCount, 0);
+}
+
+/**
+ * Attach `spotsLeft` to an event queried with
+ * `_count: { select: { registrations: { where: { status: "CONFIRMED" } } } }`
+ */
+export function withAvailability<T extends EventCapacity & { _count?: { registrations: number } }>(event: T) {
+  const { _count, ...rest } = event;
+  return { ...rest, spotsLeft: getSpotsLeft(event, _count?.registrations ?? 0) };
+}
+
+export const confirmedRegistrationsCount = {
+  _count: { select: { registrations: { where: { status: "CONFIRMED" as const } } } }
+};
+
+/**
+ * Take a row lock on the event for the rest of the transaction.
+ * Every capacity check or waitlist promotion must hold this lock, so two
+ * concurrent RSVPs or cancellations can't both see the same free spot.
+ */
+export async function lockEvent(tx: Prisma.TransactionClient, eventId: string) {
+  await tx.$queryRaw`SELECT id FROM "Event" WHERE id = ${eventId} FOR UPDATE`;
+}
+
+/**
+ * Fill any open spots from the front of the waitlist.
+ * Must run inside a transaction that already holds `lockEvent`.
+ * @returns The registrations that were promoted
+ */
+export async function promoteFromWaitlist(tx: Prisma.TransactionClient, eventId: string): Promise<Registration[]> {
+  const event = await tx.event.findUnique({ where: { id: eventId }, select: { capacity: true } });
+  if (!event) return [];
+
+  const confirmed = await tx.registration.count({ where: { eventId, status: "CONFIRMED" } });
+  const spotsLeft = getSpotsLeft(event, confirmed);
+  if (spotsLeft === 0) return [];
+
+  const next = await tx.registration.findMany({
+    where: { eventId, status: "WAITLISTED" },
+    orderBy: [{ waitlistedAt: "asc" }, { createdAt: "asc" }],
+    ...(spotsLeft === null ? {} : { take: spotsLeft })
+  });
+  if (next.length === 0) return [];
+
+  const promotedAt = new Date();
+  await tx.registration.updateMany({
+    where: { id: { in: next.map((r: Registration) => r.id) } },
+    data: { status: "CONFIRMED", promotedAt }
+  });
+
+  return next.map((r: Registration) => ({ ...r, status: "CONFIRMED" as const, promotedAt }));
+}
+
+/**
+ * Email a confirmed attendee their ticket link (the QR code door staff scan)
+ */
+export async function sendTicketEmail(
+  registration: Registration,
+  event: { title: string; slug: string; startAt: Date; timezone: string },
+  { promoted = false }: { promoted?: boolean } = {}
+) {
+  const baseUrl = process.env.NEXTAUTH_URL || "https://thcmembersonlyclub.com";
+  const token = await createCheckInToken({ registrationId: registration.id, eventId: registration.eventId });
+
+  return sendEmail({
+    to: registration.email,
+    subject: promoted ? `You're in: ${event.title}` : `Your RSVP for ${event.title}`,
+    text: [
+      `Hi ${registration.name},`,
+      "",
+      promoted
+        ? `A spot opened up and you've been moved off the waitlist for ${event.title} on ${formatDateTime(event.startAt, event.timezone)}.`
+        : `You're confirmed for ${event.title} on ${formatDateTime(event.startAt, event.timezone)}.`,
+      "",
+      `Show this ticket at the door: ${getTicketUrl(token)}`,
+      `Event details: ${baseUrl}/events/${event.slug}`,
+      "",
+      "If you can no longer make it, just reply to this email so we can pass your spot on."
+    ].join("\n")
+  });
+}
+
+/**
+ * Email registrations that just moved off the waitlist.
+ * Call after the promoting transaction has committed.
+ */
+export async function notifyPromoted(
+  registrations: Registration[],
+  event: { title: string; slug: string; startAt: Date; timezone: string }
+) {
+  await Promise.all(registrations.map((registration) =>
+    sendTicketEmail(registration, event, { promoted: true })
+  ));
+}
@@ -0,0 +1,182 @@
+import type { Event, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+// Event fields captured in each revision and put back on restore
+export const REVISION_FIELDS = [
+  "title",
+  "description",
+  "ticketUrl",
+  "buttonType",
+  "category",
+  "tags",
+  "locationName",
+  "address",
+  "city",
+  "state",
+  "latitude",
+  "longitude",
+  "venueId",
+  "startAt",
+  "endAt",
+  "timezone",
+  "status",
+  "capacity",
+  "waitlistEnabled",
+  "access",
+  "tierIds",
+  "publishAt",
+  "unpublishAt",
+  "heroImageId",
+] as const;
+
+type RevisionField = typeof REVISION_FIELDS[number];
+type SnapshotValue = string | number | boolean | string[] | null;
+
+/**
+ * JSON-safe copy of an event's editable state; dates are ISO strings.
+ * `imageIds` holds the detail images (the hero image is tracked by heroImageId);
+ * `waiverIds` the waivers attendees sign, missing from snapshots taken before they were tracked.
+ */
+export type EventSnapshot = Record<RevisionField, SnapshotValue> & { imageIds: string[]; waiverIds?: string[] };
+
+export type RevisionChanges = Record<string, { from: unknown; to: unknown }>;
+
+/**
+ * Thrown inside a transaction when the event changed after the editor loaded it
+ */
+export class EditConflictError extends Error {
+  constructor() {
+    super("Event was modified by someone else");
+    this.name = "EditConflictError";
+  }
+}
+
+export async function takeSnapshot(tx: Prisma.TransactionClient, eventId: string): Promise<EventSnapshot> {
+  const event = await tx.event.findUniqueOrThrow({
+    where: { id: eventId },
+    include: {
+      images: { select: { id: true }, orderBy: { createdAt: "asc" } },
+      waivers: { select: { id: true }, orderBy: { createdAt: "asc" } }
+    }
+  });
+
+  const snapshot = { imageIds: [] as string[] } as EventSnapshot;
+  for (const field of REVISION_FIELDS) {
+    const value = event[field as keyof Event];
+    snapshot[field] = value instanceof Date ? value.toISOString() : (value as SnapshotValue);
+  }
+  snapshot.imageIds = event.images
+    .map((image: { id: string }) => image.id)
+    .filter((id: string) => id !== event.heroImageId);
+  snapshot.waiverIds = event.waivers.map((waiver: { id: string }) => waiver.id);
+
+  return snapshot;
+}
+
+export function diffSnapshots(before: EventSnapshot, after: EventSnapshot): RevisionChanges {
+  const changes: RevisionChanges = {};
+  for (const field of REVISION_FIELDS) {
+    // Tags are the only array field; compare them by content
+    if (JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null)) {
+      changes[field] = { from: before[field], to: after[field] };
+    }
+  }
+
+  const sameIds = (a: string[], b: string[]) => a.length === b.length && a.every(id => b.includes(id));
+  if (!sameIds(before.imageIds, after.imageIds)) {
+    changes.imageIds = { from: before.imageIds, to: after.imageIds };
+  }
+  const beforeWaivers = before.waiverIds ?? [];
+  const afterWaivers = after.waiverIds ?? [];
+  if (!sameIds(beforeWaivers, afterWaivers)) {
+    changes.waiverIds = { from: beforeWaivers, to: afterWaivers };
+  }
+
+  return changes;
+}
+
+/**
+ * Store a revision for a save that turned `before` into `after`, with the acting user.
+ * The first tracked edit of an event also stores `before` as a baseline so it can be restored.
+ * Saves that changed nothing are skipped.
+ */
+export async function recordRevision(
+  tx: Prisma.TransactionClient,
+  { eventId, userId, before, after, restoredFromId }: {
+    eventId: string;
+    userId: string;
+    before: EventSnapshot;
+    after: EventSnapshot;
+    restoredFromId?: string;
+  }
+) {
+  const changes = diffSnapshots(before, after);
+  if (Object.keys(changes).length === 0) return null;
+
+  const existing = await tx.eventRevision.count({ where: { eventId } });
+  if (existing === 0) {
+    await tx.eventRevision.create({
+      data: { eventId, userId: null, snapshot: before, changes: {} }
+    });
+  }
+
+  return tx.eventRevision.create({
+    data: { eventId, userId, snapshot: after, changes: changes as Prisma.InputJsonValue, restoredFromId }
+  });
+}
+
+/**
+ * Put an event back to a snapshot: scalar fields, detail-image and hero-image ownership,
+ * and waivers. Images and waivers deleted since the snapshot was taken are skipped.
+ */
+export async function applySnapshot(tx: Prisma.TransactionClient, eventId: string, snapshot: EventSnapshot) {
+  const referenced = [snapshot.heroImageId, ...snapshot.imageIds].filter((id): id is string => typeof id === "string");
+  const stillExisting = new Set(
+    (await tx.image.findMany({ where: { id: { in: referenced } }, select: { id: true } }))
+      .map((image: { id: string }) => image.id)
+  );
+
+  const data: Record<string, unknown> = {};
+  for (const field of REVISION_FIELDS) {
+    const value = snapshot[field];
+    const isDate = field === "startAt" || field === "endAt" || field === "publishAt" || field === "unpublishAt";
+    data[field] = isDate && typeof value === "string" ? new Date(value) : value;
+  }
+  if (typeof data.heroImageId === "string" && !stillExisting.has(data.heroImageId)) {
+    data.heroImageId = null;
+  }
+
+  await tx.event.update({ where: { id: eventId }, data: data as Prisma.EventUncheckedUpdateInput });
+
+  const heroImageId = data.heroImageId as string | null;
+  await tx.image.updateMany({
+    where: { eventId, ...(heroImageId ? { id: { not: heroImageId } } : {}) },
+    data: { eventId: null }
+  });
+  const imageIds = snapshot.imageIds.filter(id => stillExisting.has(id));
+  if (heroImageId) imageIds.push(heroImageId);
+  if (imageIds.length > 0) {
+    await tx.image.updateMany({ where: { id: { in: imageIds } }, data: { eventId } });
+  }
+
+  // Snapshots from before waivers were tracked leave the current ones in place
+  if (Array.isArray(snapshot.waiverIds)) {
+    const waivers = await tx.waiver.findMany({ where: { id: { in: snapshot.waiverIds } }, select: { id: true } });
+    await tx.event.update({
+      where: { id: eventId },
+      data: { waivers: { set: waivers.map((waiver: { id: string }) => ({ id: waiver.id })) } }
+    });
+  }
+}
+
+/**
+ * Every image some stored revision refers to, as a detail or hero image. Restoring that
+ * revision brings the image back, so it isn't abandoned while the revision exists.
+ */
+export async function revisionImageIds(): Promise<string[]> {
+  const rows: Array<{ id: string }> = await prisma.$queryRaw`
+    SELECT jsonb_array_elements_text(snapshot->'imageIds') AS id FROM "EventRevision"
+    UNION
+    SELECT snapshot->>'heroImageId' AS id FROM "EventRevision" WHERE snapshot->>'heroImageId' IS NOT NULL`;
+  return rows.map(row => row.id);
+}
@@ -0,0 +1,256 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { activeTierId, isVerifiedMember, type Viewer } from "@/lib/members";
+import { isStaff } from "@/lib/rbac";
+
+/**
+ * Site-wide full-text search over published events, public galleries and their images.
+ * Documents live in the "searchVector" columns, kept up to date by the triggers in
+ * database/migrations/search_vectors.sql.
+ */
+
+export const SEARCH_TYPES = ["event", "gallery", "image"] as const;
+export type SearchType = typeof SEARCH_TYPES[number];
+
+/** Snippet text split into plain and matched runs, so clients can highlight without HTML */
+export type HighlightSegment = { text: string; match: boolean };
+
+interface SearchResultBase {
+  id: string;
+  title: string;
+  url: string;
+  rank: number;
+  snippet: HighlightSegment[];
+  imageVariants: unknown | null;
+}
+
+export type SearchResult =
+  | (SearchResultBase & { type: "event"; startAt: Date; timezone: string; city: string | null; state: string | null })
+  | (SearchResultBase & { type: "gallery"; imageCount: number })
+  | (SearchResultBase & { type: "image"; galleryId: string; galleryName: string });
+
+export interface SearchOptions {
+  q: string;
+  types?: SearchType[];
+  page?: number;
+  pageSize?: number;
+  // Restricted events match on their title alone unless the searcher may see their details
+  viewer?: Viewer | null;
+}
+
+// Control characters can't appear in the stored text, so they safely mark matches
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+
+/**
+ * SQL condition for events whose details the viewer may see, or null when that's all of them
+ */
+function eventDetailsVisible(viewer: Viewer | null): Prisma.Sql | null {
+  if (isStaff(viewer?.role)) return null;
+  const tierId = activeTierId(viewer);
+  const visible = [Prisma.sql`e.access IN ('PUBLIC', 'MEMBERS_RSVP')`];
+  if (isVerifiedMember(viewer)) visible.push(Prisma.sql`e.access = 'MEMBERS_ONLY'`);
+  if (tierId) visible.push(Prisma.sql`(e.access = 'TIERS' AND ${tierId} = ANY(e."tierIds"))`);
+  return Prisma.sql`(${Prisma.join(visible, " OR ")})`;
+}
+
+type MatchRow = {
+  type: SearchType;
+  id: string;
+  rank: number;
+  sortDate: Date;
+  headline: string;
+};
+
+/**
+ * Matching rows of every requested type, with the text their snippet is cut from
+ */
+function matchesQuery(query: Prisma.Sql, types: SearchType[], viewer: Viewer | null) {
+  const selects: Prisma.Sql[] = [];
+  if (types.includes("event")) {
+    const detailsVisible = eventDetailsVisible(viewer);
+    selects.push(detailsVisible ? Prisma.sql`
+      SELECT 'event' AS type, e.id, ts_rank(e."searchVector", ${query}) AS rank, e."startAt" AS "sortDate",
+        CASE WHEN ${detailsVisible} THEN concat_ws(' — ', e.description, concat_ws(', ', e."locationName", e.city, e.state))
+          ELSE concat_ws(', ', e.city, e.state) END AS document
+      FROM "Event" e
+      WHERE e."searchVector" @@ ${query} AND e.status = 'PUBLISHED'
+        AND (${detailsVisible} OR to_tsvector('english', e.title) @@ ${query})` : Prisma.sql`
+      SELECT 'event' AS type, e.id, ts_rank(e."searchVector", ${query}) AS rank, e."startAt" AS "sortDate",
+        concat_ws(' — ', e.description, concat_ws(', ', e."locationName", e.city, e.state)) AS document
+      FROM "Event" e
+      WHERE e."searchVector" @@ ${query} AND e.status = 'PUBLISHED'`);
+  }
+  if (types.includes("gallery")) {
+    selects.push(Prisma.sql`
+      SELECT 'gallery' AS type, g.id, ts_rank(g."searchVector", ${query}) AS rank, g."createdAt" AS "sortDate",
+        concat_ws(' — ', g.description, array_to_string(g.tags, ', ')) AS document
+      FROM "Gallery" g
+      WHERE g."searchVector" @@ ${query} AND g."isPublic"`);
+  }
+  if (types.includes("image")) {
+    selects.push(Prisma.sql`
+      SELECT 'image' AS type, gi.id, ts_rank(gi."searchVector", ${query}) AS rank, gi."createdAt" AS "sortDate",
+        concat_ws(' — ', gi.caption, array_to_string(gi.tags, ', ')) AS document
+      FROM "GalleryImage" gi
+      JOIN "Gallery" g ON g.id = gi."galleryId"
+      WHERE gi."searchVector" @@ ${query} AND g."isPublic"`);
+  }
+  return Prisma.join(selects, " UNION ALL ");
+}
+
+type EventRow = {
+  id: string;
+  slug: string;
+  title: string;
+  startAt: Date;
+  timezone: string;
+  city: string | null;
+  state: string | null;
+  heroImage: { variants: unknown } | null;
+};
+
+type GalleryRow = {
+  id: string;
+  name: string;
+  _count: { images: number };
+  images: Array<{ image: { variants: unknown } }>;
+};
+
+type GalleryImageRow = {
+  id: string;
+  title: string | null;
+  galleryId: string;
+  gallery: { name: string };
+  image: { variants: unknown };
+};
+
+export function toHighlightSegments(headline: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  for (const part of headline.split(MATCH_START)) {
+    const [matched, rest] = part.includes(MATCH_END) ? part.split(MATCH_END, 2) : [null, part];
+    if (matched) segments.push({ text: matched, match: true });
+    if (rest) segments.push({ text: rest, match: false });
+  }
+  return segments;
+}
+
+/**
+ * One page of results across all requested types, best matches first, plus how many of each
+ * type matched in total. Queries use web-search syntax ("quoted phrases", -exclusions, or).
+ */
+export async function searchSite({ q, types = [...SEARCH_TYPES], page = 1, pageSize = 20, viewer = null }: SearchOptions) {
+  const counts: Record<SearchType, number> = { event: 0, gallery: 0, image: 0 };
+  if (!q.trim() || types.length === 0) {
+    return { items: [] as SearchResult[], counts, total: 0 };
+  }
+
+  const query = Prisma.sql`websearch_to_tsquery('english', ${q})`;
+  const matches = matchesQuery(query, types, viewer);
+
+  const [rows, countRows]: [MatchRow[], Array<{ type: SearchType; count: bigint }>] = await Promise.all([
+    // Headlines are expensive, so they're only built for the page being returned
+    prisma.$queryRaw`
+      SELECT m.type, m.id, m.rank, m."sortDate",
+        ts_headline('english', m.document, ${query}, ${HEADLINE_OPTIONS}) AS headline
+      FROM (
+        SELECT * FROM (${matches}) AS matches
+        ORDER BY rank DESC, "sortDate" DESC
+        LIMIT ${pageSize} OFFSET ${(page - 1) * pageSize}
+      ) AS m
+      ORDER BY m.rank DESC, m."sortDate" DESC`,
+    prisma.$queryRaw`
+      SELECT type, count(*) AS count FROM (${matches}) AS matches GROUP BY type`
+  ]);
+
+  for (const row of countRows) counts[row.type] = Number(row.count);
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+
+  const idsOf = (type: SearchType) => rows.filter(row => row.type === type).map(row => row.id);
+  const [events, galleries, images] = await Promise.all([
+    prisma.event.findMany({
+      where: { id: { in: idsOf("event") } },
+      select: { id: true, slug: true, title: true, startAt: true, timezone: true, city: true, state: true, heroImage: { select: { variants: true } } }
+    }),
+    prisma.gallery.findMany({
+      where: { id: { in: idsOf("gallery") } },
+      select: {
+        id: true,
+        name: true,
+        _count: { select: { images: true } },
+        images: { orderBy: { sortOrder: "asc" }, take: 1, select: { image: { select: { variants: true } } } }
+      }
+    }),
+    prisma.galleryImage.findMany({
+      where: { id: { in: idsOf("image") } },
+      select: { id: true, title: true, galleryId: true, gallery: { select: { name: true } }, image: { select: { variants: true } } }
+    })
+  ]);
+
+  const eventsById = new Map<string, EventRow>(events.map((event: EventRow) => [event.id, event]));
+  const galleriesById = new Map<string, GalleryRow>(galleries.map((gallery: GalleryRow) => [gallery.id, gallery]));
+  const imagesById = new Map<string, GalleryImageRow>(images.map((image: GalleryImageRow) => [image.id, image]));
+
+  const items: SearchResult[] = [];
+  for (const row of rows) {
+    const base = { id: row.id, rank: Number(row.rank), snippet: toHighlightSegments(row.headline) };
+    if (row.type === "event") {
+      const event = eventsById.get(row.id);
+      if (!event) continue;
+      items.push({
+        ...base,
+        type: "event",
+        title: event.title,
+        url: `/events/${event.slug}`,
+        imageVariants: event.heroImage?.variants ?? null,
+        startAt: event.startAt,
+        timezone: event.timezone,
+        city: event.city,
+        state: event.state
+      });
+    } else if (row.type === "gallery") {
+      const gallery = galleriesById.get(row.id);
+      if (!gallery) continue;
+      items.push({
+        ...base,
+        type: "gallery",
+        title: gallery.name,
+        url: `/gallery/${gallery.id}`,
+        imageVariants: gallery.images[0]?.image.variants ?? null,
+        imageCount: gallery._count.images
+      });
+    } else {
+      const image = imagesById.get(row.id);
+      if (!image) continue;
+      items.push({
+        ...base,
+        type: "image",
+        title: image.title || image.gallery.name,
+        url: `/gallery/${image.galleryId}`,
+        imageVariants: image.image.variants,
+        galleryId: image.galleryId,
+        galleryName: image.gallery.name
+      });
+    }
+  }
+
+  return { items, counts, total };
+}
+
+/**
+ * Every public gallery matching by its own name, description or tags, or holding a photo
+ * that matches. Unpaged, for filtering a gallery list rather than showing results.
+ */
+export async function searchGalleryIds(q: string): Promise<string[]> {
+  if (!q.trim()) return [];
+
+  const query = Prisma.sql`websearch_to_tsquery('english', ${q})`;
+  const rows: Array<{ id: string }> = await prisma.$queryRaw`
+    SELECT g.id FROM "Gallery" g
+    WHERE g."isPublic" AND (
+      g."searchVector" @@ ${query}
+      OR EXISTS (SELECT 1 FROM "GalleryImage" gi WHERE gi."galleryId" = g.id AND gi."searchVector" @@ ${query})
+    )`;
+  return rows.map(row => row.id);
+}
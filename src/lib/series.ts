@@ -0,0 +1,229 @@
+import type { EventSeries, Prisma } from "@prisma/client";
+import type { z } from "zod";
+import { expandOccurrences, formatRRule, parseRRule } from "@/lib/recurrence";
+import { getZonedDate, zonedTimeToUtc } from "@/lib/timezone";
+import { generateUniqueEventSlug, recordSlugChange } from "@/lib/utils";
+import type { createSeriesSchema, recurrenceSchema } from "@/lib/validation";
+
+// Occurrences are generated at most this far ahead, and at most this many at a time
+const HORIZON_DAYS = 365;
+const MAX_OCCURRENCES = 52;
+
+// Generating a year of occurrences runs many queries; allow more than the default 5s
+export const SERIES_TRANSACTION_OPTIONS = { timeout: 30000 };
+
+export type RecurrenceInput = z.infer<typeof recurrenceSchema>;
+
+/**
+ * Convert the form's recurrence settings into the stored rrule/customDates pair
+ */
+export function toSeriesRecurrence(recurrence: RecurrenceInput): { rrule: string | null; customDates: string[] } {
+  if (recurrence.freq === "CUSTOM") {
+    return { rrule: null, customDates: Array.from(new Set(recurrence.customDates)).sort() };
+  }
+  return {
+    rrule: formatRRule({
+      freq: recurrence.freq,
+      interval: recurrence.interval,
+      byDay: recurrence.byDay,
+      count: recurrence.count,
+      until: recurrence.until || undefined
+    }),
+    customDates: []
+  };
+}
+
+/**
+ * Inverse of toSeriesRecurrence, for prefilling the form
+ */
+export function fromSeriesRecurrence(series: Pick<EventSeries, 'rrule' | 'customDates'>): RecurrenceInput {
+  if (!series.rrule) {
+    return { freq: "CUSTOM", interval: 1, byDay: [], customDates: series.customDates };
+  }
+  const rule = parseRRule(series.rrule);
+  return {
+    freq: rule.freq,
+    interval: rule.interval,
+    byDay: rule.byDay,
+    count: rule.count,
+    until: rule.until ?? "",
+    customDates: []
+  };
+}
+
+/**
+ * Split wall-clock "YYYY-MM-DDTHH:mm" start/end values into the series schedule fields
+ */
+export function toSeriesSchedule(startAt: string, endAt?: string | null) {
+  const startDate = startAt.slice(0, 10);
+  const startTime = startAt.slice(11, 16) || "00:00";
+
+  let durationMinutes: number | null = null;
+  if (endAt) {
+    // Both values are wall-clock in the same zone, so compare them as if they were UTC
+    const ms = Date.parse(`${endAt.slice(0, 16)}Z`) - Date.parse(`${startAt.slice(0, 16)}Z`);
+    if (ms > 0) durationMinutes = Math.round(ms / 60000);
+  }
+
+  return { startDate, startTime, durationMinutes };
+}
+
+/**
+ * Map create/update payload fields onto EventSeries columns, skipping fields that weren't sent.
+ * The schedule is only touched when startAt is present; endAt is read alongside it.
+ */
+export function toSeriesData(input: Partial<z.infer<typeof createSeriesSchema>>): Prisma.EventSeriesUncheckedUpdateInput {
+  const data: Prisma.EventSeriesUncheckedUpdateInput = {};
+  const optionalText = ["description", "ticketUrl", "locationName", "address", "city", "state"] as const;
+
+  if (input.title !== undefined) data.title = input.title;
+  if (input.buttonType !== undefined) data.buttonType = input.buttonType;
+  if (input.category !== undefined) data.category = input.category || null;
+  if (input.tags !== undefined) data.tags = input.tags;
+  if (input.access !== undefined) data.access = input.access;
+  if (input.tierIds !== undefined) data.tierIds = input.tierIds;
+  if (input.timezone !== undefined) data.timezone = input.timezone;
+  if (input.status !== undefined) data.status = input.status;
+  for (const key of optionalText) {
+    if (input[key] !== undefined) data[key] = input[key] || null;
+  }
+  if (input.capacity !== undefined) data.capacity = input.capacity;
+  if (input.waitlistEnabled !== undefined) data.waitlistEnabled = input.waitlistEnabled;
+  if (input.heroImageId !== undefined) data.heroImageId = input.heroImageId || null;
+
+  if (input.startAt) Object.assign(data, toSeriesSchedule(input.startAt, input.endAt));
+  if (input.recurrence) Object.assign(data, toSeriesRecurrence(input.recurrence));
+
+  return data;
+}
+
+/**
+ * Local dates the series should have occurrences on, from `fromDate` onwards
+ */
+export function getSeriesDates(series: EventSeries, fromDate = series.startDate): string[] {
+  const horizon = getZonedDate(new Date(Date.now() + HORIZON_DAYS * 86400000), series.timezone);
+  return expandOccurrences({
+    startDate: series.startDate,
+    rrule: series.rrule,
+    customDates: series.customDates,
+    exDates: series.exDates,
+    limit: 1000,
+    horizon
+  }).filter(date => date >= fromDate).slice(0, MAX_OCCURRENCES);
+}
+
+function occurrenceTimes(series: EventSeries, date: string) {
+  const startAt = zonedTimeToUtc(`${date}T${series.startTime}`, series.timezone);
+  const endAt = series.durationMinutes ? new Date(startAt.getTime() + series.durationMinutes * 60000) : null;
+  return { startAt, endAt };
+}
+
+function occurrenceTemplate(series: EventSeries) {
+  return {
+    title: series.title,
+    description: series.description,
+    ticketUrl: series.ticketUrl,
+    buttonType: series.buttonType,
+    category: series.category,
+    tags: series.tags,
+    access: series.access,
+    tierIds: series.tierIds,
+    locationName: series.locationName,
+    address: series.address,
+    city: series.city,
+    state: series.state,
+    capacity: series.capacity,
+    waitlistEnabled: series.waitlistEnabled,
+    heroImageId: series.heroImageId,
+    timezone: series.timezone
+  };
+}
+
+/**
+ * Create any occurrences the series is missing, from `fromDate` onwards.
+ * Dates that already have an occurrence (including cancelled ones) are left alone.
+ * @returns The number of occurrences created
+ */
+export async function materializeSeries(
+  tx: Prisma.TransactionClient,
+  series: EventSeries,
+  fromDate?: string
+): Promise<number> {
+  const existing = await tx.event.findMany({
+    where: { seriesId: series.id },
+    select: { occurrenceDate: true }
+  });
+  const taken = new Set(existing.map((e: { occurrenceDate: string | null }) => e.occurrenceDate));
+
+  let created = 0;
+  for (const date of getSeriesDates(series, fromDate)) {
+    if (taken.has(date)) continue;
+
+    await tx.event.create({
+      data: {
+        ...occurrenceTemplate(series),
+        ...occurrenceTimes(series, date),
+        slug: await generateUniqueEventSlug(series.title, series.locationName, { suffix: date, db: tx }),
+        status: series.status,
+        ownerId: series.ownerId,
+        seriesId: series.id,
+        occurrenceDate: date
+      }
+    });
+    created++;
+  }
+
+  return created;
+}
+
+/**
+ * Push the series' current template and schedule onto its upcoming occurrences.
+ * Occurrences edited on their own (detachedFromSeries) and cancelled ones keep their changes.
+ * Upcoming dates that dropped out of the schedule are deleted, or cancelled if people registered.
+ */
+export async function syncFutureOccurrences(tx: Prisma.TransactionClient, series: EventSeries) {
+  const today = getZonedDate(new Date(), series.timezone);
+  const wanted = new Set(getSeriesDates(series, today));
+
+  const upcoming = await tx.event.findMany({
+    where: { seriesId: series.id, occurrenceDate: { gte: today }, detachedFromSeries: false },
+    include: { _count: { select: { registrations: { where: { status: { not: "CANCELLED" as const } } } } } }
+  });
+
+  let updated = 0;
+  let removed = 0;
+  for (const occurrence of upcoming) {
+    const date = occurrence.occurrenceDate!;
+
+    if (!wanted.has(date)) {
+      if (occurrence._count.registrations > 0) {
+        await tx.event.update({ where: { id: occurrence.id }, data: { status: "CANCELLED" } });
+      } else {
+        await tx.event.delete({ where: { id: occurrence.id } });
+      }
+      removed++;
+      continue;
+    }
+
+    if (occurrence.status === "CANCELLED") continue;
+
+    const renamed = occurrence.title !== series.title || occurrence.locationName !== series.locationName;
+    const slug = renamed
+      ? await generateUniqueEventSlug(series.title, series.locationName, { suffix: date, excludeId: occurrence.id, db: tx })
+      : occurrence.slug;
+    await tx.event.update({
+      where: { id: occurrence.id },
+      data: {
+        ...occurrenceTemplate(series),
+        ...occurrenceTimes(series, date),
+        status: series.status,
+        slug
+      }
+    });
+    await recordSlugChange(tx, occurrence.id, occurrence.slug, slug);
+    updated++;
+  }
+
+  const created = await materializeSeries(tx, series, today);
+  return { updated, removed, created };
+}
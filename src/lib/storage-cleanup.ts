@@ -0,0 +1,275 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { VARIANTS, variantBaseKey, variantKey } from "@/lib/images";
+import { getStorage, type StoredObject } from "@/lib/storage";
+import { revisionImageIds } from "@/lib/revisions";
+
+/**
+ * Keeps storage in step with the database. Deleting an image, document or video deletes
+ * its objects too, unless another row still uses them (duplicated events share their source's
+ * files). reconcileStorage finds whatever slips through: objects from deletes that failed
+ * halfway, or from uploads whose form was never saved.
+ */
+
+// Images nothing shows: no event, venue, hero or gallery refers to them
+export const UNUSED_IMAGE: Prisma.ImageWhereInput = {
+  eventId: null,
+  venueId: null,
+  heroForEvents: { none: {} },
+  heroForSeries: { none: {} },
+  galleryImages: { none: {} }
+};
+
+// Uploads nothing has picked up by then were abandoned, e.g. with an event form that was never saved
+const DEFAULT_ORPHANED_IMAGE_MAX_AGE_HOURS = 72;
+// Keeps each scheduled run short; the rest wait for the next one
+const ORPHANED_IMAGE_BATCH_SIZE = 100;
+
+export const RECONCILE_PREFIXES = ["events/", "videos/", "documents/"];
+// Newer objects may belong to an upload whose row isn't saved yet; upload tokens last a day
+const RECONCILE_GRACE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Every key an image may have stored: the source upload, the webp and jpg of each variant
+ * recorded in `variants`, and the ones generation writes before they're recorded
+ */
+export function imageStorageKeys(image: { originalKey: string; variants: Prisma.JsonValue }): string[] {
+  const keys = [image.originalKey];
+  const recorded = image.variants && typeof image.variants === "object" && !Array.isArray(image.variants)
+    ? Object.values(image.variants as Record<string, { webpKey?: unknown; jpgKey?: unknown } | null>)
+    : [];
+  for (const variant of recorded) {
+    if (typeof variant?.webpKey === "string") keys.push(variant.webpKey);
+    if (typeof variant?.jpgKey === "string") keys.push(variant.jpgKey);
+  }
+
+  const baseKey = variantBaseKey(image.originalKey);
+  if (baseKey !== image.originalKey) {
+    for (const name of [...VARIANTS.map(v => v.name), "orig"]) {
+      keys.push(variantKey(baseKey, name, "webp"), variantKey(baseKey, name, "jpg"));
+    }
+  }
+  return Array.from(new Set(keys));
+}
+
+/**
+ * Delete objects, logging (not throwing) failures so the caller's own delete still succeeds;
+ * reconcileStorage picks up anything left behind
+ * @returns How many were deleted
+ */
+export async function deleteStoredObjects(keys: string[]): Promise<number> {
+  const storage = getStorage();
+  const results = await Promise.all(keys.map(async (key) => {
+    try {
+      await storage.delete(key);
+      return true;
+    } catch (error) {
+      logger.warn('Failed to delete stored object', { key, error: error instanceof Error ? error.message : String(error) });
+      return false;
+    }
+  }));
+  return results.filter(Boolean).length;
+}
+
+/**
+ * Delete the given images that nothing uses any more, with their stored files
+ * @returns How many images were deleted
+ */
+export async function deleteUnusedImages(imageIds: string[]): Promise<number> {
+  let deleted = 0;
+  for (const id of Array.from(new Set(imageIds))) {
+    const image = await prisma.image.findUnique({ where: { id }, select: { originalKey: true, variants: true } });
+    if (!image) continue;
+    // Conditional delete, so an image picked up by an event or gallery meanwhile survives
+    const { count } = await prisma.image.deleteMany({ where: { id, ...UNUSED_IMAGE } });
+    if (!count) continue;
+    deleted++;
+
+    if (await prisma.image.count({ where: { originalKey: image.originalKey } }) === 0) {
+      await deleteStoredObjects(imageStorageKeys(image));
+    }
+  }
+  if (deleted > 0) logger.info('Unused images deleted', { count: deleted });
+  return deleted;
+}
+
+/**
+ * Delete the objects behind document, video and thumbnail URLs that no remaining row uses.
+ * URLs storage didn't issue (e.g. YouTube links) are ignored.
+ */
+export async function deleteUnusedFiles(urls: Array<string | null | undefined>): Promise<number> {
+  const storage = getStorage();
+  const keys: string[] = [];
+  for (const url of Array.from(new Set(urls))) {
+    const key = url ? storage.keyForUrl(url) : null;
+    if (!url || !key) continue;
+    const [documents, videos] = await Promise.all([
+      prisma.coordinationDocument.count({ where: { fileUrl: url } }),
+      prisma.recentEventVideo.count({ where: { OR: [{ videoUrl: url }, { thumbnailUrl: url }] } })
+    ]);
+    if (documents + videos === 0) keys.push(key);
+  }
+  return keys.length ? deleteStoredObjects(keys) : 0;
+}
+
+/** Every key some row refers to */
+async function referencedKeys(): Promise<Set<string>> {
+  const storage = getStorage();
+  const [images, documents, videos] = await Promise.all([
+    prisma.image.findMany({ select: { originalKey: true, variants: true } }),
+    prisma.coordinationDocument.findMany({ select: { fileUrl: true } }),
+    prisma.recentEventVideo.findMany({ select: { videoUrl: true, thumbnailUrl: true } })
+  ]);
+
+  const keys = new Set<string>();
+  for (const image of images) {
+    for (const key of imageStorageKeys(image)) keys.add(key);
+  }
+  const urls: Array<string | null> = documents.map((document: { fileUrl: string }) => document.fileUrl);
+  for (const video of videos) urls.push(video.videoUrl, video.thumbnailUrl);
+  for (const url of urls) {
+    const key = url ? storage.keyForUrl(url) : null;
+    if (key) keys.add(key);
+  }
+  return keys;
+}
+
+export interface ReconcileReport {
+  prefixes: string[];
+  scanned: number;
+  /** Objects no row refers to, older than the grace period */
+  orphans: StoredObject[];
+  orphanBytes: number;
+  /** Unreferenced but too new to judge */
+  recent: number;
+  purged: number;
+}
+
+/**
+ * List everything under `prefixes` and find the objects no image, document or video refers
+ * to. Objects from the last day are left alone, since their upload may not be saved yet.
+ * @param options.purge Delete the orphans instead of only reporting them
+ */
+export async function reconcileStorage({
+  prefixes = RECONCILE_PREFIXES,
+  purge = false,
+  now = new Date()
+}: { prefixes?: string[]; purge?: boolean; now?: Date } = {}): Promise<ReconcileReport> {
+  const storage = getStorage();
+  const referenced = await referencedKeys();
+  const cutoff = now.getTime() - RECONCILE_GRACE_MS;
+  const report: ReconcileReport = { prefixes, scanned: 0, orphans: [], orphanBytes: 0, recent: 0, purged: 0 };
+
+  for (const prefix of prefixes) {
+    let cursor: string | null = null;
+    do {
+      const page: { objects: StoredObject[]; cursor: string | null } = await storage.list(prefix, cursor);
+      for (const object of page.objects) {
+        report.scanned++;
+        if (referenced.has(object.key)) continue;
+        if (object.lastModified && object.lastModified.getTime() > cutoff) {
+          report.recent++;
+          continue;
+        }
+        report.orphans.push(object);
+        report.orphanBytes += object.size;
+      }
+      cursor = page.cursor;
+    } while (cursor);
+  }
+
+  if (purge && report.orphans.length > 0) {
+    report.purged = await deleteStoredObjects(report.orphans.map(object => object.key));
+  }
+  logger.info('Storage reconciled', {
+    prefixes,
+    scanned: report.scanned,
+    orphans: report.orphans.length,
+    orphanBytes: report.orphanBytes,
+    recent: report.recent,
+    purged: report.purged
+  });
+  return report;
+}
+
+export interface OrphanedImage {
+  id: string;
+  originalKey: string;
+  status: string;
+  createdAt: Date;
+  uploader: { name: string | null; email: string };
+  thumbnailUrl: string | null;
+}
+
+export interface OrphanedImagesReport {
+  maxAgeHours: number;
+  /** Images unused since before this are orphaned */
+  cutoff: Date;
+  dryRun: boolean;
+  /** Every orphaned image, including those past this batch */
+  total: number;
+  /** The oldest `limit` of them: the ones deleted, or that would be */
+  images: OrphanedImage[];
+  deleted: number;
+}
+
+/** IMAGE_GC_MAX_AGE_HOURS, or 72 */
+export function orphanedImageMaxAgeHours() {
+  const hours = Number(process.env.IMAGE_GC_MAX_AGE_HOURS);
+  return hours > 0 ? hours : DEFAULT_ORPHANED_IMAGE_MAX_AGE_HOURS;
+}
+
+/**
+ * Garbage-collect images that no event, venue, hero or gallery has used for `maxAgeHours`,
+ * such as uploads from event forms that were abandoned before saving. Images an event
+ * revision refers to are kept, since restoring it puts them back.
+ * @param options.dryRun Only report what would be deleted
+ */
+export async function collectOrphanedImages({
+  dryRun = false,
+  maxAgeHours = orphanedImageMaxAgeHours(),
+  limit = ORPHANED_IMAGE_BATCH_SIZE,
+  now = new Date()
+}: { dryRun?: boolean; maxAgeHours?: number; limit?: number; now?: Date } = {}): Promise<OrphanedImagesReport> {
+  const cutoff = new Date(now.getTime() - maxAgeHours * 60 * 60 * 1000);
+  // Age counts from the last change, e.g. an edit taking the image off its event, not the upload
+  const where: Prisma.ImageWhereInput = {
+    ...UNUSED_IMAGE,
+    updatedAt: { lt: cutoff },
+    id: { notIn: await revisionImageIds() }
+  };
+
+  type OrphanRow = {
+    id: string;
+    originalKey: string;
+    status: string;
+    createdAt: Date;
+    variants: Prisma.JsonValue;
+    uploader: { name: string | null; email: string };
+  };
+  const [total, rows] = await Promise.all([
+    prisma.image.count({ where }),
+    prisma.image.findMany({
+      where,
+      orderBy: { updatedAt: "asc" },
+      take: limit,
+      select: {
+        id: true,
+        originalKey: true,
+        status: true,
+        createdAt: true,
+        variants: true,
+        uploader: { select: { name: true, email: true } }
+      }
+    }) as Promise<OrphanRow[]>
+  ]);
+
+  const images = rows.map(({ variants, ...image }) => {
+    const thumb = (variants as { thumb?: { webpUrl?: string; jpgUrl?: string } } | null)?.thumb;
+    return { ...image, thumbnailUrl: thumb?.webpUrl ?? thumb?.jpgUrl ?? null };
+  });
+  const deleted = dryRun ? 0 : await deleteUnusedImages(images.map(image => image.id));
+
+  return { maxAgeHours, cutoff, dryRun, total, images, deleted };
+}
@@ -0,0 +1,437 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+/**
+ * Object storage for uploaded files, behind a driver interface so production can use S3
+ * while local development and tests keep files on disk. Keys are bucket-relative paths
+ * such as "events/<eventId>/<uuid>_thumb.webp".
+ *
+ * STORAGE_DRIVER selects the driver:
+ * - "s3" (default): S3_BUCKET in AWS_REGION. Credentials come from AWS_ACCESS_KEY_ID and
+ *   AWS_SECRET_ACCESS_KEY, or the SDK's default chain when those are unset. For S3-compatible
+ *   services such as MinIO, set S3_ENDPOINT and (usually) S3_FORCE_PATH_STYLE=true.
+ *   Objects are served from S3_PUBLIC_BASE_URL.
+ * - "local": files under STORAGE_LOCAL_DIR (default .storage/), served and accepted by
+ *   /api/storage/[...key] with URLs signed by NEXTAUTH_SECRET
+ */
+
+export interface PutOptions {
+  contentType: string;
+  cacheControl?: string;
+}
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified: Date | null;
+}
+
+export interface StoredPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+}
+
+export interface StorageDriver {
+  name: string;
+  put(key: string, body: Buffer, options: PutOptions): Promise<void>;
+  /** The object's bytes, or just `range` (inclusive, like an HTTP Range header) */
+  get(key: string, range?: { start: number; end: number }): Promise<Buffer>;
+  /** Null when there's no such object */
+  head(key: string): Promise<{ size: number; contentType: string | null } | null>;
+  /** Succeeds when the object is already gone */
+  delete(key: string): Promise<void>;
+  /** One page of the objects under `prefix`; pass the returned cursor to get the next */
+  list(prefix: string, cursor?: string | null): Promise<{ objects: StoredObject[]; cursor: string | null }>;
+  /** Time-limited URL to read an object, or to write one with a single PUT */
+  presign(key: string, method: "GET" | "PUT", expiresIn: number): Promise<string>;
+  /** Permanent URL browsers load the object from */
+  publicUrl(key: string): string;
+  /** The key behind a publicUrl, or null for URLs this storage didn't issue (e.g. YouTube links) */
+  keyForUrl(url: string): string | null;
+
+  // Multipart uploads: the browser PUTs each part to its presigned URL, so file bodies
+  // never pass through our functions
+  createMultipartUpload(key: string, options: PutOptions): Promise<string>;
+  presignPart(key: string, uploadId: string, partNumber: number, expiresIn: number): Promise<string>;
+  /** @throws MissingUploadError once the upload has been completed, aborted or expired */
+  listParts(key: string, uploadId: string): Promise<StoredPart[]>;
+  completeMultipartUpload(key: string, uploadId: string, parts: StoredPart[]): Promise<void>;
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+}
+
+export const IMMUTABLE_CACHE_CONTROL = "public, max-age=31536000, immutable";
+
+/**
+ * Thrown for multipart uploads that no longer exist; named like S3's own error so
+ * callers can treat both drivers alike
+ */
+export class MissingUploadError extends Error {
+  constructor() {
+    super("The multipart upload does not exist");
+    this.name = "NoSuchUpload";
+  }
+}
+
+export const isMissingUpload = (error: unknown) => error instanceof Error && error.name === "NoSuchUpload";
+
+function keyAfterPrefix(url: string, prefix: string) {
+  if (!url.startsWith(prefix)) return null;
+  return url.slice(prefix.length).split(/[?#]/)[0] || null;
+}
+
+export interface S3DriverConfig {
+  bucket: string;
+  region: string;
+  publicBaseUrl: string;
+  /** For S3-compatible services, e.g. http://localhost:9000 for MinIO */
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  credentials?: { accessKeyId: string; secretAccessKey: string };
+}
+
+export function createS3Driver(config: S3DriverConfig): StorageDriver {
+  const client = new S3Client({
+    region: config.region,
+    endpoint: config.endpoint,
+    forcePathStyle: config.forcePathStyle,
+    credentials: config.credentials
+  });
+  const Bucket = config.bucket;
+  const publicBaseUrl = config.publicBaseUrl.replace(/\/+$/, "");
+
+  return {
+    name: "s3",
+    async put(Key, Body, { contentType, cacheControl = IMMUTABLE_CACHE_CONTROL }) {
+      // No ACL; the bucket should have a public read policy instead
+      await client.send(new PutObjectCommand({ Bucket, Key, Body, ContentType: contentType, CacheControl: cacheControl }));
+    },
+    async get(Key, range) {
+      const res = await client.send(new GetObjectCommand({
+        Bucket,
+        Key,
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined
+      }));
+      return res.Body ? Buffer.from(await res.Body.transformToByteArray()) : Buffer.alloc(0);
+    },
+    async head(Key) {
+      try {
+        const res = await client.send(new HeadObjectCommand({ Bucket, Key }));
+        return { size: res.ContentLength ?? 0, contentType: res.ContentType ?? null };
+      } catch (error) {
+        if (error instanceof Error && (error.name === "NotFound" || error.name === "NoSuchKey")) return null;
+        throw error;
+      }
+    },
+    async delete(Key) {
+      await client.send(new DeleteObjectCommand({ Bucket, Key }));
+    },
+    async list(Prefix, cursor) {
+      const res = await client.send(new ListObjectsV2Command({ Bucket, Prefix, ContinuationToken: cursor ?? undefined }));
+      return {
+        objects: (res.Contents ?? [])
+          .filter(object => !!object.Key)
+          .map(object => ({ key: object.Key!, size: object.Size ?? 0, lastModified: object.LastModified ?? null })),
+        cursor: res.IsTruncated ? res.NextContinuationToken ?? null : null
+      };
+    },
+    presign(Key, method, expiresIn) {
+      const command = method === "GET" ? new GetObjectCommand({ Bucket, Key }) : new PutObjectCommand({ Bucket, Key });
+      return getSignedUrl(client, command, { expiresIn });
+    },
+    publicUrl(key) {
+      return `${publicBaseUrl}/${key}`;
+    },
+    keyForUrl(url) {
+      return keyAfterPrefix(url, `${publicBaseUrl}/`);
+    },
+
+    async createMultipartUpload(Key, { contentType, cacheControl = IMMUTABLE_CACHE_CONTROL }) {
+      const res = await client.send(new CreateMultipartUploadCommand({ Bucket, Key, ContentType: contentType, CacheControl: cacheControl }));
+      if (!res.UploadId) throw new Error(`S3 returned no upload id for ${Key}`);
+      return res.UploadId;
+    },
+    presignPart(Key, UploadId, PartNumber, expiresIn) {
+      return getSignedUrl(client, new UploadPartCommand({ Bucket, Key, UploadId, PartNumber }), { expiresIn });
+    },
+    async listParts(Key, UploadId) {
+      const parts: StoredPart[] = [];
+      let marker: string | undefined;
+      do {
+        const res = await client.send(new ListPartsCommand({ Bucket, Key, UploadId, PartNumberMarker: marker }));
+        for (const part of res.Parts ?? []) {
+          if (part.PartNumber && part.ETag) parts.push({ partNumber: part.PartNumber, etag: part.ETag, size: part.Size ?? 0 });
+        }
+        marker = res.IsTruncated ? res.NextPartNumberMarker : undefined;
+      } while (marker);
+      return parts;
+    },
+    async completeMultipartUpload(Key, UploadId, parts) {
+      await client.send(new CompleteMultipartUploadCommand({
+        Bucket,
+        Key,
+        UploadId,
+        MultipartUpload: { Parts: parts.map(part => ({ PartNumber: part.partNumber, ETag: part.etag })) }
+      }));
+    },
+    async abortMultipartUpload(Key, UploadId) {
+      await client.send(new AbortMultipartUploadCommand({ Bucket, Key, UploadId }));
+    }
+  };
+}
+
+// Parts of unfinished uploads live here, out of reach of object keys (which can't start with ".")
+const LOCAL_MULTIPART_DIR = ".multipart";
+const LOCAL_LIST_PAGE_SIZE = 1000;
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: "image/jpeg", jpeg: "image/jpeg", png: "image/png", webp: "image/webp", gif: "image/gif",
+  avif: "image/avif", heic: "image/heic", heif: "image/heif",
+  mp4: "video/mp4", webm: "video/webm", mov: "video/quicktime", avi: "video/x-msvideo", mkv: "video/x-matroska",
+  pdf: "application/pdf", txt: "text/plain"
+};
+
+/** The local driver keeps no metadata, so files are served with a type guessed from their extension */
+export const contentTypeForKey = (key: string) =>
+  CONTENT_TYPES[key.split(".").pop()?.toLowerCase() ?? ""] ?? "application/octet-stream";
+
+const encodeKey = (key: string) => key.split("/").map(encodeURIComponent).join("/");
+
+export interface LocalSignedRequest {
+  method: "GET" | "PUT";
+  key: string;
+  expires: string | null;
+  signature: string | null;
+  uploadId?: string | null;
+  partNumber?: string | null;
+}
+
+export interface LocalStorageDriver extends StorageDriver {
+  name: "local";
+  /** Absolute path of an object's file */
+  resolve(key: string): string;
+  /** Whether a request to /api/storage carries a valid, unexpired signature */
+  verify(request: LocalSignedRequest): boolean;
+  /** Store one part of a multipart upload; stands in for S3's UploadPart */
+  putPart(key: string, uploadId: string, partNumber: number, body: Buffer): Promise<string>;
+}
+
+export const isLocalDriver = (driver: StorageDriver): driver is LocalStorageDriver => driver.name === "local";
+
+export function createLocalDriver(root: string, { secret, publicPath = "/api/storage" }: { secret: string; publicPath?: string }): LocalStorageDriver {
+  const rootDir = path.resolve(root);
+  const multipartDir = path.join(rootDir, LOCAL_MULTIPART_DIR);
+
+  function resolve(key: string) {
+    const file = path.resolve(rootDir, key);
+    if (!key || key.startsWith(".") || key.includes("\0") || !file.startsWith(rootDir + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return file;
+  }
+
+  function uploadDir(uploadId: string) {
+    if (!/^[0-9a-f-]{36}$/.test(uploadId)) throw new MissingUploadError();
+    return path.join(multipartDir, uploadId);
+  }
+
+  const sign = ({ method, key, expires, uploadId, partNumber }: LocalSignedRequest) =>
+    createHmac("sha256", secret).update([method, key, expires, uploadId ?? "", partNumber ?? ""].join("\n")).digest("hex");
+
+  function signedUrl(request: Omit<LocalSignedRequest, "expires" | "signature">, expiresIn: number) {
+    const expires = String(Math.floor(Date.now() / 1000) + expiresIn);
+    const params = new URLSearchParams({ expires, signature: sign({ ...request, expires, signature: null }) });
+    if (request.uploadId) params.set("uploadId", request.uploadId);
+    if (request.partNumber) params.set("partNumber", request.partNumber);
+    return `${publicPath}/${encodeKey(request.key)}?${params}`;
+  }
+
+  async function readUpload(key: string, uploadId: string) {
+    const dir = uploadDir(uploadId);
+    try {
+      const upload: { key: string } = JSON.parse(await fs.readFile(path.join(dir, "upload.json"), "utf8"));
+      if (upload.key !== key) throw new MissingUploadError();
+      return dir;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") throw new MissingUploadError();
+      throw error;
+    }
+  }
+
+  async function walk(dir: string, files: StoredObject[]) {
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      const file = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (file !== multipartDir) await walk(file, files);
+      } else {
+        const stat = await fs.stat(file);
+        files.push({ key: path.relative(rootDir, file).split(path.sep).join("/"), size: stat.size, lastModified: stat.mtime });
+      }
+    }
+    return files;
+  }
+
+  return {
+    name: "local",
+    resolve,
+    async put(key, body) {
+      const file = resolve(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, body);
+    },
+    async get(key, range) {
+      const file = resolve(key);
+      if (!range) return fs.readFile(file);
+      const handle = await fs.open(file, "r");
+      try {
+        const buffer = Buffer.alloc(range.end - range.start + 1);
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, range.start);
+        return buffer.subarray(0, bytesRead);
+      } finally {
+        await handle.close();
+      }
+    },
+    async head(key) {
+      try {
+        const stat = await fs.stat(resolve(key));
+        return { size: stat.size, contentType: contentTypeForKey(key) };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async delete(key) {
+      await fs.rm(resolve(key), { force: true });
+    },
+    async list(prefix, cursor) {
+      // Walk from the deepest directory the prefix names, then filter on the rest of it
+      const base = prefix.includes("/") ? prefix.slice(0, prefix.lastIndexOf("/")) : "";
+      const objects = (await walk(base ? resolve(base) : rootDir, []))
+        .filter(object => object.key.startsWith(prefix) && (!cursor || object.key > cursor))
+        .sort((a, b) => (a.key < b.key ? -1 : 1));
+      const page = objects.slice(0, LOCAL_LIST_PAGE_SIZE);
+      return { objects: page, cursor: objects.length > page.length ? page[page.length - 1].key : null };
+    },
+    async presign(key, method, expiresIn) {
+      resolve(key);
+      return signedUrl({ method, key }, expiresIn);
+    },
+    publicUrl(key) {
+      return `${publicPath}/${encodeKey(key)}`;
+    },
+    keyForUrl(url) {
+      // Stored URLs are relative, but accept absolute ones pointing at this app too
+      const pathname = /^https?:\/\//.test(url) ? new URL(url).pathname : url;
+      const key = keyAfterPrefix(pathname, `${publicPath}/`);
+      return key && key.split("/").map(decodeURIComponent).join("/");
+    },
+    verify(request) {
+      if (!request.expires || !request.signature || Number(request.expires) * 1000 < Date.now()) return false;
+      const expected = Buffer.from(sign(request));
+      const given = Buffer.from(request.signature);
+      return expected.length === given.length && timingSafeEqual(expected, given);
+    },
+
+    async createMultipartUpload(key) {
+      resolve(key);
+      const uploadId = randomUUID();
+      const dir = uploadDir(uploadId);
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(path.join(dir, "upload.json"), JSON.stringify({ key }));
+      return uploadId;
+    },
+    async presignPart(key, uploadId, partNumber, expiresIn) {
+      return signedUrl({ method: "PUT", key, uploadId, partNumber: String(partNumber) }, expiresIn);
+    },
+    async putPart(key, uploadId, partNumber, body) {
+      const dir = await readUpload(key, uploadId);
+      await fs.writeFile(path.join(dir, `${partNumber}.part`), body);
+      return `"${partNumber}-${body.length}"`;
+    },
+    async listParts(key, uploadId) {
+      const dir = await readUpload(key, uploadId);
+      const parts: StoredPart[] = [];
+      for (const name of await fs.readdir(dir)) {
+        const match = /^(\d+)\.part$/.exec(name);
+        if (!match) continue;
+        const { size } = await fs.stat(path.join(dir, name));
+        parts.push({ partNumber: Number(match[1]), etag: `"${match[1]}-${size}"`, size });
+      }
+      return parts.sort((a, b) => a.partNumber - b.partNumber);
+    },
+    async completeMultipartUpload(key, uploadId, parts) {
+      const dir = await readUpload(key, uploadId);
+      const file = resolve(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, Buffer.alloc(0));
+      for (const part of [...parts].sort((a, b) => a.partNumber - b.partNumber)) {
+        await fs.appendFile(file, await fs.readFile(path.join(dir, `${part.partNumber}.part`)));
+      }
+      await fs.rm(dir, { recursive: true, force: true });
+    },
+    async abortMultipartUpload(key, uploadId) {
+      await fs.rm(await readUpload(key, uploadId), { recursive: true, force: true });
+    }
+  };
+}
+
+let driver: StorageDriver | undefined;
+
+/**
+ * Driver chosen by STORAGE_DRIVER
+ * @throws When the chosen driver's settings are missing
+ */
+export function getStorage(): StorageDriver {
+  if (driver) return driver;
+
+  const name = process.env.STORAGE_DRIVER || "s3";
+  switch (name) {
+    case "local": {
+      const secret = process.env.NEXTAUTH_SECRET;
+      if (!secret) throw new Error("NEXTAUTH_SECRET is required to sign local storage URLs");
+      driver = createLocalDriver(process.env.STORAGE_LOCAL_DIR || ".storage", { secret });
+      break;
+    }
+    case "s3": {
+      const { S3_BUCKET, AWS_REGION, S3_PUBLIC_BASE_URL, S3_ENDPOINT, AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY } = process.env;
+      if (!S3_BUCKET || !S3_PUBLIC_BASE_URL) throw new Error("S3_BUCKET and S3_PUBLIC_BASE_URL are required for S3 storage");
+      driver = createS3Driver({
+        bucket: S3_BUCKET,
+        region: AWS_REGION || "us-east-1",
+        publicBaseUrl: S3_PUBLIC_BASE_URL,
+        endpoint: S3_ENDPOINT || undefined,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+        credentials: AWS_ACCESS_KEY_ID && AWS_SECRET_ACCESS_KEY
+          ? { accessKeyId: AWS_ACCESS_KEY_ID, secretAccessKey: AWS_SECRET_ACCESS_KEY }
+          : undefined
+      });
+      break;
+    }
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${name}"`);
+  }
+  return driver;
+}
+
+/**
+ * Replace the configured driver, e.g. with createLocalDriver on a temp directory in tests
+ */
+export function setStorage(next: StorageDriver) {
+  driver = next;
+}
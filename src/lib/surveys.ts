@@ -0,0 +1,316 @@
+import { SignJWT, jwtVerify } from "jose";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { sendEmail } from "@/lib/mailer";
+import { logger } from "@/lib/logger";
+import { surveyQuestionSchema } from "@/lib/validation";
+import type { SurveyQuestion, SurveyQuestionResult } from "@/types";
+
+const SURVEY_AUDIENCE = "event-survey";
+const SURVEY_EXPIRY = "60d";
+
+export const RATING_SCALE = 5;
+
+// What a new survey starts with; organizers can reword, reorder or remove any of them
+export const DEFAULT_SURVEY_QUESTIONS: SurveyQuestion[] = [
+  { id: "overall", type: "RATING", label: "How would you rate the event overall?", required: true },
+  { id: "venue", type: "RATING", label: "How was the venue?", required: false },
+  { id: "attend-again", type: "ATTEND_AGAIN", label: "Would you come to an event like this again?", required: true },
+  { id: "comments", type: "TEXT", label: "Anything we could do better?", required: false }
+];
+
+function getSecret() {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) throw new Error("NEXTAUTH_SECRET is required to sign survey links");
+  return new TextEncoder().encode(secret);
+}
+
+export interface SurveyTokenPayload {
+  registrationId: string;
+  eventId: string;
+}
+
+/**
+ * Sign the token in an attendee's survey link; it identifies the registration answering
+ */
+export async function createSurveyToken({ registrationId, eventId }: SurveyTokenPayload): Promise<string> {
+  return new SignJWT({ eid: eventId })
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(registrationId)
+    .setAudience(SURVEY_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(SURVEY_EXPIRY)
+    .sign(getSecret());
+}
+
+/**
+ * @returns The registration and event the link was sent for, or null if it's invalid or expired
+ */
+export async function verifySurveyToken(token: string): Promise<SurveyTokenPayload | null> {
+  try {
+    const { payload } = await jwtVerify(token, getSecret(), { audience: SURVEY_AUDIENCE });
+    if (!payload.sub || typeof payload.eid !== "string") return null;
+    return { registrationId: payload.sub, eventId: payload.eid };
+  } catch {
+    return null;
+  }
+}
+
+export function getSurveyUrl(token: string) {
+  const baseUrl = process.env.NEXTAUTH_URL || "https://thcmembersonlyclub.com";
+  return `${baseUrl}/surveys/${token}`;
+}
+
+/**
+ * The questions stored on a survey; anything malformed is dropped rather than shown
+ */
+export function getSurveyQuestions(questions: unknown): SurveyQuestion[] {
+  if (!Array.isArray(questions)) return [];
+  return questions.flatMap(question => {
+    const parsed = surveyQuestionSchema.safeParse(question);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+export type SurveyAnswers = Record<string, number | string | boolean>;
+
+/**
+ * Check a submission against the survey's questions, keeping only answers to questions
+ * it asks and dropping blank optional ones
+ */
+export function parseSurveyAnswers(
+  questions: SurveyQuestion[],
+  submitted: Record<string, unknown>
+): { answers: SurveyAnswers } | { error: string } {
+  const answers: SurveyAnswers = {};
+
+  for (const question of questions) {
+    const value = submitted[question.id];
+    const blank = value === undefined || value === null || (typeof value === "string" && !value.trim());
+    if (blank) {
+      if (question.required) return { error: `Please answer "${question.label}"` };
+      continue;
+    }
+
+    switch (question.type) {
+      case "RATING":
+        if (typeof value !== "number" || !Number.isInteger(value) || value < 1 || value > RATING_SCALE) {
+          return { error: `"${question.label}" needs a rating from 1 to ${RATING_SCALE}` };
+        }
+        answers[question.id] = value;
+        break;
+      case "ATTEND_AGAIN":
+        if (typeof value !== "boolean") return { error: `"${question.label}" needs a yes or no` };
+        answers[question.id] = value;
+        break;
+      case "TEXT":
+        if (typeof value !== "string") return { error: `"${question.label}" needs a written answer` };
+        answers[question.id] = value.trim();
+        break;
+    }
+  }
+
+  return { answers };
+}
+
+const asAnswers = (answers: unknown) =>
+  (answers && typeof answers === "object" && !Array.isArray(answers) ? answers : {}) as Record<string, unknown>;
+
+/**
+ * Per-question results for one survey, in question order. Text answers come newest first.
+ */
+export function summarizeSurvey(
+  questions: SurveyQuestion[],
+  responses: Array<{ answers: unknown; submittedAt: Date }>
+): SurveyQuestionResult[] {
+  const newestFirst = [...responses].sort((a, b) => b.submittedAt.getTime() - a.submittedAt.getTime());
+  const answersTo = (question: SurveyQuestion) =>
+    newestFirst.map(response => asAnswers(response.answers)[question.id]).filter(value => value !== undefined);
+
+  return questions.map((question): SurveyQuestionResult => {
+    const values = answersTo(question);
+    switch (question.type) {
+      case "RATING": {
+        const ratings = values.filter((value): value is number => typeof value === "number");
+        const distribution = Array.from({ length: RATING_SCALE }, (_, i) => ratings.filter(rating => rating === i + 1).length);
+        return {
+          question,
+          type: "RATING",
+          answered: ratings.length,
+          average: ratings.length ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null,
+          distribution
+        };
+      }
+      case "ATTEND_AGAIN": {
+        const votes = values.filter((value): value is boolean => typeof value === "boolean");
+        const yes = votes.filter(Boolean).length;
+        return { question, type: "ATTEND_AGAIN", answered: votes.length, yes, no: votes.length - yes };
+      }
+      case "TEXT": {
+        const texts = values.filter((value): value is string => typeof value === "string" && !!value);
+        return { question, type: "TEXT", answered: texts.length, answers: texts };
+      }
+    }
+  });
+}
+
+/**
+ * The two numbers events are compared on: the average of every rating given, and the
+ * share of "would attend again" answers that were yes. Null when nobody answered.
+ */
+export function getSurveyScores(questions: SurveyQuestion[], responses: Array<{ answers: unknown }>) {
+  let ratingSum = 0;
+  let ratingCount = 0;
+  let yes = 0;
+  let votes = 0;
+
+  for (const response of responses) {
+    const answers = asAnswers(response.answers);
+    for (const question of questions) {
+      const value = answers[question.id];
+      if (question.type === "RATING" && typeof value === "number") {
+        ratingSum += value;
+        ratingCount++;
+      } else if (question.type === "ATTEND_AGAIN" && typeof value === "boolean") {
+        votes++;
+        if (value) yes++;
+      }
+    }
+  }
+
+  return {
+    averageRating: ratingCount ? ratingSum / ratingCount : null,
+    attendAgainRate: votes ? yes / votes : null,
+    ratingCount,
+    attendAgainCount: votes
+  };
+}
+
+/**
+ * Queue the survey emails for every archived event whose survey hasn't gone out yet. Attendees
+ * who were checked in get it; if nobody was checked in at the door, every confirmed RSVP does.
+ * Each email is its own job, so a big event can't run the cron past its time limit and
+ * a failed send is retried on its own.
+ * @returns The number of emails queued
+ */
+export async function queueDueSurveys(): Promise<number> {
+  const due = await prisma.survey.findMany({
+    where: { enabled: true, sentAt: null, event: { status: "ARCHIVED" } },
+    select: { id: true, eventId: true },
+    take: 20
+  });
+
+  let queued = 0;
+  for (const survey of due) {
+    const recipients = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Claim the survey in the same transaction, so an overlapping run can't queue it twice
+      const { count } = await tx.survey.updateMany({
+        where: { id: survey.id, sentAt: null },
+        data: { sentAt: new Date() }
+      });
+      if (count === 0) return null;
+
+      const confirmed = await tx.registration.findMany({
+        where: { eventId: survey.eventId, status: "CONFIRMED" },
+        select: { id: true, checkedInAt: true }
+      });
+      type Recipient = (typeof confirmed)[number];
+      const checkedIn = confirmed.filter((registration: Recipient) => registration.checkedInAt);
+      const recipients: Recipient[] = checkedIn.length > 0 ? checkedIn : confirmed;
+
+      await tx.survey.update({ where: { id: survey.id }, data: { sentTo: recipients.length } });
+      await tx.job.createMany({
+        data: recipients.map((registration: Recipient) => ({
+          type: "survey.email",
+          payload: { surveyId: survey.id, registrationId: registration.id }
+        }))
+      });
+      return recipients;
+    });
+    if (!recipients) continue;
+
+    queued += recipients.length;
+    logger.info('Survey queued', { surveyId: survey.id, eventId: survey.eventId, recipients: recipients.length });
+  }
+
+  return queued;
+}
+
+/**
+ * Email one attendee their survey link. Run by the job worker for each recipient
+ * queueDueSurveys queued; attendees who already answered are skipped.
+ */
+export async function sendSurveyEmail({ surveyId, registrationId }: { surveyId: string; registrationId: string }) {
+  const registration = await prisma.registration.findUnique({
+    where: { id: registrationId },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      eventId: true,
+      event: { select: { title: true } },
+      surveyResponse: { select: { id: true } }
+    }
+  });
+  if (!registration || registration.surveyResponse) return;
+
+  const token = await createSurveyToken({ registrationId: registration.id, eventId: registration.eventId });
+  await sendEmail({
+    to: registration.email,
+    subject: `How was ${registration.event.title}?`,
+    text: [
+      `Hi ${registration.name},`,
+      "",
+      `Thanks for coming to ${registration.event.title}. We'd love to hear how it went; the survey takes about a minute:`,
+      getSurveyUrl(token),
+      "",
+      "Your answers help us decide which events to run next."
+    ].join("\n")
+  });
+  logger.info('Survey emailed', { surveyId, registrationId });
+}
+
+export interface SurveyComparisonRow {
+  responses: number;
+  sentTo: number | null;
+  averageRating: number | null;
+  attendAgainRate: number | null;
+  ratingCount: number;
+  attendAgainCount: number;
+}
+
+/**
+ * Pool per-event scores into groups (e.g. by category or venue). Averages are weighted by
+ * the number of answers, so a busy event counts for more than a quiet one.
+ */
+export function groupSurveyScores<T extends SurveyComparisonRow>(
+  rows: T[],
+  groupOf: (row: T) => { key: string; label: string }
+) {
+  const groups = new Map<string, { key: string; label: string; events: number; responses: number; sentTo: number; ratingSum: number; ratingCount: number; yes: number; attendAgainCount: number }>();
+
+  for (const row of rows) {
+    const { key, label } = groupOf(row);
+    const group = groups.get(key) ?? { key, label, events: 0, responses: 0, sentTo: 0, ratingSum: 0, ratingCount: 0, yes: 0, attendAgainCount: 0 };
+    group.events++;
+    group.responses += row.responses;
+    group.sentTo += row.sentTo ?? 0;
+    group.ratingSum += (row.averageRating ?? 0) * row.ratingCount;
+    group.ratingCount += row.ratingCount;
+    group.yes += (row.attendAgainRate ?? 0) * row.attendAgainCount;
+    group.attendAgainCount += row.attendAgainCount;
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values())
+    .map(group => ({
+      key: group.key,
+      label: group.label,
+      events: group.events,
+      responses: group.responses,
+      responseRate: group.sentTo ? group.responses / group.sentTo : null,
+      averageRating: group.ratingCount ? group.ratingSum / group.ratingCount : null,
+      attendAgainRate: group.attendAgainCount ? group.yes / group.attendAgainCount : null
+    }))
+    .sort((a, b) => (b.averageRating ?? -1) - (a.averageRating ?? -1));
+}
@@ -0,0 +1,82 @@
+import { getZonedDate, zonedTimeToUtc } from "@/lib/timezone";
+
+/**
+ * Event categories and date-range filters, shared by the event form, the public filters and
+ * the API. Categories are stored by value, so labels can change freely; removing a value
+ * leaves existing events uncategorized in filters.
+ */
+
+export const EVENT_CATEGORIES = [
+  { value: "social", label: "Social Gatherings" },
+  { value: "workshop", label: "Workshops" },
+  { value: "tasting", label: "Tastings" },
+  { value: "product-launch", label: "Product Launches" },
+  { value: "community", label: "Community" },
+  { value: "members-only", label: "Members Only" },
+] as const;
+
+export type EventCategory = typeof EVENT_CATEGORIES[number]["value"];
+
+export const EVENT_CATEGORY_VALUES = EVENT_CATEGORIES.map(category => category.value) as [EventCategory, ...EventCategory[]];
+
+export function getCategoryLabel(value: string | null | undefined): string | null {
+  return EVENT_CATEGORIES.find(category => category.value === value)?.label ?? null;
+}
+
+export const MAX_EVENT_TAGS = 10;
+
+/**
+ * Lower-case, trimmed, de-duplicated tags, so "Sativa " and "sativa" filter together
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+export const PRICE_TYPES = [
+  { value: "RSVP", label: "Free RSVP" },
+  { value: "BUY_TICKETS", label: "Ticketed" },
+] as const;
+
+export const DATE_RANGES = [
+  { value: "today", label: "Today" },
+  { value: "weekend", label: "This Weekend" },
+  { value: "week", label: "Next 7 Days" },
+  { value: "month", label: "Next 30 Days" },
+] as const;
+
+export type DateRange = typeof DATE_RANGES[number]["value"];
+
+// Ranges are calendar days where most events happen
+const RANGE_TIME_ZONE = "America/Los_Angeles";
+
+const addDays = (date: string, days: number) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+/**
+ * Start and end instants of a named range, in whole local days from today.
+ * "weekend" is Friday through Sunday, or the rest of it when today is already the weekend.
+ */
+export function getDateRange(range: string, now = new Date(), timeZone = RANGE_TIME_ZONE): { from: Date; to: Date } | null {
+  const today = getZonedDate(now, timeZone);
+  const startOf = (date: string) => zonedTimeToUtc(`${date}T00:00`, timeZone);
+
+  switch (range) {
+    case "today":
+      return { from: now, to: startOf(addDays(today, 1)) };
+    case "weekend": {
+      const weekday = new Date(`${today}T00:00:00Z`).getUTCDay(); // 0 = Sunday
+      const daysToFriday = weekday === 0 ? -2 : weekday === 6 ? -1 : 5 - weekday;
+      const friday = addDays(today, daysToFriday);
+      const from = daysToFriday <= 0 ? now : startOf(friday);
+      return { from, to: startOf(addDays(friday, 3)) };
+    }
+    case "week":
+      return { from: now, to: startOf(addDays(today, 8)) };
+    case "month":
+      return { from: now, to: startOf(addDays(today, 31)) };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * IANA timezone helpers built on Intl, so event times can be stored in UTC
+ * while organizers enter and members read them in the event's own zone.
+ */
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string) {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Wall-clock fields of an instant as seen in `timeZone`
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+/**
+ * Offset of `timeZone` from UTC at the given instant, in milliseconds (e.g. -7h for PDT)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Interpret a wall-clock value ("YYYY-MM-DDTHH:mm", as produced by datetime-local inputs)
+ * in `timeZone` and return the matching UTC instant.
+ * Times skipped by a DST jump resolve forward; repeated times resolve to the first occurrence.
+ */
+export function zonedTimeToUtc(localDateTime: string, timeZone: string): Date {
+  const [datePart, timePart = '00:00'] = localDateTime.split('T');
+  const [year, month, day] = datePart.split('-').map(Number);
+  const [hour, minute, second = 0] = timePart.split(':').map(Number);
+
+  const naiveUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  // The offset at the real instant can differ from the guess around DST transitions,
+  // so try both candidate offsets and keep the ones that map back to the same wall time
+  const firstGuess = naiveUtc - getTimeZoneOffset(new Date(naiveUtc), timeZone);
+  const secondGuess = naiveUtc - getTimeZoneOffset(new Date(firstGuess), timeZone);
+  const candidates = Array.from(new Set([firstGuess, secondGuess]));
+  const exact = candidates.filter(c => naiveUtc - getTimeZoneOffset(new Date(c), timeZone) === c);
+
+  return new Date(exact.length > 0 ? Math.min(...exact) : Math.max(...candidates));
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Format a UTC instant as a wall-clock "YYYY-MM-DDTHH:mm" in `timeZone`,
+ * suitable for a datetime-local input
+ */
+export function utcToZonedInput(date: Date | string, timeZone: string): string {
+  const p = getZonedParts(new Date(date), timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+/**
+ * Local calendar date ("YYYY-MM-DD") of an instant in `timeZone`
+ */
+export function getZonedDate(date: Date | string, timeZone: string): string {
+  return utcToZonedInput(date, timeZone).slice(0, 10);
+}
+
+/**
+ * Whether `timeZone` is a valid IANA zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a date/time sent for an event. Values with an explicit offset ("...Z", "+02:00")
+ * are taken as-is; wall-clock values from datetime-local inputs are read in `timeZone`.
+ */
+export function parseZonedInput(value: string, timeZone: string): Date {
+  return /(?:Z|[+-]\d{2}:?\d{2})$/i.test(value) ? new Date(value) : zonedTimeToUtc(value, timeZone);
+}
+
+/**
+ * First instant after the local calendar day `date` falls on in `timeZone`
+ */
+export function getEndOfZonedDay(date: Date | string, timeZone: string): Date {
+  const [year, month, day] = getZonedDate(date, timeZone).split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+  return zonedTimeToUtc(`${next}T00:00`, timeZone);
+}
+
+// Offered in the event form; any valid IANA zone is accepted by the API
+export const COMMON_TIME_ZONES = [
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Phoenix',
+  'America/Chicago',
+  'America/New_York',
+  'America/Anchorage',
+  'Pacific/Honolulu',
+  'UTC',
+];
@@ -0,0 +1,179 @@
+import { SignJWT, jwtVerify } from "jose";
+import { randomUUID } from "crypto";
+import { getServerAuthSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { isStaff } from "@/lib/rbac";
+import { SOURCE_SUFFIX } from "@/lib/images";
+import { getStorage } from "@/lib/storage";
+import type { UploadKind } from "@/types";
+
+/**
+ * Direct-to-storage multipart uploads. Starting an upload signs an upload token naming the storage
+ * key, multipart upload id and the size and type the browser declared; the parts and
+ * complete endpoints (src/app/api/upload/multipart) only act on uploads named by a valid token.
+ */
+
+const UPLOAD_AUDIENCE = "multipart-upload";
+// Storage keeps incomplete uploads until they're aborted (or a bucket lifecycle rule expires them)
+const UPLOAD_EXPIRY = "24h";
+
+// S3 needs every part but the last to be at least 5MB
+export const PART_SIZE = 8 * 1024 * 1024;
+
+const IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/avif", "image/heic", "image/heif"];
+
+interface UploadPolicy {
+  maxSize: number;
+  /** Checked against the declared type and the file's first bytes; null accepts anything */
+  types: string[] | null;
+  key: (extension: string, eventId: string | null) => string;
+}
+
+export const UPLOAD_POLICIES: Record<UploadKind, UploadPolicy> = {
+  image: {
+    maxSize: 10 * 1024 * 1024,
+    types: IMAGE_TYPES,
+    key: (extension, eventId) => `events/${eventId ?? "unassigned"}/${randomUUID()}${SOURCE_SUFFIX}.${extension}`
+  },
+  video: {
+    maxSize: 200 * 1024 * 1024,
+    types: ["video/mp4", "video/webm", "video/quicktime", "video/x-msvideo", "video/x-matroska"],
+    key: (extension) => `videos/${randomUUID()}-${Date.now()}.${extension}`
+  },
+  "video-thumbnail": {
+    maxSize: 10 * 1024 * 1024,
+    types: ["image/jpeg", "image/png", "image/webp", "image/gif"],
+    key: (extension) => `videos/thumbnails/${randomUUID()}-${Date.now()}.${extension}`
+  },
+  document: {
+    maxSize: 50 * 1024 * 1024,
+    types: null,
+    key: (extension) => `documents/${randomUUID()}${extension ? `.${extension}` : ""}`
+  }
+};
+
+export const isUploadKind = (kind: unknown): kind is UploadKind =>
+  typeof kind === "string" && kind in UPLOAD_POLICIES;
+
+export const partCount = (fileSize: number) => Math.max(1, Math.ceil(fileSize / PART_SIZE));
+
+/** Lowercase extension from a file name, limited to something safe to put in a key */
+export function fileExtension(fileName: string, fallback = "") {
+  const match = /\.([a-z0-9]{1,10})$/i.exec(fileName);
+  return match ? match[1].toLowerCase() : fallback;
+}
+
+/**
+ * The signed-in staff member, or null for anyone else; only staff may upload
+ */
+export async function getUploader() {
+  const session = await getServerAuthSession();
+  if (!session?.user?.email) return null;
+  const user = await prisma.user.findUnique({ where: { email: session.user.email }, select: { id: true, role: true } });
+  return user && isStaff(user.role) ? user : null;
+}
+
+export interface UploadClaims {
+  userId: string;
+  kind: UploadKind;
+  key: string;
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  contentType: string;
+  eventId: string | null;
+}
+
+function getSecret() {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) throw new Error("NEXTAUTH_SECRET is required to sign upload tokens");
+  return new TextEncoder().encode(secret);
+}
+
+export async function createUploadToken({ userId, ...claims }: UploadClaims): Promise<string> {
+  return new SignJWT({ ...claims })
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(userId)
+    .setAudience(UPLOAD_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(UPLOAD_EXPIRY)
+    .sign(getSecret());
+}
+
+/**
+ * @returns The upload the token was issued for, or null if it's invalid or expired
+ */
+export async function verifyUploadToken(token: string): Promise<UploadClaims | null> {
+  try {
+    const { payload } = await jwtVerify(token, getSecret(), { audience: UPLOAD_AUDIENCE });
+    if (!payload.sub || !isUploadKind(payload.kind) || typeof payload.key !== "string" || typeof payload.uploadId !== "string") {
+      return null;
+    }
+    return {
+      userId: payload.sub,
+      kind: payload.kind,
+      key: payload.key,
+      uploadId: payload.uploadId,
+      fileName: String(payload.fileName ?? ""),
+      fileSize: Number(payload.fileSize),
+      contentType: String(payload.contentType ?? ""),
+      eventId: typeof payload.eventId === "string" ? payload.eventId : null
+    };
+  } catch {
+    return null;
+  }
+}
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode.apply(null, Array.from(bytes.subarray(start, end)));
+
+// ISO base media brands (bytes 8-12, after "ftyp") for the formats we accept
+const FTYP_BRANDS: Record<string, string> = {
+  avif: "image/avif", avis: "image/avif",
+  heic: "image/heic", heix: "image/heic", hevc: "image/heic", hevx: "image/heic", heim: "image/heic", heis: "image/heic",
+  mif1: "image/heif", msf1: "image/heif",
+  "qt  ": "video/quicktime"
+};
+
+/**
+ * The media type a file's first bytes identify, for the image and video formats uploads
+ * accept; null for anything else
+ */
+export function sniffContentType(bytes: Uint8Array): string | null {
+  if (bytes.length < 12) return null;
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 4) === "PNG") return "image/png";
+  if (ascii(bytes, 0, 4) === "GIF8") return "image/gif";
+  if (ascii(bytes, 0, 4) === "RIFF") {
+    const format = ascii(bytes, 8, 12);
+    if (format === "WEBP") return "image/webp";
+    if (format === "AVI ") return "video/x-msvideo";
+    return null;
+  }
+  if (ascii(bytes, 4, 8) === "ftyp") return FTYP_BRANDS[ascii(bytes, 8, 12)] ?? "video/mp4";
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) {
+    // Matroska header; WebM declares its DocType near the start
+    return ascii(bytes, 0, Math.min(bytes.length, 64)).includes("webm") ? "video/webm" : "video/x-matroska";
+  }
+  return null;
+}
+
+/**
+ * Check a completed upload against what was declared when it started
+ * @returns The stored object's media type, or an error to show the uploader
+ */
+export async function verifyUploadedObject(claims: UploadClaims): Promise<{ contentType: string } | { error: string }> {
+  const policy = UPLOAD_POLICIES[claims.kind];
+  const storage = getStorage();
+  const size = (await storage.head(claims.key))?.size ?? 0;
+  if (size !== claims.fileSize) {
+    return { error: `Uploaded ${size} bytes but expected ${claims.fileSize}` };
+  }
+  if (!policy.types) return { contentType: claims.contentType || "application/octet-stream" };
+
+  const sniffed = sniffContentType(await storage.get(claims.key, { start: 0, end: Math.min(claims.fileSize, 4096) - 1 }));
+  if (!sniffed || !policy.types.includes(sniffed)) {
+    return { error: `File content doesn't match an allowed type (${policy.types.join(", ")})` };
+  }
+  return { contentType: sniffed };
+}
@@ -1,4 +1,5 @@
 import slugify from "slugify";
+import type { Prisma } from "@prisma/client";
 import { prisma } from "./prisma";
 
 export const createSlug = (title: string, locationName?: string) => {
@@ -14,7 +15,86 @@ export const createSlug = (title: string, locationName?: string) => {
   return slugBase;
 };
 
-export const formatDateTime = (date: Date | string) => {
+/**
+ * Build a slug with createSlug and append a counter until no other event uses it,
+ * now or as a previous slug that still redirects
+ * @param options.suffix Appended before the counter, e.g. an occurrence date for series events
+ * @param options.excludeId Event being renamed, so it doesn't collide with itself
+ * @param options.db Transaction client when called inside prisma.$transaction
+ */
+export async function generateUniqueEventSlug(
+  title: string,
+  locationName?: string | null,
+  options: { suffix?: string; excludeId?: string; db?: Prisma.TransactionClient } = {}
+): Promise<string> {
+  const db = options.db ?? prisma;
+  const base = [createSlug(title, locationName ?? undefined), options.suffix].filter(Boolean).join('-');
+  let slug = base;
+  let counter = 1;
+
+  // Ensure slug is unique by appending numbers if needed
+  while (true) {
+    const existing = await db.event.findFirst({
+      where: {
+        slug,
+        ...(options.excludeId ? { id: { not: options.excludeId } } : {})
+      },
+      select: { id: true }
+    });
+
+    const retired = existing ? null : await db.eventSlugHistory.findFirst({
+      where: {
+        slug,
+        ...(options.excludeId ? { eventId: { not: options.excludeId } } : {})
+      },
+      select: { id: true }
+    });
+
+    if (!existing && !retired) {
+      return slug;
+    }
+
+    slug = `${base}-${counter}`;
+    counter++;
+  }
+}
+
+/**
+ * Remember an event's previous slug after it changed, so links to it keep working.
+ * An event renamed back to one of its old slugs drops that slug from its history.
+ */
+export async function recordSlugChange(
+  db: Prisma.TransactionClient,
+  eventId: string,
+  previousSlug: string,
+  slug: string
+) {
+  if (previousSlug === slug) return;
+
+  await db.eventSlugHistory.deleteMany({ where: { slug } });
+  await db.eventSlugHistory.upsert({
+    where: { slug: previousSlug },
+    create: { slug: previousSlug, eventId },
+    update: { eventId }
+  });
+}
+
+/**
+ * Current slug of the event that used to be published under `slug`, if any
+ */
+export async function findRenamedEventSlug(slug: string): Promise<string | null> {
+  const previous = await prisma.eventSlugHistory.findUnique({
+    where: { slug },
+    include: { event: { select: { slug: true } } }
+  });
+  return previous?.event.slug ?? null;
+}
+
+/**
+ * Short date and time, e.g. "Fri, Oct 23, 7:00 PM PDT"
+ * @param timeZone Event's IANA timezone; omit to use the runtime's zone
+ */
+export const formatDateTime = (date: Date | string, timeZone?: string) => {
   const d = new Date(date);
   return d.toLocaleString('en-US', {
     weekday: 'short',
@@ -22,76 +102,22 @@ export const formatDateTime = (date: Date | string) => {
     day: 'numeric',
     hour: 'numeric',
     minute: '2-digit',
-    hour12: true
+    hour12: true,
+    ...(timeZone ? { timeZone, timeZoneName: 'short' as const } : {})
   });
 };
 
 /**
- * Check if we're in build time (no database connection available)
- * 
- * This detects when we're in a build environment where:
- * - DATABASE_URL contains 'build' (CI/CD build-time marker)
- * - DATABASE_URL contains 'dummy' (legacy fallback)
- * - DATABASE_URL is missing (shouldn't happen)
+ * Full date and time for event pages, e.g. "Friday, October 23, 2026 at 7:00 PM PDT"
  */
-function isBuildTime(): boolean {
-  const dbUrl = process.env.DATABASE_URL || '';
-  
-  // If DATABASE_URL is missing entirely, we're definitely in build mode
-  if (!dbUrl) {
-    return process.env.NODE_ENV === 'production';
-  }
-  
-  // Check if DATABASE_URL is a build-time marker value
-  const isBuildDb = dbUrl.includes('build') ||
-                    dbUrl.includes('dummy') || 
-                    dbUrl.includes('localhost:5432/dummy') ||
-                    dbUrl.includes('localhost:5432/build');
-  
-  return process.env.NODE_ENV === 'production' && isBuildDb;
-}
-
-/**
- * Automatically archives PUBLISHED events that have passed (startAt < today)
- * This ensures the Events Calendar only shows current and upcoming events
- * @returns The number of events that were archived
- */
-export async function autoArchivePastEvents(): Promise<number> {
-  // Skip during build time when database is not available
-  if (isBuildTime()) {
-    return 0;
-  }
-
-  try {
-    const now = new Date();
-    // Set to start of today in UTC to archive events that have already passed
-    // Database dates are stored in UTC, so we need to compare in UTC
-    const startOfTodayUTC = new Date(Date.UTC(
-      now.getUTCFullYear(),
-      now.getUTCMonth(),
-      now.getUTCDate(),
-      0, 0, 0, 0
-    ));
-    
-    const result = await prisma.event.updateMany({
-      where: {
-        status: 'PUBLISHED',
-        startAt: {
-          lt: startOfTodayUTC
-        }
-      },
-      data: {
-        status: 'ARCHIVED'
-      }
-    });
-    
-    if (result.count > 0) {
-      console.log(`[autoArchivePastEvents] Archived ${result.count} past event(s) (before ${startOfTodayUTC.toISOString()})`);
-    }
-    
-    return result.count;
-  } catch (error) {
-    console.error('[autoArchivePastEvents] Error archiving past events:', error);
-    return 0;
-  }
-}
+export const formatLongDateTime = (date: Date | string, timeZone?: string) => {
+  const d = new Date(date);
+  const options = timeZone ? { timeZone } : {};
+  const day = d.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric', ...options });
+  const time = d.toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    ...(timeZone ? { timeZone, timeZoneName: 'short' as const } : {})
+  });
+  return `${day} at ${time}`;
+};
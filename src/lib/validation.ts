@@ -1,23 +1,248 @@
 import { z } from "zod";
+import { isValidTimeZone } from "@/lib/timezone";
+import { EVENT_CATEGORY_VALUES, MAX_EVENT_TAGS, normalizeTags } from "@/lib/taxonomy";
 
 export const createEventSchema = z.object({
   title: z.string().min(3).max(140),
   description: z.string().max(4000).optional().or(z.literal("")),
   ticketUrl: z.string().url().optional().or(z.literal("")),
   buttonType: z.enum(["RSVP", "BUY_TICKETS"]),
+  category: z.enum(EVENT_CATEGORY_VALUES).optional().or(z.literal("")),
+  tags: z.array(z.string().max(40)).transform(normalizeTags)
+    .refine(tags => tags.length <= MAX_EVENT_TAGS, `At most ${MAX_EVENT_TAGS} tags`).optional(),
   locationName: z.string().max(200).optional().or(z.literal("")),
   address: z.string().max(300).optional().or(z.literal("")),
   city: z.string().max(100).optional().or(z.literal("")),
   state: z.string().max(100).optional().or(z.literal("")),
-  latitude: z.number().optional(),
-  longitude: z.number().optional(),
+  // Hand-entered coordinates; leave out to have them looked up from the location
+  latitude: z.number().nullable().optional(),
+  longitude: z.number().nullable().optional(),
+  venueId: z.string().optional().or(z.literal("")),
   startAt: z.string().min(1, "Start date is required"),
   endAt: z.string().optional().or(z.literal("")),
-  timezone: z.string(),
-  status: z.enum(["DRAFT","PUBLISHED","ARCHIVED"]),
+  // IANA zone; startAt/endAt/publishAt/unpublishAt without an offset are wall-clock times in it
+  timezone: z.string().refine(isValidTimeZone, "Unknown timezone"),
+  status: z.enum(["DRAFT","PUBLISHED","ARCHIVED","CANCELLED"]),
+  capacity: z.number().int().min(1).nullable().optional(),
+  waitlistEnabled: z.boolean().optional(),
+  access: z.enum(["PUBLIC", "MEMBERS_RSVP", "MEMBERS_ONLY", "TIERS"]).optional(),
+  // Tiers whose members may see a TIERS event; ignored for the other settings
+  tierIds: z.array(z.string()).max(20).optional(),
+  // Waivers attendees sign when they RSVP
+  waiverIds: z.array(z.string()).max(10).optional(),
+  publishAt: z.string().optional().or(z.literal("")),
+  unpublishAt: z.string().optional().or(z.literal("")),
   heroImageId: z.string().optional().or(z.literal("")),
   detailImageIds: z.array(z.string()).optional(),
   slug: z.string().optional()
 });
 
-export const updateEventSchema = createEventSchema.partial();
+export const updateEventSchema = createEventSchema.partial().extend({
+  // updatedAt as loaded by the editor, for optimistic locking; omit to overwrite unconditionally
+  expectedUpdatedAt: z.string().datetime().optional()
+});
+
+const localDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date (YYYY-MM-DD)");
+
+export const recurrenceSchema = z.object({
+  freq: z.enum(["WEEKLY", "MONTHLY", "CUSTOM"]),
+  interval: z.number().int().min(1).max(12).default(1),
+  // WEEKLY: ["TU", "TH"]; MONTHLY: ["2TU"] or ["-1FR"]; ignored for CUSTOM
+  byDay: z.array(z.string().regex(/^(-?[1-4])?(SU|MO|TU|WE|TH|FR|SA)$/)).default([]),
+  count: z.number().int().min(1).max(52).optional(),
+  until: localDate.optional().or(z.literal("")),
+  customDates: z.array(localDate).max(52).default([])
+}).refine((r) => r.freq === "CUSTOM" ? r.customDates.length > 0 : r.byDay.length > 0, {
+  message: "Pick at least one day or date for the series"
+}).superRefine((r, ctx) => {
+  // Same rules parseRRule enforces, so a mismatch is a 400 rather than a failed save
+  if (r.freq === "CUSTOM") return;
+  const ordinals = r.freq === "MONTHLY";
+  if (r.byDay.some(day => /^-?\d/.test(day) !== ordinals)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["byDay"],
+      message: ordinals ? "Monthly series need an ordinal weekday, e.g. 2TU" : "Weekly series take plain weekdays, e.g. TU"
+    });
+  }
+});
+
+export const createSeriesSchema = createEventSchema
+  .omit({ slug: true, detailImageIds: true, venueId: true, waiverIds: true })
+  .extend({ recurrence: recurrenceSchema });
+
+export const updateSeriesSchema = createSeriesSchema.partial().extend({
+  // Push template and schedule changes onto upcoming occurrences that weren't edited individually
+  applyToFuture: z.boolean().default(false)
+});
+
+export const waiverSignatureSchema = z.object({
+  waiverVersionId: z.string().min(1),
+  signerName: z.string().trim().min(1, "Type your full name to sign").max(100),
+  signatureType: z.enum(["TYPED", "DRAWN"]),
+  // PNG from the signature pad, required for DRAWN signatures
+  signatureImage: z.string().max(300_000).regex(/^data:image\/png;base64,[A-Za-z0-9+/=]+$/, "Invalid signature image").optional()
+}).refine(signature => signature.signatureType === "TYPED" || !!signature.signatureImage, {
+  message: "Draw your signature",
+  path: ["signatureImage"]
+});
+
+export const createRegistrationSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100, "Name is too long"),
+  email: z.string().email("Invalid email address"),
+  phone: z.string().max(30, "Phone number is too long").optional().or(z.literal("")),
+  // One per waiver attached to the event, for its current version
+  signatures: z.array(waiverSignatureSchema).max(10).default([])
+});
+
+export const MINIMUM_MEMBER_AGE = 21;
+
+/**
+ * Whole years between a YYYY-MM-DD birth date and `now` (UTC calendar days)
+ */
+export function getAge(dateOfBirth: string, now = new Date()): number {
+  const [year, month, day] = dateOfBirth.split("-").map(Number);
+  const hadBirthday = now.getUTCMonth() + 1 > month || (now.getUTCMonth() + 1 === month && now.getUTCDate() >= day);
+  return now.getUTCFullYear() - year - (hadBirthday ? 0 : 1);
+}
+
+// Rejects dates like 2001-02-30 that the pattern alone lets through
+const isCalendarDate = (date: string) => {
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date;
+};
+
+export const signUpSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  email: z.string().email("Invalid email address"),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+  dateOfBirth: localDate
+    .refine(date => isCalendarDate(date) && getAge(date) < 120, "Enter a valid date of birth")
+    .refine(date => getAge(date) >= MINIMUM_MEMBER_AGE, `You must be ${MINIMUM_MEMBER_AGE} or older to join`)
+});
+
+export const updateProfileSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long").optional(),
+  // Changing the password needs the current one
+  currentPassword: z.string().optional(),
+  newPassword: z.string().min(8, "Password must be at least 8 characters").max(200).optional()
+}).refine(data => !data.newPassword || !!data.currentPassword, {
+  message: "Enter your current password to set a new one",
+  path: ["currentPassword"]
+});
+
+export const updateRegistrationSchema = z.object({
+  status: z.enum(["CONFIRMED", "CANCELLED"])
+});
+
+export const duplicateEventSchema = z.object({
+  // Also copy the coordination sheets and their documents
+  includeCoordination: z.boolean().default(false)
+});
+
+export const createTemplateSchema = createEventSchema
+  .pick({
+    description: true,
+    ticketUrl: true,
+    buttonType: true,
+    category: true,
+    tags: true,
+    locationName: true,
+    address: true,
+    city: true,
+    state: true,
+    timezone: true,
+    capacity: true,
+    waitlistEnabled: true,
+    access: true,
+    tierIds: true,
+    venueId: true
+  })
+  .extend({
+    name: z.string().min(1, "Name is required").max(100),
+    title: z.string().max(140).optional().or(z.literal(""))
+  });
+
+export const createVenueSchema = z.object({
+  name: z.string().min(1, "Name is required").max(200),
+  description: z.string().max(4000).optional().or(z.literal("")),
+  address: z.string().max(300).optional().or(z.literal("")),
+  city: z.string().max(100).optional().or(z.literal("")),
+  state: z.string().max(100).optional().or(z.literal("")),
+  latitude: z.number().nullable().optional(),
+  longitude: z.number().nullable().optional(),
+  capacity: z.number().int().min(1).nullable().optional(),
+  staffParkingAddress: z.string().max(300).optional().or(z.literal("")),
+  staffParkingNotes: z.string().max(4000).optional().or(z.literal("")),
+  // Uploaded photos, in display order
+  imageIds: z.array(z.string()).optional()
+});
+
+export const updateVenueSchema = createVenueSchema.partial();
+
+export const createTierSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60),
+  description: z.string().max(1000).optional().or(z.literal("")),
+  benefits: z.array(z.string().trim().max(200)).max(20)
+    .transform(benefits => benefits.filter(Boolean)).default([]),
+  sortOrder: z.number().int().min(0).max(1000).default(0)
+});
+
+export const updateTierSchema = createTierSchema.partial();
+
+// Granting over an existing membership switches its tier; sending a later expiresAt extends it
+export const grantMembershipSchema = z.object({
+  tierId: z.string().min(1, "Pick a tier"),
+  // Last day of the membership (YYYY-MM-DD); null or "" for one that doesn't lapse
+  expiresOn: z.string().refine(isCalendarDate, "Enter a valid date").nullable().optional().or(z.literal(""))
+});
+
+export const createWaiverSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(140),
+  body: z.string().trim().min(1, "Waiver text is required").max(50_000)
+});
+
+// Changing the body publishes a new version; earlier signatures stay tied to the text they signed
+export const updateWaiverSchema = createWaiverSchema.partial().extend({
+  archived: z.boolean().optional()
+});
+
+export const surveyQuestionSchema = z.object({
+  // Answers are stored by id, so it stays the same when a question is reworded or moved
+  id: z.string().regex(/^[a-z0-9_-]{1,40}$/i),
+  type: z.enum(["RATING", "TEXT", "ATTEND_AGAIN"]),
+  label: z.string().trim().min(1, "Every question needs a label").max(200),
+  required: z.boolean().default(false)
+});
+
+export const updateSurveySchema = z.object({
+  enabled: z.boolean().optional(),
+  questions: z.array(surveyQuestionSchema).min(1, "Add at least one question").max(20)
+    .refine(questions => new Set(questions.map(question => question.id)).size === questions.length, "Question ids must be unique")
+    .optional()
+});
+
+// Checked against the survey's own questions by parseSurveyAnswers (src/lib/surveys.ts)
+export const surveyResponseSchema = z.object({
+  token: z.string().min(1),
+  answers: z.record(z.union([z.number(), z.string().max(2000), z.boolean(), z.null()]))
+});
+
+// Size and type limits per kind are checked against UPLOAD_POLICIES (src/lib/uploads.ts)
+export const startUploadSchema = z.object({
+  kind: z.enum(["image", "video", "video-thumbnail", "document"]),
+  fileName: z.string().trim().min(1).max(255),
+  fileSize: z.number().int().positive(),
+  contentType: z.string().max(255).default(""),
+  eventId: z.string().min(1).nullable().optional()
+});
+
+export const uploadPartsSchema = z.object({
+  token: z.string().min(1),
+  // Omit to get URLs for every part that hasn't been uploaded yet
+  partNumbers: z.array(z.number().int().min(1).max(10_000)).max(1000).optional()
+});
+
+export const uploadTokenSchema = z.object({
+  token: z.string().min(1)
+});
@@ -0,0 +1,47 @@
+import type { Prisma } from "@prisma/client";
+import type { z } from "zod";
+import { prisma } from "./prisma";
+import { createSlug } from "./utils";
+import type { createVenueSchema } from "./validation";
+
+type VenueInput = Partial<z.infer<typeof createVenueSchema>>;
+
+/**
+ * Slug for a venue page, with a counter appended until no other venue uses it
+ */
+export async function generateUniqueVenueSlug(name: string, excludeId?: string): Promise<string> {
+  const base = createSlug(name) || "venue";
+  let slug = base;
+  let counter = 1;
+
+  while (await prisma.venue.findFirst({
+    where: { slug, ...(excludeId ? { id: { not: excludeId } } : {}) },
+    select: { id: true }
+  })) {
+    slug = `${base}-${counter}`;
+    counter++;
+  }
+  return slug;
+}
+
+/**
+ * Venue columns from form input: empty strings are stored as null, imageIds are handled separately
+ */
+export function toVenueData(input: VenueInput) {
+  const { imageIds: _imageIds, ...fields } = input;
+  return Object.fromEntries(
+    Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, value === "" ? null : value])
+  ) as Prisma.VenueUncheckedUpdateInput;
+}
+
+/**
+ * Make `imageIds` the venue's photos, releasing any it had before
+ */
+export async function setVenueImages(tx: Prisma.TransactionClient, venueId: string, imageIds: string[]) {
+  await tx.image.updateMany({ where: { venueId, id: { notIn: imageIds } }, data: { venueId: null } });
+  if (imageIds.length > 0) {
+    await tx.image.updateMany({ where: { id: { in: imageIds } }, data: { venueId } });
+  }
+}
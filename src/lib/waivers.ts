@@ -0,0 +1,145 @@
+import type { NextRequest } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { PDFDocument, StandardFonts, rgb, type PDFFont } from "pdf-lib";
+import { prisma } from "@/lib/prisma";
+import { formatDateTime } from "@/lib/utils";
+import type { EventWaiver } from "@/types";
+
+/**
+ * The waivers attached to an event, each at its current version
+ */
+export async function getEventWaivers(eventId: string, db: Prisma.TransactionClient = prisma): Promise<EventWaiver[]> {
+  const waivers = await db.waiver.findMany({
+    where: { events: { some: { id: eventId } } },
+    include: { versions: { orderBy: { version: "desc" }, take: 1 } },
+    orderBy: { title: "asc" }
+  });
+
+  type WaiverWithVersion = (typeof waivers)[number];
+  return waivers
+    .filter((waiver: WaiverWithVersion) => waiver.versions.length > 0)
+    .map((waiver: WaiverWithVersion) => ({
+      id: waiver.id,
+      title: waiver.title,
+      versionId: waiver.versions[0].id,
+      version: waiver.versions[0].version,
+      body: waiver.versions[0].body
+    }));
+}
+
+/**
+ * Titles of the event's waivers an attendee has no signature for, on any version
+ */
+export function getUnsignedWaivers(
+  waivers: Array<{ id: string; title: string }>,
+  signatures: Array<{ waiverVersion: { waiverId: string } }>
+): string[] {
+  const signed = new Set(signatures.map(signature => signature.waiverVersion.waiverId));
+  return waivers.filter(waiver => !signed.has(waiver.id)).map(waiver => waiver.title);
+}
+
+/** The registration fields getUnsignedWaivers needs; works in a select or an include */
+export const signedWaiversInclude = {
+  waiverSignatures: { select: { waiverVersion: { select: { waiverId: true } } } }
+} satisfies Prisma.RegistrationInclude;
+
+/**
+ * The client's address as recorded with a signature; the first x-forwarded-for hop behind a proxy
+ */
+export function getClientIp(req: NextRequest): string | null {
+  const forwarded = req.headers.get("x-forwarded-for");
+  return forwarded ? forwarded.split(",")[0].trim() : req.ip ?? null;
+}
+
+interface SignedWaivers {
+  event: { title: string; startAt: Date; timezone: string };
+  attendee: { name: string; email: string };
+  signatures: Array<{
+    signerName: string;
+    signatureType: "TYPED" | "DRAWN";
+    signatureImage: string | null;
+    ipAddress: string | null;
+    signedAt: Date;
+    waiverVersion: { version: number; body: string; waiver: { title: string } };
+  }>;
+}
+
+const PAGE = { width: 612, height: 792, margin: 56 };
+
+// The standard PDF fonts only cover WinAnsi; swap anything else for "?" rather than failing
+const toWinAnsi = (text: string) => text
+  .replace(/[‘’]/g, "'")
+  .replace(/[“”]/g, '"')
+  .replace(/[–—]/g, "-")
+  .replace(/[^\n\x20-\x7E\xA0-\xFF]/g, "?");
+
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * A PDF of each waiver an attendee signed, as worded when they signed it, followed by
+ * the signature and its audit details. Each waiver starts on a new page.
+ */
+export async function renderSignedWaiversPdf({ event, attendee, signatures }: SignedWaivers): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Signed waivers - ${attendee.name} - ${event.title}`);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const maxWidth = PAGE.width - PAGE.margin * 2;
+
+  let page = pdf.addPage([PAGE.width, PAGE.height]);
+  let y = PAGE.height - PAGE.margin;
+  const newPage = () => {
+    page = pdf.addPage([PAGE.width, PAGE.height]);
+    y = PAGE.height - PAGE.margin;
+  };
+
+  const write = (text: string, { size = 10, useFont = font, gap = 4 } = {}) => {
+    for (const line of wrapText(toWinAnsi(text), useFont, size, maxWidth)) {
+      if (y - size < PAGE.margin) newPage();
+      page.drawText(line, { x: PAGE.margin, y: y - size, size, font: useFont, color: rgb(0.1, 0.1, 0.1) });
+      y -= size + gap;
+    }
+  };
+
+  for (const signature of signatures) {
+    if (signature !== signatures[0]) newPage();
+    const { waiver, version, body } = signature.waiverVersion;
+
+    write(waiver.title, { size: 16, useFont: bold, gap: 6 });
+    write(`Version ${version} - ${event.title}, ${formatDateTime(event.startAt, event.timezone)}`, { size: 9, gap: 14 });
+    write(body);
+
+    y -= 16;
+    write("Signature", { size: 12, useFont: bold, gap: 8 });
+    if (signature.signatureType === "DRAWN" && signature.signatureImage) {
+      const image = await pdf.embedPng(signature.signatureImage);
+      const scaled = image.scaleToFit(240, 90);
+      if (y - scaled.height < PAGE.margin) newPage();
+      page.drawImage(image, { x: PAGE.margin, y: y - scaled.height, width: scaled.width, height: scaled.height });
+      y -= scaled.height + 6;
+    } else {
+      write(signature.signerName, { size: 18, useFont: bold, gap: 6 });
+    }
+    write(`Signed by ${signature.signerName} (${attendee.name}, ${attendee.email})`);
+    write(`Signed at ${signature.signedAt.toISOString()}${signature.ipAddress ? ` from ${signature.ipAddress}` : ""}`);
+    write(`Signature type: ${signature.signatureType === "DRAWN" ? "drawn" : "typed name"}`);
+  }
+
+  return pdf.save();
+}
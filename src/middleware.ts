@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { authRateLimit, apiRateLimit, uploadRateLimit, contactRateLimit } from '@/lib/rate-limit';
+import { authRateLimit, apiRateLimit, uploadRateLimit, contactRateLimit, rsvpRateLimit } from '@/lib/rate-limit';
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
@@ -30,7 +30,8 @@ export async function middleware(request: NextRequest) {
     }
   }
 
-  if (pathname.startsWith('/api/upload')) {
+  // Parts and completion calls carry a token from an upload that was already counted
+  if (pathname.startsWith('/api/upload') && !pathname.startsWith('/api/upload/multipart/')) {
     const result = isDevelopment ? { success: true, limit: 1000, remaining: 999, reset: Date.now() + 60000 } : await uploadRateLimit(request);
     if (!result.success) {
       return new NextResponse(
@@ -74,6 +75,28 @@ export async function middleware(request: NextRequest) {
     }
   }
 
+  if (pathname.startsWith('/api/events/') && pathname.endsWith('/rsvp')) {
+    const result = isDevelopment ? { success: true, limit: 1000, remaining: 999, reset: Date.now() + 60000 } : await rsvpRateLimit(request);
+    if (!result.success) {
+      return new NextResponse(
+        JSON.stringify({ 
+          error: 'RSVP limit exceeded. Please try again later.',
+          retryAfter: Math.ceil((result.reset - Date.now()) / 1000)
+        }),
+        { 
+          status: 429,
+          headers: {
+            'Content-Type': 'application/json',
+            'Retry-After': Math.ceil((result.reset - Date.now()) / 1000).toString(),
+            'X-RateLimit-Limit': result.limit.toString(),
+            'X-RateLimit-Remaining': result.remaining.toString(),
+            'X-RateLimit-Reset': result.reset.toString(),
+          }
+        }
+      );
+    }
+  }
+
   if (pathname.startsWith('/api/')) {
     const result = isDevelopment ? { success: true, limit: 1000, remaining: 999, reset: Date.now() + 60000 } : await apiRateLimit(request);
     if (!result.success) {
@@ -2,7 +2,7 @@ export interface User {
   id: string;
   email: string;
   name?: string | null;
-  role: 'ADMIN' | 'ORGANIZER' | 'VIEWER';
+  role: 'ADMIN' | 'ORGANIZER' | 'VIEWER' | 'MEMBER';
   createdAt: Date;
   updatedAt: Date;
 }
@@ -20,17 +20,124 @@ export interface Event {
   state?: string | null;
   latitude?: number | null;
   longitude?: number | null;
+  venueId?: string | null;
   startAt: Date;
   endAt?: Date | null;
   timezone: string;
-  status: 'DRAFT' | 'PUBLISHED' | 'ARCHIVED';
+  status: 'DRAFT' | 'PUBLISHED' | 'ARCHIVED' | 'CANCELLED';
+  capacity?: number | null;
+  waitlistEnabled?: boolean;
+  access?: 'PUBLIC' | 'MEMBERS_RSVP' | 'MEMBERS_ONLY' | 'TIERS';
+  tierIds?: string[]; // MembershipTier ids that may see a TIERS event
+  detailsHidden?: boolean; // Restricted details were left out for this viewer
+  spotsLeft?: number | null; // Computed from confirmed registrations; null when unlimited
+  publishAt?: Date | null;
+  unpublishAt?: Date | null;
   heroImageId?: string | null;
   ownerId: string;
+  seriesId?: string | null;
+  occurrenceDate?: string | null; // Local date (YYYY-MM-DD) within the series
+  detachedFromSeries?: boolean;
   createdAt: Date;
   updatedAt: Date;
   heroImage?: Image | null;
   images?: Image[];
   owner?: User;
+  venue?: Venue | null;
+}
+
+export interface MembershipTier {
+  id: string;
+  name: string;
+  description?: string | null;
+  benefits: string[];
+  sortOrder: number;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+export interface Membership {
+  tierId: string;
+  expiresAt: Date | string | null;
+  expiresOn?: string | null; // Last day of the membership (YYYY-MM-DD); null if it doesn't lapse
+  tier?: Pick<MembershipTier, 'name'>;
+}
+
+export interface WaiverVersion {
+  id: string;
+  waiverId: string;
+  version: number;
+  body: string;
+  createdAt: Date | string;
+  _count?: { signatures: number };
+}
+
+export interface Waiver {
+  id: string;
+  title: string;
+  archived: boolean;
+  currentVersion: WaiverVersion | null;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+  _count?: { events: number };
+}
+
+// A waiver as attendees see it at RSVP: its current version's text
+export interface EventWaiver {
+  id: string;
+  title: string;
+  versionId: string;
+  version: number;
+  body: string;
+}
+
+export interface SurveyQuestion {
+  id: string;
+  type: 'RATING' | 'TEXT' | 'ATTEND_AGAIN'; // RATING is 1-5, ATTEND_AGAIN is yes/no
+  label: string;
+  required: boolean;
+}
+
+export type SurveyQuestionResult =
+  | { question: SurveyQuestion; type: 'RATING'; answered: number; average: number | null; distribution: number[] }
+  | { question: SurveyQuestion; type: 'ATTEND_AGAIN'; answered: number; yes: number; no: number }
+  | { question: SurveyQuestion; type: 'TEXT'; answered: number; answers: string[] };
+
+export interface Venue {
+  id: string;
+  slug: string;
+  name: string;
+  description?: string | null;
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  capacity?: number | null;
+  staffParkingAddress?: string | null;
+  staffParkingNotes?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  images?: Image[];
+}
+
+export interface Registration {
+  id: string;
+  eventId: string;
+  name: string;
+  email: string;
+  phone?: string | null;
+  status: 'CONFIRMED' | 'WAITLISTED' | 'CANCELLED';
+  waitlistedAt?: Date | string | null;
+  promotedAt?: Date | string | null;
+  cancelledAt?: Date | string | null;
+  checkedInAt?: Date | string | null;
+  checkedInById?: string | null;
+  // Titles of the event's waivers this attendee hasn't signed, when listed for organizers
+  unsignedWaivers?: string[];
+  hasSignedWaivers?: boolean;
+  createdAt: Date | string;
+  updatedAt: Date | string;
 }
 
 export interface Image {
@@ -42,6 +149,8 @@ export interface Image {
   width: number;
   height: number;
   variants: ImageVariants;
+  status?: 'PROCESSING' | 'READY' | 'FAILED';
+  processingError?: string | null;
   createdAt: Date;
   updatedAt: Date;
   event?: Event | null;
@@ -56,6 +165,9 @@ export interface ImageVariants {
   original: ImageVariant;
 }
 
+/** What a direct-to-storage upload is for; decides its size limit, allowed types and key (src/lib/uploads.ts) */
+export type UploadKind = 'image' | 'video' | 'video-thumbnail' | 'document';
+
 export interface ImageVariant {
   width: number;
   height: number;